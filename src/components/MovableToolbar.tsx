@@ -1,11 +1,15 @@
 
 import React from 'react';
 import { Card } from '@/components/ui/card';
-import { Pen, Eraser, Highlighter, Undo, Redo, MousePointer2 } from 'lucide-react';
-import { Tool } from '@/types/whiteboard';
+import { Pen, Eraser, Highlighter, Undo, Redo, MousePointer2, Type, Zap } from 'lucide-react';
+import { Tool, ShapeSettings, TextSettings, EraserMode, SelectionMode, BoardBackground } from '@/types/whiteboard';
 import { useToolbarDrag } from '@/hooks/useToolbarDrag';
 import { ToolDropdown } from './toolbar/ToolDropdown';
 import { ToolButton } from './toolbar/ToolButton';
+import { ShapeDropdown } from './toolbar/ShapeDropdown';
+import { EraserDropdown } from './toolbar/EraserDropdown';
+import { SelectDropdown } from './toolbar/SelectDropdown';
+import { BackgroundDropdown } from './toolbar/BackgroundDropdown';
 
 interface MovableToolbarProps {
   currentTool: Tool;
@@ -13,6 +17,12 @@ interface MovableToolbarProps {
   currentStrokeColor?: string;
   pencilSettings?: { color: string; strokeWidth: number };
   highlighterSettings?: { color: string; strokeWidth: number };
+  shapeSettings?: ShapeSettings;
+  textSettings?: TextSettings;
+  eraserMode?: EraserMode;
+  selectionMode?: SelectionMode;
+  hasLaserPointer?: boolean;
+  background?: BoardBackground;
   canUndo: boolean;
   canRedo: boolean;
   onToolChange: (tool: Tool) => void;
@@ -20,6 +30,11 @@ interface MovableToolbarProps {
   onStrokeColorChange?: (color: string) => void;
   onPencilColorChange?: (color: string) => void;
   onHighlighterColorChange?: (color: string) => void;
+  onShapeSettingsChange?: (updates: Partial<ShapeSettings>) => void;
+  onTextSettingsChange?: (updates: Partial<TextSettings>) => void;
+  onEraserModeChange?: (mode: EraserMode) => void;
+  onSelectionModeChange?: (mode: SelectionMode) => void;
+  onBackgroundChange?: (background: BoardBackground) => void;
   onUndo: () => void;
   onRedo: () => void;
   isReadOnly?: boolean;
@@ -34,6 +49,12 @@ const MovableToolbar: React.FC<MovableToolbarProps> = ({
   currentStrokeColor = '#000000',
   pencilSettings = { color: '#000000', strokeWidth: 5 },
   highlighterSettings = { color: '#FFFF00', strokeWidth: 12 },
+  shapeSettings,
+  textSettings,
+  eraserMode,
+  selectionMode,
+  hasLaserPointer = false,
+  background,
   canUndo,
   canRedo,
   onToolChange,
@@ -41,6 +62,11 @@ const MovableToolbar: React.FC<MovableToolbarProps> = ({
   onStrokeColorChange,
   onPencilColorChange,
   onHighlighterColorChange,
+  onShapeSettingsChange,
+  onTextSettingsChange,
+  onEraserModeChange,
+  onSelectionModeChange,
+  onBackgroundChange,
   onUndo,
   onRedo,
   isReadOnly = false,
@@ -114,23 +140,100 @@ const MovableToolbar: React.FC<MovableToolbarProps> = ({
             onToolSelect={() => onToolChange('highlighter')}
             onStrokeWidthChange={onStrokeWidthChange}
             onColorChange={(color) => onHighlighterColorChange?.(color)}
+            showOpacity
             isReadOnly={isReadOnly}
             portalContainer={portalContainer}
           />
+
+          {/* Shape tool with dropdown, only on boards that support shapes */}
+          {shapeSettings && onShapeSettingsChange && (
+            <ShapeDropdown
+              isActive={currentTool === 'shape'}
+              settings={shapeSettings}
+              colors={pencilColors}
+              onToolSelect={() => onToolChange('shape')}
+              onSettingsChange={onShapeSettingsChange}
+              isReadOnly={isReadOnly}
+              portalContainer={portalContainer}
+            />
+          )}
+
+          {/* Text tool with dropdown, the slider sets the font size */}
+          {textSettings && onTextSettingsChange && (
+            <ToolDropdown
+              icon={<Type className="h-4 w-4" />}
+              isActive={currentTool === 'text'}
+              strokeWidth={textSettings.fontSize}
+              color={textSettings.color}
+              colors={pencilColors}
+              minStrokeWidth={12}
+              maxStrokeWidth={72}
+              strokeWidthStep={2}
+              onToolSelect={() => onToolChange('text')}
+              onStrokeWidthChange={(fontSize) => onTextSettingsChange({ fontSize })}
+              onColorChange={(color) => onTextSettingsChange({ color })}
+              isReadOnly={isReadOnly}
+              portalContainer={portalContainer}
+            />
+          )}
           
-          <ToolButton
-            icon={<Eraser className="h-4 w-4" />}
-            isActive={currentTool === 'eraser'}
-            onClick={() => onToolChange('eraser')}
-            isReadOnly={isReadOnly}
-          />
+          {/* Eraser with a mode dropdown, only on boards that sync partial erasing */}
+          {eraserMode && onEraserModeChange ? (
+            <EraserDropdown
+              isActive={currentTool === 'eraser'}
+              mode={eraserMode}
+              onToolSelect={() => onToolChange('eraser')}
+              onModeChange={onEraserModeChange}
+              isReadOnly={isReadOnly}
+              portalContainer={portalContainer}
+            />
+          ) : (
+            <ToolButton
+              icon={<Eraser className="h-4 w-4" />}
+              isActive={currentTool === 'eraser'}
+              onClick={() => onToolChange('eraser')}
+              isReadOnly={isReadOnly}
+            />
+          )}
           
-          <ToolButton
-            icon={<MousePointer2 className="h-4 w-4" />}
-            isActive={currentTool === 'select2'}
-            onClick={() => onToolChange('select2')}
-            isReadOnly={isReadOnly}
-          />
+          {/* Laser pointer, only on shared boards where others can see it */}
+          {hasLaserPointer && (
+            <ToolButton
+              icon={<Zap className="h-4 w-4" />}
+              isActive={currentTool === 'laser'}
+              onClick={() => onToolChange('laser')}
+              isReadOnly={isReadOnly}
+            />
+          )}
+
+          {/* Select with a rectangle/lasso dropdown where the board supports choosing */}
+          {selectionMode && onSelectionModeChange ? (
+            <SelectDropdown
+              isActive={currentTool === 'select2'}
+              mode={selectionMode}
+              onToolSelect={() => onToolChange('select2')}
+              onModeChange={onSelectionModeChange}
+              isReadOnly={isReadOnly}
+              portalContainer={portalContainer}
+            />
+          ) : (
+            <ToolButton
+              icon={<MousePointer2 className="h-4 w-4" />}
+              isActive={currentTool === 'select2'}
+              onClick={() => onToolChange('select2')}
+              isReadOnly={isReadOnly}
+            />
+          )}
+
+          {/* Board background, only for users who may choose it for everyone */}
+          {background && onBackgroundChange && (
+            <BackgroundDropdown
+              background={background}
+              onBackgroundChange={onBackgroundChange}
+              isReadOnly={isReadOnly}
+              portalContainer={portalContainer}
+            />
+          )}
 
           {/* Separator */}
           <div className="w-px h-6 bg-gray-600 mx-1" />
@@ -3,7 +3,7 @@ import React, { useEffect, useCallback, useRef } from 'react';
 import WhiteboardCanvas from './WhiteboardCanvas';
 import MovableToolbar from './MovableToolbar';
 import { useSharedWhiteboardState } from '@/hooks/useSharedWhiteboardState';
-import { SyncConfig } from '@/types/sync';
+import { SyncConfig, SyncStatus } from '@/types/sync';
 import { ActivityMetadata } from '@/types/whiteboard';
 import { createDebugLogger, logError } from '@/utils/debug/debugConfig';
 
@@ -11,16 +11,18 @@ const debugLog = createDebugLogger('sync');
 
 interface SyncWhiteboardProps {
   syncConfig?: SyncConfig;
+  canChooseBackground?: boolean;
   width: number;
   height: number;
   portalContainer?: Element | null;
-  onSyncStateChange?: (syncState: { isConnected: boolean; isReceiveOnly: boolean } | null) => void;
+  onSyncStateChange?: (syncState: SyncStatus | null) => void;
   onLastActivityUpdate?: (activity: ActivityMetadata | null) => void;
   onCenterCallbackUpdate?: (callback: (bounds: any) => void) => void;
 }
 
 export const SyncWhiteboard: React.FC<SyncWhiteboardProps> = ({
   syncConfig,
+  canChooseBackground = false,
   width,
   height,
   portalContainer,
@@ -78,7 +80,8 @@ export const SyncWhiteboard: React.FC<SyncWhiteboardProps> = ({
     if (onSyncStateChange) {
       const newSyncState = syncConfig ? {
         isConnected: syncState?.isConnected || false,
-        isReceiveOnly: syncState?.isReceiveOnly || false
+        isReceiveOnly: syncState?.isReceiveOnly || false,
+        pendingOperations: syncState?.pendingOperations || { pending: 0, failed: 0, rejected: 0 }
       } : null;
       
       const syncStateChanged = JSON.stringify(newSyncState) !== JSON.stringify(prevSyncStateRef.current);
@@ -111,6 +114,7 @@ export const SyncWhiteboard: React.FC<SyncWhiteboardProps> = ({
   }, [
     syncState?.isConnected, 
     syncState?.isReceiveOnly, 
+    syncState?.pendingOperations, 
     lastActivity?.timestamp, // Only depend on timestamp to reduce re-renders
     centerOnLastActivity, 
     onSyncStateChange, 
@@ -157,6 +161,12 @@ export const SyncWhiteboard: React.FC<SyncWhiteboardProps> = ({
           currentStrokeColor={whiteboardState.state.currentColor}
           pencilSettings={whiteboardState.state.pencilSettings}
           highlighterSettings={whiteboardState.state.highlighterSettings}
+          shapeSettings={whiteboardState.state.shapeSettings}
+          textSettings={whiteboardState.state.textSettings}
+          eraserMode={whiteboardState.state.eraserMode}
+          selectionMode={whiteboardState.state.selectionMode}
+          hasLaserPointer
+          background={canChooseBackground ? whiteboardState.state.background : undefined}
           canUndo={whiteboardState.canUndo}
           canRedo={whiteboardState.canRedo}
           onToolChange={whiteboardState.setTool}
@@ -164,6 +174,11 @@ export const SyncWhiteboard: React.FC<SyncWhiteboardProps> = ({
           onStrokeColorChange={whiteboardState.setColor}
           onPencilColorChange={whiteboardState.setPencilColor}
           onHighlighterColorChange={whiteboardState.setHighlighterColor}
+          onShapeSettingsChange={whiteboardState.setShapeSettings}
+          onTextSettingsChange={whiteboardState.setTextSettings}
+          onEraserModeChange={whiteboardState.setEraserMode}
+          onSelectionModeChange={whiteboardState.setSelectionMode}
+          onBackgroundChange={canChooseBackground ? whiteboardState.setBackground : undefined}
           onUndo={whiteboardState.undo}
           onRedo={whiteboardState.redo}
           isReadOnly={isReadOnly}
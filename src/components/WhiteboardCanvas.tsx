@@ -30,7 +30,8 @@ const WhiteboardCanvas: React.FC<WhiteboardCanvasProps> = ({
   const isDrawing = whiteboardState.state.isDrawing || false;
   const isDrawingTool = whiteboardState.state.currentTool === 'pencil' || 
                        whiteboardState.state.currentTool === 'highlighter' || 
-                       whiteboardState.state.currentTool === 'eraser';
+                       whiteboardState.state.currentTool === 'eraser' || 
+                       whiteboardState.state.currentTool === 'shape';
 
   // Apply stricter CSS classes during drawing
   const canvasClasses = `relative w-full h-full bg-white rounded-lg overflow-hidden select-none ${
@@ -11,6 +11,7 @@ import { useEyeButtonLogic } from '@/hooks/whiteboard/useEyeButtonLogic';
 import { useSyncConfiguration } from '@/hooks/whiteboard/useSyncConfiguration';
 import { logError } from '@/utils/debug/debugConfig';
 import { SessionParticipant, SyncDirection } from '@/types/student';
+import { SyncStatus } from '@/types/sync';
 
 interface WhiteboardPlaceholderProps {
   id: string;
@@ -54,7 +55,7 @@ const WhiteboardPlaceholder: React.FC<WhiteboardPlaceholderProps> = ({
   studentName,
   gridOrientation
 }) => {
-  const [syncState, setSyncState] = useState<{ isConnected: boolean; isReceiveOnly: boolean } | null>(null);
+  const [syncState, setSyncState] = useState<SyncStatus | null>(null);
   
   // Guard against invalid id prop
   if (!id || typeof id !== 'string') {
@@ -110,6 +111,7 @@ const WhiteboardPlaceholder: React.FC<WhiteboardPlaceholderProps> = ({
         whiteboardWidth={whiteboardWidth}
         whiteboardHeight={whiteboardHeight}
         syncConfig={syncConfig}
+        canChooseBackground={userRole === 'teacher'}
         portalContainer={portalContainer}
         hasLastActivity={hasLastActivity}
         syncState={syncState}
@@ -155,6 +157,7 @@ const WhiteboardPlaceholder: React.FC<WhiteboardPlaceholderProps> = ({
         whiteboardWidth={whiteboardWidth}
         whiteboardHeight={whiteboardHeight}
         syncConfig={syncConfig}
+        canChooseBackground={userRole === 'teacher'}
         id={id}
         portalContainer={portalContainer}
         onSyncStateChange={setSyncState}
@@ -2,16 +2,20 @@
 import React from 'react';
 import ImageRenderer from './ImageRenderer';
 import { useWhiteboardState } from '@/hooks/useWhiteboardState';
+import { ImageObject } from '@/types/whiteboard';
 
 interface KonvaImageOperationsHandlerProps {
   whiteboardState: ReturnType<typeof useWhiteboardState>;
   whiteboardId?: string;
+  // Images to draw, all board images when unset; the ordered scene draws them one at a time
+  images?: ImageObject[];
   onImageContextMenu?: (imageId: string, x: number, y: number) => void;
 }
 
 const KonvaImageOperationsHandler: React.FC<KonvaImageOperationsHandlerProps> = ({
   whiteboardState,
   whiteboardId,
+  images,
   onImageContextMenu
 }) => {
   const { state, selection, updateImage, addToHistory } = whiteboardState;
@@ -35,7 +39,7 @@ const KonvaImageOperationsHandler: React.FC<KonvaImageOperationsHandlerProps> =
 
   return (
     <>
-      {state.images?.map((image) => {
+      {(images || state.images)?.map((image) => {
         // NOTE: Original isObjectSelected function removed - using fallback
         const selectionWithIsSelected = selection as any;
         const isSelected = selectionWithIsSelected?.isObjectSelected?.(image.id) || false;
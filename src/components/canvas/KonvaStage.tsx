@@ -1,17 +1,26 @@
 import React, { useRef, useEffect, useCallback } from 'react';
 import Konva from 'konva';
 import { useWhiteboardState } from '@/hooks/useWhiteboardState';
+import { LineObject, ShapeObject, TextObject, SelectedObject, ObjectUpdates } from '@/types/whiteboard';
 import { useNormalizedWhiteboardState } from '@/hooks/performance/useNormalizedWhiteboardState';
 import { usePalmRejection } from '@/hooks/usePalmRejection';
 import { useStageEventHandlers } from '@/hooks/useStageEventHandlers';
 import { useKonvaKeyboardHandlers } from '@/hooks/canvas/useKonvaKeyboardHandlers';
 import { useKonvaPanZoomSync } from '@/hooks/canvas/useKonvaPanZoomSync';
+import { useKonvaCursorTracking } from '@/hooks/canvas/useKonvaCursorTracking';
+import { RemoteCursor } from '@/hooks/shared/usePresenceCursors';
+import { LaserTrail } from '@/hooks/shared/useLaserPointer';
 import KonvaStageCanvas from './KonvaStageCanvas';
 import KonvaImageContextMenuHandler from './KonvaImageContextMenuHandler';
 import KonvaImageOperationsHandler from './KonvaImageOperationsHandler';
 import { Select2Renderer } from './Select2Renderer';
 import SelectionGroup from './SelectionGroup';
+import TextEditorOverlay from './TextEditorOverlay';
 import Select2ContextMenuHandler from './Select2ContextMenuHandler';
+import { isPointOnText } from '@/utils/textGeometry';
+import { getSelectedGroupIds, isSingleGroup } from '@/utils/objectGroups';
+import { ReorderDirection } from '@/utils/sceneOrder';
+import { countAlignUnits, getAlignmentUpdates, getDistributionUpdates } from '@/utils/objectAlignment';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('toolSync');
@@ -67,11 +76,68 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
     ? whiteboardState.whiteboardId 
     : 'default';
 
+  // Strokes other users are still drawing (shared whiteboards only)
+  const provisionalLines: LineObject[] = 'provisionalLines' in whiteboardState && Array.isArray(whiteboardState.provisionalLines)
+    ? whiteboardState.provisionalLines
+    : [];
+
+  // Presence cursors (shared whiteboards only)
+  const remoteCursors: RemoteCursor[] = 'remoteCursors' in whiteboardState && Array.isArray(whiteboardState.remoteCursors)
+    ? whiteboardState.remoteCursors
+    : [];
+  const updateCursor = 'updateCursor' in whiteboardState && typeof whiteboardState.updateCursor === 'function'
+    ? whiteboardState.updateCursor as (x: number, y: number) => void
+    : undefined;
+  const hideCursor = 'hideCursor' in whiteboardState && typeof whiteboardState.hideCursor === 'function'
+    ? whiteboardState.hideCursor as () => void
+    : undefined;
+
+  // Laser pointer trails (shared whiteboards only)
+  const laserTrails: LaserTrail[] = 'laserTrails' in whiteboardState && Array.isArray(whiteboardState.laserTrails)
+    ? whiteboardState.laserTrails
+    : [];
+
+  // Shape updates from select2 (shared whiteboards only)
+  const updateShape = 'updateShape' in whiteboardState && typeof whiteboardState.updateShape === 'function'
+    ? whiteboardState.updateShape as (shapeId: string, updates: Partial<ShapeObject>) => void
+    : undefined;
+
+  // Text box editing (shared whiteboards only)
+  const updateText = 'updateText' in whiteboardState && typeof whiteboardState.updateText === 'function'
+    ? whiteboardState.updateText as (textId: string, updates: Partial<TextObject>) => void
+    : undefined;
+  const editText = 'editText' in whiteboardState && typeof whiteboardState.editText === 'function'
+    ? whiteboardState.editText as (textId: string) => void
+    : undefined;
+  const commitText = 'commitText' in whiteboardState && typeof whiteboardState.commitText === 'function'
+    ? whiteboardState.commitText as (textId: string, content: string) => void
+    : undefined;
+  const texts: TextObject[] = state.texts;
+
+  // Object grouping (shared whiteboards only)
+  const groupObjects = 'groupObjects' in whiteboardState && typeof whiteboardState.groupObjects === 'function'
+    ? whiteboardState.groupObjects as (selectedObjects: SelectedObject[]) => void
+    : undefined;
+  const ungroupObjects = 'ungroupObjects' in whiteboardState && typeof whiteboardState.ungroupObjects === 'function'
+    ? whiteboardState.ungroupObjects as (selectedObjects: SelectedObject[]) => void
+    : undefined;
+
+  // Stacking order (shared whiteboards only)
+  const reorderObjects = 'reorderObjects' in whiteboardState && typeof whiteboardState.reorderObjects === 'function'
+    ? whiteboardState.reorderObjects as (selectedObjects: SelectedObject[], direction: ReorderDirection) => void
+    : undefined;
+
+  // Batched updates for align and distribute (shared whiteboards only)
+  const updateObjects = 'updateObjects' in whiteboardState && typeof whiteboardState.updateObjects === 'function'
+    ? whiteboardState.updateObjects as (objectUpdates: ObjectUpdates) => void
+    : undefined;
+  const editingText = state.editingTextId ? texts.find(text => text.id === state.editingTextId) : undefined;
+
   const palmRejection = usePalmRejection(palmRejectionConfig);
 
   // Check if currently drawing
   const isDrawing = state.isDrawing || false;
-  const isDrawingTool = state.currentTool === 'pencil' || state.currentTool === 'highlighter' || state.currentTool === 'eraser';
+  const isDrawingTool = state.currentTool === 'pencil' || state.currentTool === 'highlighter' || state.currentTool === 'eraser' || state.currentTool === 'shape';
 
   // Dynamic touch-action based on drawing state
   const touchAction = React.useMemo(() => {
@@ -97,9 +163,17 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
     currentTool: state.currentTool
   });
 
+  useKonvaCursorTracking({
+    containerRef,
+    stageRef,
+    panZoomState: state.panZoomState,
+    onCursorMove: isReadOnly ? undefined : updateCursor,
+    onCursorLeave: hideCursor
+  });
+
   // Determine the correct delete functions to use
   // Create unified delete function that works for both select and select2 tools
-  const unifiedDeleteFunction = useCallback((selectedObjects?: Array<{id: string, type: 'line' | 'image'}>) => {
+  const unifiedDeleteFunction = useCallback((selectedObjects?: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => {
     // Use provided objects or get from selection state
     const objectsToDelete = selectedObjects || selection?.selectionState?.selectedObjects;
     
@@ -144,11 +218,16 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
     handlePointerUp,
     isReadOnly,
     currentTool: state.currentTool,
+    selectionMode: state.selectionMode,
     lines: state.lines,
     images: state.images,
+    shapes: state.shapes,
+    texts,
     // Pass update functions for select2 object movement
     onUpdateLine: updateLine,
     onUpdateImage: 'updateImage' in whiteboardState && whiteboardState.updateImage ? whiteboardState.updateImage : undefined,
+    onUpdateShape: updateShape,
+    onUpdateText: updateText,
     // Pass unified delete function
     onDeleteObjects: unifiedDeleteFunction,
     mainSelection: selection // Pass main selection state for integration
@@ -166,11 +245,36 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
       select2State: stageEventHandlers.select2State,
       deleteSelectedObjects: stageEventHandlers.deleteSelectedObjects || (() => {}),
       clearSelection: stageEventHandlers.clearSelect2Selection || (() => {}),
-      selectAll: stageEventHandlers.selectAll || (() => {})
+      selectAll: stageEventHandlers.selectAll || (() => {}),
+      selectObjects: stageEventHandlers.selectObjects || (() => {})
     } : undefined
   });
 
+  // Group and ungroup are offered when they would change anything
+  const select2SelectedObjects: SelectedObject[] = stageEventHandlers?.select2State?.selectedObjects || [];
+  const canGroup = !!groupObjects && select2SelectedObjects.length > 1 && !isSingleGroup(select2SelectedObjects, state);
+  const canUngroup = !!ungroupObjects && getSelectedGroupIds(select2SelectedObjects, state).length > 0;
+  const alignUnitCount = updateObjects && select2SelectedObjects.length > 1 ? countAlignUnits(select2SelectedObjects, state) : 0;
+
+  // Double-clicking a text box with select2 opens it for editing
+  const handleDoubleClick = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
+    if (isReadOnly || !editText || state.currentTool !== 'select2') return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const { x, y, scale } = state.panZoomState;
+    const point = {
+      x: (e.clientX - rect.left - x) / scale,
+      y: (e.clientY - rect.top - y) / scale
+    };
+    const hitText = [...texts].reverse().find(text => isPointOnText(point, text));
+    if (hitText) {
+      stageEventHandlers.clearSelect2Selection?.();
+      editText(hitText.id);
+    }
+  }, [isReadOnly, editText, state.currentTool, state.panZoomState, texts, stageEventHandlers]);
+
   return (
+    <>
     <div 
       ref={containerRef} 
       className="w-full h-full select-none outline-none drawing-background" 
@@ -183,6 +287,7 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
       }}
       tabIndex={0}
       data-whiteboard-id={whiteboardId}
+      onDoubleClick={handleDoubleClick}
     >
       <Select2ContextMenuHandler
         selectedObjects={stageEventHandlers?.select2State?.selectedObjects || []}
@@ -219,6 +324,15 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
             }
           });
         }}
+        onGroupObjects={canGroup ? () => groupObjects?.(select2SelectedObjects) : undefined}
+        onUngroupObjects={canUngroup ? () => ungroupObjects?.(select2SelectedObjects) : undefined}
+        onReorderObjects={reorderObjects ? (direction) => reorderObjects(select2SelectedObjects, direction) : undefined}
+        onAlignObjects={alignUnitCount >= 2
+          ? (mode) => updateObjects?.(getAlignmentUpdates(select2SelectedObjects, state, mode))
+          : undefined}
+        onDistributeObjects={alignUnitCount >= 3
+          ? (axis) => updateObjects?.(getDistributionUpdates(select2SelectedObjects, state, axis))
+          : undefined}
         onHideContextMenu={() => {
           if (stageEventHandlers?.select2MouseHandlers?.hideContextMenu) {
             stageEventHandlers.select2MouseHandlers.hideContextMenu();
@@ -240,7 +354,14 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
           stageRef={stageRef}
           layerRef={layerRef}
           lines={state.lines}
+          provisionalLines={provisionalLines}
+          remoteCursors={remoteCursors}
+          laserTrails={laserTrails}
           images={state.images}
+          shapes={state.shapes}
+          texts={texts}
+          background={state.background}
+          editingTextId={state.editingTextId}
           currentTool={state.currentTool}
           panZoomState={state.panZoomState}
           palmRejectionConfig={palmRejectionConfig}
@@ -263,29 +384,30 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
           isSelecting={selection?.selectionState?.isSelecting || false}
           selection={selection}
           onUpdateLine={updateLine}
-          onUpdateImage={(imageId, updates) => {
-            if ('updateImage' in whiteboardState && whiteboardState.updateImage) {
-              whiteboardState.updateImage(imageId, updates);
-            }
-          }}
           normalizedState={normalizedState}
           select2MouseHandlers={state.currentTool === 'select2' && stageEventHandlers ? stageEventHandlers.select2MouseHandlers : undefined}
+          renderImage={(image) => (
+            <KonvaImageOperationsHandler
+              whiteboardState={whiteboardState}
+              whiteboardId={whiteboardId}
+              images={[image]}
+            />
+          )}
           extraContent={
             <>
-              <KonvaImageOperationsHandler
-                whiteboardState={whiteboardState}
-                whiteboardId={whiteboardId}
-              />
               {/* Select2 overlay when select2 tool is active */}
               {state.currentTool === 'select2' && stageEventHandlers && (
                 <Select2Renderer
                   selectedObjects={stageEventHandlers.select2State?.selectedObjects || []}
                   hoveredObjectId={stageEventHandlers.select2State?.hoveredObjectId || null}
                   selectionBounds={stageEventHandlers.select2State?.selectionBounds || null}
+                  lassoPoints={stageEventHandlers.select2State?.lassoPoints || null}
                   isSelecting={stageEventHandlers.select2State?.isSelecting || false}
                   groupBounds={stageEventHandlers.select2State?.groupBounds || null}
                   lines={state.lines}
                   images={state.images}
+                  shapes={state.shapes}
+                  texts={texts}
                   dragOffset={stageEventHandlers.select2State?.dragOffset || null}
                   isDraggingObjects={stageEventHandlers.select2State?.isDraggingObjects || false}
                   isTransforming={stageEventHandlers.select2State?.isTransforming || false}
@@ -303,6 +425,8 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
                   selectedObjects={stageEventHandlers.select2State.selectedObjects}
                   lines={state.lines}
                   images={state.images}
+                  shapes={state.shapes}
+                  texts={texts}
                   onUpdateLine={updateLine}
                   onUpdateImage={(imageId, updates) => {
                     if ('updateImage' in whiteboardState && whiteboardState.updateImage) {
@@ -319,6 +443,16 @@ const KonvaStage: React.FC<KonvaStageProps> = ({
       </KonvaImageContextMenuHandler>
       </Select2ContextMenuHandler>
     </div>
+    {/* In-place text editor, outside the container so typing doesn't reach the stage handlers */}
+    {editingText && commitText && !isReadOnly && (
+      <TextEditorOverlay
+        key={editingText.id}
+        text={editingText}
+        panZoomState={state.panZoomState}
+        onCommit={commitText}
+      />
+    )}
+    </>
   );
 };
 
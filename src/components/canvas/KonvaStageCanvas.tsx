@@ -2,13 +2,18 @@
 import React from 'react';
 import { Stage } from 'react-konva';
 import Konva from 'konva';
-import { PanZoomState, Tool, SelectionBounds } from '@/types/whiteboard';
+import { PanZoomState, Tool, SelectionBounds, LineObject, ImageObject, ShapeObject, TextObject, BoardBackground } from '@/types/whiteboard';
 import { useNormalizedWhiteboardState } from '@/hooks/performance/useNormalizedWhiteboardState';
 import { useMouseEventHandlers } from './hooks/useMouseEventHandlers';
 import { useTouchEventHandlers } from './hooks/useTouchEventHandlers';
 import { useStageCursor } from './hooks/useStageCursor';
-import ImagesLayer from './layers/ImagesLayer';
-import LinesLayer from './layers/LinesLayer';
+import BackgroundLayer from './layers/BackgroundLayer';
+import SceneLayer from './layers/SceneLayer';
+import OverlayLayer from './layers/OverlayLayer';
+import CursorsLayer from './layers/CursorsLayer';
+import LaserLayer from './layers/LaserLayer';
+import { RemoteCursor } from '@/hooks/shared/usePresenceCursors';
+import { LaserTrail } from '@/hooks/shared/useLaserPointer';
 
 interface KonvaStageCanvasProps {
   width: number;
@@ -16,7 +21,14 @@ interface KonvaStageCanvasProps {
   stageRef: React.RefObject<Konva.Stage>;
   layerRef: React.RefObject<Konva.Layer>;
   lines: any[];
+  provisionalLines?: LineObject[];
+  remoteCursors?: RemoteCursor[];
+  laserTrails?: LaserTrail[];
   images?: any[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
+  background?: BoardBackground;
+  editingTextId?: string | null;
   currentTool: Tool;
   panZoomState: PanZoomState;
   palmRejectionConfig: {
@@ -32,12 +44,12 @@ interface KonvaStageCanvasProps {
   handlePointerUp: () => void;
   isReadOnly: boolean;
   onStageClick?: (e: Konva.KonvaEventObject<MouseEvent | TouchEvent>) => void;
+  renderImage?: (image: ImageObject) => React.ReactNode;
   extraContent?: React.ReactNode;
   selectionBounds?: SelectionBounds | null;
   isSelecting?: boolean;
   selection?: any;
   onUpdateLine?: (lineId: string, updates: any) => void;
-  onUpdateImage?: (imageId: string, updates: any) => void;
   
   normalizedState?: ReturnType<typeof useNormalizedWhiteboardState>;
   select2MouseHandlers?: {
@@ -53,7 +65,14 @@ const KonvaStageCanvas: React.FC<KonvaStageCanvasProps> = ({
   stageRef,
   layerRef,
   lines,
+  provisionalLines,
+  remoteCursors = [],
+  laserTrails = [],
   images = [],
+  shapes = [],
+  texts = [],
+  background = 'none',
+  editingTextId = null,
   currentTool,
   panZoomState,
   palmRejectionConfig,
@@ -63,12 +82,12 @@ const KonvaStageCanvas: React.FC<KonvaStageCanvasProps> = ({
   handlePointerUp,
   isReadOnly,
   onStageClick,
+  renderImage,
   extraContent,
   selectionBounds,
   isSelecting = false,
   selection,
   onUpdateLine,
-  onUpdateImage,
   
   normalizedState,
   select2MouseHandlers
@@ -116,24 +135,37 @@ const KonvaStageCanvas: React.FC<KonvaStageCanvasProps> = ({
       onTouchStart={handleTouchStart}
       style={{ cursor }}
     >
-      {/* Images layer - rendered first (behind) */}
-      <ImagesLayer extraContent={extraContent} />
-      
-      {/* Lines layer - rendered second (on top) */}
-      <LinesLayer
+      {/* Paper pattern - behind all content */}
+      <BackgroundLayer background={background} width={width} height={height} panZoomState={panZoomState} />
+
+      {/* Lines, images, shapes and text boxes in stacking order */}
+      <SceneLayer
         layerRef={layerRef}
         lines={lines}
+        provisionalLines={provisionalLines}
         images={images}
+        shapes={shapes}
+        texts={texts}
+        renderImage={renderImage}
+        editingTextId={editingTextId}
         currentTool={currentTool}
         selectionBounds={selectionBounds}
         isSelecting={isSelecting}
         selection={selection}
         normalizedState={normalizedState}
         onUpdateLine={onUpdateLine}
-        onUpdateImage={onUpdateImage}
         
         stageRef={stageRef} // Pass stageRef for viewport calculations
       />
+
+      {/* Selection overlays - above the scene */}
+      <OverlayLayer extraContent={extraContent} />
+
+      {/* Laser pointer trails - above content, below cursors */}
+      <LaserLayer trails={laserTrails} zoom={panZoomState.scale} />
+
+      {/* Presence cursors - rendered last (on top of everything) */}
+      <CursorsLayer cursors={remoteCursors} zoom={panZoomState.scale} />
     </Stage>
   );
 };
@@ -1,8 +1,9 @@
 
 import React, { useRef, useEffect } from 'react';
-import { Line } from 'react-konva';
+import { Line, Shape } from 'react-konva';
 import { LineObject } from '@/types/whiteboard';
 import Konva from 'konva';
+import { hasPressure, tracePressureStroke } from '@/utils/pressureStroke';
 
 interface LineRendererProps {
   line: LineObject;
@@ -32,6 +33,31 @@ const LineRenderer: React.FC<LineRendererProps> = React.memo(({
   // Don't render eraser strokes - they are used for stroke deletion, not visual feedback
   if (line.tool === 'eraser') return null;
 
+  // Shared by the constant-width line and the pressure outline
+  const strokeProps = {
+    id: line.id,
+    globalCompositeOperation: (line.tool === 'highlighter' ? 'multiply' : 'source-over') as GlobalCompositeOperation,
+    opacity: line.tool === 'highlighter' ? 0.5 : 1,
+    x: line.x,
+    y: line.y,
+    perfectDrawEnabled: false,
+    listening: onSelect || onMouseEnter || onMouseLeave || (currentTool === 'select2' && isSelected) ? true : false,
+    draggable: currentTool === 'select2' && isSelected,
+    onClick: onSelect,
+    onTap: onSelect,
+    onMouseEnter,
+    onMouseLeave,
+    onDragEnd: (e: Konva.KonvaEventObject<DragEvent>) => {
+      if (onDragEnd) {
+        const node = e.target;
+        onDragEnd({
+          x: node.x(),
+          y: node.y()
+        });
+      }
+    }
+  };
+
   return (
     <>
       {/* Hover highlight - render behind everything */}
@@ -70,39 +96,31 @@ const LineRenderer: React.FC<LineRendererProps> = React.memo(({
         />
       )}
       
-      {/* Main line */}
-      <Line
-        ref={lineRef}
-        id={line.id}
-        points={line.points}
-        stroke={line.color}
-        strokeWidth={line.strokeWidth}
-        tension={0.5}
-        lineCap="round"
-        lineJoin="round"
-        globalCompositeOperation={line.tool === 'highlighter' ? 'multiply' : 'source-over'}
-        opacity={line.tool === 'highlighter' ? 0.5 : 1}
-        x={line.x}
-        y={line.y}
-        perfectDrawEnabled={false}
-        listening={onSelect || onMouseEnter || onMouseLeave || (currentTool === 'select2' && isSelected) ? true : false}
-        draggable={currentTool === 'select2' && isSelected}
-        onClick={onSelect}
-        onTap={onSelect}
-        onMouseEnter={onMouseEnter}
-        onMouseLeave={onMouseLeave}
-        onDragEnd={(e) => {
-          if (onDragEnd) {
-            const node = e.target;
-            onDragEnd({
-              x: node.x(),
-              y: node.y()
-            });
-          }
-        }}
-        shadowForStrokeEnabled={false}
-        hitStrokeWidth={line.strokeWidth + 10}
-      />
+      {/* Main line - stylus strokes are filled as a variable-width outline */}
+      {hasPressure(line) ? (
+        <Shape
+          {...strokeProps}
+          fill={line.color}
+          sceneFunc={(context, shape) => {
+            context.beginPath();
+            tracePressureStroke(context, line.points, line.pressures, line.strokeWidth);
+            context.fillShape(shape);
+          }}
+        />
+      ) : (
+        <Line
+          ref={lineRef}
+          {...strokeProps}
+          points={line.points}
+          stroke={line.color}
+          strokeWidth={line.strokeWidth}
+          tension={0.5}
+          lineCap="round"
+          lineJoin="round"
+          shadowForStrokeEnabled={false}
+          hitStrokeWidth={line.strokeWidth + 10}
+        />
+      )}
       
     </>
   );
@@ -110,6 +128,7 @@ const LineRenderer: React.FC<LineRendererProps> = React.memo(({
   return (
     prevProps.line.id === nextProps.line.id &&
     prevProps.line.points === nextProps.line.points &&
+    prevProps.line.pressures === nextProps.line.pressures &&
     prevProps.line.color === nextProps.line.color &&
     prevProps.line.strokeWidth === nextProps.line.strokeWidth &&
     prevProps.line.x === nextProps.line.x &&
@@ -1,6 +1,8 @@
 import React, { useEffect } from 'react';
 import SelectionContextMenu from './SelectionContextMenu';
 import { SelectedObject, ImageObject } from '@/types/whiteboard';
+import { ReorderDirection } from '@/utils/sceneOrder';
+import { AlignMode, DistributeAxis } from '@/utils/objectAlignment';
 
 interface Select2ContextMenuHandlerProps {
   selectedObjects: SelectedObject[];
@@ -13,6 +15,11 @@ interface Select2ContextMenuHandlerProps {
   onDeleteObjects: () => void;
   onLockImages: () => void;
   onUnlockImages: () => void;
+  onGroupObjects?: () => void;
+  onUngroupObjects?: () => void;
+  onReorderObjects?: (direction: ReorderDirection) => void;
+  onAlignObjects?: (mode: AlignMode) => void;
+  onDistributeObjects?: (axis: DistributeAxis) => void;
   onHideContextMenu: () => void;
   showContextMenu: (containerRef?: React.RefObject<HTMLElement>) => void;
   children: React.ReactNode;
@@ -25,6 +32,11 @@ const Select2ContextMenuHandler: React.FC<Select2ContextMenuHandlerProps> = ({
   onDeleteObjects,
   onLockImages,
   onUnlockImages,
+  onGroupObjects,
+  onUngroupObjects,
+  onReorderObjects,
+  onAlignObjects,
+  onDistributeObjects,
   onHideContextMenu,
   showContextMenu,
   children
@@ -50,6 +62,11 @@ const Select2ContextMenuHandler: React.FC<Select2ContextMenuHandlerProps> = ({
           onDelete={onDeleteObjects}
           onLockImages={onLockImages}
           onUnlockImages={onUnlockImages}
+          onGroup={onGroupObjects}
+          onUngroup={onUngroupObjects}
+          onReorder={onReorderObjects}
+          onAlign={onAlignObjects}
+          onDistribute={onDistributeObjects}
           onClose={onHideContextMenu}
         />
       )}
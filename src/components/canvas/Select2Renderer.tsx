@@ -1,17 +1,25 @@
 import React from 'react';
-import { Rect, Line, Image } from 'react-konva';
-import { SelectionBounds, SelectedObject, LineObject, ImageObject } from '@/types/whiteboard';
+import { Rect, Line, Image, Group } from 'react-konva';
+import { SelectionBounds, SelectedObject, LineObject, ImageObject, ShapeObject, TextObject } from '@/types/whiteboard';
 import SelectionRect from './SelectionRect';
+import SelectionLasso from './SelectionLasso';
+import ShapeRenderer from './ShapeRenderer';
+import TextRenderer from './TextRenderer';
 import { TransformControls } from './TransformControls';
 import { useSelect2Transform } from '@/hooks/useSelect2Transform';
+import { getShapeBounds, getShapeCenter } from '@/utils/shapeGeometry';
+import { getTextBounds, getTextCenter } from '@/utils/textGeometry';
 
 interface Select2RendererProps {
   selectedObjects: SelectedObject[];
   hoveredObjectId: string | null;
   selectionBounds: SelectionBounds | null;
+  lassoPoints?: number[] | null;
   isSelecting: boolean;
   lines: LineObject[];
   images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
   groupBounds: SelectionBounds | null;
   dragOffset: { x: number; y: number } | null;
   isDraggingObjects: boolean;
@@ -30,9 +38,12 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
   selectedObjects,
   hoveredObjectId,
   selectionBounds,
+  lassoPoints = null,
   isSelecting,
   lines,
   images,
+  shapes = [],
+  texts = [],
   groupBounds,
   dragOffset,
   isDraggingObjects,
@@ -80,6 +91,16 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
         width: image.width || 100,
         height: image.height || 100
       };
+    } else if (obj.type === 'shape') {
+      const shape = shapes.find(s => s.id === obj.id);
+      if (!shape) return null;
+
+      return getShapeBounds(shape);
+    } else if (obj.type === 'text') {
+      const text = texts.find(t => t.id === obj.id);
+      if (!text) return null;
+
+      return getTextBounds(text);
     }
     return null;
   };
@@ -131,6 +152,24 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
             listening={false}
           />
         );
+      } else if (obj.type === 'shape') {
+        const shape = shapes.find(s => s.id === obj.id);
+        if (!shape) return null;
+
+        return (
+          <Group key={`preview-${obj.id}`} opacity={0.5} listening={false}>
+            <ShapeRenderer shape={{ ...shape, x: shape.x + dragOffset.x, y: shape.y + dragOffset.y }} />
+          </Group>
+        );
+      } else if (obj.type === 'text') {
+        const text = texts.find(t => t.id === obj.id);
+        if (!text) return null;
+
+        return (
+          <Group key={`preview-${obj.id}`} opacity={0.5} listening={false}>
+            <TextRenderer text={{ ...text, x: text.x + dragOffset.x, y: text.y + dragOffset.y }} />
+          </Group>
+        );
       }
       return null;
     });
@@ -198,6 +237,22 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
             totalY += (minY + maxY) / 2;
             count++;
           }
+        } else if (obj.type === 'shape') {
+          const shape = shapes.find(s => s.id === obj.id);
+          if (shape) {
+            const center = getShapeCenter(shape);
+            totalX += center.x;
+            totalY += center.y;
+            count++;
+          }
+        } else if (obj.type === 'text') {
+          const text = texts.find(t => t.id === obj.id);
+          if (text) {
+            const center = getTextCenter(text);
+            totalX += center.x;
+            totalY += center.y;
+            count++;
+          }
         }
       });
       
@@ -216,7 +271,7 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
     }
 
     return selectedObjects.map(obj => {
-      const transformedBounds = transformObjectBounds(obj, lines, images, rotationCenter, matrix);
+      const transformedBounds = transformObjectBounds(obj, lines, images, rotationCenter, matrix, shapes, texts);
       if (!transformedBounds) return null;
 
       if (obj.type === 'line') {
@@ -257,6 +312,42 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
             listening={false}
           />
         );
+      } else if (obj.type === 'shape') {
+        const shape = shapes.find(s => s.id === obj.id);
+        if (!shape) return null;
+
+        return (
+          <Group key={`transform-preview-${obj.id}`} opacity={0.5} listening={false}>
+            <ShapeRenderer
+              shape={{
+                ...shape,
+                x: transformedBounds.x,
+                y: transformedBounds.y,
+                width: transformedBounds.width,
+                height: transformedBounds.height,
+                rotation: transformedBounds.rotation || 0
+              }}
+            />
+          </Group>
+        );
+      } else if (obj.type === 'text') {
+        const text = texts.find(t => t.id === obj.id);
+        if (!text || !('fontSize' in transformedBounds)) return null;
+
+        return (
+          <Group key={`transform-preview-${obj.id}`} opacity={0.5} listening={false}>
+            <TextRenderer
+              text={{
+                ...text,
+                x: transformedBounds.x,
+                y: transformedBounds.y,
+                width: transformedBounds.width,
+                fontSize: transformedBounds.fontSize,
+                rotation: transformedBounds.rotation || 0
+              }}
+            />
+          </Group>
+        );
       }
       return null;
     });
@@ -293,12 +384,22 @@ export const Select2Renderer: React.FC<Select2RendererProps> = ({
         rotation={transformGroupRotation}
       />
 
+      {/* Freeform loop while lasso selecting */}
+      <SelectionLasso
+        lassoPoints={lassoPoints}
+        isVisible={isSelecting}
+      />
+
       {/* Visual feedback for hovered object (only when not selected) */}
       {hoveredObjectId && !selectedObjects.some(obj => obj.id === hoveredObjectId) && (
         (() => {
           const hoveredObj = { 
             id: hoveredObjectId, 
-            type: (lines.find(l => l.id === hoveredObjectId) ? 'line' : 'image') as 'line' | 'image'
+            type: (lines.find(l => l.id === hoveredObjectId)
+              ? 'line'
+              : shapes.find(s => s.id === hoveredObjectId)
+                ? 'shape'
+                : texts.find(t => t.id === hoveredObjectId) ? 'text' : 'image') as SelectedObject['type']
           };
           const bounds = getObjectBounds(hoveredObj);
           if (!bounds) return null;
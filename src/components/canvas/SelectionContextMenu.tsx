@@ -1,9 +1,16 @@
 import React from 'react';
 import { createPortal } from 'react-dom';
-import { Trash2, Lock, Unlock } from 'lucide-react';
+import {
+  Trash2, Lock, Unlock, Group, Ungroup, ArrowUp, ArrowDown, BringToFront, SendToBack,
+  AlignStartVertical, AlignCenterVertical, AlignEndVertical,
+  AlignStartHorizontal, AlignCenterHorizontal, AlignEndHorizontal,
+  AlignHorizontalDistributeCenter, AlignVerticalDistributeCenter
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { SelectedObject, ImageObject } from '@/types/whiteboard';
+import { ReorderDirection } from '@/utils/sceneOrder';
+import { AlignMode, DistributeAxis } from '@/utils/objectAlignment';
 
 interface SelectionContextMenuProps {
   x: number;
@@ -13,6 +20,11 @@ interface SelectionContextMenuProps {
   onDelete: () => void;
   onLockImages: () => void;
   onUnlockImages: () => void;
+  onGroup?: () => void; // Absent when the selection cannot be grouped
+  onUngroup?: () => void; // Absent when the selection holds no group
+  onReorder?: (direction: ReorderDirection) => void; // Absent when z-order can't be changed
+  onAlign?: (mode: AlignMode) => void; // Absent for fewer than two objects or groups
+  onDistribute?: (axis: DistributeAxis) => void; // Absent for fewer than three objects or groups
   onClose: () => void;
 }
 
@@ -24,6 +36,11 @@ const SelectionContextMenu: React.FC<SelectionContextMenuProps> = ({
   onDelete,
   onLockImages,
   onUnlockImages,
+  onGroup,
+  onUngroup,
+  onReorder,
+  onAlign,
+  onDistribute,
   onClose
 }) => {
   // Get selected image objects
@@ -59,6 +76,27 @@ const SelectionContextMenu: React.FC<SelectionContextMenuProps> = ({
     return 'Unlock Images';
   };
 
+  const reorderOptions: Array<{ direction: ReorderDirection; label: string; Icon: typeof ArrowUp }> = [
+    { direction: 'forward', label: 'Bring Forward', Icon: ArrowUp },
+    { direction: 'backward', label: 'Send Backward', Icon: ArrowDown },
+    { direction: 'front', label: 'Bring to Front', Icon: BringToFront },
+    { direction: 'back', label: 'Send to Back', Icon: SendToBack }
+  ];
+
+  const alignOptions: Array<{ mode: AlignMode; label: string; Icon: typeof ArrowUp }> = [
+    { mode: 'left', label: 'Align Left', Icon: AlignStartVertical },
+    { mode: 'center', label: 'Align Centre', Icon: AlignCenterVertical },
+    { mode: 'right', label: 'Align Right', Icon: AlignEndVertical },
+    { mode: 'top', label: 'Align Top', Icon: AlignStartHorizontal },
+    { mode: 'middle', label: 'Align Middle', Icon: AlignCenterHorizontal },
+    { mode: 'bottom', label: 'Align Bottom', Icon: AlignEndHorizontal }
+  ];
+
+  const distributeOptions: Array<{ axis: DistributeAxis; label: string; Icon: typeof ArrowUp }> = [
+    { axis: 'horizontal', label: 'Distribute Horizontally', Icon: AlignHorizontalDistributeCenter },
+    { axis: 'vertical', label: 'Distribute Vertically', Icon: AlignVerticalDistributeCenter }
+  ];
+
   const contextMenuContent = (
     <Card 
       className="fixed z-[9999] p-2 shadow-lg bg-background border"
@@ -85,6 +123,105 @@ const SelectionContextMenu: React.FC<SelectionContextMenuProps> = ({
           {getDeleteLabel()}
         </Button>
 
+        {/* Group/Ungroup options - only when they apply to the selection */}
+        {onGroup && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            onClick={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              onGroup();
+              onClose();
+            }}
+          >
+            <Group className="h-4 w-4 mr-2" />
+            Group
+          </Button>
+        )}
+
+        {onUngroup && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            onClick={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              onUngroup();
+              onClose();
+            }}
+          >
+            <Ungroup className="h-4 w-4 mr-2" />
+            Ungroup
+          </Button>
+        )}
+
+        {/* Align and distribute options - icon rows to keep the menu short */}
+        {onAlign && (
+          <div className="flex gap-1">
+            {alignOptions.map(({ mode, label, Icon }) => (
+              <Button
+                key={mode}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={label}
+                aria-label={label}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  onAlign(mode);
+                }}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {onDistribute && (
+          <div className="flex gap-1">
+            {distributeOptions.map(({ axis, label, Icon }) => (
+              <Button
+                key={axis}
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={label}
+                aria-label={label}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  e.preventDefault();
+                  onDistribute(axis);
+                }}
+              >
+                <Icon className="h-4 w-4" />
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {/* Stacking order options */}
+        {onReorder && reorderOptions.map(({ direction, label, Icon }) => (
+          <Button
+            key={direction}
+            variant="ghost"
+            size="sm"
+            className="w-full justify-start"
+            onClick={(e) => {
+              e.stopPropagation();
+              e.preventDefault();
+              onReorder(direction);
+              onClose();
+            }}
+          >
+            <Icon className="h-4 w-4 mr-2" />
+            {label}
+          </Button>
+        ))}
+
         {/* Lock/Unlock options - only for images */}
         {hasImages && (
           <>
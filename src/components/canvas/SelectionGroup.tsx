@@ -1,9 +1,11 @@
 import React, { useRef, useEffect } from 'react';
 import { Group } from 'react-konva';
 import Konva from 'konva';
-import { LineObject, ImageObject, SelectedObject } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
 import LineRenderer from './LineRenderer';
 import ImageRenderer from './ImageRenderer';
+import ShapeRenderer from './ShapeRenderer';
+import TextRenderer from './TextRenderer';
 import SelectionGroupBackground from './SelectionGroupBackground';
 import { calculateGroupBounds } from '@/utils/groupBoundsCalculator';
 
@@ -11,6 +13,8 @@ interface SelectionGroupProps {
   selectedObjects: SelectedObject[];
   lines: LineObject[];
   images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
   onUpdateLine?: (lineId: string, updates: Partial<LineObject>) => void;
   onUpdateImage?: (imageId: string, updates: Partial<ImageObject>) => void;
   currentTool?: string;
@@ -21,6 +25,8 @@ const SelectionGroup: React.FC<SelectionGroupProps> = ({
   selectedObjects,
   lines,
   images,
+  shapes = [],
+  texts = [],
   onUpdateLine,
   onUpdateImage,
   currentTool = 'select',
@@ -39,6 +45,16 @@ const SelectionGroup: React.FC<SelectionGroupProps> = ({
     .map(obj => images.find(image => image.id === obj.id))
     .filter(Boolean) as ImageObject[];
 
+  const selectedShapes = selectedObjects
+    .filter(obj => obj.type === 'shape')
+    .map(obj => shapes.find(shape => shape.id === obj.id))
+    .filter(Boolean) as ShapeObject[];
+
+  const selectedTexts = selectedObjects
+    .filter(obj => obj.type === 'text')
+    .map(obj => texts.find(text => text.id === obj.id))
+    .filter(Boolean) as TextObject[];
+
   // Show group when objects are selected (select2 behavior only)
   const shouldShowGroup = isVisible && selectedObjects.length > 0;
 
@@ -46,7 +62,7 @@ const SelectionGroup: React.FC<SelectionGroupProps> = ({
   const isDraggable = false;
 
   // Calculate group bounds for the background - recalculate whenever objects change
-  const groupBounds = shouldShowGroup ? calculateGroupBounds(selectedObjects, selectedLines, selectedImages) : null;
+  const groupBounds = shouldShowGroup ? calculateGroupBounds(selectedObjects, selectedLines, selectedImages, selectedShapes, selectedTexts) : null;
 
   const handleDragMove = () => {
     // Handle drag movement for group positioning
@@ -120,6 +136,20 @@ const SelectionGroup: React.FC<SelectionGroupProps> = ({
             currentTool={currentTool}
           />
         ))}
+
+        {selectedShapes.map((shape) => (
+          <ShapeRenderer
+            key={`group-shape-${shape.id}`}
+            shape={shape}
+          />
+        ))}
+
+        {selectedTexts.map((text) => (
+          <TextRenderer
+            key={`group-text-${text.id}`}
+            text={text}
+          />
+        ))}
       </Group>
       
     </>
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Line } from 'react-konva';
+
+interface SelectionLassoProps {
+  lassoPoints: number[] | null;
+  isVisible: boolean;
+}
+
+const SelectionLasso: React.FC<SelectionLassoProps> = ({
+  lassoPoints,
+  isVisible
+}) => {
+  if (!isVisible || !lassoPoints || lassoPoints.length < 4) {
+    return null;
+  }
+
+  // Closed so the loop shows which area will be selected
+  return (
+    <Line
+      points={lassoPoints}
+      closed
+      fill="rgba(0, 123, 255, 0.1)"
+      stroke="rgba(0, 123, 255, 0.8)"
+      strokeWidth={1}
+      dash={[5, 5]}
+      lineJoin="round"
+      listening={false}
+    />
+  );
+};
+
+export default SelectionLasso;
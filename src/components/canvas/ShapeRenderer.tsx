@@ -0,0 +1,97 @@
+import React from 'react';
+import { Group, Rect, Ellipse, Line, Arrow } from 'react-konva';
+import { ShapeObject } from '@/types/whiteboard';
+
+interface ShapeRendererProps {
+  shape: ShapeObject;
+}
+
+// Arrow head size relative to the stroke width
+const ARROW_POINTER_SCALE = 4;
+
+/**
+ * Renders a shape inside a group placed at its centre, so rotation pivots around the centre like images
+ */
+const ShapeRenderer: React.FC<ShapeRendererProps> = React.memo(({ shape }) => {
+  const halfWidth = shape.width / 2;
+  const halfHeight = shape.height / 2;
+  const strokeProps = {
+    stroke: shape.color,
+    strokeWidth: shape.strokeWidth,
+    perfectDrawEnabled: false,
+    shadowForStrokeEnabled: false
+  };
+
+  const renderShape = () => {
+    switch (shape.kind) {
+      case 'rectangle':
+        return (
+          <Rect
+            x={-Math.abs(halfWidth)}
+            y={-Math.abs(halfHeight)}
+            width={Math.abs(shape.width)}
+            height={Math.abs(shape.height)}
+            fill={shape.fillColor}
+            {...strokeProps}
+          />
+        );
+      case 'ellipse':
+        return (
+          <Ellipse
+            radiusX={Math.abs(halfWidth)}
+            radiusY={Math.abs(halfHeight)}
+            fill={shape.fillColor}
+            {...strokeProps}
+          />
+        );
+      case 'triangle': {
+        // Apex on the top edge, base along the bottom edge
+        const apexX = Math.abs(shape.width) * ((shape.apexOffset ?? 0.5) - 0.5);
+        return (
+          <Line
+            points={[apexX, -Math.abs(halfHeight), Math.abs(halfWidth), Math.abs(halfHeight), -Math.abs(halfWidth), Math.abs(halfHeight)]}
+            closed
+            fill={shape.fillColor}
+            lineJoin="round"
+            {...strokeProps}
+          />
+        );
+      }
+      case 'line':
+        return (
+          <Line
+            points={[-halfWidth, -halfHeight, halfWidth, halfHeight]}
+            lineCap="round"
+            {...strokeProps}
+          />
+        );
+      case 'arrow':
+        return (
+          <Arrow
+            points={[-halfWidth, -halfHeight, halfWidth, halfHeight]}
+            pointerLength={shape.strokeWidth * ARROW_POINTER_SCALE}
+            pointerWidth={shape.strokeWidth * ARROW_POINTER_SCALE}
+            fill={shape.color}
+            lineCap="round"
+            lineJoin="round"
+            {...strokeProps}
+          />
+        );
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <Group
+      id={shape.id}
+      x={shape.x + halfWidth}
+      y={shape.y + halfHeight}
+      rotation={shape.rotation || 0}
+    >
+      {renderShape()}
+    </Group>
+  );
+});
+
+export default ShapeRenderer;
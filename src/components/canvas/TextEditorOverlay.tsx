@@ -0,0 +1,111 @@
+import React, { useRef, useEffect, useLayoutEffect, useState } from 'react';
+import { PanZoomState, TextObject } from '@/types/whiteboard';
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT } from '@/utils/textGeometry';
+
+interface TextEditorOverlayProps {
+  text: TextObject;
+  panZoomState: PanZoomState;
+  onCommit: (textId: string, content: string) => void;
+}
+
+/**
+ * Textarea laid over the stage at the text box position for in-place editing
+ * Rendered outside the stage container so the container's pointer and key listeners don't see its events
+ */
+const TextEditorOverlay: React.FC<TextEditorOverlayProps> = ({
+  text,
+  panZoomState,
+  onCommit
+}) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const committedRef = useRef(false);
+  const [content, setContent] = useState(text.text);
+
+  const { scale } = panZoomState;
+
+  // Grow with the content so the whole text stays visible while typing
+  useLayoutEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.style.height = 'auto';
+    textarea.style.height = `${textarea.scrollHeight}px`;
+  }, [content, scale, text.width, text.fontSize]);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+
+    // Any press outside the editor ends editing, before the stage handles it
+    const handleOutsidePointerDown = (e: PointerEvent) => {
+      if (e.target !== textarea) {
+        textarea.blur();
+      }
+    };
+    // The mouse events of the press that opened the editor would otherwise move focus to the stage
+    const handleOutsideMouseDown = (e: MouseEvent) => {
+      if (e.target !== textarea) {
+        e.preventDefault();
+      }
+    };
+    document.addEventListener('pointerdown', handleOutsidePointerDown, true);
+    document.addEventListener('mousedown', handleOutsideMouseDown, true);
+    return () => {
+      document.removeEventListener('pointerdown', handleOutsidePointerDown, true);
+      document.removeEventListener('mousedown', handleOutsideMouseDown, true);
+    };
+  }, []);
+
+  const commit = () => {
+    if (committedRef.current) return;
+    committedRef.current = true;
+    onCommit(text.id, content);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Keep whiteboard shortcuts from firing while typing
+    e.stopPropagation();
+    if (e.key === 'Escape' || (e.key === 'Enter' && (e.ctrlKey || e.metaKey))) {
+      e.preventDefault();
+      textareaRef.current?.blur();
+    }
+  };
+
+  return (
+    <textarea
+      ref={textareaRef}
+      value={content}
+      onChange={(e) => setContent(e.target.value)}
+      onBlur={commit}
+      onKeyDown={handleKeyDown}
+      onPaste={(e) => e.stopPropagation()}
+      data-ui-interactive="true"
+      spellCheck={false}
+      style={{
+        position: 'absolute',
+        left: text.x * scale + panZoomState.x,
+        top: text.y * scale + panZoomState.y,
+        width: text.width * scale,
+        fontSize: text.fontSize * scale,
+        fontFamily: TEXT_FONT_FAMILY,
+        lineHeight: TEXT_LINE_HEIGHT,
+        color: text.color,
+        transform: `rotate(${text.rotation || 0}deg)`,
+        transformOrigin: 'center',
+        padding: 0,
+        margin: 0,
+        border: 'none',
+        outline: '1px dashed rgba(0, 123, 255, 0.8)',
+        background: 'transparent',
+        resize: 'none',
+        overflow: 'hidden',
+        whiteSpace: 'pre-wrap',
+        overflowWrap: 'break-word',
+        zIndex: 10
+      }}
+    />
+  );
+};
+
+export default TextEditorOverlay;
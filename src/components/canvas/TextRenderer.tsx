@@ -0,0 +1,39 @@
+import React from 'react';
+import { Group, Text } from 'react-konva';
+import { TextObject } from '@/types/whiteboard';
+import { TEXT_FONT_FAMILY, TEXT_LINE_HEIGHT, getTextHeight } from '@/utils/textGeometry';
+
+interface TextRendererProps {
+  text: TextObject;
+}
+
+/**
+ * Renders a text box inside a group placed at its centre, so rotation pivots around the centre like images
+ */
+const TextRenderer: React.FC<TextRendererProps> = React.memo(({ text }) => {
+  const height = getTextHeight(text);
+
+  return (
+    <Group
+      id={text.id}
+      x={text.x + text.width / 2}
+      y={text.y + height / 2}
+      rotation={text.rotation || 0}
+    >
+      <Text
+        x={-text.width / 2}
+        y={-height / 2}
+        width={text.width}
+        text={text.text}
+        fontSize={text.fontSize}
+        fontFamily={TEXT_FONT_FAMILY}
+        lineHeight={TEXT_LINE_HEIGHT}
+        wrap="word"
+        fill={text.color}
+        perfectDrawEnabled={false}
+      />
+    </Group>
+  );
+});
+
+export default TextRenderer;
@@ -12,6 +12,9 @@ interface UseStageCursorProps {
 export const useStageCursor = ({ currentTool, selection }: UseStageCursorProps) => {
   const cursor = useMemo(() => {
     if (currentTool === 'eraser') return 'crosshair';
+    if (currentTool === 'shape') return 'crosshair';
+    if (currentTool === 'laser') return 'crosshair';
+    if (currentTool === 'text') return 'text';
     // Original select tool removed
     return 'default';
   }, [currentTool, selection?.hoveredObjectId]);
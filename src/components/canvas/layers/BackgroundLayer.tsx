@@ -0,0 +1,111 @@
+import React from 'react';
+import { Layer, Shape } from 'react-konva';
+import Konva from 'konva';
+import { BoardBackground, PanZoomState } from '@/types/whiteboard';
+
+interface BackgroundLayerProps {
+  background: BoardBackground;
+  width: number;
+  height: number;
+  panZoomState: PanZoomState;
+}
+
+// Pattern spacing in whiteboard units, doubled when zoomed out until it is at least the minimum on screen
+const BACKGROUND_SPACING = 40;
+const MIN_SCREEN_SPACING = 12;
+
+// Graph paper draws every fifth line darker
+const GRAPH_MAJOR_EVERY = 5;
+
+const PATTERN_COLOR = '#e5e7eb';
+const MAJOR_COLOR = '#d1d5db';
+const AXIS_COLOR = '#9ca3af';
+
+/**
+ * Paper pattern behind everything on the board
+ * Only the visible part is drawn, so it tiles endlessly with pan and zoom
+ */
+const BackgroundLayer: React.FC<BackgroundLayerProps> = ({ background, width, height, panZoomState }) => {
+  if (background === 'none') return null;
+
+  const scale = panZoomState.scale || 1;
+
+  let spacing = BACKGROUND_SPACING;
+  while (spacing * scale < MIN_SCREEN_SPACING) {
+    spacing *= 2;
+  }
+
+  // Visible area in whiteboard coordinates
+  const left = -panZoomState.x / scale;
+  const top = -panZoomState.y / scale;
+  const right = left + width / scale;
+  const bottom = top + height / scale;
+
+  const firstX = Math.floor(left / spacing) * spacing;
+  const firstY = Math.floor(top / spacing) * spacing;
+
+  const strokeLines = (context: Konva.Context, color: string, xs: number[], ys: number[]) => {
+    context.beginPath();
+    xs.forEach(x => {
+      context.moveTo(x, top);
+      context.lineTo(x, bottom);
+    });
+    ys.forEach(y => {
+      context.moveTo(left, y);
+      context.lineTo(right, y);
+    });
+    context.setAttr('strokeStyle', color);
+    context.setAttr('lineWidth', 1 / scale);
+    context.stroke();
+  };
+
+  const sceneFunc = (context: Konva.Context) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (let x = firstX; x <= right; x += spacing) xs.push(x);
+    for (let y = firstY; y <= bottom; y += spacing) ys.push(y);
+
+    if (background === 'dot') {
+      const radius = 1.5 / scale;
+      context.beginPath();
+      xs.forEach(x => {
+        ys.forEach(y => {
+          context.moveTo(x + radius, y);
+          context.arc(x, y, radius, 0, Math.PI * 2);
+        });
+      });
+      context.setAttr('fillStyle', AXIS_COLOR);
+      context.fill();
+    } else if (background === 'lined') {
+      strokeLines(context, PATTERN_COLOR, [], ys);
+    } else if (background === 'grid') {
+      strokeLines(context, PATTERN_COLOR, xs, ys);
+    } else if (background === 'graph') {
+      const isMajor = (value: number) => Math.round(value / spacing) % GRAPH_MAJOR_EVERY === 0;
+
+      strokeLines(context, PATTERN_COLOR, xs.filter(x => !isMajor(x)), ys.filter(y => !isMajor(y)));
+      strokeLines(
+        context,
+        MAJOR_COLOR,
+        xs.filter(x => isMajor(x) && x !== 0),
+        ys.filter(y => isMajor(y) && y !== 0)
+      );
+
+      // Axes through the origin, only when they are in view
+      strokeLines(
+        context,
+        AXIS_COLOR,
+        left <= 0 && right >= 0 ? [0] : [],
+        top <= 0 && bottom >= 0 ? [0] : []
+      );
+    }
+  };
+
+  return (
+    <Layer listening={false}>
+      <Shape sceneFunc={sceneFunc} listening={false} perfectDrawEnabled={false} />
+    </Layer>
+  );
+};
+
+export default BackgroundLayer;
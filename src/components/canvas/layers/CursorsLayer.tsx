@@ -0,0 +1,56 @@
+import React from 'react';
+import { Layer, Group, Path, Label, Tag, Text } from 'react-konva';
+import { RemoteCursor } from '@/hooks/shared/usePresenceCursors';
+
+interface CursorsLayerProps {
+  cursors: RemoteCursor[];
+  zoom: number;
+}
+
+// Arrow pointer outline, tip at the origin
+const CURSOR_PATH = 'M0 0 L0 16 L4.5 12 L7.5 19 L10 18 L7 11 L12.5 11 Z';
+
+const IDLE_OPACITY = 0.35;
+
+/**
+ * Overlay showing where other users are pointing, kept at constant screen size
+ */
+const CursorsLayer: React.FC<CursorsLayerProps> = ({ cursors, zoom }) => {
+  if (cursors.length === 0) return null;
+
+  const scale = 1 / (zoom || 1);
+
+  return (
+    <Layer listening={false}>
+      {cursors.map(cursor => (
+        <Group
+          key={cursor.sender_id}
+          x={cursor.x}
+          y={cursor.y}
+          scaleX={scale}
+          scaleY={scale}
+          opacity={cursor.isIdle ? IDLE_OPACITY : 1}
+        >
+          <Path
+            data={CURSOR_PATH}
+            fill={cursor.color}
+            stroke="white"
+            strokeWidth={1}
+            perfectDrawEnabled={false}
+          />
+          <Label x={12} y={18}>
+            <Tag fill={cursor.color} cornerRadius={4} />
+            <Text
+              text={cursor.name}
+              fontSize={12}
+              fill="white"
+              padding={4}
+            />
+          </Label>
+        </Group>
+      ))}
+    </Layer>
+  );
+};
+
+export default CursorsLayer;
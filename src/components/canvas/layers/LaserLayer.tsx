@@ -0,0 +1,67 @@
+import React from 'react';
+import { Layer, Group, Line, Circle } from 'react-konva';
+import { LaserTrail } from '@/hooks/shared/useLaserPointer';
+
+interface LaserLayerProps {
+  trails: LaserTrail[];
+  zoom: number;
+}
+
+const LASER_COLOR = '#ef4444';
+
+// Trail width and dot radius in screen pixels
+const LASER_TRAIL_WIDTH = 4;
+const LASER_DOT_RADIUS = 6;
+
+/**
+ * Overlay with the fading laser pointer trails, kept at constant screen size
+ */
+const LaserLayer: React.FC<LaserLayerProps> = ({ trails, zoom }) => {
+  if (trails.length === 0) return null;
+
+  const scale = 1 / (zoom || 1);
+  const glowProps = {
+    shadowColor: LASER_COLOR,
+    shadowBlur: 8 * scale,
+    shadowForStrokeEnabled: true,
+    perfectDrawEnabled: false
+  };
+
+  return (
+    <Layer listening={false}>
+      {trails.map(trail => {
+        const pointCount = trail.points.length / 2;
+        const lastX = trail.points[trail.points.length - 2];
+        const lastY = trail.points[trail.points.length - 1];
+
+        return (
+          <Group key={trail.id}>
+            {/* One segment per point pair, so the tail fades while the head stays bright */}
+            {Array.from({ length: pointCount - 1 }, (_, i) => (
+              <Line
+                key={i}
+                points={trail.points.slice(i * 2, i * 2 + 4)}
+                stroke={LASER_COLOR}
+                strokeWidth={LASER_TRAIL_WIDTH * scale}
+                opacity={trail.opacities[i + 1]}
+                lineCap="round"
+                {...glowProps}
+              />
+            ))}
+            {trail.isActive && (
+              <Circle
+                x={lastX}
+                y={lastY}
+                radius={LASER_DOT_RADIUS * scale}
+                fill={LASER_COLOR}
+                {...glowProps}
+              />
+            )}
+          </Group>
+        );
+      })}
+    </Layer>
+  );
+};
+
+export default LaserLayer;
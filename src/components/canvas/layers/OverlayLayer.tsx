@@ -0,0 +1,19 @@
+import React from 'react';
+import { Layer } from 'react-konva';
+
+interface OverlayLayerProps {
+  extraContent?: React.ReactNode;
+}
+
+/**
+ * Selection outlines and transform handles, drawn above the scene
+ */
+const OverlayLayer: React.FC<OverlayLayerProps> = ({ extraContent }) => {
+  return (
+    <Layer>
+      {extraContent}
+    </Layer>
+  );
+};
+
+export default OverlayLayer;
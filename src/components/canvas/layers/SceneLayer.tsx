@@ -0,0 +1,181 @@
+
+import React from 'react';
+import { Layer, Group } from 'react-konva';
+import Konva from 'konva';
+import { Tool, SelectionBounds, LineObject, ImageObject, ShapeObject, TextObject } from '@/types/whiteboard';
+import { useNormalizedWhiteboardState } from '@/hooks/performance/useNormalizedWhiteboardState';
+import { useViewportCulling } from '@/hooks/canvas/useViewportCulling';
+import { getSceneOrder } from '@/utils/sceneOrder';
+import SelectionRect from '../SelectionRect';
+import LineRenderer from '../LineRenderer';
+import ShapeRenderer from '../ShapeRenderer';
+import TextRenderer from '../TextRenderer';
+import LinesList from './LinesList';
+import LayerOptimizationHandler from './LayerOptimizationHandler';
+
+interface SceneLayerProps {
+  layerRef: React.RefObject<Konva.Layer>;
+  lines: LineObject[];
+  // Strokes other users are still drawing, drawn on top and not interactive
+  provisionalLines?: LineObject[];
+  images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
+  // Images are drawn by the caller, which wires up their editing handlers
+  renderImage?: (image: ImageObject) => React.ReactNode;
+  editingTextId?: string | null;
+  currentTool: Tool;
+  selectionBounds?: SelectionBounds | null;
+  isSelecting?: boolean;
+  selection?: any;
+  // Optional normalized state for performance optimization
+  normalizedState?: ReturnType<typeof useNormalizedWhiteboardState>;
+  onUpdateLine?: (lineId: string, updates: any) => void;
+
+  // Viewport props for culling
+  stageRef?: React.RefObject<Konva.Stage>;
+}
+
+const DEBUG_ENABLED = process.env.NODE_ENV === 'development';
+
+const debugLog = (context: string, action: string, data?: any) => {
+  if (DEBUG_ENABLED) {
+    console.log(`[SceneLayer:${context}] ${action}`, data || '');
+  }
+};
+
+/**
+ * Lines, images, shapes and text boxes drawn as one scene in stacking order
+ * Shapes and text boxes don't listen: select2 hit-tests them itself, so pointer events go to the stage
+ */
+const SceneLayer: React.FC<SceneLayerProps> = ({
+  layerRef,
+  lines,
+  provisionalLines = [],
+  images,
+  shapes = [],
+  texts = [],
+  renderImage,
+  editingTextId = null,
+  currentTool,
+  selectionBounds,
+  isSelecting = false,
+  selection,
+  normalizedState,
+  onUpdateLine,
+
+  stageRef
+}) => {
+  const { cullLines } = useViewportCulling(stageRef);
+
+  // Use normalized state if available, otherwise fall back to array-based approach
+  const useNormalized = normalizedState && normalizedState.lineCount > 0;
+
+  if (DEBUG_ENABLED && useNormalized) {
+    debugLog('Performance', 'Using normalized state for rendering', {
+      lineCount: normalizedState.lineCount,
+      imageCount: normalizedState.imageCount
+    });
+  }
+
+  // Get lines to render - either from normalized state or direct array
+  const allLinesToRender = useNormalized
+    ? normalizedState.lineIds.map(id => normalizedState.getLineById(id)).filter(Boolean)
+    : lines;
+
+  // Apply viewport culling to lines
+  const visibleLineIds = React.useMemo(() => {
+    return new Set(cullLines(allLinesToRender).map(line => line.id));
+  }, [allLinesToRender, cullLines]);
+
+  // Get images - either from normalized state or direct array
+  const imagesToUse = useNormalized && normalizedState.imageCount > 0
+    ? normalizedState.imageIds.map(id => normalizedState.getImageById(id)).filter(Boolean)
+    : images;
+
+  const scene = React.useMemo(() => getSceneOrder({
+    lines: allLinesToRender,
+    images: imagesToUse,
+    shapes,
+    texts
+  }), [allLinesToRender, imagesToUse, shapes, texts]);
+
+  const renderLine = (line: LineObject) => {
+    if (!visibleLineIds.has(line.id)) return null;
+
+    // NOTE: Original isObjectSelected function removed - using fallback
+    const selectionWithIsSelected = selection as any;
+    const isSelected = selectionWithIsSelected?.isObjectSelected?.(line.id) || false;
+    const isInGroup = selection?.selectionState?.selectedObjects?.length > 1 && isSelected;
+
+    return (
+      <LineRenderer
+        key={line.id}
+        line={line}
+        isSelected={isSelected && !isInGroup} // Hide individual selection when in group
+        isHovered={selection?.hoveredObjectId === line.id}
+        currentTool={currentTool}
+        onSelect={undefined}
+        onMouseEnter={undefined}
+        onMouseLeave={undefined}
+        onDragEnd={(newPosition) => {
+          if (onUpdateLine) {
+            onUpdateLine(line.id, newPosition);
+          }
+        }}
+      />
+    );
+  };
+
+  return (
+    <Layer ref={layerRef}>
+      {/* Layer optimization handler */}
+      <LayerOptimizationHandler
+        layerRef={layerRef}
+        lineCount={visibleLineIds.size}
+        imageCount={imagesToUse.length}
+        currentTool={currentTool}
+        isSelecting={isSelecting}
+      />
+
+      {/* Board objects, bottom to top */}
+      {scene.map(item => {
+        switch (item.type) {
+          case 'line':
+            return renderLine(item.object);
+          case 'image':
+            return <React.Fragment key={item.object.id}>{renderImage?.(item.object)}</React.Fragment>;
+          case 'shape':
+            return (
+              <Group key={item.object.id} listening={false}>
+                <ShapeRenderer shape={item.object} />
+              </Group>
+            );
+          case 'text':
+            // The text box being edited is hidden while the editor overlay shows it
+            return item.object.id === editingTextId ? null : (
+              <Group key={item.object.id} listening={false}>
+                <TextRenderer text={item.object} />
+              </Group>
+            );
+        }
+      })}
+
+      {/* Remote strokes in progress, replaced once their draw operation arrives */}
+      {provisionalLines.length > 0 && (
+        <LinesList
+          lines={provisionalLines}
+          currentTool={currentTool}
+        />
+      )}
+
+      {/* Selection rectangle - rendered on top of everything */}
+      <SelectionRect
+        selectionBounds={selectionBounds}
+        isVisible={isSelecting}
+      />
+    </Layer>
+  );
+};
+
+export default SceneLayer;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Square, Grid3x3, Grip, AlignJustify, ChartLine } from 'lucide-react';
+import { BoardBackground } from '@/types/whiteboard';
+
+interface BackgroundDropdownProps {
+  background: BoardBackground;
+  onBackgroundChange: (background: BoardBackground) => void;
+  isReadOnly: boolean;
+  portalContainer?: Element | null;
+}
+
+const BACKGROUNDS: { background: BoardBackground; label: string; icon: React.ReactNode }[] = [
+  { background: 'none', label: 'Blank', icon: <Square className="h-4 w-4" /> },
+  { background: 'grid', label: 'Grid', icon: <Grid3x3 className="h-4 w-4" /> },
+  { background: 'dot', label: 'Dots', icon: <Grip className="h-4 w-4" /> },
+  { background: 'lined', label: 'Lined', icon: <AlignJustify className="h-4 w-4" /> },
+  { background: 'graph', label: 'Graph with axes', icon: <ChartLine className="h-4 w-4" /> }
+];
+
+/**
+ * Board background picker, the choice applies to everyone viewing the board
+ */
+export const BackgroundDropdown: React.FC<BackgroundDropdownProps> = ({
+  background,
+  onBackgroundChange,
+  isReadOnly,
+  portalContainer
+}) => {
+  const activeBackground = BACKGROUNDS.find(option => option.background === background) || BACKGROUNDS[0];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          disabled={isReadOnly}
+          data-ui-interactive="true"
+        >
+          {activeBackground.icon}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent
+        className="w-48 p-2 bg-gray-800 border-gray-700 text-white"
+        align="start"
+        side="bottom"
+        sideOffset={5}
+        avoidCollisions={true}
+        style={{ zIndex: 9999 }}
+        container={portalContainer}
+        data-ui-interactive="true"
+        data-dropdown-content="true"
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="space-y-1" data-ui-interactive="true">
+          {BACKGROUNDS.map(option => (
+            <Button
+              key={option.background}
+              variant="ghost"
+              size="sm"
+              className={`w-full justify-start ${background === option.background ? 'bg-gray-600' : ''}`}
+              onClick={() => !isReadOnly && onBackgroundChange(option.background)}
+              disabled={isReadOnly}
+              data-ui-interactive="true"
+            >
+              <span className="mr-2">{option.icon}</span>
+              {option.label}
+            </Button>
+          ))}
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
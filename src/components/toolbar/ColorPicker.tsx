@@ -0,0 +1,255 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Slider } from '@/components/ui/slider';
+import { Pipette, Save, X } from 'lucide-react';
+import { ColorSelector } from './ColorSelector';
+import { useRecentColors } from '@/hooks/useRecentColors';
+import { useSavedPalettes } from '@/hooks/useSavedPalettes';
+import { HsvColor, hexToHsv, hsvToHex, normalizeHex, splitAlpha, withAlpha } from '@/utils/colorUtils';
+
+interface ColorPickerProps {
+  color: string;
+  colors: string[];
+  onColorChange: (color: string) => void;
+  showOpacity?: boolean;
+  isReadOnly: boolean;
+}
+
+// Lowest opacity offered, fainter strokes are hard to see at all
+const MIN_OPACITY_PERCENT = 10;
+
+/**
+ * Preset swatches plus a custom HSV/hex picker, recent colours and the teacher's saved palettes
+ */
+export const ColorPicker: React.FC<ColorPickerProps> = ({
+  color,
+  colors,
+  onColorChange,
+  showOpacity = false,
+  isReadOnly
+}) => {
+  const { hex, alpha } = splitAlpha(color);
+  const { recentColors, addRecentColor } = useRecentColors();
+  const { palettes, canSavePalettes, savePalette, deletePalette } = useSavedPalettes();
+
+  const [isCustomOpen, setIsCustomOpen] = useState(false);
+  const [hsv, setHsv] = useState<HsvColor>(() => hexToHsv(hex));
+  const [hexInput, setHexInput] = useState(hex);
+  const [paletteName, setPaletteName] = useState('');
+  const isDraggingRef = useRef(false);
+
+  // Follow colour changes from outside, keeping the hue when the colour is grey
+  useEffect(() => {
+    setHexInput(hex);
+    setHsv(prev => (hsvToHex(prev) === hex ? prev : hexToHsv(hex)));
+  }, [hex]);
+
+  // Opaque picks keep the current opacity when the picker offers one
+  const applyColor = (opaqueHex: string) => {
+    if (isReadOnly) return;
+    onColorChange(showOpacity ? withAlpha(opaqueHex, alpha) : opaqueHex);
+  };
+
+  const applyHsv = (next: HsvColor) => {
+    setHsv(next);
+    applyColor(hsvToHex(next));
+  };
+
+  const applySaturationValue = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const s = Math.max(0, Math.min(1, (e.clientX - rect.left) / rect.width));
+    const v = Math.max(0, Math.min(1, 1 - (e.clientY - rect.top) / rect.height));
+    applyHsv({ ...hsv, s, v });
+  };
+
+  const handleHexCommit = () => {
+    const normalized = normalizeHex(hexInput);
+    if (!normalized) {
+      setHexInput(hex);
+      return;
+    }
+    const opaque = normalized.slice(0, 7);
+    applyColor(opaque);
+    addRecentColor(opaque);
+  };
+
+  const handleSavePalette = async () => {
+    const name = paletteName.trim();
+    if (!name || recentColors.length === 0) return;
+    if (await savePalette(name, recentColors)) {
+      setPaletteName('');
+    }
+  };
+
+  return (
+    <div className="space-y-3" data-ui-interactive="true">
+      {/* Preset colours */}
+      <ColorSelector
+        selectedColor={hex}
+        colors={colors}
+        onColorChange={applyColor}
+        isReadOnly={isReadOnly}
+      />
+
+      {/* Recently picked custom colours */}
+      {recentColors.length > 0 && (
+        <div className="space-y-1" data-ui-interactive="true">
+          <div className="text-xs text-gray-400">Recent</div>
+          <ColorSelector
+            selectedColor={hex}
+            colors={recentColors}
+            onColorChange={applyColor}
+            isReadOnly={isReadOnly}
+            compact
+          />
+        </div>
+      )}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`w-full justify-start ${isCustomOpen ? 'bg-gray-600' : ''}`}
+        onClick={() => setIsCustomOpen(open => !open)}
+        disabled={isReadOnly}
+        data-ui-interactive="true"
+      >
+        <Pipette className="h-4 w-4 mr-2" />
+        Custom colour
+      </Button>
+
+      {isCustomOpen && (
+        <div className="space-y-2" data-ui-interactive="true">
+          {/* Saturation left to right, brightness bottom to top */}
+          <div
+            className="relative h-28 w-full rounded cursor-crosshair touch-none"
+            style={{
+              backgroundColor: hsvToHex({ h: hsv.h, s: 1, v: 1 }),
+              backgroundImage: 'linear-gradient(to top, #000, transparent), linear-gradient(to right, #fff, transparent)'
+            }}
+            onPointerDown={(e) => {
+              if (isReadOnly) return;
+              isDraggingRef.current = true;
+              e.currentTarget.setPointerCapture(e.pointerId);
+              applySaturationValue(e);
+            }}
+            onPointerMove={(e) => isDraggingRef.current && applySaturationValue(e)}
+            onPointerUp={() => {
+              if (!isDraggingRef.current) return;
+              isDraggingRef.current = false;
+              addRecentColor(hsvToHex(hsv));
+            }}
+            data-ui-interactive="true"
+          >
+            <div
+              className="absolute h-3 w-3 -translate-x-1/2 translate-y-1/2 rounded-full border-2 border-white shadow pointer-events-none"
+              style={{ left: `${hsv.s * 100}%`, bottom: `${hsv.v * 100}%` }}
+            />
+          </div>
+
+          {/* Hue */}
+          <Slider
+            value={[hsv.h]}
+            onValueChange={(value) => applyHsv({ ...hsv, h: value[0] })}
+            onValueCommit={() => addRecentColor(hsvToHex(hsv))}
+            min={0}
+            max={359}
+            step={1}
+            className="w-full"
+            disabled={isReadOnly}
+            data-ui-interactive="true"
+          />
+
+          <Input
+            value={hexInput}
+            onChange={(e) => setHexInput(e.target.value)}
+            onBlur={handleHexCommit}
+            onKeyDown={(e) => {
+              // Keep typing away from the menu's keyboard navigation
+              e.stopPropagation();
+              if (e.key === 'Enter') handleHexCommit();
+            }}
+            className="h-8 bg-gray-700 border-gray-600 text-white font-mono text-xs"
+            maxLength={7}
+            disabled={isReadOnly}
+            data-ui-interactive="true"
+          />
+        </div>
+      )}
+
+      {/* Opacity, stored in the colour itself */}
+      {showOpacity && (
+        <div className="space-y-1" data-ui-interactive="true">
+          <div className="text-xs text-gray-400">Opacity {Math.round(alpha * 100)}%</div>
+          <Slider
+            value={[Math.round(alpha * 100)]}
+            onValueChange={(value) => !isReadOnly && onColorChange(withAlpha(hex, value[0] / 100))}
+            min={MIN_OPACITY_PERCENT}
+            max={100}
+            step={5}
+            className="w-full"
+            disabled={isReadOnly}
+            data-ui-interactive="true"
+          />
+        </div>
+      )}
+
+      {/* Palettes saved on the teacher's profile */}
+      {canSavePalettes && (
+        <div className="space-y-2" data-ui-interactive="true">
+          {palettes.map(palette => (
+            <div key={palette.id} className="space-y-1" data-ui-interactive="true">
+              <div className="flex items-center justify-between text-xs text-gray-400">
+                <span className="truncate">{palette.palette_name}</span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-5 w-5"
+                  onClick={() => deletePalette(palette.id)}
+                  disabled={isReadOnly}
+                  data-ui-interactive="true"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+              <ColorSelector
+                selectedColor={hex}
+                colors={palette.colors}
+                onColorChange={applyColor}
+                isReadOnly={isReadOnly}
+                compact
+              />
+            </div>
+          ))}
+
+          {recentColors.length > 0 && (
+            <div className="flex space-x-1" data-ui-interactive="true">
+              <Input
+                value={paletteName}
+                onChange={(e) => setPaletteName(e.target.value)}
+                onKeyDown={(e) => {
+                  e.stopPropagation();
+                  if (e.key === 'Enter') handleSavePalette();
+                }}
+                placeholder="Save recent as palette"
+                className="h-8 bg-gray-700 border-gray-600 text-white text-xs"
+                disabled={isReadOnly}
+                data-ui-interactive="true"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 shrink-0"
+                onClick={handleSavePalette}
+                disabled={isReadOnly || !paletteName.trim()}
+                data-ui-interactive="true"
+              >
+                <Save className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -7,13 +7,15 @@ interface ColorSelectorProps {
   colors: string[];
   onColorChange: (color: string) => void;
   isReadOnly: boolean;
+  compact?: boolean; // Smaller swatches for recent colours and palettes
 }
 
 export const ColorSelector: React.FC<ColorSelectorProps> = ({
   selectedColor,
   colors,
   onColorChange,
-  isReadOnly
+  isReadOnly,
+  compact = false
 }) => {
   const handleColorSelect = (color: string) => {
     if (!isReadOnly) {
@@ -40,13 +42,13 @@ export const ColorSelector: React.FC<ColorSelectorProps> = ({
   };
 
   return (
-    <div className="flex space-x-2 justify-center" data-ui-interactive="true">
+    <div className="flex flex-wrap gap-2 justify-center" data-ui-interactive="true">
       {colors.map((color) => (
         <Button
           key={color}
           variant="ghost"
           size="icon"
-          className={`w-8 h-8 rounded-full p-0 border-2 transition-all hover:scale-105 ${
+          className={`${compact ? 'w-6 h-6' : 'w-8 h-8'} rounded-full p-0 border-2 transition-all hover:scale-105 ${
             selectedColor === color 
               ? 'border-white border-4 shadow-lg' 
               : 'border-gray-500 hover:border-gray-400'
@@ -0,0 +1,91 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronDown, Eraser, Scissors } from 'lucide-react';
+import { EraserMode } from '@/types/whiteboard';
+
+interface EraserDropdownProps {
+  isActive: boolean;
+  mode: EraserMode;
+  onToolSelect: () => void;
+  onModeChange: (mode: EraserMode) => void;
+  isReadOnly: boolean;
+  portalContainer?: Element | null;
+}
+
+const ERASER_MODES: { mode: EraserMode; label: string; icon: React.ReactNode }[] = [
+  { mode: 'stroke', label: 'Whole stroke', icon: <Eraser className="h-4 w-4" /> },
+  { mode: 'partial', label: 'Partial', icon: <Scissors className="h-4 w-4" /> }
+];
+
+export const EraserDropdown: React.FC<EraserDropdownProps> = ({
+  isActive,
+  mode,
+  onToolSelect,
+  onModeChange,
+  isReadOnly,
+  portalContainer
+}) => {
+  const activeMode = ERASER_MODES.find(option => option.mode === mode) || ERASER_MODES[0];
+
+  return (
+    <div className="relative flex" data-ui-interactive="true">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-8 w-6 rounded-r-none ${isActive ? 'bg-gray-700' : ''}`}
+        onClick={() => !isReadOnly && onToolSelect()}
+        disabled={isReadOnly}
+        data-ui-interactive="true"
+      >
+        {activeMode.icon}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-4 rounded-l-none border-l border-gray-600 px-1"
+            disabled={isReadOnly}
+            data-ui-interactive="true"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          className="w-44 p-2 bg-gray-800 border-gray-700 text-white"
+          align="start"
+          side="bottom"
+          sideOffset={5}
+          avoidCollisions={true}
+          style={{ zIndex: 9999 }}
+          container={portalContainer}
+          data-ui-interactive="true"
+          data-dropdown-content="true"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="space-y-1" data-ui-interactive="true">
+            {ERASER_MODES.map(option => (
+              <Button
+                key={option.mode}
+                variant="ghost"
+                size="sm"
+                className={`w-full justify-start ${mode === option.mode ? 'bg-gray-600' : ''}`}
+                onClick={() => !isReadOnly && onModeChange(option.mode)}
+                disabled={isReadOnly}
+                data-ui-interactive="true"
+              >
+                <span className="mr-2">{option.icon}</span>
+                {option.label}
+              </Button>
+            ))}
+          </div>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
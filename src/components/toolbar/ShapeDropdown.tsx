@@ -0,0 +1,144 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Slider } from '@/components/ui/slider';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { ChevronDown, Square, Circle, Triangle, Minus, ArrowRight, PaintBucket } from 'lucide-react';
+import { ShapeKind, ShapeSettings } from '@/types/whiteboard';
+import { ColorSelector } from './ColorSelector';
+
+interface ShapeDropdownProps {
+  isActive: boolean;
+  settings: ShapeSettings;
+  colors: string[];
+  onToolSelect: () => void;
+  onSettingsChange: (updates: Partial<ShapeSettings>) => void;
+  isReadOnly: boolean;
+  portalContainer?: Element | null;
+}
+
+const SHAPE_KINDS: { kind: ShapeKind; icon: React.ReactNode }[] = [
+  { kind: 'rectangle', icon: <Square className="h-4 w-4" /> },
+  { kind: 'ellipse', icon: <Circle className="h-4 w-4" /> },
+  { kind: 'triangle', icon: <Triangle className="h-4 w-4" /> },
+  { kind: 'line', icon: <Minus className="h-4 w-4" /> },
+  { kind: 'arrow', icon: <ArrowRight className="h-4 w-4" /> }
+];
+
+export const ShapeDropdown: React.FC<ShapeDropdownProps> = ({
+  isActive,
+  settings,
+  colors,
+  onToolSelect,
+  onSettingsChange,
+  isReadOnly,
+  portalContainer
+}) => {
+  const activeKind = SHAPE_KINDS.find(({ kind }) => kind === settings.kind) || SHAPE_KINDS[0];
+  const canFill = settings.kind === 'rectangle' || settings.kind === 'ellipse' || settings.kind === 'triangle';
+
+  const handleSettingsChange = (updates: Partial<ShapeSettings>) => {
+    if (!isReadOnly) {
+      onSettingsChange(updates);
+    }
+  };
+
+  return (
+    <div className="relative flex" data-ui-interactive="true">
+      <Button
+        variant="ghost"
+        size="icon"
+        className={`h-8 w-6 rounded-r-none ${isActive ? 'bg-gray-700' : ''}`}
+        onClick={() => !isReadOnly && onToolSelect()}
+        disabled={isReadOnly}
+        data-ui-interactive="true"
+      >
+        {activeKind.icon}
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-4 rounded-l-none border-l border-gray-600 px-1"
+            disabled={isReadOnly}
+            data-ui-interactive="true"
+          >
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent
+          className="w-48 p-3 bg-gray-800 border-gray-700 text-white"
+          align="start"
+          side="bottom"
+          sideOffset={5}
+          avoidCollisions={true}
+          style={{ zIndex: 9999 }}
+          container={portalContainer}
+          data-ui-interactive="true"
+          data-dropdown-content="true"
+          onPointerDown={(e) => e.stopPropagation()}
+        >
+          <div className="space-y-3" data-ui-interactive="true">
+            {/* Shape kind */}
+            <div className="flex space-x-1 justify-center" data-ui-interactive="true">
+              {SHAPE_KINDS.map(({ kind, icon }) => (
+                <Button
+                  key={kind}
+                  variant="ghost"
+                  size="icon"
+                  className={`h-8 w-8 ${settings.kind === kind ? 'bg-gray-600' : ''}`}
+                  onClick={() => handleSettingsChange({ kind })}
+                  disabled={isReadOnly}
+                  data-ui-interactive="true"
+                >
+                  {icon}
+                </Button>
+              ))}
+            </div>
+
+            {/* Thickness slider */}
+            <div data-ui-interactive="true">
+              <Slider
+                value={[settings.strokeWidth]}
+                onValueChange={(value) => handleSettingsChange({ strokeWidth: value[0] })}
+                min={1}
+                max={20}
+                step={1}
+                className="w-full"
+                disabled={isReadOnly}
+                data-ui-interactive="true"
+              />
+            </div>
+
+            {/* Stroke color */}
+            <ColorSelector
+              selectedColor={settings.color}
+              colors={colors}
+              onColorChange={(color) => handleSettingsChange(settings.fillColor ? { color, fillColor: color } : { color })}
+              isReadOnly={isReadOnly}
+            />
+
+            {/* Fill toggle, filled shapes use the stroke color */}
+            {canFill && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className={`w-full justify-start ${settings.fillColor ? 'bg-gray-600' : ''}`}
+                onClick={() => handleSettingsChange({ fillColor: settings.fillColor ? undefined : settings.color })}
+                disabled={isReadOnly}
+                data-ui-interactive="true"
+              >
+                <PaintBucket className="h-4 w-4 mr-2" />
+                Fill
+              </Button>
+            )}
+          </div>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
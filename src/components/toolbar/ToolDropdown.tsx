@@ -8,7 +8,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { ChevronDown } from 'lucide-react';
-import { ColorSelector } from './ColorSelector';
+import { ColorPicker } from './ColorPicker';
 
 interface ToolDropdownProps {
   icon: React.ReactNode;
@@ -22,6 +22,7 @@ interface ToolDropdownProps {
   onToolSelect: () => void;
   onStrokeWidthChange: (width: number) => void;
   onColorChange: (color: string) => void;
+  showOpacity?: boolean;
   isReadOnly: boolean;
   portalContainer?: Element | null;
 }
@@ -38,6 +39,7 @@ export const ToolDropdown: React.FC<ToolDropdownProps> = ({
   onToolSelect,
   onStrokeWidthChange,
   onColorChange,
+  showOpacity = false,
   isReadOnly,
   portalContainer
 }) => {
@@ -83,7 +85,7 @@ export const ToolDropdown: React.FC<ToolDropdownProps> = ({
           </Button>
         </DropdownMenuTrigger>
         <DropdownMenuContent 
-          className="w-48 p-3 bg-gray-800 border-gray-700 text-white" 
+          className="w-56 p-3 bg-gray-800 border-gray-700 text-white" 
           align="start"
           side="bottom"
           sideOffset={5}
@@ -114,11 +116,12 @@ export const ToolDropdown: React.FC<ToolDropdownProps> = ({
               />
             </div>
 
-            {/* Color selector */}
-            <ColorSelector
-              selectedColor={color}
+            {/* Color picker */}
+            <ColorPicker
+              color={color}
               colors={colors}
               onColorChange={handleColorChange}
+              showOpacity={showOpacity}
               isReadOnly={isReadOnly}
             />
           </div>
@@ -5,7 +5,7 @@ import TopRightButtons from './TopRightButtons';
 import SessionStatus from './SessionStatus';
 import WhiteboardContent from './WhiteboardContent';
 import SyncDirectionToggle from '../SyncDirectionToggle';
-import { SyncConfig } from '@/types/sync';
+import { SyncConfig, SyncStatus } from '@/types/sync';
 import { ActivityMetadata } from '@/types/whiteboard';
 import { SessionParticipant, SyncDirection } from '@/types/student';
 
@@ -22,9 +22,10 @@ interface MaximizedWhiteboardViewProps {
   whiteboardWidth: number;
   whiteboardHeight: number;
   syncConfig?: SyncConfig;
+  canChooseBackground?: boolean;
   portalContainer?: Element | null;
   hasLastActivity?: boolean;
-  syncState?: { isConnected: boolean; isReceiveOnly: boolean } | null;
+  syncState?: SyncStatus | null;
   onLastActivityUpdate?: (activity: ActivityMetadata | null) => void;
   onCenterCallbackUpdate?: (callback: (bounds: any) => void) => void;
   // Sync direction toggle props
@@ -49,6 +50,7 @@ const MaximizedWhiteboardView: React.FC<MaximizedWhiteboardViewProps> = ({
   whiteboardWidth,
   whiteboardHeight,
   syncConfig,
+  canChooseBackground = false,
   portalContainer,
   hasLastActivity = false,
   syncState,
@@ -72,7 +74,7 @@ const MaximizedWhiteboardView: React.FC<MaximizedWhiteboardViewProps> = ({
     onMinimize?.();
   }, [onMinimize]);
 
-  const handleSyncStateChange = useCallback((newSyncState: { isConnected: boolean; isReceiveOnly: boolean } | null) => {
+  const handleSyncStateChange = useCallback((newSyncState: SyncStatus | null) => {
     setLocalSyncState(newSyncState);
   }, []);
 
@@ -127,6 +129,7 @@ const MaximizedWhiteboardView: React.FC<MaximizedWhiteboardViewProps> = ({
             whiteboardWidth={whiteboardWidth}
             whiteboardHeight={whiteboardHeight}
             syncConfig={syncConfig}
+            canChooseBackground={canChooseBackground}
             id={id}
             portalContainer={portalContainer}
             onSyncStateChange={handleSyncStateChange}
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { Maximize2, Minimize2, Eye } from 'lucide-react';
+import { SyncStatus } from '@/types/sync';
 
 interface TopRightButtonsProps {
   isMaximized: boolean;
@@ -8,10 +9,7 @@ interface TopRightButtonsProps {
   onMaximizeClick: () => void;
   onEyeClick: () => void;
   hasLastActivity?: boolean;
-  syncState?: {
-    isConnected: boolean;
-    isReceiveOnly: boolean;
-  };
+  syncState?: SyncStatus;
 }
 
 const TopRightButtons: React.FC<TopRightButtonsProps> = ({
@@ -33,6 +31,30 @@ const TopRightButtons: React.FC<TopRightButtonsProps> = ({
           <span className="text-gray-700 text-xs">
             {syncState.isConnected ? 'Connected' : 'Disconnected'}
           </span>
+          {syncState.pendingOperations?.pending > 0 && (
+            <span
+              className="bg-amber-100 text-amber-800 text-xs px-2 py-1 rounded"
+              title="Changes waiting to be saved"
+            >
+              {syncState.pendingOperations.pending} pending
+            </span>
+          )}
+          {syncState.pendingOperations?.failed > 0 && (
+            <span
+              className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded"
+              title="Changes that could not be saved yet, retried when the connection returns"
+            >
+              {syncState.pendingOperations.failed} failed
+            </span>
+          )}
+          {syncState.pendingOperations?.rejected > 0 && (
+            <span
+              className="bg-red-100 text-red-800 text-xs px-2 py-1 rounded"
+              title="Changes the server refused, they were not saved"
+            >
+              {syncState.pendingOperations.rejected} rejected
+            </span>
+          )}
           {syncState.isReceiveOnly && (
             <span className="bg-blue-100 text-blue-800 text-xs px-2 py-1 rounded">Read Only</span>
           )}
@@ -2,16 +2,17 @@
 import React, { useState, useCallback, useEffect } from 'react';
 import Whiteboard from '../Whiteboard';
 import { SyncWhiteboard } from '../SyncWhiteboard';
-import { SyncConfig } from '@/types/sync';
+import { SyncConfig, SyncStatus } from '@/types/sync';
 import { ActivityMetadata } from '@/types/whiteboard';
 
 interface WhiteboardContentProps {
   whiteboardWidth: number;
   whiteboardHeight: number;
   syncConfig?: SyncConfig;
+  canChooseBackground?: boolean; // Teachers pick the paper background for everyone on the board
   id: string;
   portalContainer?: Element | null;
-  onSyncStateChange?: (syncState: { isConnected: boolean; isReceiveOnly: boolean } | null) => void;
+  onSyncStateChange?: (syncState: SyncStatus | null) => void;
   onLastActivityUpdate?: (activity: ActivityMetadata | null) => void;
   onCenterCallbackUpdate?: (callback: (bounds: any) => void) => void;
 }
@@ -26,6 +27,7 @@ const WhiteboardContent: React.FC<WhiteboardContentProps> = ({
   whiteboardWidth,
   whiteboardHeight,
   syncConfig,
+  canChooseBackground = false,
   id,
   portalContainer,
   onSyncStateChange,
@@ -69,7 +71,7 @@ const WhiteboardContent: React.FC<WhiteboardContentProps> = ({
   }, [id, whiteboardWidth, whiteboardHeight]);
 
   // Enhanced sync state change handler with error handling - reduced logging
-  const handleSyncStateChange = useCallback((syncState: { isConnected: boolean; isReceiveOnly: boolean } | null) => {
+  const handleSyncStateChange = useCallback((syncState: SyncStatus | null) => {
     try {
       // Only log significant state changes
       if (process.env.NODE_ENV === 'development') {
@@ -179,6 +181,7 @@ const WhiteboardContent: React.FC<WhiteboardContentProps> = ({
           <SyncWhiteboard 
             key={`sync-${id}`}
             syncConfig={syncConfig}
+            canChooseBackground={canChooseBackground}
             width={whiteboardWidth}
             height={whiteboardHeight}
             portalContainer={portalContainer}
@@ -0,0 +1,51 @@
+import { useEffect } from 'react';
+import Konva from 'konva';
+import { PanZoomState } from '@/types/whiteboard';
+import { useStageCoordinates } from '@/hooks/useStageCoordinates';
+
+interface UseKonvaCursorTrackingProps {
+  containerRef: React.RefObject<HTMLDivElement>;
+  stageRef: React.RefObject<Konva.Stage>;
+  panZoomState: PanZoomState;
+  onCursorMove?: (x: number, y: number) => void;
+  onCursorLeave?: () => void;
+}
+
+/**
+ * Reports the pointer position in whiteboard coordinates for presence cursors,
+ * independently of the active tool and its event handlers
+ */
+export const useKonvaCursorTracking = ({
+  containerRef,
+  stageRef,
+  panZoomState,
+  onCursorMove,
+  onCursorLeave
+}: UseKonvaCursorTrackingProps) => {
+  const { getRelativePointerPosition } = useStageCoordinates(panZoomState);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container || !onCursorMove) return;
+
+    const handlePointerMove = (e: PointerEvent) => {
+      const stage = stageRef.current;
+      if (!stage) return;
+
+      const { x, y } = getRelativePointerPosition(stage, e.clientX, e.clientY);
+      onCursorMove(x, y);
+    };
+
+    const handlePointerLeave = () => {
+      onCursorLeave?.();
+    };
+
+    container.addEventListener('pointermove', handlePointerMove);
+    container.addEventListener('pointerleave', handlePointerLeave);
+
+    return () => {
+      container.removeEventListener('pointermove', handlePointerMove);
+      container.removeEventListener('pointerleave', handlePointerLeave);
+    };
+  }, [containerRef, stageRef, getRelativePointerPosition, onCursorMove, onCursorLeave]);
+};
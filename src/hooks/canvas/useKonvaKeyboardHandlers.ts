@@ -1,18 +1,38 @@
 
 import React, { useEffect } from 'react';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, ObjectUpdates } from '@/types/whiteboard';
+import { ClipboardObjects, collectSelectedObjects } from '@/utils/clipboardObjects';
+import { calculateGroupBounds } from '@/utils/groupBoundsCalculator';
 import { useWhiteboardState } from '@/hooks/useWhiteboardState';
+import { useSelect2Transform } from '@/hooks/useSelect2Transform';
+
+// Arrow key nudge distance in whiteboard units, with and without Shift
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+// Bracket key rotation in degrees, Shift for fine steps
+const ROTATE_STEP = 15;
+const ROTATE_STEP_FINE = 1;
+
+const ARROW_OFFSETS: Record<string, { x: number; y: number }> = {
+  ArrowLeft: { x: -1, y: 0 },
+  ArrowRight: { x: 1, y: 0 },
+  ArrowUp: { x: 0, y: -1 },
+  ArrowDown: { x: 0, y: 1 }
+};
 
 interface UseKonvaKeyboardHandlersProps {
   containerRef: React.RefObject<HTMLDivElement>;
   whiteboardState: ReturnType<typeof useWhiteboardState>;
   isReadOnly: boolean;
   whiteboardId?: string;
-  unifiedDeleteFunction?: (selectedObjects?: Array<{id: string, type: 'line' | 'image'}>) => void;
+  unifiedDeleteFunction?: (selectedObjects?: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => void;
   select2Handlers?: {
     select2State: any;
     deleteSelectedObjects: () => void;
     clearSelection: () => void;
-    selectAll: (lines: any[], images: any[]) => void;
+    selectAll: (lines: any[], images: any[], shapes?: ShapeObject[], texts?: TextObject[]) => void;
+    selectObjects?: (lines: LineObject[], images: ImageObject[], shapes?: ShapeObject[], texts?: TextObject[]) => void;
   };
 }
 
@@ -25,15 +45,121 @@ export const useKonvaKeyboardHandlers = ({
   select2Handlers
 }: UseKonvaKeyboardHandlersProps) => {
   const { state, handlePaste, selection } = whiteboardState;
+  const { transformObjectBounds } = useSelect2Transform();
 
   useEffect(() => {
     const container = containerRef.current;
     if (!container || isReadOnly) return;
 
+    // Clipboard text for the select2 selection (shared whiteboards only)
+    const copySelection = (e: ClipboardEvent): SelectedObject[] | null => {
+      const selectedObjects: SelectedObject[] = select2Handlers?.select2State?.selectedObjects || [];
+      if (state.editingTextId || selectedObjects.length === 0) return null;
+      if (!('copyObjects' in whiteboardState) || typeof whiteboardState.copyObjects !== 'function') return null;
+
+      const text = (whiteboardState.copyObjects as (objects: SelectedObject[]) => string | null)(selectedObjects);
+      if (!text || !e.clipboardData) return null;
+
+      e.clipboardData.setData('text/plain', text);
+      e.preventDefault();
+      return selectedObjects;
+    };
+
+    const copyHandler = (e: ClipboardEvent) => {
+      copySelection(e);
+    };
+
+    const cutHandler = (e: ClipboardEvent) => {
+      const copiedObjects = copySelection(e);
+      if (!copiedObjects) return;
+
+      if (unifiedDeleteFunction) {
+        unifiedDeleteFunction(copiedObjects);
+      }
+      select2Handlers?.clearSelection();
+    };
+
     const pasteHandler = (e: ClipboardEvent) => {
+      // Objects copied on this or another board, otherwise fall back to pasting images
+      const text = e.clipboardData?.getData('text/plain');
+      if (text && 'pasteObjects' in whiteboardState && typeof whiteboardState.pasteObjects === 'function') {
+        const pasted = (whiteboardState.pasteObjects as (text: string) => ClipboardObjects | null)(text);
+        if (pasted) {
+          e.preventDefault();
+          select2Handlers?.selectObjects?.(pasted.lines, pasted.images, pasted.shapes, pasted.texts);
+          return;
+        }
+      }
       handlePaste(e, null);
     };
 
+    // Select2 selection that keyboard transforms apply to, empty while editing text
+    const getSelectedObjects = (): SelectedObject[] => {
+      if (state.currentTool !== 'select2' || state.editingTextId) return [];
+      return select2Handlers?.select2State?.selectedObjects || [];
+    };
+
+    const applyObjectUpdates = (objectUpdates: ObjectUpdates) => {
+      if ('updateObjects' in whiteboardState && typeof whiteboardState.updateObjects === 'function') {
+        (whiteboardState.updateObjects as (objectUpdates: ObjectUpdates) => void)(objectUpdates);
+      }
+    };
+
+    // Move the selection, locked images stay in place
+    const nudgeSelection = (selectedObjects: SelectedObject[], dx: number, dy: number) => {
+      const { lines, images, shapes, texts } = collectSelectedObjects(selectedObjects, state);
+      applyObjectUpdates({
+        line_updates: lines.map(line => ({ line_id: line.id, updates: { x: line.x + dx, y: line.y + dy } })),
+        image_updates: images
+          .filter(image => !image.locked)
+          .map(image => ({ image_id: image.id, updates: { x: image.x + dx, y: image.y + dy } })),
+        shape_updates: shapes.map(shape => ({ shape_id: shape.id, updates: { x: shape.x + dx, y: shape.y + dy } })),
+        text_updates: texts.map(text => ({ text_id: text.id, updates: { x: text.x + dx, y: text.y + dy } }))
+      });
+    };
+
+    // Rotate the selection around its centre, the same way as the rotation handle
+    const rotateSelection = (selectedObjects: SelectedObject[], rotation: number) => {
+      const { lines, images, shapes, texts } = collectSelectedObjects(selectedObjects, state);
+      const bounds = calculateGroupBounds(selectedObjects, lines, images, shapes, texts);
+      if (!bounds) return;
+
+      const center = { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+      const matrix = { scaleX: 1, scaleY: 1, rotation, translateX: 0, translateY: 0 };
+      const objectUpdates: Required<ObjectUpdates> = { line_updates: [], image_updates: [], shape_updates: [], text_updates: [] };
+
+      selectedObjects.forEach(obj => {
+        if (obj.type === 'image' && images.find(image => image.id === obj.id)?.locked) return;
+
+        const transformed = transformObjectBounds(obj, lines, images, center, matrix, shapes, texts);
+        if (!transformed) return;
+
+        if (obj.type === 'line' && 'points' in transformed) {
+          objectUpdates.line_updates.push({
+            line_id: obj.id,
+            updates: { x: transformed.x, y: transformed.y, points: transformed.points }
+          });
+        } else if (obj.type === 'image' && 'rotation' in transformed) {
+          objectUpdates.image_updates.push({
+            image_id: obj.id,
+            updates: { x: transformed.x, y: transformed.y, rotation: transformed.rotation }
+          });
+        } else if (obj.type === 'shape' && 'rotation' in transformed) {
+          objectUpdates.shape_updates.push({
+            shape_id: obj.id,
+            updates: { x: transformed.x, y: transformed.y, rotation: transformed.rotation }
+          });
+        } else if (obj.type === 'text' && 'fontSize' in transformed) {
+          objectUpdates.text_updates.push({
+            text_id: obj.id,
+            updates: { x: transformed.x, y: transformed.y, rotation: transformed.rotation }
+          });
+        }
+      });
+
+      applyObjectUpdates(objectUpdates);
+    };
+
     const keyDownHandler = (e: KeyboardEvent) => {
       if (document.activeElement !== container && !container.contains(document.activeElement)) {
         return;
@@ -60,7 +186,7 @@ export const useKonvaKeyboardHandlers = ({
       // Ctrl+A - select all objects
       if (e.ctrlKey && e.key === 'a') {
         if (state.currentTool === 'select2' && select2Handlers?.selectAll) {
-          select2Handlers.selectAll(state.lines || [], state.images || []);
+          select2Handlers.selectAll(state.lines || [], state.images || [], state.shapes || [], state.texts || []);
           e.preventDefault();
           return;
         }
@@ -69,6 +195,57 @@ export const useKonvaKeyboardHandlers = ({
         return;
       }
 
+      // Ctrl+G - group the select2 selection, Ctrl+Shift+G - ungroup it
+      if (e.ctrlKey && e.key.toLowerCase() === 'g') {
+        const selectedObjects = getSelectedObjects();
+        if (selectedObjects.length > 0) {
+          if (e.shiftKey && 'ungroupObjects' in whiteboardState && typeof whiteboardState.ungroupObjects === 'function') {
+            (whiteboardState.ungroupObjects as (objects: SelectedObject[]) => void)(selectedObjects);
+          } else if (!e.shiftKey && 'groupObjects' in whiteboardState && typeof whiteboardState.groupObjects === 'function') {
+            (whiteboardState.groupObjects as (objects: SelectedObject[]) => void)(selectedObjects);
+          }
+        }
+        e.preventDefault();
+        return;
+      }
+
+      // Ctrl+D - duplicate the select2 selection and select the copies
+      if (e.ctrlKey && e.key === 'd') {
+        const selectedObjects = getSelectedObjects();
+        if (selectedObjects.length > 0 && 'duplicateObjects' in whiteboardState && typeof whiteboardState.duplicateObjects === 'function') {
+          const duplicated = (whiteboardState.duplicateObjects as (objects: SelectedObject[]) => ClipboardObjects | null)(selectedObjects);
+          if (duplicated) {
+            select2Handlers?.selectObjects?.(duplicated.lines, duplicated.images, duplicated.shapes, duplicated.texts);
+          }
+        }
+        // Keep the browser from bookmarking the page
+        e.preventDefault();
+        return;
+      }
+
+      // Arrow keys - nudge the select2 selection, Shift for larger steps
+      const arrowOffset = ARROW_OFFSETS[e.key];
+      if (arrowOffset && !e.ctrlKey && !e.altKey) {
+        const selectedObjects = getSelectedObjects();
+        if (selectedObjects.length > 0) {
+          const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+          nudgeSelection(selectedObjects, arrowOffset.x * step, arrowOffset.y * step);
+          e.preventDefault();
+        }
+        return;
+      }
+
+      // [ and ] - rotate the select2 selection anticlockwise or clockwise, Shift for fine steps
+      if ((e.code === 'BracketLeft' || e.code === 'BracketRight') && !e.ctrlKey && !e.altKey) {
+        const selectedObjects = getSelectedObjects();
+        if (selectedObjects.length > 0) {
+          const step = e.shiftKey ? ROTATE_STEP_FINE : ROTATE_STEP;
+          rotateSelection(selectedObjects, e.code === 'BracketLeft' ? -step : step);
+          e.preventDefault();
+        }
+        return;
+      }
+
       // Escape key - clear selection
       if (e.key === 'Escape' && selection) {
         // NOTE: Original clearSelection may not exist - function removed
@@ -100,6 +277,8 @@ export const useKonvaKeyboardHandlers = ({
     };
 
     const clickHandler = (e: MouseEvent) => {
+      // Leave focus in the text editor that the click just opened
+      if (state.editingTextId) return;
       if (container && e.target && container.contains(e.target as Node)) {
         container.focus();
       }
@@ -115,14 +294,18 @@ export const useKonvaKeyboardHandlers = ({
     container.setAttribute('id', `whiteboard-container-${whiteboardId || 'unknown'}`);
     container.style.outline = 'none';
     
+    container.addEventListener('copy', copyHandler);
+    container.addEventListener('cut', cutHandler);
     container.addEventListener('paste', pasteHandler);
     container.addEventListener('keydown', keyDownHandler);
     container.addEventListener('click', clickHandler);
 
     return () => {
+      container.removeEventListener('copy', copyHandler);
+      container.removeEventListener('cut', cutHandler);
       container.removeEventListener('paste', pasteHandler);
       container.removeEventListener('keydown', keyDownHandler);
       container.removeEventListener('click', clickHandler);
     };
-  }, [handlePaste, isReadOnly, selection, whiteboardId, state.currentTool, state.lines, state.images, whiteboardState, unifiedDeleteFunction, select2Handlers]);
+  }, [handlePaste, isReadOnly, selection, whiteboardId, state.currentTool, state.lines, state.images, state.shapes, state.texts, state.editingTextId, whiteboardState, unifiedDeleteFunction, select2Handlers, transformObjectBounds]);
 };
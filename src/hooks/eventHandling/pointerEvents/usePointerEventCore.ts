@@ -57,7 +57,7 @@ export const usePointerEventCore = (
     if (!stagePos) return;
 
     // Route to appropriate handler
-    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser') {
+    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape') {
       drawingCoordination.handleDrawingStart(stagePos.x, stagePos.y);
     }
   }, [multiTouch, eventDeduplication, drawingCoordination, stageCoordinates, currentTool, selection, updateDrawingSequence]);
@@ -86,7 +86,7 @@ export const usePointerEventCore = (
     if (!stagePos) return;
 
     // Route to appropriate handler
-    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser') {
+    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape') {
       drawingCoordination.handleDrawingContinue(stagePos.x, stagePos.y);
     }
   }, [multiTouch, eventDeduplication, drawingCoordination, stageCoordinates, currentTool, selection, updateDrawingSequence, isInDrawingSequence]);
@@ -108,7 +108,7 @@ export const usePointerEventCore = (
     }
 
     // Route to appropriate handler
-    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser') {
+    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape') {
       drawingCoordination.handleDrawingEnd();
     }
   }, [multiTouch, eventDeduplication, drawingCoordination, currentTool, selection]);
@@ -123,14 +123,14 @@ export const usePointerEventCore = (
     multiTouch.removePointer(e.pointerId);
 
     // End drawing operations
-    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser') {
+    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape') {
       drawingCoordination.handleDrawingEnd();
     }
   }, [multiTouch, drawingCoordination, currentTool, selection]);
 
   const handleContextMenu = useCallback((e: Event) => {
     // Always prevent context menu during drawing tools
-    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser') {
+    if (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape') {
       e.preventDefault();
       e.stopPropagation();
     }
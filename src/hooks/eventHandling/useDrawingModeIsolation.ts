@@ -16,7 +16,7 @@ export const useDrawingModeIsolation = ({
   const LONG_PRESS_DELAY = 300; // ms
 
   useEffect(() => {
-    const shouldBlock = isDrawing && (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser');
+    const shouldBlock = isDrawing && (currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape');
     
     if (shouldBlock === blockingActiveRef.current) return;
     blockingActiveRef.current = shouldBlock;
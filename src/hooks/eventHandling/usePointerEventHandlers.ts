@@ -19,8 +19,8 @@ interface UsePointerEventHandlersProps {
     continuePan: (x: number, y: number) => void;
     stopPan: () => void;
   };
-  handlePointerDown: (x: number, y: number, ctrlKey?: boolean, button?: number, clientX?: number, clientY?: number) => void;
-  handlePointerMove: (x: number, y: number, clientX?: number, clientY?: number) => void;
+  handlePointerDown: (x: number, y: number, ctrlKey?: boolean, button?: number, clientX?: number, clientY?: number, pressure?: number) => void;
+  handlePointerMove: (x: number, y: number, clientX?: number, clientY?: number, pressure?: number) => void;
   handlePointerUp: () => void;
   isReadOnly: boolean;
   currentToolRef: React.RefObject<string>;
@@ -28,6 +28,10 @@ interface UsePointerEventHandlersProps {
   supportsPointerEvents: boolean;
 }
 
+// Only a stylus reports real pressure, mice and most touch screens send a fixed value
+const getStylusPressure = (e: PointerEvent): number | undefined =>
+  e.pointerType === 'pen' ? e.pressure : undefined;
+
 export const usePointerEventHandlers = ({
   containerRef,
   stageRef,
@@ -61,7 +65,7 @@ export const usePointerEventHandlers = ({
 
       // Transform screen coordinates to world coordinates
       const { x, y } = getRelativePointerPosition(stage, e.clientX, e.clientY);
-      handlePointerDown(x, y, e.ctrlKey, e.button, e.clientX, e.clientY);
+      handlePointerDown(x, y, e.ctrlKey, e.button, e.clientX, e.clientY, getStylusPressure(e));
     },
     handlePointerMoveEvent: (e: PointerEvent) => {
       const stage = stageRef.current;
@@ -69,7 +73,7 @@ export const usePointerEventHandlers = ({
 
       // Transform screen coordinates to world coordinates
       const { x, y } = getRelativePointerPosition(stage, e.clientX, e.clientY);
-      handlePointerMove(x, y, e.clientX, e.clientY);
+      handlePointerMove(x, y, e.clientX, e.clientY, getStylusPressure(e));
     },
     handlePointerUpEvent: (e: PointerEvent) => {
       logEventHandling('pointer', 'pointer', { type: 'up' });
@@ -35,7 +35,7 @@ export const useTouchEventHandlers = ({
     const container = containerRef.current;
     if (!container) return;
 
-    const isDrawingTool = currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser';
+    const isDrawingTool = currentTool === 'pencil' || currentTool === 'highlighter' || currentTool === 'eraser' || currentTool === 'shape';
 
     const handleTouchStart = (e: TouchEvent) => {
       // Update multi-touch detection immediately
@@ -23,8 +23,13 @@ export const useDataLoader = (
     error: null, 
     lines: [], 
     images: [], 
+    shapes: [],
+    texts: [],
+    background: 'none' as const,
     lastActivity: null, 
-    orderedOperations: [] 
+    orderedOperations: [],
+    baseSnapshot: null,
+    reload: async () => {}
   };
 
   return {
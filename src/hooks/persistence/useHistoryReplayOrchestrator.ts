@@ -1,5 +1,6 @@
 
-import { WhiteboardState } from '@/types/whiteboard';
+import { WhiteboardState, HistorySnapshot } from '@/types/whiteboard';
+import { BoardState } from '@/utils/persistence';
 import { useSharedHistoryReplay } from '../shared/useSharedHistoryReplay';
 
 /**
@@ -12,21 +13,27 @@ export const useHistoryReplayOrchestrator = () => {
   const processHistoryReplay = (
     operations: any[],
     initialState: WhiteboardState,
-    whiteboardId?: string
+    whiteboardId?: string,
+    baseSnapshot?: BoardState | null,
+    senderId?: string
   ) => {
-    console.log(`[HistoryReplayOrchestrator] Starting pure history replay for ${operations.length} operations`);
+    console.log(`[HistoryReplayOrchestrator] Starting pure history replay for ${operations.length} operations${baseSnapshot ? ' on top of snapshot' : ''}`);
     
-    // Create initial state for replay
+    // Create initial state for replay - the snapshot state when the board was loaded from one
     const cleanInitialState = {
       ...initialState,
-      lines: [],
-      images: []
+      lines: baseSnapshot ? [...baseSnapshot.lines] : [],
+      images: baseSnapshot ? [...baseSnapshot.images] : [],
+      shapes: baseSnapshot?.shapes ? [...baseSnapshot.shapes] : [],
+      texts: baseSnapshot?.texts ? [...baseSnapshot.texts] : [],
+      background: baseSnapshot?.background || initialState.background
     };
     
     // Use pure replay simulation to get correct final state and history stack
     const { finalState, historyStack, finalHistoryIndex } = replayOperations(
       operations,
-      cleanInitialState
+      cleanInitialState,
+      senderId
     );
     
     console.log(`[HistoryReplayOrchestrator] Pure replay complete. Final state: ${finalState.lines.length} lines, ${finalState.images.length} images`);
@@ -49,6 +56,8 @@ export const useHistoryReplayOrchestrator = () => {
     const newSnapshot = {
       lines: [...persistence.lines], 
       images: [...(persistence.images || [])],
+      shapes: [...(persistence.shapes || [])],
+      texts: [...(persistence.texts || [])],
       selectionState: {
         selectedObjects: [],
         selectionBounds: null,
@@ -57,7 +66,7 @@ export const useHistoryReplayOrchestrator = () => {
       ...(persistence.lastActivity ? { lastActivity: persistence.lastActivity } : {})
     };
     
-    const newHistory = [newSnapshot];
+    const newHistory: HistorySnapshot[] = [newSnapshot];
     
     if (prevState.history.length > 0) {
       newHistory.push(...prevState.history.slice(1));
@@ -67,7 +76,10 @@ export const useHistoryReplayOrchestrator = () => {
       finalState: {
         ...prevState,
         lines: [...persistence.lines],
-        images: [...(persistence.images || [])]
+        images: [...(persistence.images || [])],
+        shapes: [...(persistence.shapes || [])],
+        texts: [...(persistence.texts || [])],
+        background: persistence.background || prevState.background
       },
       historyStack: newHistory,
       finalHistoryIndex: 0
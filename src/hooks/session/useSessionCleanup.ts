@@ -3,6 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useWhiteboardStateContext } from '@/contexts/WhiteboardStateContext';
 import { Session } from '@/types/session';
+import { SnapshotManager } from '@/utils/persistence';
 
 export const useSessionCleanup = () => {
   const { toast } = useToast();
@@ -28,6 +29,11 @@ export const useSessionCleanup = () => {
         
       if (fetchError) throw fetchError;
       
+      const boardIds = whiteboardData ? [...new Set(whiteboardData.map(item => item.board_id))] : [];
+      
+      // Snapshot every board while the session is still active so reopening it loads quickly
+      await SnapshotManager.snapshotBoards(activeSession.id, boardIds);
+      
       // Update session status to 'ended_by_teacher' instead of 'expired'
       const { error } = await supabase
         .from('sessions')
@@ -37,12 +43,9 @@ export const useSessionCleanup = () => {
       if (error) throw error;
 
       // Clear whiteboard state from memory
-      if (whiteboardData) {
-        const boardIds = [...new Set(whiteboardData.map(item => item.board_id))];
-        boardIds.forEach(boardId => {
-          clearWhiteboardState(boardId);
-        });
-      }
+      boardIds.forEach(boardId => {
+        clearWhiteboardState(boardId);
+      });
 
       // Show toast only on teacher's side (not duplicated on student side)
       toast({
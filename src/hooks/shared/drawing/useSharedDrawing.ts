@@ -1,9 +1,13 @@
 
-import { useCallback } from 'react';
-import { LineObject, ActivityMetadata } from '@/types/whiteboard';
+import { useCallback, useEffect } from 'react';
+import { LineObject, ShapeObject, WhiteboardState, ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { useDrawingState } from '../../useDrawingState';
-import { serializeDrawOperation } from '@/utils/operationSerializer';
+import { serializeDrawOperation, serializeAddShapeOperation } from '@/utils/operationSerializer';
+import { createAddChange } from '@/utils/objectChanges';
+import { simplifyLine } from '@/utils/strokeSimplification';
+import { getShapeBounds } from '@/utils/shapeGeometry';
 import { calculateLineBounds } from './useDrawingBounds';
+import { useLiveStrokeStream } from '../useLiveStrokeStream';
 
 /**
  * @fileoverview Shared drawing operations hook
@@ -13,29 +17,98 @@ import { calculateLineBounds } from './useDrawingBounds';
 export const useSharedDrawing = (
   state: any,
   setState: any,
-  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata) => void,
+  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
   sendOperation: any,
-  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>,
+  strokeStream?: ReturnType<typeof useLiveStrokeStream>
 ) => {
   // Drawing operations with sync
   const {
     startDrawing,
     continueDrawing,
-    stopDrawing: baseStopDrawing
+    stopDrawing: baseStopDrawing,
+    getSnappedStroke
   } = useDrawingState(state, setState, () => {}); // Don't call addToHistory from base drawing
 
+  const isStreamableLine = (line?: LineObject) => !!line && (line.tool === 'pencil' || line.tool === 'highlighter');
+  const canStream = !!strokeStream && !!sendOperation;
+
+  // Stream the stroke in progress so watchers see it before the pen lifts
+  useEffect(() => {
+    // A snapped stroke is off the board, so the last line is someone else's
+    if (!canStream || !state.isDrawing || getSnappedStroke()) return;
+
+    const currentLine: LineObject | undefined = state.lines[state.lines.length - 1];
+    if (isStreamableLine(currentLine) && state.currentTool === currentLine.tool) {
+      strokeStream.streamStroke(currentLine);
+    }
+  }, [canStream, state.isDrawing, state.lines, state.currentTool, strokeStream, getSnappedStroke]);
+
+  // The stroke snapped into a shape is stored as the shape alone
+  const stopSnappedStroke = useCallback((line: LineObject, shape: ShapeObject) => {
+    if (canStream && !isApplyingRemoteOperation.current) {
+      strokeStream.finishStroke(line);
+    }
+
+    const activityMetadata: ActivityMetadata = {
+      type: 'draw',
+      bounds: getShapeBounds(shape),
+      timestamp: Date.now()
+    };
+
+    setTimeout(() => {
+      addToHistory({
+        lines: state.lines,
+        images: state.images,
+        shapes: state.shapes,
+        selectionState: state.selectionState
+      }, activityMetadata, createAddChange([], [], [shape]));
+    }, 0);
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      console.log(`[DrawingOperations] Sending ${shape.kind} recognised in stroke ${line.id}`);
+      sendOperation(serializeAddShapeOperation(shape, line.id));
+    }
+  }, [state.lines, state.images, state.shapes, state.selectionState, addToHistory, sendOperation, isApplyingRemoteOperation, canStream, strokeStream]);
+
   const stopDrawing = useCallback(() => {
     if (!state.isDrawing) return;
 
     console.log(`[DrawingOperations] stopDrawing called - current tool: ${state.currentTool}, lines count: ${state.lines.length}`);
 
+    const snapped = getSnappedStroke();
     baseStopDrawing();
 
-    // Calculate activity metadata for the drawn line
-    const drawnLine = state.lines[state.lines.length - 1];
+    if (snapped) {
+      stopSnappedStroke(snapped.line, snapped.shape);
+      return;
+    }
+
+    const rawLine: LineObject | undefined = state.lines[state.lines.length - 1];
+
+    // Send the last streamed points; the stroke itself is persisted as one draw operation below
+    if (canStream && isStreamableLine(rawLine) && !isApplyingRemoteOperation.current) {
+      strokeStream.finishStroke(rawLine);
+    }
+
+    // Keep the simplified stroke locally too, so this board matches what everyone else loads
+    const drawnLine = isStreamableLine(rawLine) ? simplifyLine(rawLine, state.panZoomState?.scale) : rawLine;
+    const lines: LineObject[] = drawnLine === rawLine
+      ? state.lines
+      : state.lines.map((line: LineObject) => line.id === drawnLine.id ? drawnLine : line);
+
+    if (drawnLine !== rawLine) {
+      setState((prev: WhiteboardState) => ({
+        ...prev,
+        lines: prev.lines.map(line => line.id === drawnLine.id ? drawnLine : line)
+      }));
+    }
+
     let activityMetadata: ActivityMetadata | undefined;
+    let change: HistoryChange | undefined;
 
     if (drawnLine && (drawnLine.tool === 'pencil' || drawnLine.tool === 'highlighter')) {
+      change = createAddChange([drawnLine], []);
       const bounds = calculateLineBounds(drawnLine);
       activityMetadata = {
         type: 'draw',
@@ -49,10 +122,10 @@ export const useSharedDrawing = (
     // Add to history with activity metadata
     setTimeout(() => {
       addToHistory({
-        lines: state.lines,
+        lines,
         images: state.images,
         selectionState: state.selectionState
-      }, activityMetadata);
+      }, activityMetadata, change);
     }, 0);
 
     // Always send the operation to the database for persistence
@@ -77,7 +150,7 @@ export const useSharedDrawing = (
     } else {
       console.log(`[DrawingOperations] NOT sending operation - sendOperation:`, !!sendOperation, 'isApplyingRemoteOperation:', isApplyingRemoteOperation.current);
     }
-  }, [state.isDrawing, state.lines, state.images, state.selectionState, state.currentTool, baseStopDrawing, sendOperation, isApplyingRemoteOperation, addToHistory]);
+  }, [state.isDrawing, state.lines, state.images, state.selectionState, state.currentTool, state.panZoomState?.scale, setState, baseStopDrawing, getSnappedStroke, stopSnappedStroke, sendOperation, isApplyingRemoteOperation, addToHistory, canStream, strokeStream]);
 
   return {
     startDrawing,
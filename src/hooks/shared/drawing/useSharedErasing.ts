@@ -1,8 +1,9 @@
 
 import { useCallback, useRef } from 'react';
-import { LineObject, ActivityMetadata } from '@/types/whiteboard';
+import { LineObject, ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { useEraserState } from '../../useEraserState';
-import { serializeEraseOperation } from '@/utils/operationSerializer';
+import { serializeEraseOperation, serializeReplaceLinesOperation } from '@/utils/operationSerializer';
+import { createRemoveChange, createReplaceChange } from '@/utils/objectChanges';
 import { calculateCombinedLineBounds } from './useDrawingBounds';
 
 /**
@@ -13,7 +14,7 @@ import { calculateCombinedLineBounds } from './useDrawingBounds';
 export const useSharedErasing = (
   state: any,
   setState: any,
-  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata) => void,
+  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
   sendOperation: any,
   isApplyingRemoteOperation: React.MutableRefObject<boolean>
 ) => {
@@ -45,6 +46,11 @@ export const useSharedErasing = (
       .filter(line => !state.lines.some(l => l.id === line.id));
     
     const erasedLineIds = erasedLines.map(line => line.id);
+
+    // Pieces left over by the partial eraser
+    const addedLines = (state.lines as LineObject[])
+      .filter(line => !linesBeforeErasingRef.current.some(l => l.id === line.id));
+    const isReplace = addedLines.length > 0;
     
     // Calculate activity metadata for erased objects
     let activityMetadata: ActivityMetadata | undefined;
@@ -63,28 +69,38 @@ export const useSharedErasing = (
       }
     }
 
+    // Erased lines are restored if this user undoes the erase
+    const change = isReplace
+      ? createReplaceChange(erasedLines, addedLines)
+      : erasedLines.length > 0 ? createRemoveChange(erasedLines, []) : undefined;
+
     // Add to history with activity metadata
     setTimeout(() => {
       addToHistory({
         lines: state.lines,
         images: state.images,
         selectionState: state.selectionState
-      }, activityMetadata);
+      }, activityMetadata, change);
     }, 0);
     
     // Always send the operation to the database for persistence
     // But only sync to other clients if we're on the teacher's main board
     if (sendOperation && !isApplyingRemoteOperation.current && erasedLineIds.length > 0) {
+      // Splitting lines is one replace operation, so other clients never see a line both whole and cut
+      const baseOperation = isReplace
+        ? serializeReplaceLinesOperation(erasedLineIds, addedLines)
+        : serializeEraseOperation(erasedLineIds);
+
       // Create the operation with bounds data for remote activity tracking
       const operation = {
-        ...serializeEraseOperation(erasedLineIds),
+        ...baseOperation,
         data: {
-          ...serializeEraseOperation(erasedLineIds).data,
+          ...baseOperation.data,
           erased_bounds: activityMetadata?.bounds // Include bounds for remote activity tracking
         }
       };
       
-      console.log(`[DrawingOperations] Sending erase operation with ${erasedLineIds.length} lines:`, operation);
+      console.log(`[DrawingOperations] Sending ${operation.operation_type} operation with ${erasedLineIds.length} lines:`, operation);
       
       // Send it to the database/sync system
       sendOperation(operation);
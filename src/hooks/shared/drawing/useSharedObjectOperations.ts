@@ -1,12 +1,16 @@
 
 import { useCallback } from 'react';
-import { LineObject, ActivityMetadata } from '@/types/whiteboard';
-import { serializeUpdateLineOperation, serializeDeleteObjectsOperation } from '@/utils/operationSerializer';
+import { LineObject, ImageObject, ShapeObject, TextObject, WhiteboardState, ActivityMetadata, HistoryChange, ObjectUpdates, SelectedObject } from '@/types/whiteboard';
+import { serializeUpdateLineOperation, serializeUpdateImageOperation, serializeUpdateShapeOperation, serializeUpdateTextOperation, serializeUpdateObjectsOperation, serializeDeleteObjectsOperation } from '@/utils/operationSerializer';
+import { createLineUpdateChange, createImageUpdateChange, createShapeUpdateChange, createTextUpdateChange, createRemoveChange, mergeChanges } from '@/utils/objectChanges';
+import { calculateGroupBounds } from '@/utils/groupBoundsCalculator';
+import { getShapeBounds } from '@/utils/shapeGeometry';
+import { getTextBounds } from '@/utils/textGeometry';
 import { calculateLineBounds } from './useDrawingBounds';
 
 /**
  * @fileoverview Shared object operations hook
- * @description Handles line updates and object deletion with sync
+ * @description Handles line, shape and text box updates, batched updates of a selection and object deletion with sync
  */
 
 // Debug flag for line movement - set to true to see line movement logs
@@ -15,7 +19,7 @@ const DEBUG_LINE_MOVEMENT = false;
 export const useSharedObjectOperations = (
   state: any,
   setState: any,
-  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata) => void,
+  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
   sendOperation: any,
   isApplyingRemoteOperation: React.MutableRefObject<boolean>
 ) => {
@@ -31,6 +35,9 @@ export const useSharedObjectOperations = (
     let activityMetadata: ActivityMetadata | undefined = undefined;
     
     setState((prev: any) => {
+      const lineBefore = prev.lines.find((line: LineObject) => line.id === lineId);
+      const change: HistoryChange | undefined = lineBefore ? createLineUpdateChange(lineBefore, updates) : undefined;
+
       const updatedLines = prev.lines.map((line: LineObject) =>
         line.id === lineId ? { ...line, ...updates } : line
       );
@@ -65,7 +72,7 @@ export const useSharedObjectOperations = (
             lines: newState.lines,
             images: newState.images,
             selectionState: newState.selectionState
-          }, activityMetadata);
+          }, activityMetadata, change);
         }, 0);
       } else {
         setTimeout(() => {
@@ -73,7 +80,7 @@ export const useSharedObjectOperations = (
             lines: newState.lines,
             images: newState.images,
             selectionState: newState.selectionState
-          });
+          }, undefined, change);
         }, 0);
       }
       
@@ -95,8 +102,147 @@ export const useSharedObjectOperations = (
     }
   }, [setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
 
+  // Update shape position/size/rotation
+  const updateShape = useCallback((shapeId: string, updates: Partial<ShapeObject>) => {
+    setState((prev: WhiteboardState) => {
+      const shapeBefore = prev.shapes.find(shape => shape.id === shapeId);
+      if (!shapeBefore) return prev;
+
+      const updatedShape = { ...shapeBefore, ...updates };
+      const newState = {
+        ...prev,
+        shapes: prev.shapes.map((shape: ShapeObject) => shape.id === shapeId ? updatedShape : shape)
+      };
+
+      const activityMetadata: ActivityMetadata = {
+        type: 'move',
+        bounds: getShapeBounds(updatedShape),
+        timestamp: Date.now()
+      };
+
+      setTimeout(() => {
+        addToHistory({
+          lines: newState.lines,
+          images: newState.images,
+          shapes: newState.shapes,
+          selectionState: newState.selectionState
+        }, activityMetadata, createShapeUpdateChange(shapeBefore, updates));
+      }, 0);
+
+      return newState;
+    });
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeUpdateShapeOperation(shapeId, updates));
+    }
+  }, [setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  // Update text box position/size/rotation
+  const updateText = useCallback((textId: string, updates: Partial<TextObject>) => {
+    setState((prev: WhiteboardState) => {
+      const textBefore = prev.texts.find(text => text.id === textId);
+      if (!textBefore) return prev;
+
+      const updatedText = { ...textBefore, ...updates };
+      const newState = {
+        ...prev,
+        texts: prev.texts.map(text => text.id === textId ? updatedText : text)
+      };
+
+      const activityMetadata: ActivityMetadata = {
+        type: 'move',
+        bounds: getTextBounds(updatedText),
+        timestamp: Date.now()
+      };
+
+      setTimeout(() => {
+        addToHistory({
+          lines: newState.lines,
+          images: newState.images,
+          shapes: newState.shapes,
+          texts: newState.texts,
+          selectionState: newState.selectionState
+        }, activityMetadata, createTextUpdateChange(textBefore, updates));
+      }, 0);
+
+      return newState;
+    });
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeUpdateTextOperation(textId, updates));
+    }
+  }, [setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  // Update several objects as one action: one history entry and one batched update operation
+  const updateObjects = useCallback((objectUpdates: ObjectUpdates) => {
+    const lineUpdates = objectUpdates.line_updates || [];
+    const imageUpdates = objectUpdates.image_updates || [];
+    const shapeUpdates = objectUpdates.shape_updates || [];
+    const textUpdates = objectUpdates.text_updates || [];
+    if (lineUpdates.length + imageUpdates.length + shapeUpdates.length + textUpdates.length === 0) return;
+
+    setState((prev: WhiteboardState) => {
+      const changes: HistoryChange[] = [];
+      const applyUpdates = <T extends { id: string }>(
+        objects: T[],
+        updates: Array<{ id: string; updates: Partial<T> }>,
+        createChange: (before: T, updates: Partial<T>) => HistoryChange
+      ): T[] => objects.map(object => {
+        const update = updates.find(u => u.id === object.id);
+        if (!update) return object;
+        changes.push(createChange(object, update.updates));
+        return { ...object, ...update.updates };
+      });
+
+      const newState = {
+        ...prev,
+        lines: applyUpdates(prev.lines, lineUpdates.map(u => ({ id: u.line_id, updates: u.updates })), createLineUpdateChange),
+        images: applyUpdates(prev.images, imageUpdates.map(u => ({ id: u.image_id, updates: u.updates })), createImageUpdateChange),
+        shapes: applyUpdates(prev.shapes, shapeUpdates.map(u => ({ id: u.shape_id, updates: u.updates })), createShapeUpdateChange),
+        texts: applyUpdates(prev.texts, textUpdates.map(u => ({ id: u.text_id, updates: u.updates })), createTextUpdateChange)
+      };
+      if (changes.length === 0) return prev;
+
+      const updatedObjects: SelectedObject[] = [
+        ...lineUpdates.map(u => ({ id: u.line_id, type: 'line' as const })),
+        ...imageUpdates.map(u => ({ id: u.image_id, type: 'image' as const })),
+        ...shapeUpdates.map(u => ({ id: u.shape_id, type: 'shape' as const })),
+        ...textUpdates.map(u => ({ id: u.text_id, type: 'text' as const }))
+      ];
+      const isUpdated = (object: { id: string }) => updatedObjects.some(obj => obj.id === object.id);
+      const bounds = calculateGroupBounds(
+        updatedObjects,
+        newState.lines.filter(isUpdated),
+        newState.images.filter(isUpdated),
+        newState.shapes.filter(isUpdated),
+        newState.texts.filter(isUpdated)
+      );
+      const activityMetadata: ActivityMetadata | undefined = bounds ? {
+        type: 'move',
+        bounds,
+        timestamp: Date.now()
+      } : undefined;
+
+      setTimeout(() => {
+        addToHistory({
+          lines: newState.lines,
+          images: newState.images,
+          shapes: newState.shapes,
+          texts: newState.texts,
+          selectionState: newState.selectionState
+        }, activityMetadata, mergeChanges(changes));
+      }, 0);
+
+      return newState;
+    });
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeUpdateObjectsOperation(objectUpdates));
+    }
+  }, [setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
   // Delete selected objects
-  const deleteSelectedObjects = useCallback((selectedObjects: Array<{ id: string; type: 'line' | 'image' }>) => {
+  const deleteSelectedObjects = useCallback((selectedObjects: Array<{ id: string; type: 'line' | 'image' | 'shape' | 'text' }>) => {
     if (!selectedObjects || selectedObjects.length === 0) return;
 
     const selectedLineIds = selectedObjects
@@ -105,24 +251,42 @@ export const useSharedObjectOperations = (
     const selectedImageIds = selectedObjects
       .filter(obj => obj.type === 'image')
       .map(obj => obj.id);
+    const selectedShapeIds = selectedObjects
+      .filter(obj => obj.type === 'shape')
+      .map(obj => obj.id);
+    const selectedTextIds = selectedObjects
+      .filter(obj => obj.type === 'text')
+      .map(obj => obj.id);
 
-    console.log(`[DeleteObjects] Deleting ${selectedLineIds.length} lines and ${selectedImageIds.length} images`);
+    console.log(`[DeleteObjects] Deleting ${selectedLineIds.length} lines, ${selectedImageIds.length} images, ${selectedShapeIds.length} shapes and ${selectedTextIds.length} text boxes`);
     console.log(`[DeleteObjects] isApplyingRemoteOperation: ${isApplyingRemoteOperation.current}`);
 
     setState((prev: any) => {
       const newState = {
         ...prev,
         lines: prev.lines.filter((line: LineObject) => !selectedLineIds.includes(line.id)),
-        images: prev.images.filter((image: any) => !selectedImageIds.includes(image.id))
+        images: prev.images.filter((image: any) => !selectedImageIds.includes(image.id)),
+        shapes: prev.shapes.filter((shape: ShapeObject) => !selectedShapeIds.includes(shape.id)),
+        texts: prev.texts.filter((text: TextObject) => !selectedTextIds.includes(text.id))
       };
+
+      // Deleted objects are restored if this user undoes the deletion
+      const change = createRemoveChange(
+        prev.lines.filter((line: LineObject) => selectedLineIds.includes(line.id)),
+        prev.images.filter((image: ImageObject) => selectedImageIds.includes(image.id)),
+        prev.shapes.filter((shape: ShapeObject) => selectedShapeIds.includes(shape.id)),
+        prev.texts.filter((text: TextObject) => selectedTextIds.includes(text.id))
+      );
       
       // Add to history with correct state
       setTimeout(() => {
         addToHistory({
           lines: newState.lines,
           images: newState.images,
+          shapes: newState.shapes,
+          texts: newState.texts,
           selectionState: newState.selectionState
-        });
+        }, undefined, change);
       }, 0);
       
       return newState;
@@ -133,7 +297,7 @@ export const useSharedObjectOperations = (
     if (sendOperation && !isApplyingRemoteOperation.current) {
       console.log(`[DeleteObjects] Sending delete operation to sync`);
       // Create the operation
-      const operation = serializeDeleteObjectsOperation(selectedLineIds, selectedImageIds);
+      const operation = serializeDeleteObjectsOperation(selectedLineIds, selectedImageIds, selectedShapeIds, selectedTextIds);
       console.log(`[DeleteObjects] Delete operation:`, operation);
       
       // Send it to the database/sync system
@@ -145,6 +309,9 @@ export const useSharedObjectOperations = (
 
   return {
     updateLine,
+    updateShape,
+    updateText,
+    updateObjects,
     deleteSelectedObjects
   };
 };
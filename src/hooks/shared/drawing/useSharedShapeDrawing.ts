@@ -0,0 +1,123 @@
+import { useCallback, useRef } from 'react';
+import { ShapeObject, WhiteboardState, ActivityMetadata, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import { serializeAddShapeOperation } from '@/utils/operationSerializer';
+import { createAddChange } from '@/utils/objectChanges';
+import { getShapeBounds, normalizeShape } from '@/utils/shapeGeometry';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('drawing');
+
+// Shapes dragged out less than this are treated as a stray click and dropped
+const MIN_SHAPE_SIZE = 2;
+
+/**
+ * @fileoverview Shared shape drawing hook
+ * @description Handles dragging out rectangles, ellipses, lines and arrows with sync and activity tracking
+ */
+
+export const useSharedShapeDrawing = (
+  state: WhiteboardState,
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  addToHistory: (snapshot?: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  const shapeIdRef = useRef(0);
+  const drawingShapeIdRef = useRef<string | null>(null);
+
+  const startShape = useCallback((x: number, y: number) => {
+    if (state.currentTool !== 'shape') {
+      debugLog('Shape', 'Invalid tool for shape drawing', state.currentTool);
+      return;
+    }
+
+    const newShape: ShapeObject = {
+      id: `shape_${Date.now()}_${shapeIdRef.current++}`,
+      kind: state.shapeSettings.kind,
+      x,
+      y,
+      width: 0,
+      height: 0,
+      rotation: 0,
+      color: state.shapeSettings.color,
+      fillColor: state.shapeSettings.fillColor,
+      strokeWidth: state.shapeSettings.strokeWidth
+    };
+    drawingShapeIdRef.current = newShape.id;
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      shapes: [...prev.shapes, newShape],
+      isDrawing: true
+    }));
+
+    debugLog('Shape', 'Shape started', { shapeId: newShape.id, kind: newShape.kind });
+  }, [state.currentTool, state.shapeSettings, setState]);
+
+  const continueShape = useCallback((x: number, y: number) => {
+    const shapeId = drawingShapeIdRef.current;
+    if (!state.isDrawing || !shapeId) return;
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      shapes: prev.shapes.map((shape: ShapeObject) =>
+        shape.id === shapeId ? { ...shape, width: x - shape.x, height: y - shape.y } : shape
+      )
+    }));
+  }, [state.isDrawing, setState]);
+
+  const stopShape = useCallback(() => {
+    const shapeId = drawingShapeIdRef.current;
+    drawingShapeIdRef.current = null;
+    if (!state.isDrawing || !shapeId) return;
+
+    const drawnShape: ShapeObject | undefined = state.shapes.find((shape: ShapeObject) => shape.id === shapeId);
+
+    if (!drawnShape || Math.hypot(drawnShape.width, drawnShape.height) < MIN_SHAPE_SIZE) {
+      debugLog('Shape', 'Shape too small, discarding', { shapeId });
+      setState((prev: WhiteboardState) => ({
+        ...prev,
+        shapes: prev.shapes.filter((shape: ShapeObject) => shape.id !== shapeId),
+        isDrawing: false
+      }));
+      return;
+    }
+
+    const finalShape = normalizeShape(drawnShape);
+    const shapes = state.shapes.map((shape: ShapeObject) => shape.id === shapeId ? finalShape : shape);
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      shapes: prev.shapes.map((shape: ShapeObject) => shape.id === shapeId ? finalShape : shape),
+      isDrawing: false
+    }));
+
+    const activityMetadata: ActivityMetadata = {
+      type: 'draw',
+      bounds: getShapeBounds(finalShape),
+      timestamp: Date.now()
+    };
+
+    setTimeout(() => {
+      addToHistory({
+        lines: state.lines,
+        images: state.images,
+        shapes,
+        selectionState: state.selectionState
+      }, activityMetadata, createAddChange([], [], [finalShape]));
+    }, 0);
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeAddShapeOperation(finalShape));
+    }
+
+    debugLog('Shape', 'Shape finished', { shapeId, kind: finalShape.kind });
+  }, [state.isDrawing, state.shapes, state.lines, state.images, state.selectionState, setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  return {
+    startShape,
+    continueShape,
+    stopShape
+  };
+};
@@ -0,0 +1,156 @@
+import { useCallback, useRef } from 'react';
+import { TextObject, WhiteboardState, ActivityMetadata, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import { serializeAddTextOperation, serializeUpdateTextOperation, serializeDeleteObjectsOperation } from '@/utils/operationSerializer';
+import { createAddChange, createRemoveChange, createTextUpdateChange } from '@/utils/objectChanges';
+import { DEFAULT_TEXT_WIDTH, getTextBounds, isPointOnText } from '@/utils/textGeometry';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('drawing');
+
+/**
+ * @fileoverview Shared text editing hook
+ * @description Creates text boxes and commits in-place edits with sync and activity tracking.
+ * A new text box stays local until its first commit, so empty boxes never reach other users.
+ */
+
+export const useSharedTextEditing = (
+  state: WhiteboardState,
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  addToHistory: (snapshot?: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  const textIdRef = useRef(0);
+  // Text boxes created locally that have not been committed yet
+  const uncommittedTextIdsRef = useRef<Set<string>>(new Set());
+
+  // Open the editor on an existing text box
+  const editText = useCallback((textId: string) => {
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      editingTextId: textId
+    }));
+  }, [setState]);
+
+  // Click with the text tool: edit the text box under the pointer or create a new one
+  const startText = useCallback((x: number, y: number) => {
+    if (state.currentTool !== 'text') {
+      debugLog('Text', 'Invalid tool for text editing', state.currentTool);
+      return;
+    }
+
+    // The click that closes an open editor doesn't start another one
+    if (state.editingTextId) return;
+
+    const texts: TextObject[] = state.texts;
+    const hitText = [...texts].reverse().find(text => isPointOnText({ x, y }, text));
+    if (hitText) {
+      editText(hitText.id);
+      return;
+    }
+
+    const newText: TextObject = {
+      id: `text_${Date.now()}_${textIdRef.current++}`,
+      x,
+      y,
+      text: '',
+      width: DEFAULT_TEXT_WIDTH,
+      fontSize: state.textSettings.fontSize,
+      color: state.textSettings.color,
+      rotation: 0
+    };
+    uncommittedTextIdsRef.current.add(newText.id);
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      texts: [...prev.texts, newText],
+      editingTextId: newText.id
+    }));
+
+    debugLog('Text', 'Text box created', { textId: newText.id });
+  }, [state.currentTool, state.editingTextId, state.texts, state.textSettings, setState, editText]);
+
+  // Close the editor, storing the edited content
+  const commitText = useCallback((textId: string, content: string) => {
+    const isNew = uncommittedTextIdsRef.current.delete(textId);
+    const textBefore: TextObject | undefined = state.texts.find((text: TextObject) => text.id === textId);
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      editingTextId: prev.editingTextId === textId ? null : prev.editingTextId
+    }));
+
+    // Removed by another user while being edited
+    if (!textBefore) return;
+
+    const snapshotWith = (texts: TextObject[]) => ({
+      lines: state.lines,
+      images: state.images,
+      shapes: state.shapes,
+      texts,
+      selectionState: state.selectionState
+    });
+
+    // Clearing a text box deletes it
+    if (!content.trim()) {
+      const texts = state.texts.filter((text: TextObject) => text.id !== textId);
+      setState((prev: WhiteboardState) => ({
+        ...prev,
+        texts: prev.texts.filter(text => text.id !== textId)
+      }));
+
+      if (isNew) {
+        debugLog('Text', 'Empty text box discarded', { textId });
+        return;
+      }
+
+      setTimeout(() => {
+        addToHistory(snapshotWith(texts), undefined, createRemoveChange([], [], [], [textBefore]));
+      }, 0);
+      if (sendOperation && !isApplyingRemoteOperation.current) {
+        sendOperation(serializeDeleteObjectsOperation([], [], [], [textId]));
+      }
+      debugLog('Text', 'Cleared text box deleted', { textId });
+      return;
+    }
+
+    if (!isNew && content === textBefore.text) return;
+
+    const finalText: TextObject = { ...textBefore, text: content };
+    const texts = state.texts.map((text: TextObject) => text.id === textId ? finalText : text);
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      texts: prev.texts.map(text => text.id === textId ? { ...text, text: content } : text)
+    }));
+
+    const activityMetadata: ActivityMetadata = {
+      type: isNew ? 'draw' : 'move',
+      bounds: getTextBounds(finalText),
+      timestamp: Date.now()
+    };
+
+    const change = isNew
+      ? createAddChange([], [], [], [finalText])
+      : createTextUpdateChange(textBefore, { text: content });
+
+    setTimeout(() => {
+      addToHistory(snapshotWith(texts), activityMetadata, change);
+    }, 0);
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(isNew
+        ? serializeAddTextOperation(finalText)
+        : serializeUpdateTextOperation(textId, { text: content }));
+    }
+
+    debugLog('Text', isNew ? 'Text box added' : 'Text box edited', { textId });
+  }, [state.texts, state.lines, state.images, state.shapes, state.selectionState, setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  return {
+    startText,
+    editText,
+    commitText
+  };
+};
@@ -0,0 +1,212 @@
+/**
+ * @fileoverview Laser pointer for shared whiteboards
+ * @description Sends the local laser pointer trail over the channel broadcast and keeps the
+ * trails of every user, the local one included, until they have faded. Trails are never
+ * stored in whiteboard_data and never enter the history.
+ */
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { SyncConfig, LaserPointerEvent } from '@/types/sync';
+import { SyncConnectionManager } from '@/utils/sync';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('sync');
+
+// How long a trail point stays visible, fading out over this time
+const LASER_TRAIL_DURATION = 1500;
+
+// Minimum time between two broadcasts of the local trail
+const LASER_STREAM_INTERVAL = 40;
+
+// Remote trails without news for this long are dropped (sender left before lifting the pointer)
+const LASER_REMOTE_TIMEOUT = 10000;
+
+interface TrackedTrail {
+  points: Array<{ x: number; y: number; addedAt: number }>; // Local time each point was added
+  isActive: boolean; // Pointer still pressed
+  isLocal: boolean;
+  updatedAt: number;
+}
+
+export interface LaserTrail {
+  id: string;
+  points: number[];
+  opacities: number[]; // Opacity per point, fading with age
+  isActive: boolean;
+}
+
+/**
+ * @hook useLaserPointer
+ * @description Laser pointer trails for a shared whiteboard
+ *
+ * @param syncConfig - Sync configuration, trails stay local without it
+ *
+ * @returns {LaserTrail[]} laserTrails - Visible trails of this and other users
+ * @returns {Function} startLaser - Start a trail at a point
+ * @returns {Function} continueLaser - Extend the local trail
+ * @returns {Function} stopLaser - Lift the pointer, the trail fades out
+ */
+export const useLaserPointer = (syncConfig?: SyncConfig) => {
+  const [trails, setTrails] = useState<Record<string, TrackedTrail>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const configRef = useRef(syncConfig);
+  const localTrailIdRef = useRef<string | null>(null);
+  const trailCounterRef = useRef(0);
+  const pendingPointsRef = useRef<number[]>([]);
+  const lastSentAtRef = useRef(0);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    configRef.current = syncConfig;
+  }, [syncConfig]);
+
+  const whiteboardId = syncConfig?.whiteboardId;
+  const senderId = syncConfig?.senderId;
+
+  const addTrailPoints = useCallback((trailId: string, points: number[], isActive: boolean, isLocal: boolean) => {
+    const addedAt = Date.now();
+    const newPoints = Array.from({ length: Math.floor(points.length / 2) }, (_, i) => ({
+      x: points[i * 2],
+      y: points[i * 2 + 1],
+      addedAt
+    }));
+
+    setTrails(prev => ({
+      ...prev,
+      [trailId]: {
+        points: [...(prev[trailId]?.points || []), ...newPoints],
+        isActive,
+        isLocal,
+        updatedAt: addedAt
+      }
+    }));
+  }, []);
+
+  const sendPendingPoints = useCallback((isFinal: boolean) => {
+    const config = configRef.current;
+    const trailId = localTrailIdRef.current;
+    const points = pendingPointsRef.current;
+    if (!config || !trailId || (points.length === 0 && !isFinal)) return;
+
+    pendingPointsRef.current = [];
+    lastSentAtRef.current = Date.now();
+    SyncConnectionManager.broadcastLaser(config, {
+      trail_id: trailId,
+      sender_id: config.senderId,
+      points,
+      is_final: isFinal
+    });
+  }, []);
+
+  const clearFlushTimer = () => {
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+  };
+
+  const startLaser = useCallback((x: number, y: number) => {
+    const trailId = `laser_${senderId || 'local'}_${Date.now()}_${trailCounterRef.current++}`;
+    localTrailIdRef.current = trailId;
+    pendingPointsRef.current = [x, y];
+    addTrailPoints(trailId, [x, y], true, true);
+    sendPendingPoints(false);
+  }, [senderId, addTrailPoints, sendPendingPoints]);
+
+  const continueLaser = useCallback((x: number, y: number) => {
+    const trailId = localTrailIdRef.current;
+    if (!trailId) return;
+
+    pendingPointsRef.current.push(x, y);
+    addTrailPoints(trailId, [x, y], true, true);
+
+    // Trailing throttle: send now if allowed, otherwise once the interval has passed
+    if (flushTimerRef.current) return;
+    const wait = LASER_STREAM_INTERVAL - (Date.now() - lastSentAtRef.current);
+    if (wait <= 0) {
+      sendPendingPoints(false);
+    } else {
+      flushTimerRef.current = setTimeout(() => {
+        flushTimerRef.current = null;
+        sendPendingPoints(false);
+      }, wait);
+    }
+  }, [addTrailPoints, sendPendingPoints]);
+
+  const stopLaser = useCallback(() => {
+    const trailId = localTrailIdRef.current;
+    if (!trailId) return;
+
+    clearFlushTimer();
+    sendPendingPoints(true);
+    addTrailPoints(trailId, [], false, true);
+    localTrailIdRef.current = null;
+  }, [addTrailPoints, sendPendingPoints]);
+
+  // Receive the trails of other users on this whiteboard
+  useEffect(() => {
+    if (!whiteboardId) return;
+
+    const handleLaser = (event: LaserPointerEvent) => {
+      if (event.sender_id === senderId) return;
+      addTrailPoints(event.trail_id, event.points, !event.is_final, false);
+    };
+
+    SyncConnectionManager.registerLaserHandler(whiteboardId, handleLaser);
+    debugLog('Laser', `Listening for laser trails on ${whiteboardId}`);
+
+    return () => {
+      SyncConnectionManager.unregisterLaserHandler(whiteboardId, handleLaser);
+    };
+  }, [whiteboardId, senderId, addTrailPoints]);
+
+  // Fade trails every frame while any is visible, dropping points and trails that have faded out
+  useEffect(() => {
+    if (Object.keys(trails).length === 0) return;
+
+    const frame = requestAnimationFrame(() => {
+      const time = Date.now();
+      setNow(time);
+      setTrails(prev => {
+        const next: Record<string, TrackedTrail> = {};
+        Object.entries(prev).forEach(([trailId, trail]) => {
+          const isActive = trail.isActive && (trail.isLocal || time - trail.updatedAt < LASER_REMOTE_TIMEOUT);
+          const points = trail.points.filter(point => time - point.addedAt < LASER_TRAIL_DURATION);
+
+          // A pointer held still keeps its last point so the dot stays visible
+          if (isActive && points.length === 0 && trail.points.length > 0) {
+            points.push(trail.points[trail.points.length - 1]);
+          }
+          if (points.length > 0) {
+            next[trailId] = { ...trail, points, isActive };
+          }
+        });
+        return next;
+      });
+    });
+
+    return () => cancelAnimationFrame(frame);
+  }, [trails, now]);
+
+  useEffect(() => {
+    return () => {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    };
+  }, []);
+
+  const laserTrails = useMemo<LaserTrail[]>(() =>
+    Object.entries(trails).map(([trailId, trail]) => ({
+      id: trailId,
+      points: trail.points.flatMap(point => [point.x, point.y]),
+      opacities: trail.points.map(point => Math.max(0, 1 - (now - point.addedAt) / LASER_TRAIL_DURATION)),
+      isActive: trail.isActive
+    })),
+  [trails, now]);
+
+  return {
+    laserTrails,
+    startLaser,
+    continueLaser,
+    stopLaser
+  };
+};
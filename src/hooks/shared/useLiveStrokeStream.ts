@@ -0,0 +1,207 @@
+/**
+ * @fileoverview Live stroke streaming for shared whiteboards
+ * @description Streams in-progress stroke points over the channel broadcast and keeps
+ * the provisional strokes drawn by other users until their draw operation arrives.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { LineObject } from '@/types/whiteboard';
+import { SyncConfig, StrokeStreamEvent } from '@/types/sync';
+import { SyncConnectionManager } from '@/utils/sync';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('sync');
+
+// Minimum time between two broadcasts of the same stroke
+const STROKE_STREAM_INTERVAL = 50;
+
+// Provisional strokes without news for this long are dropped (sender left or its draw was lost)
+const PROVISIONAL_STROKE_TIMEOUT = 10000;
+
+interface StreamedStroke {
+  line: LineObject;
+  sentPointCount: number;
+  lastSentAt: number;
+}
+
+/**
+ * @hook useLiveStrokeStream
+ * @description Sends the local in-progress stroke and collects remote provisional strokes
+ *
+ * @param syncConfig - Sync configuration, streaming is disabled without it
+ *
+ * @returns {LineObject[]} provisionalLines - In-progress strokes of other users
+ * @returns {Function} streamStroke - Stream the latest state of the local stroke (throttled)
+ * @returns {Function} finishStroke - Flush the remaining points of the local stroke
+ * @returns {Function} clearProvisionalStroke - Drop a provisional stroke once its draw operation arrived
+ */
+export const useLiveStrokeStream = (syncConfig?: SyncConfig) => {
+  const [provisionalStrokes, setProvisionalStrokes] = useState<Record<string, LineObject>>({});
+  const streamedStrokeRef = useRef<StreamedStroke | null>(null);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const expiryTimersRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const configRef = useRef(syncConfig);
+
+  useEffect(() => {
+    configRef.current = syncConfig;
+  }, [syncConfig]);
+
+  const canStream = !!syncConfig && !syncConfig.isReceiveOnly;
+  const whiteboardId = syncConfig?.whiteboardId;
+  const senderId = syncConfig?.senderId;
+
+  const sendPendingPoints = useCallback((isFinal: boolean) => {
+    const config = configRef.current;
+    const streamed = streamedStrokeRef.current;
+    if (!config || !streamed) return;
+
+    const { line, sentPointCount } = streamed;
+    if (!isFinal && line.points.length <= sentPointCount) return;
+
+    SyncConnectionManager.broadcastStroke(config, {
+      stroke_id: line.id,
+      sender_id: config.senderId,
+      tool: line.tool,
+      color: line.color,
+      strokeWidth: line.strokeWidth,
+      from_index: sentPointCount,
+      points: line.points.slice(sentPointCount),
+      ...(line.pressures ? { pressures: line.pressures.slice(sentPointCount / 2) } : {}),
+      is_final: isFinal
+    });
+
+    streamed.sentPointCount = line.points.length;
+    streamed.lastSentAt = Date.now();
+  }, []);
+
+  const streamStroke = useCallback((line: LineObject) => {
+    if (!canStream) return;
+
+    if (streamedStrokeRef.current?.line.id !== line.id) {
+      streamedStrokeRef.current = { line, sentPointCount: 0, lastSentAt: 0 };
+    } else {
+      streamedStrokeRef.current.line = line;
+    }
+
+    // Trailing throttle: send now if allowed, otherwise once the interval has passed
+    if (flushTimerRef.current) return;
+    const wait = STROKE_STREAM_INTERVAL - (Date.now() - streamedStrokeRef.current.lastSentAt);
+    if (wait <= 0) {
+      sendPendingPoints(false);
+    } else {
+      flushTimerRef.current = setTimeout(() => {
+        flushTimerRef.current = null;
+        sendPendingPoints(false);
+      }, wait);
+    }
+  }, [canStream, sendPendingPoints]);
+
+  const finishStroke = useCallback((line: LineObject) => {
+    if (!canStream) return;
+
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+
+    if (streamedStrokeRef.current?.line.id !== line.id) {
+      streamedStrokeRef.current = { line, sentPointCount: 0, lastSentAt: 0 };
+    } else {
+      streamedStrokeRef.current.line = line;
+    }
+
+    sendPendingPoints(true);
+    debugLog('StrokeStream', `Finished streaming stroke ${line.id}`);
+    streamedStrokeRef.current = null;
+  }, [canStream, sendPendingPoints]);
+
+  const clearProvisionalStroke = useCallback((strokeId: string) => {
+    const timer = expiryTimersRef.current.get(strokeId);
+    if (timer) {
+      clearTimeout(timer);
+      expiryTimersRef.current.delete(strokeId);
+    }
+
+    setProvisionalStrokes(prev => {
+      if (!prev[strokeId]) return prev;
+      const { [strokeId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Receive strokes drawn by other users on this whiteboard
+  useEffect(() => {
+    if (!whiteboardId) return;
+
+    const expiryTimers = expiryTimersRef.current;
+
+    const handleStroke = (event: StrokeStreamEvent) => {
+      if (event.sender_id === senderId) return;
+
+      setProvisionalStrokes(prev => {
+        const existing = prev[event.stroke_id];
+        let points: number[];
+        let pressures = event.pressures;
+
+        if (!existing) {
+          points = event.points;
+        } else if (event.from_index < existing.points.length) {
+          // Overlapping chunk, keep only the coordinates we do not have yet
+          const overlap = existing.points.length - event.from_index;
+          points = [...existing.points, ...event.points.slice(overlap)];
+          pressures = existing.pressures && event.pressures
+            ? [...existing.pressures, ...event.pressures.slice(overlap / 2)]
+            : existing.pressures;
+        } else {
+          // In order, or after a lost chunk (drawn as a straight segment until the stroke is persisted)
+          points = [...existing.points, ...event.points];
+          pressures = existing.pressures && event.pressures
+            ? [...existing.pressures, ...event.pressures]
+            : existing.pressures;
+        }
+
+        return {
+          ...prev,
+          [event.stroke_id]: {
+            id: event.stroke_id,
+            tool: event.tool,
+            color: event.color,
+            strokeWidth: event.strokeWidth,
+            points,
+            ...(pressures ? { pressures } : {}),
+            x: 0,
+            y: 0
+          }
+        };
+      });
+
+      const previousTimer = expiryTimers.get(event.stroke_id);
+      if (previousTimer) clearTimeout(previousTimer);
+      expiryTimers.set(event.stroke_id, setTimeout(() => {
+        debugLog('StrokeStream', `Dropping stale provisional stroke ${event.stroke_id}`);
+        clearProvisionalStroke(event.stroke_id);
+      }, PROVISIONAL_STROKE_TIMEOUT));
+    };
+
+    SyncConnectionManager.registerStrokeHandler(whiteboardId, handleStroke);
+
+    return () => {
+      SyncConnectionManager.unregisterStrokeHandler(whiteboardId, handleStroke);
+      expiryTimers.forEach(timer => clearTimeout(timer));
+      expiryTimers.clear();
+    };
+  }, [whiteboardId, senderId, clearProvisionalStroke]);
+
+  useEffect(() => {
+    return () => {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+    };
+  }, []);
+
+  return {
+    provisionalLines: Object.values(provisionalStrokes),
+    streamStroke,
+    finishStroke,
+    clearProvisionalStroke
+  };
+};
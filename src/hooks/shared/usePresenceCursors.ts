@@ -0,0 +1,187 @@
+/**
+ * @fileoverview Live presence cursors for shared whiteboards
+ * @description Publishes the local pointer position through the whiteboard channel presence
+ * and collects the cursors of other users, marking them idle when they stop moving.
+ */
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { SyncConfig, CursorPresence } from '@/types/sync';
+import { SyncConnectionManager } from '@/utils/sync';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('sync');
+
+// Minimum time between two presence updates of the local cursor
+const CURSOR_UPDATE_INTERVAL = 100;
+
+// Cursors fade after this long without moving and are hidden after CURSOR_HIDE_AFTER
+const CURSOR_IDLE_AFTER = 3000;
+const CURSOR_HIDE_AFTER = 30000;
+
+// How often idle state is re-evaluated
+const CURSOR_IDLE_CHECK_INTERVAL = 1000;
+
+const CURSOR_COLORS = ['#e11d48', '#2563eb', '#16a34a', '#d97706', '#7c3aed', '#0891b2', '#db2777', '#4b5563'];
+
+export interface RemoteCursor extends CursorPresence {
+  isIdle: boolean;
+}
+
+interface TrackedCursor {
+  cursor: CursorPresence;
+  movedAt: number; // Local receive time of the last position change
+}
+
+// Stable colour per sender so a user keeps the same colour on every board
+const getCursorColor = (senderId: string): string => {
+  let hash = 0;
+  for (let i = 0; i < senderId.length; i++) {
+    hash = (hash * 31 + senderId.charCodeAt(i)) | 0;
+  }
+  return CURSOR_COLORS[Math.abs(hash) % CURSOR_COLORS.length];
+};
+
+// Readable label from the sender ID (student names are used as sender IDs)
+const getCursorName = (senderId: string): string => {
+  if (senderId.startsWith('teacher')) return 'Teacher';
+  const studentMatch = senderId.match(/^student_(.+?)_[^_]+_[^_]+$/);
+  return studentMatch ? studentMatch[1] : senderId;
+};
+
+/**
+ * @hook usePresenceCursors
+ * @description Shares the local cursor and tracks remote cursors for a shared whiteboard
+ *
+ * @param syncConfig - Sync configuration, cursors are disabled without it
+ *
+ * @returns {RemoteCursor[]} remoteCursors - Cursors of other users on this whiteboard
+ * @returns {Function} updateCursor - Publish the local pointer position (throttled)
+ * @returns {Function} hideCursor - Remove the local cursor, e.g. when the pointer leaves the board
+ */
+export const usePresenceCursors = (syncConfig?: SyncConfig) => {
+  const [trackedCursors, setTrackedCursors] = useState<Record<string, TrackedCursor>>({});
+  const [now, setNow] = useState(() => Date.now());
+  const configRef = useRef(syncConfig);
+  const pendingPositionRef = useRef<{ x: number; y: number } | null>(null);
+  const lastSentAtRef = useRef(0);
+  const flushTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    configRef.current = syncConfig;
+  }, [syncConfig]);
+
+  const whiteboardId = syncConfig?.whiteboardId;
+  const senderId = syncConfig?.senderId;
+  const canTrack = !!syncConfig && !syncConfig.isReceiveOnly;
+
+  const sendPendingPosition = useCallback(() => {
+    const config = configRef.current;
+    const position = pendingPositionRef.current;
+    if (!config || !position) return;
+
+    SyncConnectionManager.trackCursor(config, {
+      sender_id: config.senderId,
+      name: getCursorName(config.senderId),
+      color: getCursorColor(config.senderId),
+      x: position.x,
+      y: position.y
+    });
+
+    pendingPositionRef.current = null;
+    lastSentAtRef.current = Date.now();
+  }, []);
+
+  const updateCursor = useCallback((x: number, y: number) => {
+    if (!canTrack) return;
+
+    pendingPositionRef.current = { x, y };
+
+    // Trailing throttle: send now if allowed, otherwise once the interval has passed
+    if (flushTimerRef.current) return;
+    const wait = CURSOR_UPDATE_INTERVAL - (Date.now() - lastSentAtRef.current);
+    if (wait <= 0) {
+      sendPendingPosition();
+    } else {
+      flushTimerRef.current = setTimeout(() => {
+        flushTimerRef.current = null;
+        sendPendingPosition();
+      }, wait);
+    }
+  }, [canTrack, sendPendingPosition]);
+
+  const hideCursor = useCallback(() => {
+    const config = configRef.current;
+    if (!canTrack || !config) return;
+
+    if (flushTimerRef.current) {
+      clearTimeout(flushTimerRef.current);
+      flushTimerRef.current = null;
+    }
+    pendingPositionRef.current = null;
+    SyncConnectionManager.trackCursor(config, null);
+  }, [canTrack]);
+
+  // Receive the cursors of other users on this whiteboard
+  useEffect(() => {
+    if (!whiteboardId) return;
+
+    const handlePresence = (cursors: CursorPresence[]) => {
+      const receivedAt = Date.now();
+
+      setTrackedCursors(prev => {
+        const next: Record<string, TrackedCursor> = {};
+        cursors.forEach(cursor => {
+          if (cursor.sender_id === senderId) return;
+
+          const previous = prev[cursor.sender_id];
+          const hasMoved = !previous || previous.cursor.x !== cursor.x || previous.cursor.y !== cursor.y;
+          next[cursor.sender_id] = {
+            cursor,
+            movedAt: hasMoved ? receivedAt : previous.movedAt
+          };
+        });
+        return next;
+      });
+    };
+
+    debugLog('Presence', `Watching cursors on ${whiteboardId}`);
+    SyncConnectionManager.registerPresenceHandler(whiteboardId, handlePresence);
+
+    return () => {
+      SyncConnectionManager.unregisterPresenceHandler(whiteboardId, handlePresence);
+    };
+  }, [whiteboardId, senderId]);
+
+  // Re-evaluate idle cursors while any are shown
+  const hasCursors = Object.keys(trackedCursors).length > 0;
+  useEffect(() => {
+    if (!hasCursors) return;
+
+    const interval = setInterval(() => setNow(Date.now()), CURSOR_IDLE_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [hasCursors]);
+
+  // Remove the local cursor when leaving the board
+  useEffect(() => {
+    return () => {
+      if (flushTimerRef.current) clearTimeout(flushTimerRef.current);
+      const config = configRef.current;
+      if (config && !config.isReceiveOnly) {
+        SyncConnectionManager.trackCursor(config, null);
+      }
+    };
+  }, []);
+
+  const remoteCursors: RemoteCursor[] = Object.values(trackedCursors)
+    .filter(({ movedAt }) => now - movedAt < CURSOR_HIDE_AFTER)
+    .map(({ cursor, movedAt }) => ({
+      ...cursor,
+      isIdle: now - movedAt >= CURSOR_IDLE_AFTER
+    }));
+
+  return {
+    remoteCursors,
+    updateCursor,
+    hideCursor
+  };
+};
@@ -0,0 +1,28 @@
+import { useCallback } from 'react';
+import { BoardBackground, WhiteboardState } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import { serializeSetBackgroundOperation } from '@/utils/operationSerializer';
+
+/**
+ * @fileoverview Shared board background
+ * @description Changes the paper pattern of the board and sends it to every viewer.
+ * The background is a board setting rather than an object, so it never enters the undo history.
+ */
+
+export const useSharedBackground = (
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  const setBackground = useCallback((background: BoardBackground) => {
+    setState((prev: WhiteboardState) =>
+      prev.background === background ? prev : { ...prev, background }
+    );
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeSetBackgroundOperation(background));
+    }
+  }, [setState, sendOperation, isApplyingRemoteOperation]);
+
+  return { setBackground };
+};
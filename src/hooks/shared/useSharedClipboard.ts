@@ -0,0 +1,127 @@
+import { useCallback, useRef } from 'react';
+import { WhiteboardState, SelectedObject, ActivityMetadata, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import {
+  serializeDrawOperation,
+  serializeAddImageOperation,
+  serializeAddShapeOperation,
+  serializeAddTextOperation
+} from '@/utils/operationSerializer';
+import { createAddChange } from '@/utils/objectChanges';
+import { calculateGroupBounds } from '@/utils/groupBoundsCalculator';
+import {
+  ClipboardObjects,
+  PASTE_OFFSET,
+  collectSelectedObjects,
+  isClipboardEmpty,
+  serializeClipboardObjects,
+  parseClipboardObjects,
+  cloneObjectsWithOffset
+} from '@/utils/clipboardObjects';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('operations');
+
+/**
+ * @fileoverview Shared clipboard hook
+ * @description Copies selected objects to clipboard text and pastes them back as new, synced objects.
+ * Also duplicates a selection without touching the clipboard. A paste or duplicate is a single
+ * history step, so one undo removes everything it added.
+ */
+
+export const useSharedClipboard = (
+  state: WhiteboardState,
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  addToHistory: (snapshot?: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  // Pasting the same clipboard again moves each copy further along
+  const lastPasteRef = useRef<{ text: string; count: number } | null>(null);
+
+  const copyObjects = useCallback((selectedObjects: SelectedObject[]): string | null => {
+    const objects = collectSelectedObjects(selectedObjects, state);
+    if (isClipboardEmpty(objects)) return null;
+
+    const text = serializeClipboardObjects(objects);
+    lastPasteRef.current = { text, count: 0 };
+    debugLog('Clipboard', 'Copied objects', { count: selectedObjects.length });
+    return text;
+  }, [state]);
+
+  // Add copied objects to the board as one history step and sync them
+  const addObjects = useCallback((added: ClipboardObjects) => {
+    const { lines, images, shapes, texts } = added;
+
+    const addedObjects: SelectedObject[] = [
+      ...lines.map(line => ({ id: line.id, type: 'line' as const })),
+      ...images.map(image => ({ id: image.id, type: 'image' as const })),
+      ...shapes.map(shape => ({ id: shape.id, type: 'shape' as const })),
+      ...texts.map(text => ({ id: text.id, type: 'text' as const }))
+    ];
+    const bounds = calculateGroupBounds(addedObjects, lines, images, shapes, texts);
+
+    setState((prev: WhiteboardState) => ({
+      ...prev,
+      lines: [...prev.lines, ...lines],
+      images: [...prev.images, ...images],
+      shapes: [...prev.shapes, ...shapes],
+      texts: [...prev.texts, ...texts]
+    }));
+
+    const activityMetadata: ActivityMetadata | undefined = bounds ? {
+      type: 'paste',
+      bounds,
+      timestamp: Date.now()
+    } : undefined;
+
+    setTimeout(() => {
+      addToHistory({
+        lines: [...state.lines, ...lines],
+        images: [...state.images, ...images],
+        shapes: [...state.shapes, ...shapes],
+        texts: [...state.texts, ...texts],
+        selectionState: state.selectionState
+      }, activityMetadata, createAddChange(lines, images, shapes, texts));
+    }, 0);
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      lines.forEach(line => sendOperation(serializeDrawOperation(line)));
+      images.forEach(image => sendOperation(serializeAddImageOperation(image)));
+      shapes.forEach(shape => sendOperation(serializeAddShapeOperation(shape)));
+      texts.forEach(text => sendOperation(serializeAddTextOperation(text)));
+    }
+  }, [state, setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  const pasteObjects = useCallback((text: string): ClipboardObjects | null => {
+    const copied = parseClipboardObjects(text);
+    if (!copied || isClipboardEmpty(copied)) return null;
+
+    const count = lastPasteRef.current?.text === text ? lastPasteRef.current.count + 1 : 1;
+    lastPasteRef.current = { text, count };
+
+    const pasted = cloneObjectsWithOffset(copied, PASTE_OFFSET * count);
+    addObjects(pasted);
+
+    debugLog('Clipboard', 'Pasted objects', { offset: PASTE_OFFSET * count });
+    return pasted;
+  }, [addObjects]);
+
+  // Copy the selection in place of the clipboard, moved by one paste offset
+  const duplicateObjects = useCallback((selectedObjects: SelectedObject[]): ClipboardObjects | null => {
+    const objects = collectSelectedObjects(selectedObjects, state);
+    if (isClipboardEmpty(objects)) return null;
+
+    const duplicated = cloneObjectsWithOffset(objects, PASTE_OFFSET);
+    addObjects(duplicated);
+
+    debugLog('Clipboard', 'Duplicated objects', { count: selectedObjects.length });
+    return duplicated;
+  }, [state, addObjects]);
+
+  return {
+    copyObjects,
+    pasteObjects,
+    duplicateObjects
+  };
+};
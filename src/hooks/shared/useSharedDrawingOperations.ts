@@ -1,34 +1,46 @@
 
-import { ActivityMetadata } from '@/types/whiteboard';
+import { ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { useSharedDrawing } from './drawing/useSharedDrawing';
 import { useSharedErasing } from './drawing/useSharedErasing';
+import { useSharedShapeDrawing } from './drawing/useSharedShapeDrawing';
+import { useSharedTextEditing } from './drawing/useSharedTextEditing';
 import { useSharedObjectOperations } from './drawing/useSharedObjectOperations';
+import { useLiveStrokeStream } from './useLiveStrokeStream';
 
 /**
  * @fileoverview Refactored shared drawing operations coordinator
- * @description Combines drawing, erasing, and object operations into a unified interface
+ * @description Combines drawing, erasing, shape, text, and object operations into a unified interface
  */
 
 export const useSharedDrawingOperations = (
   state: any,
   setState: any,
-  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata) => void,
+  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
   sendOperation: any,
   isApplyingRemoteOperation: React.MutableRefObject<boolean>,
-  whiteboardId?: string
+  whiteboardId?: string,
+  strokeStream?: ReturnType<typeof useLiveStrokeStream>
 ) => {
   // Drawing operations (pencil, highlighter)
-  const drawingOps = useSharedDrawing(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation);
+  const drawingOps = useSharedDrawing(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation, strokeStream);
   
   // Erasing operations
   const erasingOps = useSharedErasing(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation);
   
+  // Shape operations (rectangle, ellipse, line, arrow)
+  const shapeOps = useSharedShapeDrawing(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation);
+  
+  // Text operations (create, edit in place)
+  const textOps = useSharedTextEditing(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation);
+  
   // Object operations (update, delete)
   const objectOps = useSharedObjectOperations(state, setState, addToHistory, sendOperation, isApplyingRemoteOperation);
 
   return {
     ...drawingOps,
     ...erasingOps,
+    ...shapeOps,
+    ...textOps,
     ...objectOps
   };
 };
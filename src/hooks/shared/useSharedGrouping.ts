@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { WhiteboardState, SelectedObject, ActivityMetadata, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import { serializeGroupObjectsOperation, serializeUngroupObjectsOperation } from '@/utils/operationSerializer';
+import { createLineUpdateChange, createImageUpdateChange, createShapeUpdateChange, createTextUpdateChange, mergeChanges } from '@/utils/objectChanges';
+import { ObjectIdLists, createGroupId, expandToGroups, getSelectedGroupIds, toObjectIdLists } from '@/utils/objectGroups';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('operations');
+
+/**
+ * @fileoverview Shared object grouping hook
+ * @description Groups selected objects so they select, move, transform and delete as one unit,
+ * and ungroups them again. Each is a single history step and is sent to every viewer.
+ */
+
+export const useSharedGrouping = (
+  state: WhiteboardState,
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  addToHistory: (snapshot?: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  // Set or clear the group of the listed objects as one history step
+  const setObjectsGroup = useCallback((ids: ObjectIdLists, groupId: string | null) => {
+    setState((prev: WhiteboardState) => {
+      const changes: HistoryChange[] = [];
+      // Ungrouped objects have no groupId, undo sends null so it survives the operation payload
+      const regroup = <T extends { id: string; groupId?: string | null }>(
+        objects: T[],
+        objectIds: string[],
+        createChange: (before: T, updates: Partial<T>) => HistoryChange
+      ): T[] => objects.map(object => {
+        if (!objectIds.includes(object.id) || (object.groupId ?? null) === groupId) return object;
+        changes.push(createChange({ ...object, groupId: object.groupId ?? null }, { groupId } as Partial<T>));
+        return { ...object, groupId };
+      });
+
+      const newState = {
+        ...prev,
+        lines: regroup(prev.lines, ids.line_ids, createLineUpdateChange),
+        images: regroup(prev.images, ids.image_ids, createImageUpdateChange),
+        shapes: regroup(prev.shapes, ids.shape_ids, createShapeUpdateChange),
+        texts: regroup(prev.texts, ids.text_ids, createTextUpdateChange)
+      };
+      if (changes.length === 0) return prev;
+
+      setTimeout(() => {
+        addToHistory({
+          lines: newState.lines,
+          images: newState.images,
+          shapes: newState.shapes,
+          texts: newState.texts,
+          selectionState: newState.selectionState
+        }, undefined, mergeChanges(changes));
+      }, 0);
+
+      return newState;
+    });
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(groupId ? serializeGroupObjectsOperation(groupId, ids) : serializeUngroupObjectsOperation(ids));
+    }
+  }, [setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  // Put the selection, including whole groups it touches, into one new group
+  const groupObjects = useCallback((selectedObjects: SelectedObject[]) => {
+    const objects = expandToGroups(selectedObjects, state);
+    if (objects.length < 2) return;
+
+    const groupId = createGroupId();
+    setObjectsGroup(toObjectIdLists(objects), groupId);
+    debugLog('Grouping', 'Grouped objects', { groupId, count: objects.length });
+  }, [state, setObjectsGroup]);
+
+  // Dissolve every group the selection touches, its members stay selected on their own
+  const ungroupObjects = useCallback((selectedObjects: SelectedObject[]) => {
+    const objects = expandToGroups(selectedObjects, state);
+    if (getSelectedGroupIds(objects, state).length === 0) return;
+
+    setObjectsGroup(toObjectIdLists(objects), null);
+    debugLog('Grouping', 'Ungrouped objects', { count: objects.length });
+  }, [state, setObjectsGroup]);
+
+  return {
+    groupObjects,
+    ungroupObjects
+  };
+};
@@ -1,16 +1,22 @@
 
 import { useCallback } from 'react';
 import { WhiteboardOperation } from '@/types/sync';
-import { WhiteboardState, ActivityMetadata } from '@/types/whiteboard';
-import { applyOperation } from '@/utils/operationSerializer';
+import { WhiteboardState, ActivityMetadata, ShapeObject, TextObject, HistoryChange } from '@/types/whiteboard';
+import { applyOperation, markOperationApplied } from '@/utils/operationSerializer';
+import { isObjectChangeSet, createDiffChange, isEmptyChangeSet, findUndoableIndex, findRedoableIndex } from '@/utils/objectChanges';
+import { getShapeBounds } from '@/utils/shapeGeometry';
+import { getTextBounds } from '@/utils/textGeometry';
 
 interface HistoryReplayResult {
   finalState: WhiteboardState;
   historyStack: Array<{
     lines: any[];
     images: any[];
+    shapes: ShapeObject[];
+    texts: TextObject[];
     selectionState: any;
     lastActivity?: ActivityMetadata;
+    change?: HistoryChange;
   }>;
   finalHistoryIndex: number;
 }
@@ -18,11 +24,14 @@ interface HistoryReplayResult {
 /**
  * @hook useSharedHistoryReplay
  * @description Pure simulator that replays operations to rebuild state and history stack
+ * Operations sent by the given sender get an explicit change, so the user can still undo
+ * their own earlier actions after reloading the board
  */
 export const useSharedHistoryReplay = () => {
   const replayOperations = useCallback((
     orderedOperations: WhiteboardOperation[],
-    initialState: WhiteboardState
+    initialState: WhiteboardState,
+    senderId?: string
   ): HistoryReplayResult => {
     console.log(`[HistoryReplay] Starting pure simulation of ${orderedOperations.length} operations`);
     
@@ -30,8 +39,11 @@ export const useSharedHistoryReplay = () => {
     let historyStack: Array<{
       lines: any[];
       images: any[];
+      shapes: ShapeObject[];
+      texts: TextObject[];
       selectionState: any;
       lastActivity?: ActivityMetadata;
+      change?: HistoryChange;
     }> = [];
     
     let historyIndex = -1; // Start at -1, will become 0 when first state is added
@@ -40,13 +52,17 @@ export const useSharedHistoryReplay = () => {
     let currentState: WhiteboardState = {
       ...initialState,
       lines: [...initialState.lines],
-      images: [...initialState.images]
+      images: [...initialState.images],
+      shapes: [...(initialState.shapes || [])],
+      texts: [...(initialState.texts || [])]
     };
     
     // Add initial state to history
     const initialSnapshot = {
       lines: [...currentState.lines],
       images: [...currentState.images],
+      shapes: [...currentState.shapes],
+      texts: [...currentState.texts],
       selectionState: {
         selectedObjects: [],
         selectionBounds: null,
@@ -56,11 +72,23 @@ export const useSharedHistoryReplay = () => {
     historyStack.push(initialSnapshot);
     historyIndex = 0;
     
+    // Operations stored or delivered twice are replayed once
+    const appliedOperationIds = new Set<string>();
+    
     // Process each operation in the simulation
     orderedOperations.forEach((operation, index) => {
       console.log(`[HistoryReplay] Simulating operation ${index + 1}/${orderedOperations.length}: ${operation.operation_type}`);
       
-      if (operation.operation_type === 'undo') {
+      if (!markOperationApplied(operation, appliedOperationIds)) {
+        console.log(`[HistoryReplay] Skipping duplicate operation ${operation.id}`);
+        return;
+      }
+      
+      // Undo/redo with explicit changes are applied like any other operation below,
+      // only older payload-less undo/redo move through the simulated history
+      const isLegacyHistoryMove = !isObjectChangeSet(operation.data);
+
+      if (operation.operation_type === 'undo' && isLegacyHistoryMove) {
         // Undo: Move back in history if possible
         if (historyIndex > 0) {
           historyIndex--;
@@ -68,7 +96,9 @@ export const useSharedHistoryReplay = () => {
           currentState = {
             ...currentState,
             lines: [...previousSnapshot.lines],
-            images: [...previousSnapshot.images]
+            images: [...previousSnapshot.images],
+            shapes: [...previousSnapshot.shapes],
+            texts: [...previousSnapshot.texts]
           };
           console.log(`[HistoryReplay] Undo applied - moved to history index ${historyIndex}`);
         } else {
@@ -77,7 +107,7 @@ export const useSharedHistoryReplay = () => {
         return;
       }
       
-      if (operation.operation_type === 'redo') {
+      if (operation.operation_type === 'redo' && isLegacyHistoryMove) {
         // Redo: Move forward in history if possible
         if (historyIndex < historyStack.length - 1) {
           historyIndex++;
@@ -85,7 +115,9 @@ export const useSharedHistoryReplay = () => {
           currentState = {
             ...currentState,
             lines: [...nextSnapshot.lines],
-            images: [...nextSnapshot.images]
+            images: [...nextSnapshot.images],
+            shapes: [...nextSnapshot.shapes],
+            texts: [...nextSnapshot.texts]
           };
           console.log(`[HistoryReplay] Redo applied - moved to history index ${historyIndex}`);
         } else {
@@ -94,25 +126,57 @@ export const useSharedHistoryReplay = () => {
         return;
       }
       
+      if (operation.operation_type === 'set_background') {
+        // Board setting, never part of the history
+        currentState = { ...currentState, background: operation.data.background };
+        return;
+      }
+      
       // For all other operations: apply them and create new history state
       console.log(`[HistoryReplay] Applying ${operation.operation_type} operation`);
       
       // Apply the operation to get the new state
       const newState = applyOperation(currentState, operation);
+      const isOwnOperation = !!senderId && operation.sender_id === senderId;
+      
+      if (isOwnOperation && (operation.operation_type === 'undo' || operation.operation_type === 'redo')) {
+        // Own undo/redo move through this user's history, as they did when first applied
+        const targetIndex = operation.operation_type === 'undo'
+          ? findUndoableIndex(historyStack, historyIndex)
+          : findRedoableIndex(historyStack, historyIndex);
+        if (targetIndex >= 0) {
+          historyIndex = operation.operation_type === 'undo' ? targetIndex - 1 : targetIndex;
+        }
+        currentState = {
+          ...currentState,
+          lines: [...newState.lines],
+          images: [...newState.images],
+          shapes: [...(newState.shapes || [])],
+          texts: [...(newState.texts || [])]
+        };
+        console.log(`[HistoryReplay] Own ${operation.operation_type} applied - history index: ${historyIndex}`);
+        return;
+      }
       
       // Create activity metadata for this operation
       const activityMetadata = createActivityFromOperation(operation, newState);
       
+      // Own operations can be undone again, so record what they changed
+      const change = isOwnOperation ? createDiffChange(currentState, newState) : undefined;
+      
       // Create new history snapshot
       const newSnapshot = {
         lines: [...newState.lines],
         images: [...newState.images],
+        shapes: [...(newState.shapes || [])],
+        texts: [...(newState.texts || [])],
         selectionState: {
           selectedObjects: [],
           selectionBounds: null,
           isSelecting: false
         },
-        lastActivity: activityMetadata
+        lastActivity: activityMetadata,
+        ...(change && !isEmptyChangeSet(change.redo) ? { change } : {})
       };
       
       // Truncate any "future" history if we're not at the end (user had previously undone)
@@ -129,7 +193,9 @@ export const useSharedHistoryReplay = () => {
       currentState = {
         ...currentState,
         lines: [...newState.lines],
-        images: [...newState.images]
+        images: [...newState.images],
+        shapes: [...(newState.shapes || [])],
+        texts: [...(newState.texts || [])]
       };
       
       console.log(`[HistoryReplay] Operation applied - history index: ${historyIndex}, stack length: ${historyStack.length}`);
@@ -167,6 +233,15 @@ const createActivityFromOperation = (operation: WhiteboardOperation, newState: a
       break;
     }
     
+    case 'replace_lines': {
+      const erasedBounds = operation.data?.erased_bounds;
+      return {
+        type: 'erase',
+        bounds: erasedBounds || { x: 0, y: 0, width: 50, height: 50 },
+        timestamp
+      };
+    }
+
     case 'erase': {
       const lineIds = operation.data?.line_ids || [];
       const erasedBounds = operation.data?.erased_bounds;
@@ -199,8 +274,35 @@ const createActivityFromOperation = (operation: WhiteboardOperation, newState: a
       break;
     }
     
+    case 'add_shape': {
+      const shape = operation.data?.shape as ShapeObject | undefined;
+      if (shape) {
+        return {
+          type: 'draw',
+          bounds: getShapeBounds(shape),
+          timestamp
+        };
+      }
+      break;
+    }
+    
+    case 'add_text': {
+      const text = operation.data?.text as TextObject | undefined;
+      if (text) {
+        return {
+          type: 'draw',
+          bounds: getTextBounds(text),
+          timestamp
+        };
+      }
+      break;
+    }
+    
     case 'update_line':
-    case 'update_image': {
+    case 'update_image':
+    case 'update_shape':
+    case 'update_text':
+    case 'update_objects': {
       // For move operations, create generic move activity
       return {
         type: 'move',
@@ -1,8 +1,9 @@
 
 import { useCallback, useRef } from 'react';
-import { ImageObject, ActivityMetadata } from '@/types/whiteboard';
+import { ImageObject, ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { serializeAddImageOperation, serializeUpdateImageOperation, serializeDeleteImageOperation } from '@/utils/operationSerializer';
 import { calculateImageDisplayDimensions, loadImageDimensions } from '@/utils/imageUtils';
+import { createAddChange, createImageUpdateChange } from '@/utils/objectChanges';
 
 // Helper function to calculate image bounds
 const calculateImageBounds = (image: ImageObject) => {
@@ -20,7 +21,7 @@ const calculateImageBounds = (image: ImageObject) => {
 export const useSharedImageOperations = (
   state: any,
   setState: any,
-  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata) => void,
+  addToHistory: (snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
   sendOperation: any,
   isApplyingRemoteOperation: React.MutableRefObject<boolean>,
   whiteboardId?: string
@@ -88,7 +89,7 @@ export const useSharedImageOperations = (
               lines: state.lines,
               images: [...state.images, newImage],
               selectionState: state.selectionState
-            }, activityMetadata);
+            }, activityMetadata, createAddChange([], [newImage]));
           }, 0);
           
           // Send operation to sync
@@ -129,6 +130,7 @@ export const useSharedImageOperations = (
     const isTransformUpdate = 'x' in updates || 'y' in updates;
     
     setState((prev: any) => {
+      const imageBefore = prev.images.find((image: ImageObject) => image.id === imageId);
       const updatedImages = prev.images.map((image: ImageObject) =>
         image.id === imageId ? { ...image, ...updates } : image
       );
@@ -152,7 +154,7 @@ export const useSharedImageOperations = (
               lines: prev.lines,
               images: updatedImages,
               selectionState: prev.selectionState
-            }, activityMetadata);
+            }, activityMetadata, imageBefore ? createImageUpdateChange(imageBefore, updates) : undefined);
           }, 0);
         }
       }
@@ -177,6 +179,11 @@ export const useSharedImageOperations = (
 
   // Toggle image lock
   const toggleImageLock = useCallback((imageId: string) => {
+    const image = state.images.find((img: ImageObject) => img.id === imageId);
+    const change: HistoryChange | undefined = image
+      ? createImageUpdateChange(image, { locked: !image.locked })
+      : undefined;
+
     setState((prev: any) => ({
       ...prev,
       images: prev.images.map((image: ImageObject) =>
@@ -190,12 +197,11 @@ export const useSharedImageOperations = (
         lines: state.lines,
         images: state.images,
         selectionState: state.selectionState
-      });
+      }, undefined, change);
     }, 0);
     
     // Send operation to sync
     if (sendOperation && !isApplyingRemoteOperation.current) {
-      const image = state.images.find((img: ImageObject) => img.id === imageId);
       if (image) {
         const operation = serializeUpdateImageOperation(imageId, { locked: !image.locked });
         sendOperation(operation);
@@ -10,12 +10,19 @@
 
 import { useCallback, useRef } from 'react';
 import { SyncConfig } from '@/types/sync';
-import { WhiteboardState, ActivityMetadata } from '@/types/whiteboard';
+import { WhiteboardState, ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { useHistoryState } from '../useHistoryState';
 import { useSyncState } from '../useSyncState';
 import { useRemoteOperationHandler } from '../useRemoteOperationHandler';
 import { useSharedDrawingOperations } from './useSharedDrawingOperations';
 import { useSharedImageOperations } from './useSharedImageOperations';
+import { useSharedBackground } from './useSharedBackground';
+import { useSharedClipboard } from './useSharedClipboard';
+import { useSharedGrouping } from './useSharedGrouping';
+import { useSharedZOrder } from './useSharedZOrder';
+import { useLiveStrokeStream } from './useLiveStrokeStream';
+import { usePresenceCursors } from './usePresenceCursors';
+import { useLaserPointer } from './useLaserPointer';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('operations');
@@ -32,11 +39,21 @@ const debugLog = createDebugLogger('operations');
  * @returns {Object} Coordinated operations interface
  * @returns {SyncState} syncState - Real-time sync status
  * @returns {Function} addToHistory - Add current state to history
- * @returns {Function} undo - Undo last operation
- * @returns {Function} redo - Redo last undone operation
+ * @returns {Function} undo - Undo this user's last operation
+ * @returns {Function} redo - Redo this user's last undone operation
  * @returns {Function} getLastActivity - Get the most recent activity metadata
+ * @returns {LineObject[]} provisionalLines - Strokes other users are still drawing
+ * @returns {RemoteCursor[]} remoteCursors - Where other users are pointing
+ * @returns {LaserTrail[]} laserTrails - Fading laser pointer trails, never persisted
  * @returns {DrawingOperations} Drawing operations (start/continue/stop)
  * @returns {ImageOperations} Image operations (paste/update/toggle lock)
+ * @returns {Function} setBackground - Change the board background for every viewer
+ * @returns {Function} copyObjects - Clipboard text for selected objects
+ * @returns {Function} pasteObjects - Add copies of clipboard objects as one undoable step
+ * @returns {Function} duplicateObjects - Add offset copies of selected objects as one undoable step
+ * @returns {Function} groupObjects - Group selected objects so they select as one unit
+ * @returns {Function} ungroupObjects - Dissolve the groups of selected objects
+ * @returns {Function} reorderObjects - Move selected objects forward, backward, to the front or to the back
  * 
  * @ai-understanding
  * This coordinator:
@@ -61,9 +78,26 @@ export const useSharedOperationsCoordinator = (
   // Create a ref for isApplyingRemoteOperation to share between handlers
   const isApplyingRemoteOperationRef = useRef(false);
 
+  // Live in-progress strokes of this and other users
+  const strokeStream = useLiveStrokeStream(syncConfig);
+
+  // Pointer positions of this and other users
+  const presence = usePresenceCursors(syncConfig);
+
+  // Laser pointer trails, broadcast only
+  const laser = useLaserPointer(syncConfig);
+
   // Set up sync if config is provided
   const { syncState, sendOperation } = syncConfig 
-    ? useSyncState(syncConfig, (operation) => handleRemoteOperation(operation))
+    ? useSyncState(syncConfig, (operation) => {
+        // The persisted stroke, or the shape it snapped into, replaces its provisional preview
+        if (operation.operation_type === 'draw' && operation.data?.line?.id) {
+          strokeStream.clearProvisionalStroke(operation.data.line.id);
+        } else if (operation.operation_type === 'add_shape' && operation.data?.stroke_id) {
+          strokeStream.clearProvisionalStroke(operation.data.stroke_id);
+        }
+        handleRemoteOperation(operation);
+      })
     : { syncState: null, sendOperation: null };
 
   debugLog('Sync', 'Sync state initialized', {
@@ -82,11 +116,9 @@ export const useSharedOperationsCoordinator = (
     getLastActivity
   } = useHistoryState(state, setState, undefined, syncConfig ? sendOperation : null);
 
-  // Handle remote operations with undo/redo support
+  // Handle remote operations, including other users' explicit undo/redo changes
   const { handleRemoteOperation } = useRemoteOperationHandler(
     setState, 
-    undo, 
-    redo,
     isApplyingRemoteOperationRef
   );
 
@@ -97,22 +129,25 @@ export const useSharedOperationsCoordinator = (
    * @ai-context This wrapper adds debug logging and ensures consistent
    * history snapshots across collaborative sessions.
    */
-  const addToHistoryWithActivity = useCallback((snapshot?: any, activityMetadata?: ActivityMetadata) => {
+  const addToHistoryWithActivity = useCallback((snapshot?: any, activityMetadata?: ActivityMetadata, change?: HistoryChange) => {
     debugLog('History', 'Adding to history', {
       linesCount: state.lines.length,
       imagesCount: state.images.length,
       hasSelection: state.selectionState.selectedObjects.length > 0,
-      hasActivity: !!activityMetadata
+      hasActivity: !!activityMetadata,
+      hasChange: !!change
     });
     
     const finalSnapshot = snapshot || {
       lines: state.lines,
       images: state.images,
+      shapes: state.shapes,
+      texts: state.texts,
       selectionState: state.selectionState
     };
     
-    addToHistory(finalSnapshot, activityMetadata);
-  }, [addToHistory, state.lines, state.images, state.selectionState]);
+    addToHistory(finalSnapshot, activityMetadata, change);
+  }, [addToHistory, state.lines, state.images, state.shapes, state.texts, state.selectionState]);
 
   // Drawing and erasing operations with whiteboard ID
   // Use the full whiteboard ID from sync config or fallback to provided ID
@@ -120,7 +155,7 @@ export const useSharedOperationsCoordinator = (
   
   debugLog('Operations', 'Setting up drawing operations', { actualWhiteboardId });
   const drawingOperations = useSharedDrawingOperations(
-    state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef, actualWhiteboardId
+    state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef, actualWhiteboardId, strokeStream
   );
 
   // Image operations with proper parameter handling
@@ -129,6 +164,24 @@ export const useSharedOperationsCoordinator = (
     state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef, actualWhiteboardId
   );
 
+  // Board background, synced but outside the undo history
+  const backgroundOperations = useSharedBackground(setState, sendOperation, isApplyingRemoteOperationRef);
+
+  // Copy and paste of selected objects, also between boards
+  const clipboardOperations = useSharedClipboard(
+    state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef
+  );
+
+  // Persistent groups of objects
+  const groupingOperations = useSharedGrouping(
+    state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef
+  );
+
+  // Stacking order of lines, images, shapes and text boxes
+  const zOrderOperations = useSharedZOrder(
+    state, setState, addToHistoryWithActivity, sendOperation, isApplyingRemoteOperationRef
+  );
+
   debugLog('Hook', 'Operations coordinator initialized', {
     hasDrawing: !!drawingOperations.startDrawing,
     hasImages: !!imageOperations.handlePaste,
@@ -145,7 +198,19 @@ export const useSharedOperationsCoordinator = (
     canUndo,
     canRedo,
     getLastActivity,
+    provisionalLines: strokeStream.provisionalLines,
+    remoteCursors: presence.remoteCursors,
+    updateCursor: presence.updateCursor,
+    hideCursor: presence.hideCursor,
+    laserTrails: laser.laserTrails,
+    startLaser: laser.startLaser,
+    continueLaser: laser.continueLaser,
+    stopLaser: laser.stopLaser,
     ...drawingOperations,
-    ...imageOperations
+    ...imageOperations,
+    ...backgroundOperations,
+    ...clipboardOperations,
+    ...groupingOperations,
+    ...zOrderOperations
   };
 };
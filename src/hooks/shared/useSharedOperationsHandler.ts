@@ -48,6 +48,13 @@ export const useSharedOperationsHandler = (
     operations.startErasing, 
     operations.continueErasing, 
     operations.stopErasing,
+    operations.startShape,
+    operations.continueShape,
+    operations.stopShape,
+    operations.startText,
+    operations.startLaser,
+    operations.continueLaser,
+    operations.stopLaser,
     syncConfig, 
     panZoom, 
     selection
@@ -1,6 +1,7 @@
 
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { SyncConfig } from '@/types/sync';
+import { SyncConnectionManager } from '@/utils/sync';
 import { WhiteboardState } from '@/types/whiteboard';
 import { useDataLoader } from '../persistence/useDataLoader';
 import { useHistoryReplayOrchestrator } from '../persistence/useHistoryReplayOrchestrator';
@@ -22,15 +23,35 @@ export const useSharedPersistenceIntegration = (
   // Manage shared state context synchronization
   const { updateContextOnLoad, setInitialLineCount } = useStateContextSync(state, whiteboardId);
 
-  // Update state when persisted data is loaded, but only once on initial load
+  // Set while the board is reloaded because live sync lost operations it could not fetch
+  const isResyncing = useRef(false);
+  const { reload } = persistence;
+
   useEffect(() => {
-    if (!persistence.isLoading && persistence.lines && !hasLoadedInitialData.current) {
+    if (!syncConfig || !whiteboardId) return;
+
+    const handleResync = () => {
+      console.log(`[PersistenceIntegration] Resyncing ${whiteboardId} from persistence`);
+      isResyncing.current = true;
+      reload();
+    };
+
+    SyncConnectionManager.registerResyncHandler(whiteboardId, handleResync);
+    return () => SyncConnectionManager.unregisterResyncHandler(whiteboardId, handleResync);
+  }, [syncConfig, whiteboardId, reload]);
+
+  // Update state when persisted data is loaded, once on initial load and again after a resync
+  useEffect(() => {
+    if (!persistence.isLoading && persistence.lines && (!hasLoadedInitialData.current || isResyncing.current)) {
+      const isResync = isResyncing.current;
+      isResyncing.current = false;
+
       console.log(`[PersistenceIntegration] Loaded ${persistence.lines.length} lines and ${persistence.images?.length || 0} images from persistence for ${whiteboardId}`);
       console.log(`[PersistenceIntegration] Found ${persistence.orderedOperations?.length || 0} operations for history replay`);
       
       setState(prevState => {
-        // Only load persisted data if we don't have any lines yet
-        if (prevState.lines.length === 0) {
+        // Only load persisted data if we don't have any lines yet, a resync replaces the board
+        if (prevState.lines.length === 0 || isResync) {
           console.log(`[PersistenceIntegration] Applying persisted data and replaying history for ${whiteboardId}`);
           
           // Mark that we've loaded initial data
@@ -41,7 +62,9 @@ export const useSharedPersistenceIntegration = (
             const { finalState, historyStack, finalHistoryIndex } = processHistoryReplay(
               persistence.orderedOperations,
               prevState,
-              whiteboardId
+              whiteboardId,
+              persistence.baseSnapshot,
+              syncConfig?.senderId
             );
             
             // Set the final line count for tracking
@@ -51,6 +74,9 @@ export const useSharedPersistenceIntegration = (
               ...prevState,
               lines: [...finalState.lines],
               images: [...finalState.images],
+              shapes: [...finalState.shapes],
+              texts: [...finalState.texts],
+              background: finalState.background,
               history: [...historyStack], // Use the correctly simulated history stack
               historyIndex: finalHistoryIndex // Use the correct history index
             };
@@ -77,7 +103,7 @@ export const useSharedPersistenceIntegration = (
       // Also update the shared state context if available and we don't have data
       updateContextOnLoad(whiteboardId || '', persistence.lines, state.lines.length > 0);
     }
-  }, [persistence.isLoading, persistence.lines, persistence.images, persistence.lastActivity, persistence.orderedOperations, whiteboardId, setState, state.lines.length, processHistoryReplay, processFallbackLoad, updateContextOnLoad, setInitialLineCount]);
+  }, [persistence.isLoading, persistence.lines, persistence.images, persistence.shapes, persistence.texts, persistence.background, persistence.lastActivity, persistence.orderedOperations, persistence.baseSnapshot, syncConfig?.senderId, whiteboardId, setState, state.lines.length, processHistoryReplay, processFallbackLoad, updateContextOnLoad, setInitialLineCount]);
 
   return { persistence };
 };
@@ -5,12 +5,19 @@ import { SyncConfig } from '@/types/sync';
 
 export const useSharedPointerHandlers = (
   state: { currentTool: Tool; lines: any[]; images: any[] },
-  startDrawing: (x: number, y: number) => void,
-  continueDrawing: (x: number, y: number) => void,
+  startDrawing: (x: number, y: number, pressure?: number) => void,
+  continueDrawing: (x: number, y: number, pressure?: number) => void,
   stopDrawing: () => void,
   startErasing: (x: number, y: number) => void,
   continueErasing: (x: number, y: number) => void,
   stopErasing: () => void,
+  startShape: (x: number, y: number) => void,
+  continueShape: (x: number, y: number) => void,
+  stopShape: () => void,
+  startText: (x: number, y: number) => void,
+  startLaser: (x: number, y: number) => void,
+  continueLaser: (x: number, y: number) => void,
+  stopLaser: () => void,
   syncConfig: SyncConfig | undefined,
   panZoom: any,
   selection?: any
@@ -23,28 +30,38 @@ export const useSharedPointerHandlers = (
   const stableSelectionState = useMemo(() => selection?.selectionState, [selection?.selectionState]);
 
   // Handle pointer down - for drawing and selection operations
-  const handlePointerDown = useCallback((x: number, y: number) => {
+  const handlePointerDown = useCallback((x: number, y: number, pressure?: number) => {
     // Don't allow operations in receive-only mode or during pan/zoom gestures
     if (isReceiveOnly || panZoom.isGestureActive()) return;
     
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter') {
-      startDrawing(x, y);
+      startDrawing(x, y, pressure);
     } else if (stableCurrentTool === 'eraser') {
       startErasing(x, y);
+    } else if (stableCurrentTool === 'shape') {
+      startShape(x, y);
+    } else if (stableCurrentTool === 'text') {
+      startText(x, y);
+    } else if (stableCurrentTool === 'laser') {
+      startLaser(x, y);
     }
-  }, [stableCurrentTool, stableLines, stableImages, stableSelectionState?.selectedObjects?.length, startDrawing, startErasing, isReceiveOnly, panZoom, selection]);
+  }, [stableCurrentTool, stableLines, stableImages, stableSelectionState?.selectedObjects?.length, startDrawing, startErasing, startShape, startText, startLaser, isReceiveOnly, panZoom, selection]);
 
   // Handle pointer move - for drawing and selection operations
-  const handlePointerMove = useCallback((x: number, y: number) => {
+  const handlePointerMove = useCallback((x: number, y: number, pressure?: number) => {
     // Don't allow operations in receive-only mode or during pan/zoom gestures
     if (isReceiveOnly || panZoom.isGestureActive()) return;
     
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter') {
-      continueDrawing(x, y);
+      continueDrawing(x, y, pressure);
     } else if (stableCurrentTool === 'eraser') {
       continueErasing(x, y);
+    } else if (stableCurrentTool === 'shape') {
+      continueShape(x, y);
+    } else if (stableCurrentTool === 'laser') {
+      continueLaser(x, y);
     }
-  }, [stableCurrentTool, stableSelectionState?.isSelecting, stableSelectionState?.selectionBounds, continueDrawing, continueErasing, isReceiveOnly, panZoom, selection]);
+  }, [stableCurrentTool, stableSelectionState?.isSelecting, stableSelectionState?.selectionBounds, continueDrawing, continueErasing, continueShape, continueLaser, isReceiveOnly, panZoom, selection]);
 
   // Handle pointer up - for drawing and selection operations
   const handlePointerUp = useCallback(() => {
@@ -55,8 +72,12 @@ export const useSharedPointerHandlers = (
       stopDrawing();
     } else if (stableCurrentTool === 'eraser') {
       stopErasing();
+    } else if (stableCurrentTool === 'shape') {
+      stopShape();
+    } else if (stableCurrentTool === 'laser') {
+      stopLaser();
     }
-  }, [stableCurrentTool, stableLines, stableImages, stableSelectionState?.isSelecting, stableSelectionState?.selectionBounds, stopDrawing, stopErasing, isReceiveOnly, selection]);
+  }, [stableCurrentTool, stableLines, stableImages, stableSelectionState?.isSelecting, stableSelectionState?.selectionBounds, stopDrawing, stopErasing, stopShape, stopLaser, isReceiveOnly, selection]);
 
   return {
     handlePointerDown,
@@ -13,6 +13,8 @@ export const useSharedStateInitialization = (whiteboardId?: string) => {
     return {
       lines: [], // Start with empty lines - persistence will populate if needed
       images: [],
+      shapes: [],
+      texts: [],
       currentTool: 'pencil',
       currentColor: '#000000',
       currentStrokeWidth: 5,
@@ -24,6 +26,19 @@ export const useSharedStateInitialization = (whiteboardId?: string) => {
         color: '#FFFF00',
         strokeWidth: 12
       },
+      shapeSettings: {
+        kind: 'rectangle',
+        color: '#000000',
+        strokeWidth: 3
+      },
+      textSettings: {
+        color: '#000000',
+        fontSize: 24
+      },
+      eraserMode: 'stroke',
+      selectionMode: 'rectangle',
+      background: 'none',
+      editingTextId: null,
       isDrawing: false,
       panZoomState: { x: 0, y: 0, scale: 1 },
       selectionState: {
@@ -1,6 +1,6 @@
 
 import { useCallback, useMemo } from 'react';
-import { Tool, PanZoomState } from '@/types/whiteboard';
+import { Tool, PanZoomState, ShapeSettings, TextSettings, EraserMode, SelectionMode, WhiteboardState } from '@/types/whiteboard';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('toolSync');
@@ -49,6 +49,11 @@ export const useSharedStateManagement = (setState: any) => {
       } else if (tool === 'highlighter') {
         newColor = prev.highlighterSettings.color;
         newStrokeWidth = prev.highlighterSettings.strokeWidth;
+      } else if (tool === 'shape') {
+        newColor = prev.shapeSettings.color;
+        newStrokeWidth = prev.shapeSettings.strokeWidth;
+      } else if (tool === 'text') {
+        newColor = prev.textSettings.color;
       }
       
       debugLog('SharedStateManagement', 'Tool state updated', {
@@ -122,6 +127,61 @@ export const useSharedStateManagement = (setState: any) => {
     });
   }, [setState]);
 
+  // Shape kind, stroke, fill and width change with auto-switching - memoized
+  const setShapeSettings = useCallback((updates: Partial<ShapeSettings>) => {
+    debugLog('SharedStateManagement', 'Shape settings change - switching to shape tool', updates);
+
+    setState((prev: WhiteboardState): WhiteboardState => {
+      const shapeSettings = { ...prev.shapeSettings, ...updates };
+
+      return {
+        ...prev,
+        currentTool: 'shape',
+        currentColor: shapeSettings.color,
+        currentStrokeWidth: shapeSettings.strokeWidth,
+        shapeSettings
+      };
+    });
+  }, [setState]);
+
+  // Text colour and font size change with auto-switching - memoized
+  const setTextSettings = useCallback((updates: Partial<TextSettings>) => {
+    debugLog('SharedStateManagement', 'Text settings change - switching to text tool', updates);
+
+    setState((prev: WhiteboardState): WhiteboardState => {
+      const textSettings = { ...prev.textSettings, ...updates };
+
+      return {
+        ...prev,
+        currentTool: 'text',
+        currentColor: textSettings.color,
+        textSettings
+      };
+    });
+  }, [setState]);
+
+  // Eraser mode change with auto-switching - memoized
+  const setEraserMode = useCallback((eraserMode: EraserMode) => {
+    debugLog('SharedStateManagement', 'Eraser mode change - switching to eraser tool', { eraserMode });
+
+    setState((prev: WhiteboardState): WhiteboardState => ({
+      ...prev,
+      currentTool: 'eraser',
+      eraserMode
+    }));
+  }, [setState]);
+
+  // Selection mode change with auto-switching - memoized
+  const setSelectionMode = useCallback((selectionMode: SelectionMode) => {
+    debugLog('SharedStateManagement', 'Selection mode change - switching to select tool', { selectionMode });
+
+    setState((prev: WhiteboardState): WhiteboardState => ({
+      ...prev,
+      currentTool: 'select2',
+      selectionMode
+    }));
+  }, [setState]);
+
   // Stroke width change with tool-specific storage - memoized
   const setStrokeWidth = useCallback((width: number) => {
     setState((prev: any) => {
@@ -140,6 +200,8 @@ export const useSharedStateManagement = (setState: any) => {
         newState.pencilSettings = { ...prev.pencilSettings, strokeWidth: width };
       } else if (prev.currentTool === 'highlighter') {
         newState.highlighterSettings = { ...prev.highlighterSettings, strokeWidth: width };
+      } else if (prev.currentTool === 'shape') {
+        newState.shapeSettings = { ...prev.shapeSettings, strokeWidth: width };
       }
       
       return newState;
@@ -153,6 +215,10 @@ export const useSharedStateManagement = (setState: any) => {
     setColor,
     setPencilColor,
     setHighlighterColor,
+    setShapeSettings,
+    setTextSettings,
+    setEraserMode,
+    setSelectionMode,
     setStrokeWidth
-  }), [setPanZoomState, setTool, setColor, setPencilColor, setHighlighterColor, setStrokeWidth]);
+  }), [setPanZoomState, setTool, setColor, setPencilColor, setHighlighterColor, setShapeSettings, setTextSettings, setEraserMode, setSelectionMode, setStrokeWidth]);
 };
@@ -28,7 +28,7 @@ export const useSharedWhiteboardCore = (whiteboardId?: string) => {
   const selection = useSelectionState();
 
   // State management functions
-  const { setPanZoomState, setTool, setColor, setPencilColor, setHighlighterColor, setStrokeWidth } = useSharedStateManagement(setState);
+  const { setPanZoomState, setTool, setColor, setPencilColor, setHighlighterColor, setShapeSettings, setTextSettings, setEraserMode, setSelectionMode, setStrokeWidth } = useSharedStateManagement(setState);
 
   // Pan/zoom operations
   const panZoom = usePanZoom(state.panZoomState, setPanZoomState);
@@ -43,6 +43,10 @@ export const useSharedWhiteboardCore = (whiteboardId?: string) => {
     setColor,
     setPencilColor,
     setHighlighterColor,
+    setShapeSettings,
+    setTextSettings,
+    setEraserMode,
+    setSelectionMode,
     setStrokeWidth,
     panZoom
   };
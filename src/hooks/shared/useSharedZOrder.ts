@@ -0,0 +1,80 @@
+import { useCallback } from 'react';
+import { WhiteboardState, SelectedObject, ActivityMetadata, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+import { WhiteboardOperation } from '@/types/sync';
+import { serializeReorderObjectsOperation } from '@/utils/operationSerializer';
+import { createLineUpdateChange, createImageUpdateChange, createShapeUpdateChange, createTextUpdateChange, mergeChanges } from '@/utils/objectChanges';
+import { ObjectZIndex, ReorderDirection, applyZIndexes, getSceneOrder, getZIndexUpdates, reorderScene } from '@/utils/sceneOrder';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('operations');
+
+/**
+ * @fileoverview Shared z-order hook
+ * @description Brings selected objects forward or to the front and sends them backward or to the back.
+ * A reorder is a single history step and is sent to every viewer as one reorder operation.
+ */
+
+export const useSharedZOrder = (
+  state: WhiteboardState,
+  setState: (updater: (prev: WhiteboardState) => WhiteboardState) => void,
+  addToHistory: (snapshot?: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => void,
+  sendOperation: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null,
+  isApplyingRemoteOperation: React.MutableRefObject<boolean>
+) => {
+  const reorderObjects = useCallback((selectedObjects: SelectedObject[], direction: ReorderDirection) => {
+    if (selectedObjects.length === 0) return;
+
+    const zIndexes: ObjectZIndex[] = getZIndexUpdates(reorderScene(getSceneOrder(state), selectedObjects, direction), selectedObjects);
+    if (zIndexes.length === 0) return;
+
+    setState((prev: WhiteboardState) => {
+      const changes: HistoryChange[] = [];
+      // Objects without a zIndex are restored with null so undo survives the operation payload
+      const collectChanges = <T extends { id: string; zIndex?: number | null }>(
+        before: T[],
+        after: T[],
+        createChange: (before: T, updates: Partial<T>) => HistoryChange
+      ) => {
+        after.forEach((object, index) => {
+          if (object === before[index]) return;
+          changes.push(createChange({ ...before[index], zIndex: before[index].zIndex ?? null }, { zIndex: object.zIndex } as Partial<T>));
+        });
+      };
+
+      const newState = {
+        ...prev,
+        lines: applyZIndexes(prev.lines, zIndexes, 'line'),
+        images: applyZIndexes(prev.images, zIndexes, 'image'),
+        shapes: applyZIndexes(prev.shapes, zIndexes, 'shape'),
+        texts: applyZIndexes(prev.texts, zIndexes, 'text')
+      };
+      collectChanges(prev.lines, newState.lines, createLineUpdateChange);
+      collectChanges(prev.images, newState.images, createImageUpdateChange);
+      collectChanges(prev.shapes, newState.shapes, createShapeUpdateChange);
+      collectChanges(prev.texts, newState.texts, createTextUpdateChange);
+      if (changes.length === 0) return prev;
+
+      setTimeout(() => {
+        addToHistory({
+          lines: newState.lines,
+          images: newState.images,
+          shapes: newState.shapes,
+          texts: newState.texts,
+          selectionState: newState.selectionState
+        }, undefined, mergeChanges(changes));
+      }, 0);
+
+      return newState;
+    });
+
+    if (sendOperation && !isApplyingRemoteOperation.current) {
+      sendOperation(serializeReorderObjectsOperation(zIndexes));
+    }
+
+    debugLog('ZOrder', 'Reordered objects', { direction, selected: selectedObjects.length, updated: zIndexes.length });
+  }, [state, setState, addToHistory, sendOperation, isApplyingRemoteOperation]);
+
+  return {
+    reorderObjects
+  };
+};
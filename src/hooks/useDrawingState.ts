@@ -2,14 +2,28 @@
 /**
  * @fileoverview Drawing operations state management
  * @description Handles pencil and highlighter drawing operations with immediate state management.
+ * Holding the pen still at the end of a pencil stroke snaps it into a recognised shape; moving
+ * on before lifting the pen turns it back into the freehand stroke.
  */
 
-import { useCallback, useRef } from 'react';
-import { LineObject, Tool } from '@/types/whiteboard';
+import { useCallback, useEffect, useRef } from 'react';
+import { LineObject, ShapeObject, Tool } from '@/types/whiteboard';
+import { recognizeShape } from '@/utils/shapeRecognition';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('drawing');
 
+// How long the pen has to rest before the stroke snaps into a shape
+const SHAPE_HOLD_DURATION = 600;
+
+// Movement that still counts as holding still, in whiteboard units
+const SHAPE_HOLD_TOLERANCE = 4;
+
+interface SnappedStroke {
+  line: LineObject; // Freehand stroke, restored if the pen moves on
+  shape: ShapeObject; // Shape shown in its place
+}
+
 export const useDrawingState = (
   state: {
     currentTool: Tool;
@@ -22,8 +36,65 @@ export const useDrawingState = (
   addToHistory: () => void
 ) => {
   const lineIdRef = useRef(0);
+  const shapeIdRef = useRef(0);
+  const drawingLineIdRef = useRef<string | null>(null);
+  const holdAnchorRef = useRef<{ x: number; y: number } | null>(null);
+  const holdTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const snappedStrokeRef = useRef<SnappedStroke | null>(null);
+  const linesRef = useRef(state.lines);
+  linesRef.current = state.lines;
+
+  const clearHoldTimer = useCallback(() => {
+    if (holdTimerRef.current) {
+      clearTimeout(holdTimerRef.current);
+      holdTimerRef.current = null;
+    }
+  }, []);
+
+  // Replace the stroke with the shape recognised in it, if any
+  const snapToShape = useCallback(() => {
+    holdTimerRef.current = null;
+    const line = linesRef.current.find(l => l.id === drawingLineIdRef.current);
+    if (!line || snappedStrokeRef.current) return;
+
+    const recognized = recognizeShape(line.points.map((value, i) => value + ((i % 2 === 0 ? line.x : line.y) || 0)));
+    if (!recognized) return;
+
+    const shape: ShapeObject = {
+      ...recognized,
+      id: `shape_${Date.now()}_${shapeIdRef.current++}`,
+      color: line.color,
+      strokeWidth: line.strokeWidth
+    };
+    snappedStrokeRef.current = { line, shape };
 
-  const startDrawing = useCallback((x: number, y: number) => {
+    setState(prev => ({
+      ...prev,
+      lines: prev.lines.filter((l: LineObject) => l.id !== line.id),
+      shapes: [...prev.shapes, shape]
+    }));
+
+    debugLog('Snap', 'Stroke snapped into a shape', { lineId: line.id, kind: shape.kind });
+  }, [setState]);
+
+  // (Re)start waiting for the pen to rest, only pencil strokes snap into shapes
+  const restartHold = useCallback((x: number, y: number) => {
+    clearHoldTimer();
+    holdAnchorRef.current = { x, y };
+    if (state.currentTool === 'pencil') {
+      holdTimerRef.current = setTimeout(snapToShape, SHAPE_HOLD_DURATION);
+    }
+  }, [state.currentTool, clearHoldTimer, snapToShape]);
+
+  useEffect(() => clearHoldTimer, [clearHoldTimer]);
+
+  /**
+   * Stroke in progress and the shape it snapped into, the shape takes its place when drawing stops
+   */
+  const getSnappedStroke = useCallback(() => snappedStrokeRef.current, []);
+
+  // Pressure is only passed for stylus input, other strokes keep a constant width
+  const startDrawing = useCallback((x: number, y: number, pressure?: number) => {
     if (state.currentTool !== 'pencil' && state.currentTool !== 'highlighter') {
       debugLog('Start', 'Invalid tool for drawing', state.currentTool);
       return;
@@ -32,6 +103,7 @@ export const useDrawingState = (
     debugLog('Start', 'Starting drawing stroke', {
       tool: state.currentTool,
       position: { x, y },
+      pressure,
       color: state.currentColor,
       strokeWidth: state.currentStrokeWidth
     });
@@ -43,9 +115,14 @@ export const useDrawingState = (
       color: state.currentColor,
       strokeWidth: state.currentStrokeWidth,
       x: 0,
-      y: 0
+      y: 0,
+      ...(pressure !== undefined ? { pressures: [pressure] } : {})
     };
 
+    drawingLineIdRef.current = newLine.id;
+    snappedStrokeRef.current = null;
+    restartHold(x, y);
+
     setState(prev => ({
       ...prev,
       lines: [...prev.lines, newLine],
@@ -53,20 +130,44 @@ export const useDrawingState = (
     }));
 
     debugLog('Start', 'Drawing stroke started', { lineId: newLine.id });
-  }, [state.currentTool, state.currentColor, state.currentStrokeWidth, setState]);
+  }, [state.currentTool, state.currentColor, state.currentStrokeWidth, setState, restartHold]);
 
-  const continueDrawing = useCallback((x: number, y: number) => {
+  const continueDrawing = useCallback((x: number, y: number, pressure?: number) => {
     if (!state.isDrawing || (state.currentTool !== 'pencil' && state.currentTool !== 'highlighter')) {
       return;
     }
 
+    const anchor = holdAnchorRef.current;
+    const hasMoved = !anchor || Math.hypot(x - anchor.x, y - anchor.y) > SHAPE_HOLD_TOLERANCE;
+    const snapped = snappedStrokeRef.current;
+
+    if (snapped) {
+      // Small movements keep the shape, moving on brings the stroke back
+      if (!hasMoved) return;
+
+      snappedStrokeRef.current = null;
+      restartHold(x, y);
+      setState(prev => ({
+        ...prev,
+        shapes: prev.shapes.filter((shape: ShapeObject) => shape.id !== snapped.shape.id),
+        lines: [...prev.lines, snapped.line]
+      }));
+      debugLog('Snap', 'Pen moved on, stroke restored', { lineId: snapped.line.id });
+    } else if (hasMoved) {
+      restartHold(x, y);
+    }
+
     setState(prev => {
       const lastLine = prev.lines[prev.lines.length - 1];
       const newPoints = [...lastLine.points, x, y];
       const updatedLines = [...prev.lines];
       updatedLines[updatedLines.length - 1] = {
         ...lastLine,
-        points: newPoints
+        points: newPoints,
+        // Keep one pressure per point, repeating the last one if a move event had none
+        ...(lastLine.pressures ? {
+          pressures: [...lastLine.pressures, pressure ?? lastLine.pressures[lastLine.pressures.length - 1]]
+        } : {})
       };
 
       return {
@@ -74,7 +175,7 @@ export const useDrawingState = (
         lines: updatedLines
       };
     });
-  }, [state.isDrawing, state.currentTool, setState]);
+  }, [state.isDrawing, state.currentTool, setState, restartHold]);
 
   const stopDrawing = useCallback(() => {
     if (!state.isDrawing) {
@@ -84,6 +185,12 @@ export const useDrawingState = (
 
     debugLog('Stop', 'Stopping drawing stroke');
 
+    // A snapped shape stays in place of the stroke
+    clearHoldTimer();
+    drawingLineIdRef.current = null;
+    holdAnchorRef.current = null;
+    snappedStrokeRef.current = null;
+
     setState(prev => ({
       ...prev,
       isDrawing: false
@@ -94,11 +201,12 @@ export const useDrawingState = (
       addToHistory();
       debugLog('Stop', 'Drawing stroke finalized and saved to history');
     }
-  }, [state.isDrawing, setState, addToHistory]);
+  }, [state.isDrawing, setState, addToHistory, clearHoldTimer]);
 
   return {
     startDrawing,
     continueDrawing,
-    stopDrawing
+    stopDrawing,
+    getSnappedStroke
   };
 };
@@ -1,6 +1,7 @@
 
 import { useCallback, useRef } from 'react';
-import { LineObject, Tool } from '@/types/whiteboard';
+import { EraserMode, LineObject, Tool } from '@/types/whiteboard';
+import { eraseLineSegments } from '@/utils/lineSplitting';
 
 // Apply transformation matrix to a point
 const transformPoint = (
@@ -97,11 +98,19 @@ export const useEraserState = (
     currentStrokeWidth: number;
     lines: LineObject[];
     isDrawing: boolean;
+    eraserMode?: EraserMode;
   },
   setState: (updater: (prev: any) => any) => void,
   addToHistory: (lines: LineObject[]) => void
 ) => {
   const erasedLinesRef = useRef(new Set<string>());
+  const lineIdRef = useRef(0);
+
+  // Partial mode: cut the touched segments out and keep the rest as new lines
+  const cutLines = useCallback((lines: LineObject[], point: { x: number; y: number }, threshold: number) => {
+    const createId = () => `line_${Date.now()}_${lineIdRef.current++}`;
+    return lines.flatMap(line => eraseLineSegments(line, point, threshold, createId) ?? [line]);
+  }, []);
   
   const startErasing = useCallback((x: number, y: number) => {
     if (state.currentTool !== 'eraser') return;
@@ -119,6 +128,14 @@ export const useEraserState = (
     const threshold = state.currentStrokeWidth / 2;
     
     setState(prev => {
+      if (state.eraserMode === 'partial') {
+        return {
+          ...prev,
+          lines: cutLines(prev.lines, point, threshold),
+          isDrawing: true
+        };
+      }
+
       const updatedLines = prev.lines.filter(line => {
         // Only check strokes that haven't been erased yet in this session
         if (erasedLinesRef.current.has(line.id)) return false;
@@ -136,7 +153,7 @@ export const useEraserState = (
         isDrawing: true
       };
     });
-  }, [state.currentTool, state.currentStrokeWidth, state.lines, setState, addToHistory]);
+  }, [state.currentTool, state.currentStrokeWidth, state.eraserMode, state.lines, setState, addToHistory, cutLines]);
   
   const continueErasing = useCallback((x: number, y: number) => {
     if (!state.isDrawing || state.currentTool !== 'eraser') return;
@@ -145,6 +162,13 @@ export const useEraserState = (
     const threshold = state.currentStrokeWidth / 2;
     
     setState(prev => {
+      if (state.eraserMode === 'partial') {
+        return {
+          ...prev,
+          lines: cutLines(prev.lines, point, threshold)
+        };
+      }
+
       const updatedLines = prev.lines.filter(line => {
         // Only check strokes that haven't been erased yet in this session
         if (erasedLinesRef.current.has(line.id)) return false;
@@ -161,7 +185,7 @@ export const useEraserState = (
         lines: updatedLines
       };
     });
-  }, [state.isDrawing, state.currentTool, state.currentStrokeWidth, setState]);
+  }, [state.isDrawing, state.currentTool, state.currentStrokeWidth, state.eraserMode, setState, cutLines]);
   
   const stopErasing = useCallback(() => {
     if (!state.isDrawing) return;
@@ -1,7 +1,8 @@
 import { useCallback } from 'react';
-import { LineObject, ImageObject, HistorySnapshot, SelectionState, ActivityMetadata } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, HistorySnapshot, SelectionState, ActivityMetadata, HistoryChange } from '@/types/whiteboard';
 import { WhiteboardOperation } from '@/types/sync';
 import { serializeUndoOperation, serializeRedoOperation } from '@/utils/operationSerializer';
+import { applyObjectChanges, findUndoableIndex, findRedoableIndex } from '@/utils/objectChanges';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('history');
@@ -18,7 +19,11 @@ export const useHistoryState = (
   updateSelectionState?: (selectionState: SelectionState) => void,
   sendOperation?: ((operation: Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'>) => WhiteboardOperation | null) | null
 ) => {
-  const addToHistory = useCallback((snapshot: HistorySnapshot, activityMetadata?: ActivityMetadata) => {
+  // With sync enabled the board is shared, so undo/redo only revert this user's own
+  // recorded changes instead of restoring whole-board snapshots
+  const isPerUserHistory = !!sendOperation;
+
+  const addToHistory = useCallback((snapshot: HistorySnapshot, activityMetadata?: ActivityMetadata, change?: HistoryChange) => {
     setState(prev => {
       // If we're not at the end of the history, truncate it
       const newHistory = prev.historyIndex < prev.history.length - 1
@@ -28,11 +33,15 @@ export const useHistoryState = (
       const newSnapshot = {
         lines: [...snapshot.lines],
         images: [...snapshot.images],
+        // Callers that only touch lines and images leave the shapes and text boxes as they are
+        shapes: [...(snapshot.shapes || prev.shapes || [])],
+        texts: [...(snapshot.texts || prev.texts || [])],
         selectionState: {
           ...snapshot.selectionState,
           selectedObjects: [...snapshot.selectionState.selectedObjects]
         },
-        lastActivity: activityMetadata
+        lastActivity: activityMetadata,
+        change
       };
       
       debugLog('AddToHistory', 'Adding to history with activity', activityMetadata);
@@ -62,13 +71,17 @@ export const useHistoryState = (
     return undefined;
   }, [state.history, state.historyIndex]);
 
-  const validateSelection = useCallback((selectionState: SelectionState, lines: LineObject[], images: ImageObject[]): SelectionState => {
+  const validateSelection = useCallback((selectionState: SelectionState, lines: LineObject[], images: ImageObject[], shapes: ShapeObject[] = [], texts: TextObject[] = []): SelectionState => {
     // Filter out selected objects that no longer exist
     const validSelectedObjects = selectionState.selectedObjects.filter(selectedObj => {
       if (selectedObj.type === 'line') {
         return lines.some(line => line.id === selectedObj.id);
       } else if (selectedObj.type === 'image') {
         return images.some(image => image.id === selectedObj.id);
+      } else if (selectedObj.type === 'shape') {
+        return shapes.some(shape => shape.id === selectedObj.id);
+      } else if (selectedObj.type === 'text') {
+        return texts.some(text => text.id === selectedObj.id);
       }
       return false;
     });
@@ -83,14 +96,109 @@ export const useHistoryState = (
     };
   }, []);
 
-  const undo = useCallback(() => {
-    // Send sync operation if available (for Teacher1-Student1 pair)
-    if (sendOperation) {
-      debugLog('Undo', 'Sending undo operation to sync');
-      const operation = serializeUndoOperation();
-      sendOperation(operation);
+  /**
+   * Revert the most recent change made by this user and broadcast the inverse change
+   */
+  const undoOwnChange = useCallback(() => {
+    const targetIndex = findUndoableIndex(state.history, state.historyIndex);
+    if (targetIndex < 0) {
+      debugLog('Undo', 'Nothing of our own to undo');
+      return;
     }
 
+    const { change } = state.history[targetIndex];
+    if (!change) return;
+
+    let isSent = false;
+    setState(prev => {
+      // Another undo/redo already moved the history on
+      if (prev.historyIndex !== state.historyIndex) return prev;
+
+      // Only sent once the undo is applied here, the updater can run more than once
+      if (sendOperation && !isSent) {
+        isSent = true;
+        setTimeout(() => {
+          debugLog('Undo', 'Sending undo operation with explicit changes to sync');
+          sendOperation(serializeUndoOperation(change.undo));
+        }, 0);
+      }
+
+      const { lines, images, shapes, texts } = applyObjectChanges(prev, change.undo);
+      const validatedSelectionState = validateSelection(prev.selectionState, lines, images, shapes, texts);
+
+      if (updateSelectionState) {
+        setTimeout(() => updateSelectionState(validatedSelectionState), 0);
+      }
+
+      debugLog('Undo', `Applied own undo: index ${prev.historyIndex} -> ${targetIndex - 1}`, {
+        linesCount: lines.length,
+        imagesCount: images.length
+      });
+
+      return {
+        ...prev,
+        lines,
+        images,
+        shapes,
+        texts,
+        selectionState: validatedSelectionState,
+        historyIndex: targetIndex - 1
+      };
+    });
+  }, [state.history, state.historyIndex, setState, validateSelection, updateSelectionState, sendOperation]);
+
+  /**
+   * Re-apply the most recently undone change made by this user and broadcast it
+   */
+  const redoOwnChange = useCallback(() => {
+    const targetIndex = findRedoableIndex(state.history, state.historyIndex);
+    if (targetIndex < 0) {
+      debugLog('Redo', 'Nothing of our own to redo');
+      return;
+    }
+
+    const { change } = state.history[targetIndex];
+    if (!change) return;
+
+    let isSent = false;
+    setState(prev => {
+      // Another undo/redo already moved the history on
+      if (prev.historyIndex !== state.historyIndex) return prev;
+
+      // Only sent once the redo is applied here, the updater can run more than once
+      if (sendOperation && !isSent) {
+        isSent = true;
+        setTimeout(() => {
+          debugLog('Redo', 'Sending redo operation with explicit changes to sync');
+          sendOperation(serializeRedoOperation(change.redo));
+        }, 0);
+      }
+
+      const { lines, images, shapes, texts } = applyObjectChanges(prev, change.redo);
+      const validatedSelectionState = validateSelection(prev.selectionState, lines, images, shapes, texts);
+
+      if (updateSelectionState) {
+        setTimeout(() => updateSelectionState(validatedSelectionState), 0);
+      }
+
+      debugLog('Redo', `Applied own redo: index ${prev.historyIndex} -> ${targetIndex}`, {
+        linesCount: lines.length,
+        imagesCount: images.length
+      });
+
+      return {
+        ...prev,
+        lines,
+        images,
+        shapes,
+        texts,
+        selectionState: validatedSelectionState,
+        historyIndex: targetIndex
+      };
+    });
+  }, [state.history, state.historyIndex, setState, validateSelection, updateSelectionState, sendOperation]);
+
+  const undoSnapshot = useCallback(() => {
     setState(prev => {
       if (prev.historyIndex <= 0) return prev;
       
@@ -98,7 +206,10 @@ export const useHistoryState = (
       const snapshot = prev.history[newIndex];
       
       // Validate selection state against the restored objects
-      const validatedSelectionState = validateSelection(snapshot.selectionState, snapshot.lines, snapshot.images);
+      // Snapshots recorded before shapes or text boxes existed leave them untouched
+      const shapes = snapshot.shapes || prev.shapes || [];
+      const texts = snapshot.texts || prev.texts || [];
+      const validatedSelectionState = validateSelection(snapshot.selectionState, snapshot.lines, snapshot.images, shapes, texts);
       
       // Update the selection hook if provided
       if (updateSelectionState) {
@@ -114,20 +225,15 @@ export const useHistoryState = (
         ...prev,
         lines: [...snapshot.lines],
         images: [...snapshot.images],
+        shapes: [...shapes],
+        texts: [...texts],
         selectionState: validatedSelectionState,
         historyIndex: newIndex
       };
     });
-  }, [setState, validateSelection, updateSelectionState, sendOperation]);
-
-  const redo = useCallback(() => {
-    // Send sync operation if available (for Teacher1-Student1 pair)
-    if (sendOperation) {
-      debugLog('Redo', 'Sending redo operation to sync');
-      const operation = serializeRedoOperation();
-      sendOperation(operation);
-    }
+  }, [setState, validateSelection, updateSelectionState]);
 
+  const redoSnapshot = useCallback(() => {
     setState(prev => {
       if (prev.historyIndex >= prev.history.length - 1) return prev;
       
@@ -135,7 +241,10 @@ export const useHistoryState = (
       const snapshot = prev.history[newIndex];
       
       // Validate selection state against the restored objects
-      const validatedSelectionState = validateSelection(snapshot.selectionState, snapshot.lines, snapshot.images);
+      // Snapshots recorded before shapes or text boxes existed leave them untouched
+      const shapes = snapshot.shapes || prev.shapes || [];
+      const texts = snapshot.texts || prev.texts || [];
+      const validatedSelectionState = validateSelection(snapshot.selectionState, snapshot.lines, snapshot.images, shapes, texts);
       
       // Update the selection hook if provided
       if (updateSelectionState) {
@@ -151,14 +260,23 @@ export const useHistoryState = (
         ...prev,
         lines: [...snapshot.lines],
         images: [...snapshot.images],
+        shapes: [...shapes],
+        texts: [...texts],
         selectionState: validatedSelectionState,
         historyIndex: newIndex
       };
     });
-  }, [setState, validateSelection, updateSelectionState, sendOperation]);
+  }, [setState, validateSelection, updateSelectionState]);
+
+  const undo = isPerUserHistory ? undoOwnChange : undoSnapshot;
+  const redo = isPerUserHistory ? redoOwnChange : redoSnapshot;
 
-  const canUndo = state.historyIndex > 0;
-  const canRedo = state.historyIndex < state.history.length - 1;
+  const canUndo = isPerUserHistory
+    ? findUndoableIndex(state.history, state.historyIndex) >= 0
+    : state.historyIndex > 0;
+  const canRedo = isPerUserHistory
+    ? findRedoableIndex(state.history, state.historyIndex) >= 0
+    : state.historyIndex < state.history.length - 1;
 
   return {
     addToHistory,
@@ -0,0 +1,35 @@
+import { useState, useCallback } from 'react';
+
+const RECENT_COLORS_STORAGE_KEY = 'whiteboard-recent-colors';
+const MAX_RECENT_COLORS = 8;
+
+const loadRecentColors = (): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RECENT_COLORS_STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter(color => typeof color === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * @hook useRecentColors
+ * @description Most recently picked custom colours on this device, newest first
+ */
+export const useRecentColors = () => {
+  const [recentColors, setRecentColors] = useState<string[]>(loadRecentColors);
+
+  const addRecentColor = useCallback((color: string) => {
+    setRecentColors(prev => {
+      const next = [color, ...prev.filter(existing => existing !== color)].slice(0, MAX_RECENT_COLORS);
+      try {
+        localStorage.setItem(RECENT_COLORS_STORAGE_KEY, JSON.stringify(next));
+      } catch (error) {
+        console.warn('Could not store recent colours:', error);
+      }
+      return next;
+    });
+  }, []);
+
+  return { recentColors, addRecentColor };
+};
@@ -1,17 +1,24 @@
 
-import { useCallback } from 'react';
-import { WhiteboardOperation, DrawOperationData, EraseOperationData, AddImageOperationData, UpdateImageOperationData, DeleteImageOperationData, UpdateLineOperationData, DeleteObjectsOperationData } from '@/types/sync';
+import { useCallback, useRef } from 'react';
+import { WhiteboardOperation, DrawOperationData, EraseOperationData, ReplaceLinesOperationData, AddImageOperationData, UpdateImageOperationData, DeleteImageOperationData, UpdateLineOperationData, DeleteObjectsOperationData, AddShapeOperationData, UpdateShapeOperationData, AddTextOperationData, UpdateTextOperationData, SetBackgroundOperationData, GroupObjectsOperationData, ReorderObjectsOperationData, UpdateObjectsOperationData } from '@/types/sync';
+import { LineObject, ImageObject, ShapeObject, TextObject } from '@/types/whiteboard';
+import { applyObjectChanges, createEmptyChangeSet, isObjectChangeSet } from '@/utils/objectChanges';
+import { replaceLines } from '@/utils/lineSplitting';
+import { applyGroupId } from '@/utils/objectGroups';
+import { applyZIndexes } from '@/utils/sceneOrder';
+import { validateOperation, RecentIdSet } from '@/utils/sync';
 import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('operations');
 
+// Number of recently applied operation IDs remembered to ignore re-deliveries
+const APPLIED_OPERATION_LIMIT = 5000;
+
 /**
  * @hook useRemoteOperationHandler
  * @description Handles remote operations received from other clients
  * 
  * @param setState - Function to update whiteboard state
- * @param undo - Undo function from history state
- * @param redo - Redo function from history state
  * @param isApplyingRemoteOperationRef - Ref to track if currently applying remote operation
  * 
  * @returns {Object} Remote operation handlers
@@ -19,11 +26,10 @@ const debugLog = createDebugLogger('operations');
  */
 export const useRemoteOperationHandler = (
   setState: (updater: (prev: any) => any) => void,
-  undo: () => void,
-  redo: () => void,
   isApplyingRemoteOperationRef?: React.MutableRefObject<boolean>
 ) => {
   debugLog('Hook', 'Initializing remote operation handler');
+  const appliedOperationIdsRef = useRef(new RecentIdSet(APPLIED_OPERATION_LIMIT));
 
   /**
    * @function handleRemoteOperation
@@ -37,6 +43,17 @@ export const useRemoteOperationHandler = (
       timestamp: operation.timestamp
     });
 
+    // Never apply malformed payloads, they are quarantined and logged instead
+    if (!validateOperation(operation)) {
+      return;
+    }
+
+    // A retried or re-delivered operation is applied only once
+    if (operation.id && !appliedOperationIdsRef.current.add(operation.id)) {
+      debugLog('Operation', `Ignoring already applied operation ${operation.id}`);
+      return;
+    }
+
     // Set flag to prevent local operation broadcasting during remote operation application
     if (isApplyingRemoteOperationRef) {
       isApplyingRemoteOperationRef.current = true;
@@ -46,10 +63,13 @@ export const useRemoteOperationHandler = (
       switch (operation.operation_type) {
         case 'draw':
           const drawData = operation.data as DrawOperationData;
-          setState(prev => ({
-            ...prev,
-            lines: [...prev.lines, drawData.line]
-          }));
+          setState(prev => {
+            if (prev.lines.some((line: LineObject) => line.id === drawData.line.id)) return prev;
+            return {
+              ...prev,
+              lines: [...prev.lines, drawData.line]
+            };
+          });
           break;
 
         case 'erase':
@@ -60,6 +80,15 @@ export const useRemoteOperationHandler = (
           }));
           break;
 
+        case 'replace_lines': {
+          const replaceLinesData = operation.data as ReplaceLinesOperationData;
+          setState(prev => ({
+            ...prev,
+            lines: replaceLines(prev.lines, replaceLinesData.line_ids, replaceLinesData.lines)
+          }));
+          break;
+        }
+
         case 'update_line':
           const updateLineData = operation.data as UpdateLineOperationData;
           debugLog('Operation', 'Processing remote line update', updateLineData);
@@ -77,17 +106,116 @@ export const useRemoteOperationHandler = (
           setState(prev => ({
             ...prev,
             lines: prev.lines.filter((line: any) => !deleteObjectsData.line_ids.includes(line.id)),
-            images: prev.images.filter((img: any) => !deleteObjectsData.image_ids.includes(img.id))
+            images: prev.images.filter((img: any) => !deleteObjectsData.image_ids.includes(img.id)),
+            shapes: prev.shapes.filter((shape: ShapeObject) => !(deleteObjectsData.shape_ids || []).includes(shape.id)),
+            texts: prev.texts.filter((text: TextObject) => !(deleteObjectsData.text_ids || []).includes(text.id))
           }));
           break;
 
-        case 'add_image':
-          const addImageData = operation.data as AddImageOperationData;
+        case 'add_shape': {
+          const addShapeData = operation.data as AddShapeOperationData;
+          setState(prev => {
+            if (prev.shapes.some((shape: ShapeObject) => shape.id === addShapeData.shape.id)) return prev;
+            return {
+              ...prev,
+              shapes: [...prev.shapes, addShapeData.shape]
+            };
+          });
+          break;
+        }
+
+        case 'update_shape': {
+          const updateShapeData = operation.data as UpdateShapeOperationData;
           setState(prev => ({
             ...prev,
-            images: [...prev.images, addImageData.image]
+            shapes: prev.shapes.map((shape: ShapeObject) =>
+              shape.id === updateShapeData.shape_id ? { ...shape, ...updateShapeData.updates } : shape
+            )
           }));
           break;
+        }
+
+        case 'add_text': {
+          const addTextData = operation.data as AddTextOperationData;
+          setState(prev => {
+            if (prev.texts.some((text: TextObject) => text.id === addTextData.text.id)) return prev;
+            return {
+              ...prev,
+              texts: [...prev.texts, addTextData.text]
+            };
+          });
+          break;
+        }
+
+        case 'update_text': {
+          const updateTextData = operation.data as UpdateTextOperationData;
+          setState(prev => ({
+            ...prev,
+            texts: prev.texts.map((text: TextObject) =>
+              text.id === updateTextData.text_id ? { ...text, ...updateTextData.updates } : text
+            )
+          }));
+          break;
+        }
+
+        case 'set_background': {
+          const setBackgroundData = operation.data as SetBackgroundOperationData;
+          setState(prev => ({
+            ...prev,
+            background: setBackgroundData.background
+          }));
+          break;
+        }
+
+        case 'group_objects':
+        case 'ungroup_objects':
+          debugLog('Operation', `Processing remote ${operation.operation_type}`, operation.data);
+          setState(prev => {
+            // Ungroup operations carry the same id lists without a group id
+            const groupData = operation.data as GroupObjectsOperationData;
+            const groupId = operation.operation_type === 'group_objects' ? groupData.group_id : null;
+            return {
+              ...prev,
+              lines: applyGroupId(prev.lines, groupData.line_ids, groupId),
+              images: applyGroupId(prev.images, groupData.image_ids, groupId),
+              shapes: applyGroupId(prev.shapes, groupData.shape_ids, groupId),
+              texts: applyGroupId(prev.texts, groupData.text_ids, groupId)
+            };
+          });
+          break;
+
+        case 'reorder_objects':
+          debugLog('Operation', 'Processing remote reorder', operation.data);
+          setState(prev => {
+            const { z_indexes } = operation.data as ReorderObjectsOperationData;
+            return {
+              ...prev,
+              lines: applyZIndexes(prev.lines, z_indexes, 'line'),
+              images: applyZIndexes(prev.images, z_indexes, 'image'),
+              shapes: applyZIndexes(prev.shapes, z_indexes, 'shape'),
+              texts: applyZIndexes(prev.texts, z_indexes, 'text')
+            };
+          });
+          break;
+
+        case 'update_objects':
+          debugLog('Operation', 'Processing remote batched update', operation.data);
+          setState(prev => ({
+            ...prev,
+            ...applyObjectChanges(prev, { ...createEmptyChangeSet(), ...(operation.data as UpdateObjectsOperationData) })
+          }));
+          break;
+
+        case 'add_image':
+          const addImageData = operation.data as AddImageOperationData;
+          setState(prev => {
+            if (prev.images.some((img: ImageObject) => img.id === addImageData.image.id)) return prev;
+            return {
+              ...prev,
+              images: [...prev.images, addImageData.image]
+            };
+          });
+          break;
 
         case 'update_image':
           const updateImageData = operation.data as UpdateImageOperationData;
@@ -108,13 +236,17 @@ export const useRemoteOperationHandler = (
           break;
 
         case 'undo':
-          debugLog('Operation', 'Processing remote undo');
-          undo();
-          break;
-
         case 'redo':
-          debugLog('Operation', 'Processing remote redo');
-          redo();
+          // Remote undo/redo only affects the sender's own objects, never our history
+          if (!isObjectChangeSet(operation.data)) {
+            debugLog('Operation', `Ignoring remote ${operation.operation_type} without explicit changes`);
+            break;
+          }
+          debugLog('Operation', `Processing remote ${operation.operation_type}`, operation.data);
+          setState(prev => ({
+            ...prev,
+            ...applyObjectChanges(prev, operation.data)
+          }));
           break;
 
         default:
@@ -130,7 +262,7 @@ export const useRemoteOperationHandler = (
         isApplyingRemoteOperationRef.current = false;
       }
     }
-  }, [setState, undo, redo, isApplyingRemoteOperationRef]);
+  }, [setState, isApplyingRemoteOperationRef]);
 
   return {
     handleRemoteOperation
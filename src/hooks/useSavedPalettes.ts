@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+/**
+ * A named set of colours from the 'saved_palettes' table
+ */
+export interface SavedPalette {
+  id: number;
+  palette_name: string;
+  colors: string[];
+}
+
+/**
+ * @hook useSavedPalettes
+ * @description Colour palettes saved on the signed-in teacher's profile.
+ * Students are not signed in, so they get no palettes and cannot save any.
+ */
+export const useSavedPalettes = () => {
+  const { user } = useAuth();
+  const [palettes, setPalettes] = useState<SavedPalette[]>([]);
+  const { toast } = useToast();
+
+  const fetchPalettes = useCallback(async () => {
+    if (!user) {
+      setPalettes([]);
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('saved_palettes')
+      .select('id, palette_name, colors')
+      .eq('teacher_id', user.id)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching palettes:', error);
+      return;
+    }
+    setPalettes(data || []);
+  }, [user]);
+
+  useEffect(() => {
+    fetchPalettes();
+  }, [fetchPalettes]);
+
+  const savePalette = async (paletteName: string, colors: string[]): Promise<boolean> => {
+    if (!user || colors.length === 0) return false;
+
+    try {
+      const { data, error } = await supabase
+        .from('saved_palettes')
+        .insert({
+          teacher_id: user.id,
+          palette_name: paletteName,
+          colors
+        })
+        .select('id, palette_name, colors')
+        .single();
+
+      if (error) throw error;
+
+      setPalettes(prev => [...prev, data]);
+      return true;
+    } catch (error: unknown) {
+      toast({
+        title: "Error Saving Palette",
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deletePalette = async (paletteId: number) => {
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('saved_palettes')
+        .delete()
+        .eq('id', paletteId)
+        .eq('teacher_id', user.id);
+
+      if (error) throw error;
+
+      setPalettes(prev => prev.filter(palette => palette.id !== paletteId));
+    } catch (error: unknown) {
+      toast({
+        title: "Error Deleting Palette",
+        description: error instanceof Error ? error.message : 'An unknown error occurred',
+        variant: "destructive",
+      });
+    }
+  };
+
+  return {
+    palettes,
+    canSavePalettes: !!user,
+    savePalette,
+    deletePalette
+  };
+};
@@ -1,30 +1,40 @@
 
 import { useCallback, useRef, useEffect } from 'react';
 import Konva from 'konva';
-import { LineObject, ImageObject, SelectedObject } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, SelectionMode } from '@/types/whiteboard';
 import { useSelect2State } from './useSelect2State';
 import { useStageCoordinates } from './useStageCoordinates';
 import { useSelect2Transform } from './useSelect2Transform';
 import { useTransformHandleDetection } from './useTransformHandleDetection';
+import { getTextCenter } from '@/utils/textGeometry';
+
+// Stable fallbacks so boards without shapes or text boxes don't re-run effects every render
+const NO_SHAPES: ShapeObject[] = [];
+const NO_TEXTS: TextObject[] = [];
 
 interface UseSelect2EventHandlersProps {
   stageRef: React.RefObject<Konva.Stage>;
   lines: LineObject[];
   images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
   panZoomState: { x: number; y: number; scale: number };
   panZoom: any; // panZoom object with isGestureActive method
+  selectionMode?: SelectionMode; // Rectangle or lasso for drag selection on empty space
   onUpdateLine?: (lineId: string, updates: any) => void;
   onUpdateImage?: (imageId: string, updates: any) => void;
-  onDeleteObjects?: (selectedObjects: Array<{id: string, type: 'line' | 'image'}>) => void;
+  onUpdateShape?: (shapeId: string, updates: Partial<ShapeObject>) => void;
+  onUpdateText?: (textId: string, updates: Partial<TextObject>) => void;
+  onDeleteObjects?: (selectedObjects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => void;
   containerRef?: React.RefObject<HTMLDivElement>;
   // Main selection state integration for delete/visual feedback
   mainSelection?: {
-    selectObjects: (objects: Array<{id: string, type: 'line' | 'image'}>) => void;
+    selectObjects: (objects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => void;
     clearSelection: () => void;
     setSelectionBounds: (bounds: any) => void;
     setIsSelecting: (selecting: boolean) => void;
     selectionState: {
-      selectedObjects: Array<{id: string, type: 'line' | 'image'}>;
+      selectedObjects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>;
       isSelecting: boolean;
       selectionBounds: any;
     };
@@ -35,10 +45,15 @@ export const useSelect2EventHandlers = ({
   stageRef,
   lines, 
   images, 
+  shapes = NO_SHAPES,
+  texts = NO_TEXTS,
   panZoomState,
   panZoom,
+  selectionMode = 'rectangle',
   onUpdateLine,
   onUpdateImage,
+  onUpdateShape,
+  onUpdateText,
   onDeleteObjects,
   containerRef,
   mainSelection
@@ -48,6 +63,9 @@ export const useSelect2EventHandlers = ({
     startDragSelection,
     updateDragSelection,
     endDragSelection,
+    startLassoSelection,
+    updateLassoSelection,
+    endLassoSelection,
     startDraggingObjects,
     updateObjectDragging,
     endObjectDragging,
@@ -66,7 +84,8 @@ export const useSelect2EventHandlers = ({
     updateTransform,
     endTransform,
     cancelTransform,
-    selectAll
+    selectAll,
+    selectObjects
   } = useSelect2State();
 
   const { getRelativePointerPosition } = useStageCoordinates(panZoomState);
@@ -81,7 +100,7 @@ export const useSelect2EventHandlers = ({
   const hoveredHandleRef = useRef<string | null>(null);
 
   // Helper function to sync selection with main state
-  const syncSelectionWithMainState = useCallback((selectedObjects: Array<{id: string, type: 'line' | 'image'}>) => {
+  const syncSelectionWithMainState = useCallback((selectedObjects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => {
     if (mainSelection) {
       mainSelection.selectObjects(selectedObjects);
     }
@@ -125,15 +144,15 @@ export const useSelect2EventHandlers = ({
     }
     
     // Priority 3: Fallback - check if clicking directly on a selected object
-    const objectsAtPoint = findObjectsAtPoint(point, lines, images);
+    const objectsAtPoint = findObjectsAtPoint(point, lines, images, shapes, texts);
     return objectsAtPoint.some(obj => 
       state.selectedObjects.some(selected => selected.id === obj.id)
     );
-  }, [findObjectsAtPoint, lines, images, state.selectedObjects, isPointInGroupBounds, state.groupBounds, handleDetection]);
+  }, [findObjectsAtPoint, lines, images, shapes, texts, state.selectedObjects, isPointInGroupBounds, state.groupBounds, handleDetection]);
 
   // FIXED: Apply drag offset with proper coordinate handling - now ensures single application and respects locked state
   const applyDragOffset = useCallback(() => {
-    if (!state.dragOffset || (!onUpdateLine && !onUpdateImage)) return;
+    if (!state.dragOffset || (!onUpdateLine && !onUpdateImage && !onUpdateShape && !onUpdateText)) return;
 
     const { x: dx, y: dy } = state.dragOffset;
 
@@ -173,12 +192,22 @@ export const useSelect2EventHandlers = ({
           });
           onUpdateImage(obj.id, { x: newX, y: newY });
         }
+      } else if (obj.type === 'shape' && onUpdateShape) {
+        const currentShape = shapes.find(s => s.id === obj.id);
+        if (currentShape) {
+          onUpdateShape(obj.id, { x: currentShape.x + dx, y: currentShape.y + dy });
+        }
+      } else if (obj.type === 'text' && onUpdateText) {
+        const currentText = texts.find(t => t.id === obj.id);
+        if (currentText) {
+          onUpdateText(obj.id, { x: currentText.x + dx, y: currentText.y + dy });
+        }
       }
     });
 
     // Update group bounds immediately after applying position changes
     // This ensures the visual feedback matches the actual object positions
-    const newGroupBounds = calculateGroupBounds(state.selectedObjects, lines, images);
+    const newGroupBounds = calculateGroupBounds(state.selectedObjects, lines, images, shapes, texts);
     
     console.log('Select2: Updated group bounds after position changes', { 
       oldBounds: state.groupBounds, 
@@ -186,8 +215,8 @@ export const useSelect2EventHandlers = ({
       offset: { dx, dy }
     });
     
-    updateGroupBounds(lines, images);
-  }, [state.dragOffset, state.selectedObjects, lines, images, onUpdateLine, onUpdateImage, setState, calculateGroupBounds]);
+    updateGroupBounds(lines, images, shapes, texts);
+  }, [state.dragOffset, state.selectedObjects, lines, images, shapes, texts, onUpdateLine, onUpdateImage, onUpdateShape, onUpdateText, setState, calculateGroupBounds]);
 
   // Stage 2: Store selected objects in ref to preserve them during transform
   const selectedObjectsRef = useRef<SelectedObject[]>([]);
@@ -201,9 +230,9 @@ export const useSelect2EventHandlers = ({
   useEffect(() => {
     if (state.selectedObjects.length > 0) {
       console.log('Select2: Syncing group bounds due to lines/images change');
-      updateGroupBounds(lines, images);
+      updateGroupBounds(lines, images, shapes, texts);
     }
-  }, [lines, images, state.selectedObjects.length, updateGroupBounds]);
+  }, [lines, images, shapes, texts, state.selectedObjects.length, updateGroupBounds]);
 
   // ENHANCED: Prioritize transform handle detection with immediate bounds calculation
   const handlePointerDown = useCallback((worldX: number, worldY: number, ctrlKey: boolean = false, button: number = 0) => {
@@ -217,7 +246,7 @@ export const useSelect2EventHandlers = ({
     // --- PRIORITY 1: Transform Handle Detection (Fully Preemptive) ---
     if (state.selectedObjects.length > 0) {
       // Calculate fresh bounds immediately to avoid stale state
-      const freshGroupBounds = calculateGroupBounds(state.selectedObjects, lines, images);
+      const freshGroupBounds = calculateGroupBounds(state.selectedObjects, lines, images, shapes, texts);
       
       if (freshGroupBounds) {
         const handle = handleDetection.getHandleAtPoint(worldPoint, freshGroupBounds);
@@ -241,6 +270,12 @@ export const useSelect2EventHandlers = ({
           if (state.selectedObjects.length === 1 && state.selectedObjects[0].type === 'image') {
             const image = images.find(img => img.id === state.selectedObjects[0].id);
             initialRotation = image?.rotation || 0;
+          } else if (state.selectedObjects.length === 1 && state.selectedObjects[0].type === 'shape') {
+            const shape = shapes.find(s => s.id === state.selectedObjects[0].id);
+            initialRotation = shape?.rotation || 0;
+          } else if (state.selectedObjects.length === 1 && state.selectedObjects[0].type === 'text') {
+            const text = texts.find(t => t.id === state.selectedObjects[0].id);
+            initialRotation = text?.rotation || 0;
           }
           
           startTransform(mode, handle.type, freshGroupBounds, initialRotation);
@@ -276,21 +311,26 @@ export const useSelect2EventHandlers = ({
     }
 
     // Check if clicking on a new, unselected object
-    const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images);
+    const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images, shapes, texts);
     if (objectsAtPoint.length > 0) {
       console.log('Select2: Selecting new object at point');
-      selectObjectsAtPoint(worldPoint, lines, images, ctrlKey);
+      selectObjectsAtPoint(worldPoint, lines, images, ctrlKey, shapes, texts);
       syncSelectionWithMainState(state.selectedObjects); // Sync with the updated selection
       ensureContainerFocus();
     } else {
       // Clicking on empty space, start drag selection
-      console.log('Select2: Initiating drag selection');
+      console.log('Select2: Initiating drag selection', { selectionMode });
       if (!ctrlKey) {
         clearSelection();
         clearMainSelection();
       }
-      startDragSelection(worldPoint);
-      syncSelectionBoundsWithMainState({ x: worldX, y: worldY, width: 0, height: 0 }, true);
+      if (selectionMode === 'lasso') {
+        startLassoSelection(worldPoint);
+        syncSelectionBoundsWithMainState(null, true);
+      } else {
+        startDragSelection(worldPoint);
+        syncSelectionBoundsWithMainState({ x: worldX, y: worldY, width: 0, height: 0 }, true);
+      }
     }
   }, [
     panZoom, 
@@ -303,11 +343,15 @@ export const useSelect2EventHandlers = ({
     isObjectLocked, 
     lines, 
     images, 
+    shapes,
+    texts,
     startDraggingObjects, 
     findObjectsAtPoint, 
     selectObjectsAtPoint, 
     clearSelection, 
     startDragSelection, 
+    startLassoSelection,
+    selectionMode,
     syncSelectionWithMainState, 
     clearMainSelection, 
     syncSelectionBoundsWithMainState, 
@@ -432,6 +476,21 @@ export const useSelect2EventHandlers = ({
                 totalY += image.y + height / 2;
                 count++;
               }
+            } else if (obj.type === 'shape') {
+              const shape = shapes.find(s => s.id === obj.id);
+              if (shape) {
+                totalX += shape.x + shape.width / 2;
+                totalY += shape.y + shape.height / 2;
+                count++;
+              }
+            } else if (obj.type === 'text') {
+              const text = texts.find(t => t.id === obj.id);
+              if (text) {
+                const center = getTextCenter(text);
+                totalX += center.x;
+                totalY += center.y;
+                count++;
+              }
             } else if (obj.type === 'line') {
               const line = lines.find(l => l.id === obj.id);
               if (line && line.points.length >= 4) {
@@ -521,6 +580,8 @@ export const useSelect2EventHandlers = ({
           isTransforming: state.isTransforming
         });
         updateObjectDragging(worldPoint);
+      } else if (state.isSelecting && state.lassoPoints && !state.isTransforming) {
+        updateLassoSelection(worldPoint);
       } else if (state.isSelecting && !state.isTransforming) {
         console.log('Select2: Updating drag selection', { worldPoint, isTransforming: state.isTransforming });
         updateDragSelection(worldPoint);
@@ -559,12 +620,12 @@ export const useSelect2EventHandlers = ({
         }
       } else {
         // Update hover feedback for objects
-        const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images);
+        const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images, shapes, texts);
         const hoveredId = objectsAtPoint.length > 0 ? objectsAtPoint[0].id : null;
         setHoveredObject(hoveredId);
       }
     }
-  }, [panZoom, state, updateObjectDragging, updateDragSelection, findObjectsAtPoint, setHoveredObject, lines, images, syncSelectionBoundsWithMainState, stageRef, handleDetection, transform]);
+  }, [panZoom, state, updateObjectDragging, updateDragSelection, updateLassoSelection, findObjectsAtPoint, setHoveredObject, lines, images, shapes, texts, syncSelectionBoundsWithMainState, stageRef, handleDetection, transform]);
 
   const handlePointerUp = useCallback(() => {
     // Ignore pointer events during pan/zoom gestures
@@ -638,6 +699,21 @@ export const useSelect2EventHandlers = ({
                 totalY += image.y + height / 2;
                 count++;
               }
+            } else if (obj.type === 'shape') {
+              const shape = shapes.find(s => s.id === obj.id);
+              if (shape) {
+                totalX += shape.x + shape.width / 2;
+                totalY += shape.y + shape.height / 2;
+                count++;
+              }
+            } else if (obj.type === 'text') {
+              const text = texts.find(t => t.id === obj.id);
+              if (text) {
+                const center = getTextCenter(text);
+                totalX += center.x;
+                totalY += center.y;
+                count++;
+              }
             } else if (obj.type === 'line') {
               const line = lines.find(l => l.id === obj.id);
               if (line && line.points.length >= 4) {
@@ -688,7 +764,7 @@ export const useSelect2EventHandlers = ({
           }
           
           // Use the same transform calculation as the preview
-          const transformedBounds = transform.transformObjectBounds(obj, lines, images, rotationCenter, matrix);
+          const transformedBounds = transform.transformObjectBounds(obj, lines, images, rotationCenter, matrix, shapes, texts);
           if (!transformedBounds) return;
           
           if (obj.type === 'line' && onUpdateLine) {
@@ -724,6 +800,22 @@ export const useSelect2EventHandlers = ({
                 rotation: transformedBounds.rotation,
               });
             }
+          } else if (obj.type === 'shape' && onUpdateShape) {
+            onUpdateShape(obj.id, {
+              x: transformedBounds.x,
+              y: transformedBounds.y,
+              width: transformedBounds.width,
+              height: transformedBounds.height,
+              rotation: transformedBounds.rotation,
+            });
+          } else if (obj.type === 'text' && onUpdateText && 'fontSize' in transformedBounds) {
+            onUpdateText(obj.id, {
+              x: transformedBounds.x,
+              y: transformedBounds.y,
+              width: transformedBounds.width,
+              fontSize: transformedBounds.fontSize,
+              rotation: transformedBounds.rotation,
+            });
           }
         });
         
@@ -752,7 +844,9 @@ export const useSelect2EventHandlers = ({
       } else if (state.isSelecting && hasMovedRef.current) {
         // Complete drag selection
         console.log('Select2: Ending drag selection operation');
-        const selectedObjects = endDragSelection(lines, images);
+        const selectedObjects = state.lassoPoints
+          ? endLassoSelection(lines, images, shapes, texts)
+          : endDragSelection(lines, images, shapes, texts);
         // Sync with main selection state
         syncSelectionWithMainState(selectedObjects);
         syncSelectionBoundsWithMainState(null, false);
@@ -765,7 +859,7 @@ export const useSelect2EventHandlers = ({
     isDraggingRef.current = false;
     hasMovedRef.current = false;
     dragStartPositionRef.current = null;
-  }, [panZoom, state.isDraggingObjects, state.isSelecting, state.dragOffset, applyDragOffset, endObjectDragging, endDragSelection, lines, images, ensureContainerFocus, syncSelectionWithMainState, syncSelectionBoundsWithMainState, transform, onUpdateLine, onUpdateImage, isObjectLocked, updateGroupBounds, endTransform, stageRef]);
+  }, [panZoom, state.isDraggingObjects, state.isSelecting, state.lassoPoints, state.dragOffset, applyDragOffset, endObjectDragging, endDragSelection, endLassoSelection, lines, images, shapes, texts, ensureContainerFocus, syncSelectionWithMainState, syncSelectionBoundsWithMainState, transform, onUpdateLine, onUpdateImage, onUpdateShape, onUpdateText, isObjectLocked, updateGroupBounds, endTransform, stageRef]);
 
   const handleMouseDown = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     const stage = e.target.getStage();
@@ -801,11 +895,11 @@ export const useSelect2EventHandlers = ({
     }
 
     // Check if clicking on an object
-    const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images);
+    const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images, shapes, texts);
     
     if (objectsAtPoint.length > 0) {
       // Clicking on an object
-      selectObjectsAtPoint(worldPoint, lines, images, e.evt.ctrlKey);
+      selectObjectsAtPoint(worldPoint, lines, images, e.evt.ctrlKey, shapes, texts);
       // Sync with main selection state
       const newSelection = e.evt.ctrlKey ? 
         [...state.selectedObjects, objectsAtPoint[0]] : 
@@ -819,10 +913,15 @@ export const useSelect2EventHandlers = ({
         clearSelection();
         clearMainSelection();
       }
-      startDragSelection(worldPoint);
-      syncSelectionBoundsWithMainState({ x: worldPoint.x, y: worldPoint.y, width: 0, height: 0 }, true);
+      if (selectionMode === 'lasso') {
+        startLassoSelection(worldPoint);
+        syncSelectionBoundsWithMainState(null, true);
+      } else {
+        startDragSelection(worldPoint);
+        syncSelectionBoundsWithMainState({ x: worldPoint.x, y: worldPoint.y, width: 0, height: 0 }, true);
+      }
     }
-  }, [getRelativePointerPosition, isPointOnSelectedObject, startDraggingObjects, findObjectsAtPoint, selectObjectsAtPoint, clearSelection, startDragSelection, lines, images, ensureContainerFocus, state.selectedObjects, syncSelectionWithMainState, clearMainSelection, syncSelectionBoundsWithMainState]);
+  }, [getRelativePointerPosition, isPointOnSelectedObject, startDraggingObjects, findObjectsAtPoint, selectObjectsAtPoint, clearSelection, startDragSelection, startLassoSelection, selectionMode, lines, images, shapes, texts, ensureContainerFocus, state.selectedObjects, syncSelectionWithMainState, clearMainSelection, syncSelectionBoundsWithMainState]);
 
   const handleMouseMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     const stage = e.target.getStage();
@@ -836,6 +935,9 @@ export const useSelect2EventHandlers = ({
       if (state.isDraggingObjects) {
         // Update object dragging
         updateObjectDragging(worldPoint);
+      } else if (state.isSelecting && state.lassoPoints) {
+        // Extend the lasso loop
+        updateLassoSelection(worldPoint);
       } else if (state.isSelecting) {
         // Update drag selection rectangle
         updateDragSelection(worldPoint);
@@ -852,11 +954,11 @@ export const useSelect2EventHandlers = ({
       }
     } else {
       // Update hover feedback
-      const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images);
+      const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images, shapes, texts);
       const hoveredId = objectsAtPoint.length > 0 ? objectsAtPoint[0].id : null;
       setHoveredObject(hoveredId);
     }
-  }, [getRelativePointerPosition, state.isDraggingObjects, state.isSelecting, state.selectionBounds, updateObjectDragging, updateDragSelection, findObjectsAtPoint, setHoveredObject, lines, images, syncSelectionBoundsWithMainState]);
+  }, [getRelativePointerPosition, state.isDraggingObjects, state.isSelecting, state.selectionBounds, state.lassoPoints, updateObjectDragging, updateDragSelection, updateLassoSelection, findObjectsAtPoint, setHoveredObject, lines, images, shapes, texts, syncSelectionBoundsWithMainState]);
 
   const handleMouseUp = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     if (isDraggingRef.current) {
@@ -866,7 +968,9 @@ export const useSelect2EventHandlers = ({
         endObjectDragging();
       } else if (state.isSelecting && hasMovedRef.current) {
         // Complete drag selection
-        const selectedObjects = endDragSelection(lines, images);
+        const selectedObjects = state.lassoPoints
+          ? endLassoSelection(lines, images, shapes, texts)
+          : endDragSelection(lines, images, shapes, texts);
         // Sync with main selection state
         syncSelectionWithMainState(selectedObjects);
         syncSelectionBoundsWithMainState(null, false);
@@ -878,7 +982,7 @@ export const useSelect2EventHandlers = ({
     isDraggingRef.current = false;
     hasMovedRef.current = false;
     dragStartPositionRef.current = null;
-  }, [state.isDraggingObjects, state.isSelecting, applyDragOffset, endObjectDragging, endDragSelection, lines, images, ensureContainerFocus, syncSelectionWithMainState, syncSelectionBoundsWithMainState]);
+  }, [state.isDraggingObjects, state.isSelecting, state.lassoPoints, applyDragOffset, endObjectDragging, endDragSelection, endLassoSelection, lines, images, shapes, texts, ensureContainerFocus, syncSelectionWithMainState, syncSelectionBoundsWithMainState]);
 
   const handleStageClick = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
     if (!hasMovedRef.current) {
@@ -887,10 +991,10 @@ export const useSelect2EventHandlers = ({
       if (!stage) return;
       
       const worldPoint = getRelativePointerPosition(stage, e.evt.clientX, e.evt.clientY);
-      selectObjectsAtPoint(worldPoint, lines, images, e.evt.ctrlKey);
+      selectObjectsAtPoint(worldPoint, lines, images, e.evt.ctrlKey, shapes, texts);
       
       // Sync click selection with main state
-      const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images);
+      const objectsAtPoint = findObjectsAtPoint(worldPoint, lines, images, shapes, texts);
       if (objectsAtPoint.length > 0) {
         const newSelection = e.evt.ctrlKey ? 
           [...state.selectedObjects, objectsAtPoint[0]] : 
@@ -898,7 +1002,7 @@ export const useSelect2EventHandlers = ({
         syncSelectionWithMainState(newSelection);
       }
     }
-  }, [getRelativePointerPosition, selectObjectsAtPoint, findObjectsAtPoint, lines, images, state.selectedObjects, syncSelectionWithMainState]);
+  }, [getRelativePointerPosition, selectObjectsAtPoint, findObjectsAtPoint, lines, images, shapes, texts, state.selectedObjects, syncSelectionWithMainState]);
 
   // Simplified delete functionality - just use select2 state directly
   const deleteSelectedObjects = useCallback(() => {
@@ -1091,16 +1195,37 @@ export const useSelect2EventHandlers = ({
                 height: Math.max(10, newHeight) 
               });
             }
+          } else if (obj.type === 'shape' && onUpdateShape) {
+            const shape = shapes.find(s => s.id === obj.id);
+            if (shape) {
+              onUpdateShape(obj.id, {
+                x: finalBounds.x + ((shape.x - initialBounds.x) * scaleX),
+                y: finalBounds.y + ((shape.y - initialBounds.y) * scaleY),
+                width: shape.width * scaleX,
+                height: shape.height * scaleY
+              });
+            }
+          } else if (obj.type === 'text' && onUpdateText) {
+            const text = texts.find(t => t.id === obj.id);
+            if (text) {
+              onUpdateText(obj.id, {
+                x: finalBounds.x + ((text.x - initialBounds.x) * scaleX),
+                y: finalBounds.y + ((text.y - initialBounds.y) * scaleY),
+                width: text.width * scaleX,
+                fontSize: Math.max(1, text.fontSize * scaleY)
+              });
+            }
           }
         });
         
         // Update group bounds immediately after transform
-        updateGroupBounds(lines, images);
+        updateGroupBounds(lines, images, shapes, texts);
       }
       
       endTransform();
       console.log('Transform ended');
     },
-    selectAll
+    selectAll,
+    selectObjects
   };
 };
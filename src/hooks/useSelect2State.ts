@@ -1,12 +1,18 @@
 import React, { useState, useCallback } from 'react';
 import Konva from 'konva';
-import { LineObject, ImageObject, SelectedObject, SelectionBounds } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, SelectionBounds } from '@/types/whiteboard';
+import { getShapeBounds, getShapeCorners, getShapeEndpoints, isLinearShape, isPointOnShape } from '@/utils/shapeGeometry';
+import { getTextBounds, getTextCorners, isPointOnText } from '@/utils/textGeometry';
+import { LASSO_MIN_POINT_DISTANCE, arePointsInPolygon } from '@/utils/lassoGeometry';
+import { expandToGroups } from '@/utils/objectGroups';
+import { sortTopmostFirst } from '@/utils/sceneOrder';
 
 interface Select2State {
   selectedObjects: SelectedObject[];
   hoveredObjectId: string | null;
   isSelecting: boolean;
   selectionBounds: SelectionBounds | null;
+  lassoPoints: number[] | null; // Freeform selection loop while lasso selecting
   dragStartPoint: { x: number; y: number } | null;
   isDraggingObjects: boolean;
   dragOffset: { x: number; y: number } | null;
@@ -32,6 +38,7 @@ export const useSelect2State = () => {
     hoveredObjectId: null,
     isSelecting: false,
     selectionBounds: null,
+    lassoPoints: null,
     dragStartPoint: null,
     isDraggingObjects: false,
     dragOffset: null,
@@ -55,7 +62,9 @@ export const useSelect2State = () => {
   const calculateGroupBounds = useCallback((
     selectedObjects: SelectedObject[],
     lines: LineObject[],
-    images: ImageObject[]
+    images: ImageObject[],
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ): SelectionBounds | null => {
     if (selectedObjects.length === 0) return null;
 
@@ -120,6 +129,24 @@ export const useSelect2State = () => {
             maxY = Math.max(maxY, rotatedY);
           });
         }
+      } else if (obj.type === 'shape') {
+        const shape = shapes.find(s => s.id === obj.id);
+        if (!shape) return;
+
+        const bounds = getShapeBounds(shape);
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
+      } else if (obj.type === 'text') {
+        const text = texts.find(t => t.id === obj.id);
+        if (!text) return;
+
+        const bounds = getTextBounds(text);
+        minX = Math.min(minX, bounds.x);
+        minY = Math.min(minY, bounds.y);
+        maxX = Math.max(maxX, bounds.x + bounds.width);
+        maxY = Math.max(maxY, bounds.y + bounds.height);
       }
     });
 
@@ -137,7 +164,9 @@ export const useSelect2State = () => {
   // Calculate group rotation for selected objects
   const calculateGroupRotation = useCallback((
     selectedObjects: SelectedObject[],
-    images: ImageObject[]
+    images: ImageObject[],
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ): number => {
     if (selectedObjects.length === 0) return 0;
     
@@ -146,6 +175,17 @@ export const useSelect2State = () => {
       const image = images.find(i => i.id === selectedObjects[0].id);
       return image?.rotation || 0;
     }
+
+    // A single shape rotates around its own centre like an image
+    if (selectedObjects.length === 1 && selectedObjects[0].type === 'shape') {
+      const shape = shapes.find(s => s.id === selectedObjects[0].id);
+      return shape?.rotation || 0;
+    }
+
+    if (selectedObjects.length === 1 && selectedObjects[0].type === 'text') {
+      const text = texts.find(t => t.id === selectedObjects[0].id);
+      return text?.rotation || 0;
+    }
     
     // For multiple objects or mixed types, use average rotation of images
     const imageRotations = selectedObjects
@@ -163,9 +203,9 @@ export const useSelect2State = () => {
   }, []);
 
   // Update group bounds for currently selected objects
-  const updateGroupBounds = useCallback((lines: LineObject[], images: ImageObject[]) => {
+  const updateGroupBounds = useCallback((lines: LineObject[], images: ImageObject[], shapes: ShapeObject[] = [], texts: TextObject[] = []) => {
     setState(prev => {
-      const newGroupBounds = calculateGroupBounds(prev.selectedObjects, lines, images);
+      const newGroupBounds = calculateGroupBounds(prev.selectedObjects, lines, images, shapes, texts);
       return {
         ...prev,
         groupBounds: newGroupBounds
@@ -264,7 +304,7 @@ export const useSelect2State = () => {
   // Helper function to check if an object is locked
   const isObjectLocked = useCallback((
     objectId: string,
-    objectType: 'line' | 'image',
+    objectType: SelectedObject['type'],
     lines: LineObject[],
     images: ImageObject[]
   ): boolean => {
@@ -272,7 +312,7 @@ export const useSelect2State = () => {
       const image = images.find(img => img.id === objectId);
       return image?.locked === true;
     }
-    // Lines don't have locked property currently
+    // Lines, shapes and text boxes don't have locked property currently
     return false;
   }, []);
 
@@ -280,11 +320,27 @@ export const useSelect2State = () => {
   const findObjectsAtPoint = useCallback((
     point: { x: number; y: number }, 
     lines: LineObject[], 
-    images: ImageObject[]
+    images: ImageObject[],
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ): SelectedObject[] => {
     const foundObjects: SelectedObject[] = [];
 
-    // Check images first (they're typically on top)
+    // Check text boxes
+    for (const text of texts) {
+      if (isPointOnText(point, text)) {
+        foundObjects.push({ id: text.id, type: 'text' });
+      }
+    }
+
+    // Check shapes
+    for (const shape of shapes) {
+      if (isPointOnShape(point, shape)) {
+        foundObjects.push({ id: shape.id, type: 'shape' });
+      }
+    }
+
+    // Check images
     for (const image of images) {
       if (isPointOnImage(point, image)) {
         foundObjects.push({ id: image.id, type: 'image' });
@@ -298,17 +354,56 @@ export const useSelect2State = () => {
       }
     }
 
-    return foundObjects;
+    // Topmost first, so a click selects what is drawn on top
+    return sortTopmostFirst(foundObjects, { lines, images, shapes, texts });
   }, [isPointOnLine, isPointOnImage]);
 
   // Find objects within selection bounds (including locked objects for selection)
   const findObjectsInBounds = useCallback((
     bounds: SelectionBounds,
     lines: LineObject[],
-    images: ImageObject[]
+    images: ImageObject[],
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ): SelectedObject[] => {
     const foundObjects: SelectedObject[] = [];
 
+    // Check shapes - a corner inside the bounds or the bounds touching the shape
+    for (const shape of shapes) {
+      const isCornerInBounds = getShapeCorners(shape).some(corner =>
+        corner.x >= bounds.x && corner.x <= bounds.x + bounds.width &&
+        corner.y >= bounds.y && corner.y <= bounds.y + bounds.height
+      );
+      const selectionCorners = [
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+        { x: bounds.x, y: bounds.y + bounds.height }
+      ];
+
+      if (isCornerInBounds || selectionCorners.some(corner => isPointOnShape(corner, shape))) {
+        foundObjects.push({ id: shape.id, type: 'shape' });
+      }
+    }
+
+    // Check text boxes - a corner inside the bounds or the bounds touching the box
+    for (const text of texts) {
+      const isCornerInBounds = getTextCorners(text).some(corner =>
+        corner.x >= bounds.x && corner.x <= bounds.x + bounds.width &&
+        corner.y >= bounds.y && corner.y <= bounds.y + bounds.height
+      );
+      const selectionCorners = [
+        { x: bounds.x, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y },
+        { x: bounds.x + bounds.width, y: bounds.y + bounds.height },
+        { x: bounds.x, y: bounds.y + bounds.height }
+      ];
+
+      if (isCornerInBounds || selectionCorners.some(corner => isPointOnText(corner, text))) {
+        foundObjects.push({ id: text.id, type: 'text' });
+      }
+    }
+
     // Check images (handles rotation)
     for (const image of images) {
       const imageWidth = image.width || 100;
@@ -402,6 +497,71 @@ export const useSelect2State = () => {
     return foundObjects;
   }, [isPointOnImage]);
 
+  // Find objects lying entirely inside a lasso polygon (including locked objects for selection)
+  const findObjectsInLasso = useCallback((
+    polygon: number[],
+    lines: LineObject[],
+    images: ImageObject[],
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
+  ): SelectedObject[] => {
+    const foundObjects: SelectedObject[] = [];
+
+    // Shapes - lines and arrows by their endpoints, other shapes by their corners
+    for (const shape of shapes) {
+      const points = isLinearShape(shape)
+        ? Object.values(getShapeEndpoints(shape))
+        : getShapeCorners(shape);
+      if (arePointsInPolygon(points, polygon)) {
+        foundObjects.push({ id: shape.id, type: 'shape' });
+      }
+    }
+
+    for (const text of texts) {
+      if (arePointsInPolygon(getTextCorners(text), polygon)) {
+        foundObjects.push({ id: text.id, type: 'text' });
+      }
+    }
+
+    // Images by the corners of their rotated box
+    for (const image of images) {
+      const width = image.width || 100;
+      const height = image.height || 100;
+      const rad = ((image.rotation || 0) * Math.PI) / 180;
+      const cos = Math.cos(rad);
+      const sin = Math.sin(rad);
+      const centerX = image.x + width / 2;
+      const centerY = image.y + height / 2;
+
+      const corners = [
+        { x: -width / 2, y: -height / 2 },
+        { x: width / 2, y: -height / 2 },
+        { x: width / 2, y: height / 2 },
+        { x: -width / 2, y: height / 2 }
+      ].map(corner => ({
+        x: corner.x * cos - corner.y * sin + centerX,
+        y: corner.x * sin + corner.y * cos + centerY
+      }));
+
+      if (arePointsInPolygon(corners, polygon)) {
+        foundObjects.push({ id: image.id, type: 'image' });
+      }
+    }
+
+    // Lines - every point of the stroke has to be inside, so neighbouring strokes are left out
+    for (const line of lines) {
+      const points = Array.from({ length: Math.floor(line.points.length / 2) }, (_, i) => ({
+        x: line.points[i * 2] + line.x,
+        y: line.points[i * 2 + 1] + line.y
+      }));
+      if (arePointsInPolygon(points, polygon)) {
+        foundObjects.push({ id: line.id, type: 'line' });
+      }
+    }
+
+    return foundObjects;
+  }, []);
+
   // Start drag selection
   const startDragSelection = useCallback((point: { x: number; y: number }) => {
     setState(prev => ({
@@ -435,7 +595,7 @@ export const useSelect2State = () => {
   }, []);
 
   // End drag selection
-  const endDragSelection = useCallback((lines: LineObject[], images: ImageObject[]): SelectedObject[] => {
+  const endDragSelection = useCallback((lines: LineObject[], images: ImageObject[], shapes: ShapeObject[] = [], texts: TextObject[] = []): SelectedObject[] => {
     let selectedObjects: SelectedObject[] = [];
     
     setState(prev => {
@@ -448,9 +608,10 @@ export const useSelect2State = () => {
         };
       }
 
-      const objectsInBounds = findObjectsInBounds(prev.selectionBounds, lines, images);
-      const groupBounds = calculateGroupBounds(objectsInBounds, lines, images);
-      const groupRotation = calculateGroupRotation(objectsInBounds, images);
+      // Objects in a group select together, even when only some are inside the box
+      const objectsInBounds = expandToGroups(findObjectsInBounds(prev.selectionBounds, lines, images, shapes, texts), { lines, images, shapes, texts });
+      const groupBounds = calculateGroupBounds(objectsInBounds, lines, images, shapes, texts);
+      const groupRotation = calculateGroupRotation(objectsInBounds, images, shapes, texts);
       
       selectedObjects = objectsInBounds;
 
@@ -468,6 +629,67 @@ export const useSelect2State = () => {
     return selectedObjects;
   }, [findObjectsInBounds, calculateGroupBounds, calculateGroupRotation]);
 
+  // Start lasso selection
+  const startLassoSelection = useCallback((point: { x: number; y: number }) => {
+    setState(prev => ({
+      ...prev,
+      isSelecting: true,
+      dragStartPoint: point,
+      selectionBounds: null,
+      lassoPoints: [point.x, point.y]
+    }));
+  }, []);
+
+  // Extend the lasso loop, skipping points too close to the last one
+  const updateLassoSelection = useCallback((point: { x: number; y: number }) => {
+    setState(prev => {
+      if (!prev.lassoPoints) return prev;
+
+      const lastX = prev.lassoPoints[prev.lassoPoints.length - 2];
+      const lastY = prev.lassoPoints[prev.lassoPoints.length - 1];
+      if (Math.hypot(point.x - lastX, point.y - lastY) < LASSO_MIN_POINT_DISTANCE) return prev;
+
+      return {
+        ...prev,
+        lassoPoints: [...prev.lassoPoints, point.x, point.y]
+      };
+    });
+  }, []);
+
+  // End lasso selection
+  const endLassoSelection = useCallback((lines: LineObject[], images: ImageObject[], shapes: ShapeObject[] = [], texts: TextObject[] = []): SelectedObject[] => {
+    let selectedObjects: SelectedObject[] = [];
+
+    setState(prev => {
+      if (!prev.lassoPoints) {
+        selectedObjects = [];
+        return {
+          ...prev,
+          isSelecting: false,
+          dragStartPoint: null
+        };
+      }
+
+      const objectsInLasso = expandToGroups(findObjectsInLasso(prev.lassoPoints, lines, images, shapes, texts), { lines, images, shapes, texts });
+      const groupBounds = calculateGroupBounds(objectsInLasso, lines, images, shapes, texts);
+      const groupRotation = calculateGroupRotation(objectsInLasso, images, shapes, texts);
+
+      selectedObjects = objectsInLasso;
+
+      return {
+        ...prev,
+        selectedObjects: objectsInLasso,
+        groupBounds,
+        transformGroupRotation: groupRotation,
+        isSelecting: false,
+        dragStartPoint: null,
+        lassoPoints: null
+      };
+    });
+
+    return selectedObjects;
+  }, [findObjectsInLasso, calculateGroupBounds, calculateGroupRotation]);
+
   // Start dragging objects
   const startDraggingObjects = useCallback((point: { x: number; y: number }) => {
     setState(prev => ({
@@ -510,16 +732,18 @@ export const useSelect2State = () => {
     point: { x: number; y: number },
     lines: LineObject[],
     images: ImageObject[],
-    multiSelect: boolean = false
+    multiSelect: boolean = false,
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ) => {
-    const objectsAtPoint = findObjectsAtPoint(point, lines, images);
+    const objectsAtPoint = findObjectsAtPoint(point, lines, images, shapes, texts);
     
     setState(prev => {
       if (objectsAtPoint.length === 0) {
         // Clicked on empty space
         const newSelectedObjects = multiSelect ? prev.selectedObjects : [];
-        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images);
-        const groupRotation = calculateGroupRotation(newSelectedObjects, images);
+        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images, shapes, texts);
+        const groupRotation = calculateGroupRotation(newSelectedObjects, images, shapes, texts);
         return {
           ...prev,
           selectedObjects: newSelectedObjects,
@@ -534,16 +758,18 @@ export const useSelect2State = () => {
       }
 
       const firstObject = objectsAtPoint[0];
+      // The clicked object together with the rest of its group
+      const clickedObjects = expandToGroups([firstObject], { lines, images, shapes, texts });
 
       if (multiSelect) {
         // Toggle selection for multi-select
         const isAlreadySelected = prev.selectedObjects.some(obj => obj.id === firstObject.id);
         const newSelectedObjects = isAlreadySelected
-          ? prev.selectedObjects.filter(obj => obj.id !== firstObject.id)
-          : [...prev.selectedObjects, firstObject];
+          ? prev.selectedObjects.filter(obj => !clickedObjects.some(clicked => clicked.id === obj.id))
+          : [...prev.selectedObjects, ...clickedObjects.filter(clicked => !prev.selectedObjects.some(obj => obj.id === clicked.id))];
         
-        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images);
-        const groupRotation = calculateGroupRotation(newSelectedObjects, images);
+        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images, shapes, texts);
+        const groupRotation = calculateGroupRotation(newSelectedObjects, images, shapes, texts);
         return {
           ...prev,
           selectedObjects: newSelectedObjects,
@@ -557,9 +783,9 @@ export const useSelect2State = () => {
         };
       } else {
         // Single select
-        const newSelectedObjects = [firstObject];
-        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images);
-        const groupRotation = calculateGroupRotation(newSelectedObjects, images);
+        const newSelectedObjects = clickedObjects;
+        const groupBounds = calculateGroupBounds(newSelectedObjects, lines, images, shapes, texts);
+        const groupRotation = calculateGroupRotation(newSelectedObjects, images, shapes, texts);
         return {
           ...prev,
           selectedObjects: newSelectedObjects,
@@ -582,6 +808,7 @@ export const useSelect2State = () => {
       selectedObjects: [],
       hoveredObjectId: null,
       selectionBounds: null,
+      lassoPoints: null,
       groupBounds: null,
       contextMenu: {
         ...prev.contextMenu,
@@ -786,15 +1013,17 @@ export const useSelect2State = () => {
     }));
   }, []);
 
-  // Select all objects on the canvas
-  const selectAll = useCallback((lines: LineObject[], images: ImageObject[]) => {
+  // Select exactly the given objects, such as everything on the canvas or what was just pasted
+  const selectObjects = useCallback((lines: LineObject[], images: ImageObject[], shapes: ShapeObject[] = [], texts: TextObject[] = []) => {
     const allObjects: SelectedObject[] = [
       ...lines.map(line => ({ id: line.id, type: 'line' as const })),
-      ...images.map(image => ({ id: image.id, type: 'image' as const }))
+      ...images.map(image => ({ id: image.id, type: 'image' as const })),
+      ...shapes.map(shape => ({ id: shape.id, type: 'shape' as const })),
+      ...texts.map(text => ({ id: text.id, type: 'text' as const }))
     ];
     
-    const groupBounds = calculateGroupBounds(allObjects, lines, images);
-    const groupRotation = calculateGroupRotation(allObjects, images);
+    const groupBounds = calculateGroupBounds(allObjects, lines, images, shapes, texts);
+    const groupRotation = calculateGroupRotation(allObjects, images, shapes, texts);
     
     setState(prev => ({
       ...prev,
@@ -804,12 +1033,18 @@ export const useSelect2State = () => {
     }));
   }, [calculateGroupBounds, calculateGroupRotation]);
 
+  // Select all objects on the canvas
+  const selectAll = selectObjects;
+
   return {
     state,
     setState,
     startDragSelection,
     updateDragSelection,
     endDragSelection,
+    startLassoSelection,
+    updateLassoSelection,
+    endLassoSelection,
     startDraggingObjects,
     updateObjectDragging,
     endObjectDragging,
@@ -826,6 +1061,7 @@ export const useSelect2State = () => {
     hideContextMenu,
     updateContextMenuPosition,
     selectAll,
+    selectObjects,
     // Transform methods
     startTransform,
     updateTransform,
@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
-import { SelectionBounds, LineObject, ImageObject, SelectedObject } from '@/types/whiteboard';
+import { SelectionBounds, LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
+import { getTextHeight, MIN_TEXT_WIDTH } from '@/utils/textGeometry';
 
 export interface TransformMatrix {
   scaleX: number;
@@ -69,7 +70,9 @@ export const useSelect2Transform = () => {
     lines: LineObject[],
     images: ImageObject[],
     groupCenter: { x: number; y: number },
-    matrix: TransformMatrix
+    matrix: TransformMatrix,
+    shapes: ShapeObject[] = [],
+    texts: TextObject[] = []
   ) => {
     if (object.type === 'line') {
       const line = lines.find(l => l.id === object.id);
@@ -153,6 +156,50 @@ export const useSelect2Transform = () => {
         height: newHeight,
         rotation: newRotation,
       };
+    } else if (object.type === 'shape') {
+      const shape = shapes.find(s => s.id === object.id);
+      if (!shape) return null;
+
+      // Shapes render around their centre like images; the sign of width/height keeps line and arrow direction
+      const newCenter = transformPoint(
+        { x: shape.x + shape.width / 2, y: shape.y + shape.height / 2 },
+        groupCenter.x,
+        groupCenter.y,
+        matrix
+      );
+      const newWidth = shape.width * matrix.scaleX;
+      const newHeight = shape.height * matrix.scaleY;
+
+      return {
+        x: newCenter.x - newWidth / 2,
+        y: newCenter.y - newHeight / 2,
+        width: newWidth,
+        height: newHeight,
+        rotation: (shape.rotation || 0) + matrix.rotation
+      };
+    } else if (object.type === 'text') {
+      const text = texts.find(t => t.id === object.id);
+      if (!text) return null;
+
+      // Text boxes rewrap to the scaled width and scale their font with the height
+      const newCenter = transformPoint(
+        { x: text.x + text.width / 2, y: text.y + getTextHeight(text) / 2 },
+        groupCenter.x,
+        groupCenter.y,
+        matrix
+      );
+      const newWidth = Math.max(MIN_TEXT_WIDTH, text.width * Math.abs(matrix.scaleX));
+      const newFontSize = Math.max(1, text.fontSize * Math.abs(matrix.scaleY));
+      const newHeight = getTextHeight({ text: text.text, width: newWidth, fontSize: newFontSize });
+
+      return {
+        x: newCenter.x - newWidth / 2,
+        y: newCenter.y - newHeight / 2,
+        width: newWidth,
+        height: newHeight,
+        fontSize: newFontSize,
+        rotation: (text.rotation || 0) + matrix.rotation
+      };
     }
 
     return null;
@@ -39,6 +39,17 @@ const debugLog = createDebugLogger('state');
  * @returns {boolean} isReadOnly - Whether this instance is read-only
  * @returns {string} whiteboardId - The whiteboard identifier
  * @returns {Function} getLastActivity - Get the most recent activity metadata
+ * @returns {LineObject[]} provisionalLines - Strokes other users are still drawing
+ * @returns {RemoteCursor[]} remoteCursors - Where other users are pointing
+ * @returns {LaserTrail[]} laserTrails - Fading laser pointer trails of this and other users
+ * @returns {Function} setBackground - Change the board background for every viewer
+ * @returns {Function} copyObjects - Clipboard text for the selected objects
+ * @returns {Function} pasteObjects - Paste clipboard objects, also copied on another board
+ * @returns {Function} duplicateObjects - Copy the selected objects in place, without the clipboard
+ * @returns {Function} updateObjects - Update several objects as one undoable step
+ * @returns {Function} groupObjects - Group the selected objects so they select, move and delete together
+ * @returns {Function} ungroupObjects - Dissolve the groups of the selected objects
+ * @returns {Function} reorderObjects - Change the stacking order of the selected objects
  * 
  * @ai-understanding
  * This hook orchestrates multiple collaboration-specific hooks:
@@ -55,7 +66,7 @@ export const useSharedWhiteboardState = (syncConfig?: SyncConfig, whiteboardId?:
 
   // Core state management
   const coreState = useSharedWhiteboardCore(whiteboardId);
-  const { state, setState, selection, setTool, setColor, setPencilColor, setHighlighterColor, setStrokeWidth, panZoom } = coreState;
+  const { state, setState, selection, setTool, setColor, setPencilColor, setHighlighterColor, setShapeSettings, setTextSettings, setEraserMode, setSelectionMode, setStrokeWidth, panZoom } = coreState;
 
   // Normalized state for performance optimization
   const normalizedState = useSharedNormalizedState(state.lines, state.images, whiteboardId);
@@ -111,24 +122,45 @@ export const useSharedWhiteboardState = (syncConfig?: SyncConfig, whiteboardId?:
     setColor,
     setPencilColor,
     setHighlighterColor,
+    setShapeSettings,
+    setTextSettings,
+    setEraserMode,
+    setSelectionMode,
     setStrokeWidth,
     handlePointerDown,
     handlePointerMove,
     handlePointerUp,
     handlePaste: operations.handlePaste,
+    setBackground: operations.setBackground,
+    copyObjects: operations.copyObjects,
+    pasteObjects: operations.pasteObjects,
+    duplicateObjects: operations.duplicateObjects,
+    groupObjects: operations.groupObjects,
+    ungroupObjects: operations.ungroupObjects,
+    reorderObjects: operations.reorderObjects,
     addToHistory: operations.addToHistory,
     undo: operations.undo,
     redo: operations.redo,
     canUndo: operations.canUndo,
     canRedo: operations.canRedo,
     getLastActivity: operations.getLastActivity,
+    provisionalLines: operations.provisionalLines,
+    remoteCursors: operations.remoteCursors,
+    laserTrails: operations.laserTrails,
+    updateCursor: operations.updateCursor,
+    hideCursor: operations.hideCursor,
     centerOnLastActivity,
     panZoom,
     updateImageState: operations.updateImageState,
     updateLine: operations.updateLine,
     updateImage: operations.updateImage,
+    updateShape: operations.updateShape,
+    updateText: operations.updateText,
+    updateObjects: operations.updateObjects,
+    editText: operations.editText,
+    commitText: operations.commitText,
     toggleImageLock: operations.toggleImageLock,
-    deleteSelectedObjects: (customSelectedObjects?: Array<{id: string, type: 'line' | 'image'}>) => {
+    deleteSelectedObjects: (customSelectedObjects?: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => {
       const selectedObjects = customSelectedObjects || selection?.selectionState?.selectedObjects;
       if (selectedObjects && operations.deleteSelectedObjects) {
         operations.deleteSelectedObjects(selectedObjects);
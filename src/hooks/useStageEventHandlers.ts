@@ -2,7 +2,7 @@ import { useEffect, useRef } from 'react';
 import Konva from 'konva';
 import { usePalmRejection } from './usePalmRejection';
 import { useStageCoordinates } from './useStageCoordinates';
-import { PanZoomState } from '@/types/whiteboard';
+import { PanZoomState, ShapeObject, TextObject, SelectionMode } from '@/types/whiteboard';
 import { useEventDebug } from './eventHandling/useEventDebug';
 import { useWheelEventHandlers } from './eventHandling/useWheelEventHandlers';
 import { useTouchEventHandlers } from './eventHandling/useTouchEventHandlers';
@@ -30,24 +30,29 @@ interface UseStageEventHandlersProps {
     continuePan: (x: number, y: number) => void;
     stopPan: () => void;
   };
-  handlePointerDown: (x: number, y: number) => void;
-  handlePointerMove: (x: number, y: number) => void;
+  handlePointerDown: (x: number, y: number, pressure?: number) => void;
+  handlePointerMove: (x: number, y: number, pressure?: number) => void;
   handlePointerUp: () => void;
   isReadOnly: boolean;
   currentTool: string;
+  selectionMode?: SelectionMode;
   lines?: any[];
   images?: any[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
   onUpdateLine?: (lineId: string, updates: any) => void;
   onUpdateImage?: (imageId: string, updates: any) => void;
-  onDeleteObjects?: (selectedObjects?: Array<{id: string, type: 'line' | 'image'}>) => void;
+  onUpdateShape?: (shapeId: string, updates: Partial<ShapeObject>) => void;
+  onUpdateText?: (textId: string, updates: Partial<TextObject>) => void;
+  onDeleteObjects?: (selectedObjects?: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => void;
   // Main selection state for select2 integration - original select functions may not exist
   mainSelection?: {
-    selectObjects?: (objects: Array<{id: string, type: 'line' | 'image'}>) => void;
+    selectObjects?: (objects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => void;
     clearSelection?: () => void;
     setSelectionBounds?: (bounds: any) => void;
     setIsSelecting?: (selecting: boolean) => void;
     selectionState: {
-      selectedObjects: Array<{id: string, type: 'line' | 'image'}>;
+      selectedObjects: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>;
       isSelecting: boolean;
       selectionBounds: any;
     };
@@ -66,10 +71,15 @@ export const useStageEventHandlers = ({
   handlePointerUp,
   isReadOnly,
   currentTool,
+  selectionMode,
   lines = [],
   images = [],
+  shapes,
+  texts,
   onUpdateLine,
   onUpdateImage,
+  onUpdateShape,
+  onUpdateText,
   onDeleteObjects,
   mainSelection
 }: UseStageEventHandlersProps) => {
@@ -91,10 +101,15 @@ export const useStageEventHandlers = ({
     stageRef,
     lines,
     images,
+    shapes,
+    texts,
     panZoomState,
     panZoom,
+    selectionMode,
     onUpdateLine,
     onUpdateImage,
+    onUpdateShape,
+    onUpdateText,
     onDeleteObjects,
     containerRef,
     mainSelection: mainSelection as any // Pass main selection state for integration (original functions removed)
@@ -175,7 +190,10 @@ export const useStageEventHandlers = ({
         }
         // For left-click and other buttons, use Select2
         select2Handlers.handlePointerDown(worldX, worldY, ctrlKey || false, button || 0);
-      } : handlePointerDown,
+      } :
+      (worldX: number, worldY: number, ctrlKey?: boolean, button?: number, clientX?: number, clientY?: number, pressure?: number) => {
+        handlePointerDown(worldX, worldY, pressure);
+      },
     handlePointerMove: currentTool === 'select2' ? 
       (worldX: number, worldY: number, clientX?: number, clientY?: number) => {
         // Check if we're currently panning (right-click drag)
@@ -185,7 +203,10 @@ export const useStageEventHandlers = ({
         }
         // Otherwise use Select2
         select2Handlers.handlePointerMove(worldX, worldY);
-      } : handlePointerMove,
+      } :
+      (worldX: number, worldY: number, clientX?: number, clientY?: number, pressure?: number) => {
+        handlePointerMove(worldX, worldY, pressure);
+      },
     handlePointerUp: currentTool === 'select2' ? 
       () => {
         // Check if we were panning and stop it
@@ -210,6 +231,7 @@ export const useStageEventHandlers = ({
       clearSelect2Selection: select2Handlers.clearSelection,
       deleteSelectedObjects: select2Handlers.deleteSelectedObjects,
       selectAll: select2Handlers.selectAll,
+      selectObjects: select2Handlers.selectObjects,
       handleTransformHandleMouseDown: select2Handlers.handleTransformHandleMouseDown,
       handleTransformMouseMove: select2Handlers.handleTransformMouseMove,
       handleTransformMouseUp: select2Handlers.handleTransformMouseUp,
@@ -6,6 +6,9 @@ import { createDebugLogger } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('sync');
 
+// Connection status and outbound queue counts are polled from the connection manager
+const PENDING_OPERATIONS_POLL_INTERVAL = 2000;
+
 export const useSyncState = (
   config: SyncConfig,
   onReceiveOperation: (operation: WhiteboardOperation) => void
@@ -14,10 +17,9 @@ export const useSyncState = (
     isConnected: false,
     isReceiveOnly: config.isReceiveOnly || false,
     lastSyncTimestamp: Date.now(),
-    pendingOperations: []
+    pendingOperations: { pending: 0, failed: 0, rejected: 0 }
   });
 
-  const pendingOperationsRef = useRef<WhiteboardOperation[]>([]);
   const configRef = useRef(config);
   const handlerRef = useRef(onReceiveOperation);
 
@@ -43,10 +45,12 @@ export const useSyncState = (
       return null;
     }
     
-    // Update last sync timestamp
+    // Update last sync timestamp and outbound queue counts
+    const { pendingOperations } = SyncConnectionManager.getConnectionStatus(configRef.current);
     setSyncState(prev => ({
       ...prev,
-      lastSyncTimestamp: Date.now()
+      lastSyncTimestamp: Date.now(),
+      pendingOperations
     }));
     
     return fullOperation;
@@ -84,16 +88,20 @@ export const useSyncState = (
     const statusInterval = setInterval(() => {
       const status = SyncConnectionManager.getConnectionStatus(config);
       setSyncState(prev => {
-        if (prev.isConnected !== status.isConnected) {
-          debugLog('useSyncState', `Connection status changed: ${status.isConnected}`);
+        const pendingChanged = prev.pendingOperations.pending !== status.pendingOperations.pending ||
+          prev.pendingOperations.failed !== status.pendingOperations.failed ||
+          prev.pendingOperations.rejected !== status.pendingOperations.rejected;
+        if (prev.isConnected !== status.isConnected || pendingChanged) {
+          debugLog('useSyncState', `Connection status changed: ${status.isConnected}`, status.pendingOperations);
           return {
             ...prev,
-            isConnected: status.isConnected
+            isConnected: status.isConnected,
+            pendingOperations: status.pendingOperations
           };
         }
         return prev;
       });
-    }, 5000);
+    }, PENDING_OPERATIONS_POLL_INTERVAL);
     
     return () => {
       debugLog('useSyncState', `Unregistering handler for whiteboard: ${config.whiteboardId}`, { isReceiveOnly: config.isReceiveOnly });
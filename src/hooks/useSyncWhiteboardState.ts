@@ -70,6 +70,8 @@ export const useSyncWhiteboardState = (syncConfig: SyncConfig) => {
   const [state, setState] = useState<WhiteboardState>({
     lines: [],
     images: [],
+    shapes: [],
+    texts: [],
     currentTool: 'pencil',
     currentColor: '#000000',
     currentStrokeWidth: 5,
@@ -81,6 +83,19 @@ export const useSyncWhiteboardState = (syncConfig: SyncConfig) => {
       color: '#FFFF00',
       strokeWidth: 12
     },
+    shapeSettings: {
+      kind: 'rectangle',
+      color: '#000000',
+      strokeWidth: 3
+    },
+    textSettings: {
+      color: '#000000',
+      fontSize: 24
+    },
+    eraserMode: 'stroke',
+    selectionMode: 'rectangle',
+    background: 'none',
+    editingTextId: null,
     isDrawing: false,
     panZoomState: { x: 0, y: 0, scale: 1 },
     selectionState: defaultSelectionState,
@@ -92,43 +107,8 @@ export const useSyncWhiteboardState = (syncConfig: SyncConfig) => {
     historyIndex: 0
   });
 
-  // Simple undo/redo functions for remote operations
-  const undo = useCallback(() => {
-    setState(prev => {
-      if (prev.historyIndex > 0) {
-        const newIndex = prev.historyIndex - 1;
-        const snapshot = prev.history[newIndex];
-        return {
-          ...prev,
-          lines: snapshot.lines,
-          images: snapshot.images,
-          selectionState: snapshot.selectionState,
-          historyIndex: newIndex
-        };
-      }
-      return prev;
-    });
-  }, []);
-
-  const redo = useCallback(() => {
-    setState(prev => {
-      if (prev.historyIndex < prev.history.length - 1) {
-        const newIndex = prev.historyIndex + 1;
-        const snapshot = prev.history[newIndex];
-        return {
-          ...prev,
-          lines: snapshot.lines,
-          images: snapshot.images,
-          selectionState: snapshot.selectionState,
-          historyIndex: newIndex
-        };
-      }
-      return prev;
-    });
-  }, []);
-
-  // Handle received operations - now with proper undo/redo support
-  const { handleRemoteOperation } = useRemoteOperationHandler(setState, undo, redo);
+  // Handle received operations, remote undo/redo arrive as explicit changes
+  const { handleRemoteOperation } = useRemoteOperationHandler(setState);
 
   // Set up sync with proper operation handling
   const { syncState, sendOperation } = useSyncState(syncConfig, handleRemoteOperation);
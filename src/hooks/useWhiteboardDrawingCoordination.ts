@@ -43,12 +43,12 @@ export const useWhiteboardDrawingCoordination = (
   const { startErasing, continueErasing, stopErasing } = eraserOperations;
 
   // Coordinate drawing start based on tool
-  const handleDrawingStart = useCallback((x: number, y: number) => {
-    debugLog('DrawingCoordination', 'Drawing start requested', { x, y, tool: stableCurrentTool });
+  const handleDrawingStart = useCallback((x: number, y: number, pressure?: number) => {
+    debugLog('DrawingCoordination', 'Drawing start requested', { x, y, pressure, tool: stableCurrentTool });
     
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter') {
       debugLog('DrawingCoordination', 'Starting drawing operation');
-      startDrawing(x, y);
+      startDrawing(x, y, pressure);
     } else if (stableCurrentTool === 'eraser') {
       debugLog('DrawingCoordination', 'Starting eraser operation');
       startErasing(x, y);
@@ -56,10 +56,10 @@ export const useWhiteboardDrawingCoordination = (
   }, [stableCurrentTool, startDrawing, startErasing]);
 
   // Coordinate drawing continuation based on tool
-  const handleDrawingContinue = useCallback((x: number, y: number) => {
+  const handleDrawingContinue = useCallback((x: number, y: number, pressure?: number) => {
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter') {
       debugLog('DrawingCoordination', 'Continuing drawing operation');
-      continueDrawing(x, y);
+      continueDrawing(x, y, pressure);
     } else if (stableCurrentTool === 'eraser') {
       debugLog('DrawingCoordination', 'Continuing eraser operation');
       continueErasing(x, y);
@@ -21,8 +21,8 @@ export const useWhiteboardPointerHandlers = (
   const stableImages = useMemo(() => state.images, [state.images]);
 
   // Handle pointer down
-  const handlePointerDown = useCallback((x: number, y: number) => {
-    debugLog('PointerHandlers', 'Pointer down', { x, y, tool: stableCurrentTool });
+  const handlePointerDown = useCallback((x: number, y: number, pressure?: number) => {
+    debugLog('PointerHandlers', 'Pointer down', { x, y, pressure, tool: stableCurrentTool });
     
     // Don't start drawing if a pan/zoom gesture is active
     if (panZoom.isGestureActive()) {
@@ -31,17 +31,17 @@ export const useWhiteboardPointerHandlers = (
     }
     
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter' || stableCurrentTool === 'eraser') {
-      drawingCoordination.handleDrawingStart(x, y);
+      drawingCoordination.handleDrawingStart(x, y, pressure);
     }
   }, [stableCurrentTool, stableLines, stableImages, stableSelectionState.selectedObjects.length, panZoom, selection, drawingCoordination]);
 
   // Handle pointer move
-  const handlePointerMove = useCallback((x: number, y: number) => {
+  const handlePointerMove = useCallback((x: number, y: number, pressure?: number) => {
     // Don't continue drawing if a pan/zoom gesture is active
     if (panZoom.isGestureActive()) return;
     
     if (stableCurrentTool === 'pencil' || stableCurrentTool === 'highlighter' || stableCurrentTool === 'eraser') {
-      drawingCoordination.handleDrawingContinue(x, y);
+      drawingCoordination.handleDrawingContinue(x, y, pressure);
     }
   }, [stableCurrentTool, stableSelectionState.isSelecting, stableSelectionState.selectionBounds, panZoom, selection, drawingCoordination]);
 
@@ -29,11 +29,26 @@ export const useWhiteboardState = () => {
   const [state, setState] = useState<WhiteboardState>({
     lines: [],
     images: [],
+    shapes: [],
+    texts: [],
     currentTool: toolManagement.currentTool,
     currentColor: toolManagement.currentColor,
     currentStrokeWidth: toolManagement.currentStrokeWidth,
     pencilSettings: toolManagement.pencilSettings,
     highlighterSettings: toolManagement.highlighterSettings,
+    shapeSettings: {
+      kind: 'rectangle',
+      color: '#000000',
+      strokeWidth: 3
+    },
+    textSettings: {
+      color: '#000000',
+      fontSize: 24
+    },
+    eraserMode: 'stroke',
+    selectionMode: 'rectangle',
+    background: 'none',
+    editingTextId: null,
     isDrawing: false,
     panZoomState: { x: 0, y: 0, scale: 1 },
     selectionState: selection.selectionState,
@@ -143,7 +158,7 @@ export const useWhiteboardState = () => {
   }, [addToHistory]);
 
   // Generic delete function that can accept optional selected objects
-  const deleteSelectedObjects = useCallback((customSelectedObjects?: Array<{id: string, type: 'line' | 'image'}>) => {
+  const deleteSelectedObjects = useCallback((customSelectedObjects?: Array<{id: string, type: 'line' | 'image' | 'shape' | 'text'}>) => {
     // Use custom selected objects if provided, otherwise use selection state
     const selectedObjects = customSelectedObjects || selection.selectionState.selectedObjects;
     
@@ -156,11 +171,19 @@ export const useWhiteboardState = () => {
       const selectedImageIds = selectedObjects
         .filter(obj => obj.type === 'image')
         .map(obj => obj.id);
+      const selectedShapeIds = selectedObjects
+        .filter(obj => obj.type === 'shape')
+        .map(obj => obj.id);
+      const selectedTextIds = selectedObjects
+        .filter(obj => obj.type === 'text')
+        .map(obj => obj.id);
 
       return {
         ...prev,
         lines: prev.lines.filter(line => !selectedLineIds.includes(line.id)),
-        images: prev.images.filter(image => !selectedImageIds.includes(image.id))
+        images: prev.images.filter(image => !selectedImageIds.includes(image.id)),
+        shapes: prev.shapes.filter(shape => !selectedShapeIds.includes(shape.id)),
+        texts: prev.texts.filter(text => !selectedTextIds.includes(text.id))
       };
     });
 
@@ -91,6 +91,30 @@ export type Database = {
         }
         Relationships: []
       }
+      saved_palettes: {
+        Row: {
+          colors: string[]
+          created_at: string | null
+          id: number
+          palette_name: string
+          teacher_id: string
+        }
+        Insert: {
+          colors?: string[]
+          created_at?: string | null
+          id?: number
+          palette_name: string
+          teacher_id: string
+        }
+        Update: {
+          colors?: string[]
+          created_at?: string | null
+          id?: number
+          palette_name?: string
+          teacher_id?: string
+        }
+        Relationships: []
+      }
       session_participants: {
         Row: {
           assigned_board_suffix: string
@@ -168,6 +192,45 @@ export type Database = {
         }
         Relationships: []
       }
+      whiteboard_applied_operations: {
+        Row: {
+          board_id: string
+          created_at: string
+          operation_id: string
+          session_id: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          operation_id: string
+          session_id: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          operation_id?: string
+          session_id?: string
+        }
+        Relationships: []
+      }
+      whiteboard_board_sequences: {
+        Row: {
+          board_id: string
+          last_seq: number
+          session_id: string
+        }
+        Insert: {
+          board_id: string
+          last_seq?: number
+          session_id: string
+        }
+        Update: {
+          board_id?: string
+          last_seq?: number
+          session_id?: string
+        }
+        Relationships: []
+      }
       whiteboard_data: {
         Row: {
           action_type: string
@@ -177,6 +240,8 @@ export type Database = {
           object_data: Json
           object_id: string
           object_type: string | null
+          operation_id: string | null
+          seq: number | null
           session_id: string
           user_id: string | null
         }
@@ -188,6 +253,8 @@ export type Database = {
           object_data: Json
           object_id: string
           object_type?: string | null
+          operation_id?: string | null
+          seq?: number | null
           session_id: string
           user_id?: string | null
         }
@@ -199,6 +266,8 @@ export type Database = {
           object_data?: Json
           object_id?: string
           object_type?: string | null
+          operation_id?: string | null
+          seq?: number | null
           session_id?: string
           user_id?: string | null
         }
@@ -217,6 +286,9 @@ export type Database = {
           board_id: string
           created_at: string
           id: number
+          last_operation_at: string | null
+          last_operation_seq: number | null
+          operation_count: number
           session_id: string
           snapshot_data: Json
         }
@@ -224,6 +296,9 @@ export type Database = {
           board_id: string
           created_at?: string
           id?: never
+          last_operation_at?: string | null
+          last_operation_seq?: number | null
+          operation_count?: number
           session_id: string
           snapshot_data: Json
         }
@@ -231,6 +306,9 @@ export type Database = {
           board_id?: string
           created_at?: string
           id?: never
+          last_operation_at?: string | null
+          last_operation_seq?: number | null
+          operation_count?: number
           session_id?: string
           snapshot_data?: Json
         }
@@ -298,14 +376,33 @@ export type Database = {
         Args: { session_uuid: string; user_email: string }
         Returns: boolean
       }
+      public_get_latest_whiteboard_snapshot: {
+        Args: { p_board_id: string; p_session_id: string }
+        Returns: {
+          created_at: string
+          id: number
+          last_operation_at: string
+          last_operation_seq: number
+          operation_count: number
+          snapshot_data: Json
+        }[]
+      }
       public_get_whiteboard_operations: {
-        Args: { p_board_id: string; p_limit?: number; p_session_id: string }
+        Args: {
+          p_after_seq?: number
+          p_board_id: string
+          p_limit?: number
+          p_session_id: string
+          p_since?: string
+        }
         Returns: {
           action_type: string
           board_id: string
           created_at: string
           id: string
           object_data: Json
+          operation_id: string
+          seq: number
           user_id: string
         }[]
       }
@@ -322,11 +419,23 @@ export type Database = {
           p_action_type: string
           p_board_id: string
           p_object_data: Json
+          p_operation_id?: string
           p_session_id: string
           p_user_id?: string
         }
         Returns: undefined
       }
+      public_save_whiteboard_snapshot: {
+        Args: {
+          p_board_id: string
+          p_last_operation_at: string
+          p_last_operation_seq: number
+          p_operation_count: number
+          p_session_id: string
+          p_snapshot_data: Json
+        }
+        Returns: number
+      }
       update_session_activity: {
         Args: { session_uuid: string }
         Returns: undefined
@@ -1,13 +1,15 @@
-import { LineObject, ImageObject, SelectedObject } from './whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, ObjectChangeSet, ObjectUpdates, Tool, BoardBackground } from './whiteboard';
 
-export type OperationType = 'draw' | 'erase' | 'add_image' | 'update_image' | 'delete_image' | 'select_objects' | 'deselect_objects' | 'transform_objects' | 'update_line' | 'delete_objects' | 'undo' | 'redo';
+export type OperationType = 'draw' | 'erase' | 'add_image' | 'update_image' | 'delete_image' | 'select_objects' | 'deselect_objects' | 'transform_objects' | 'update_line' | 'delete_objects' | 'add_shape' | 'update_shape' | 'add_text' | 'update_text' | 'replace_lines' | 'set_background' | 'group_objects' | 'ungroup_objects' | 'reorder_objects' | 'update_objects' | 'undo' | 'redo';
 
 export interface WhiteboardOperation {
+  id: string; // Unique per operation, generated by the sending client
   whiteboard_id: string;
   operation_type: OperationType;
   timestamp: number;
   sender_id: string;
   data: any;
+  seq?: number; // Per-board order assigned by the server once stored
 }
 
 export interface DrawOperationData {
@@ -18,6 +20,12 @@ export interface EraseOperationData {
   line_ids: string[];
 }
 
+// Lines cut by the partial eraser, removed and replaced by their remaining pieces in one step
+export interface ReplaceLinesOperationData {
+  line_ids: string[];
+  lines: LineObject[];
+}
+
 export interface AddImageOperationData {
   image: ImageObject;
 }
@@ -45,9 +53,89 @@ export interface UpdateLineOperationData {
   updates: Partial<LineObject>;
 }
 
+export interface AddShapeOperationData {
+  shape: ShapeObject;
+}
+
+export interface UpdateShapeOperationData {
+  shape_id: string;
+  updates: Partial<ShapeObject>;
+}
+
+export interface AddTextOperationData {
+  text: TextObject;
+}
+
+export interface UpdateTextOperationData {
+  text_id: string;
+  updates: Partial<TextObject>;
+}
+
+// Board-wide setting, the latest one wins and it is never undone
+export interface SetBackgroundOperationData {
+  background: BoardBackground;
+}
+
+// Puts the listed objects in one group, replacing any group they were in
+export interface GroupObjectsOperationData {
+  group_id: string;
+  line_ids: string[];
+  image_ids: string[];
+  shape_ids: string[];
+  text_ids: string[];
+}
+
+// Clears the group of the listed objects
+export interface UngroupObjectsOperationData {
+  line_ids: string[];
+  image_ids: string[];
+  shape_ids: string[];
+  text_ids: string[];
+}
+
+// New stacking positions of the listed objects
+export interface ReorderObjectsOperationData {
+  z_indexes: Array<{ id: string; type: SelectedObject['type']; z_index: number }>;
+}
+
+// Updates to several objects made by one action, such as aligning a selection, applied as one step
+export type UpdateObjectsOperationData = ObjectUpdates;
+
 export interface DeleteObjectsOperationData {
   line_ids: string[];
   image_ids: string[];
+  shape_ids?: string[]; // Absent in operations sent before shapes existed
+  text_ids?: string[]; // Absent in operations sent before text boxes existed
+}
+
+// In-progress stroke points streamed over the channel broadcast, never persisted
+export interface StrokeStreamEvent {
+  stroke_id: string; // Id of the line that is persisted once the stroke is finished
+  sender_id: string;
+  tool: Tool;
+  color: string;
+  strokeWidth: number;
+  from_index: number; // Position of the first streamed coordinate in the full points array
+  points: number[];
+  pressures?: number[]; // Pressures of the streamed points, when the stroke has them
+  is_final: boolean;
+}
+
+// Laser pointer trail points sent over the channel broadcast, never persisted
+export interface LaserPointerEvent {
+  trail_id: string; // One trail per press of the laser pointer
+  sender_id: string;
+  points: number[]; // Points added since the previous event, in whiteboard coordinates
+  is_final: boolean; // The pointer was lifted, the trail only fades from now on
+}
+
+// Pointer position shared through realtime presence, in whiteboard coordinates
+export interface CursorPresence {
+  sender_id: string;
+  name: string;
+  color: string;
+  x: number;
+  y: number;
 }
 
 export interface SyncConfig {
@@ -57,17 +145,28 @@ export interface SyncConfig {
   isReceiveOnly?: boolean;
 }
 
+export interface PendingOperationCounts {
+  pending: number; // Queued and waiting to be sent or retried
+  failed: number; // Gave up retrying, sent again once the channel reconnects
+  rejected: number; // Refused by the server as invalid and dropped
+}
+
+// Connection status reported from a whiteboard up to its container UI
+export interface SyncStatus {
+  isConnected: boolean;
+  isReceiveOnly: boolean;
+  pendingOperations?: PendingOperationCounts;
+}
+
 export interface SyncState {
   isConnected: boolean;
   isReceiveOnly: boolean;
   lastSyncTimestamp: number;
-  pendingOperations: WhiteboardOperation[];
+  pendingOperations: PendingOperationCounts;
 }
 
-export interface UndoOperationData {
-  // No additional data needed - undo operates on current history state
-}
+// Undo/redo carry the concrete objects to restore, remove or update,
+// so every client converges without consulting its own history
+export type UndoOperationData = ObjectChangeSet;
 
-export interface RedoOperationData {
-  // No additional data needed - redo operates on current history state
-}
+export type RedoOperationData = ObjectChangeSet;
@@ -1,5 +1,5 @@
 
-export type Tool = 'pencil' | 'eraser' | 'highlighter' | 'select2';
+export type Tool = 'pencil' | 'eraser' | 'highlighter' | 'select2' | 'shape' | 'text' | 'laser';
 
 export interface LineObject {
   id: string;
@@ -9,6 +9,10 @@ export interface LineObject {
   strokeWidth: number;
   x: number;
   y: number;
+  // Stylus pressure (0 to 1) for each point, absent for mouse and touch strokes and older lines
+  pressures?: number[];
+  groupId?: string | null; // Objects sharing a group id select as one unit; null once ungrouped
+  zIndex?: number | null; // Stacking position in the scene, objects without one are drawn above ordered ones
 }
 
 export interface ImageObject {
@@ -20,6 +24,42 @@ export interface ImageObject {
   height?: number;
   rotation?: number;
   locked?: boolean;
+  groupId?: string | null;
+  zIndex?: number | null;
+}
+
+export type ShapeKind = 'rectangle' | 'ellipse' | 'triangle' | 'line' | 'arrow';
+
+// A box rotated around its centre; lines and arrows run from (x, y) to (x + width, y + height),
+// so their width and height may be negative
+export interface ShapeObject {
+  id: string;
+  kind: ShapeKind;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation?: number;
+  color: string; // Stroke colour
+  fillColor?: string; // No fill when unset, ignored for lines and arrows
+  strokeWidth: number;
+  apexOffset?: number; // Triangles: apex position along the top edge from 0 to 1, centred when unset
+  groupId?: string | null;
+  zIndex?: number | null;
+}
+
+// A text box wrapped to its width, rotated around its centre; the height follows from the wrapped text
+export interface TextObject {
+  id: string;
+  x: number;
+  y: number;
+  text: string;
+  width: number;
+  fontSize: number;
+  color: string;
+  rotation?: number;
+  groupId?: string | null;
+  zIndex?: number | null;
 }
 
 export interface PanZoomState {
@@ -37,7 +77,7 @@ export interface SelectionBounds {
 
 export interface SelectedObject {
   id: string;
-  type: 'line' | 'image';
+  type: 'line' | 'image' | 'shape' | 'text';
 }
 
 
@@ -53,11 +93,40 @@ export interface ActivityMetadata {
   timestamp: number;
 }
 
+// Explicit object changes, also the payload of undo/redo operations
+export interface ObjectChangeSet {
+  lines_to_add: LineObject[];
+  images_to_add: ImageObject[];
+  line_ids_to_remove: string[];
+  image_ids_to_remove: string[];
+  line_updates: Array<{ line_id: string; updates: Partial<LineObject> }>;
+  image_updates: Array<{ image_id: string; updates: Partial<ImageObject> }>;
+  // Optional since change sets sent before shapes existed do not carry them
+  shapes_to_add?: ShapeObject[];
+  shape_ids_to_remove?: string[];
+  shape_updates?: Array<{ shape_id: string; updates: Partial<ShapeObject> }>;
+  texts_to_add?: TextObject[];
+  text_ids_to_remove?: string[];
+  text_updates?: Array<{ text_id: string; updates: Partial<TextObject> }>;
+}
+
+// Updates to several objects made by one action, such as nudging a selection
+export type ObjectUpdates = Partial<Pick<ObjectChangeSet, 'line_updates' | 'image_updates' | 'shape_updates' | 'text_updates'>>;
+
+// What a single local action changed, so the user can undo only their own actions
+export interface HistoryChange {
+  undo: ObjectChangeSet;
+  redo: ObjectChangeSet;
+}
+
 export interface HistorySnapshot {
   lines: LineObject[];
   images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
   selectionState: SelectionState;
   lastActivity?: ActivityMetadata;
+  change?: HistoryChange;
 }
 
 export interface ToolSettings {
@@ -65,14 +134,41 @@ export interface ToolSettings {
   strokeWidth: number;
 }
 
+export interface ShapeSettings extends ToolSettings {
+  kind: ShapeKind;
+  fillColor?: string;
+}
+
+// Whole strokes, or only the part of a stroke under the eraser
+export type EraserMode = 'stroke' | 'partial';
+
+// Paper pattern drawn behind everything on the board, graph paper adds axes through the origin
+export type BoardBackground = 'none' | 'grid' | 'dot' | 'lined' | 'graph';
+
+// Drag a rectangle, or draw a freeform loop around the objects to select
+export type SelectionMode = 'rectangle' | 'lasso';
+
+export interface TextSettings {
+  color: string;
+  fontSize: number;
+}
+
 export interface WhiteboardState {
   lines: LineObject[];
   images: ImageObject[];
+  shapes: ShapeObject[];
+  texts: TextObject[];
   currentTool: Tool;
   currentColor: string;
   currentStrokeWidth: number;
   pencilSettings: ToolSettings;
   highlighterSettings: ToolSettings;
+  shapeSettings: ShapeSettings;
+  textSettings: TextSettings;
+  eraserMode: EraserMode;
+  selectionMode: SelectionMode;
+  background: BoardBackground; // Synced to every viewer, not part of undo history
+  editingTextId: string | null; // Text box open in the in-place editor
   isDrawing: boolean;
   panZoomState: PanZoomState;
   selectionState: SelectionState;
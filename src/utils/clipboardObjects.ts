@@ -0,0 +1,109 @@
+/**
+ * @fileoverview Whiteboard objects on the system clipboard
+ * @description Copied objects are written as plain text JSON holding the LineObject, ImageObject,
+ * ShapeObject and TextObject data, so they can be pasted into any board, in this or another session
+ * or browser tab. Pasted objects get new ids and are moved by an offset so they do not cover the originals.
+ */
+
+import { z } from 'zod';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
+import { lineSchema, imageSchema, shapeSchema, textSchema } from '@/utils/sync/operationValidation';
+
+// Marks clipboard text as whiteboard objects rather than text copied elsewhere
+export const CLIPBOARD_FORMAT = 'octopi-ink/objects';
+const CLIPBOARD_VERSION = 1;
+
+// Distance each successive paste is moved from the copied objects, in whiteboard units
+export const PASTE_OFFSET = 20;
+
+export interface ClipboardObjects {
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes: ShapeObject[];
+  texts: TextObject[];
+}
+
+const clipboardSchema = z.object({
+  format: z.literal(CLIPBOARD_FORMAT),
+  version: z.number(),
+  lines: z.array(lineSchema).default([]),
+  images: z.array(imageSchema).default([]),
+  shapes: z.array(shapeSchema).default([]),
+  texts: z.array(textSchema).default([])
+});
+
+/**
+ * Look up the selected objects on the board
+ */
+export const collectSelectedObjects = (
+  selectedObjects: SelectedObject[],
+  board: { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] }
+): ClipboardObjects => {
+  const idsOfType = (type: SelectedObject['type']) =>
+    new Set(selectedObjects.filter(obj => obj.type === type).map(obj => obj.id));
+
+  const lineIds = idsOfType('line');
+  const imageIds = idsOfType('image');
+  const shapeIds = idsOfType('shape');
+  const textIds = idsOfType('text');
+
+  return {
+    lines: board.lines.filter(line => lineIds.has(line.id)),
+    images: board.images.filter(image => imageIds.has(image.id)),
+    shapes: (board.shapes || []).filter(shape => shapeIds.has(shape.id)),
+    texts: (board.texts || []).filter(text => textIds.has(text.id))
+  };
+};
+
+export const isClipboardEmpty = (objects: ClipboardObjects): boolean =>
+  objects.lines.length === 0 && objects.images.length === 0 && objects.shapes.length === 0 && objects.texts.length === 0;
+
+export const serializeClipboardObjects = (objects: ClipboardObjects): string =>
+  JSON.stringify({ format: CLIPBOARD_FORMAT, version: CLIPBOARD_VERSION, ...objects });
+
+/**
+ * Read whiteboard objects from clipboard text, null for any other text or invalid objects
+ */
+export const parseClipboardObjects = (text: string): ClipboardObjects | null => {
+  if (!text.includes(CLIPBOARD_FORMAT)) return null;
+
+  try {
+    const result = clipboardSchema.safeParse(JSON.parse(text));
+    if (!result.success) return null;
+
+    const { lines, images, shapes, texts } = result.data;
+    return {
+      lines: lines as LineObject[],
+      images: images as ImageObject[],
+      shapes: shapes as ShapeObject[],
+      texts: texts as TextObject[]
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Copies of the objects with new ids, moved by the offset
+ * Copied groups become new groups, so the copies do not join the groups of the originals,
+ * and copies lose their zIndex so they are drawn on top
+ */
+export const cloneObjectsWithOffset = (objects: ClipboardObjects, offset: number): ClipboardObjects => {
+  const stamp = Date.now();
+  let counter = 0;
+  const newId = (prefix: string) => `${prefix}_${stamp}_${counter++}_${Math.random().toString(36).substr(2, 5)}`;
+
+  const newGroupIds = new Map<string, string>();
+  const cloneGroupId = (groupId?: string | null) => {
+    if (!groupId) return groupId;
+    if (!newGroupIds.has(groupId)) newGroupIds.set(groupId, newId('group'));
+    return newGroupIds.get(groupId);
+  };
+
+  return {
+    lines: objects.lines.map(line => ({ ...line, id: newId('line'), groupId: cloneGroupId(line.groupId), zIndex: null, x: line.x + offset, y: line.y + offset })),
+    images: objects.images.map(image => ({ ...image, id: newId('image'), groupId: cloneGroupId(image.groupId), zIndex: null, x: image.x + offset, y: image.y + offset })),
+    shapes: objects.shapes.map(shape => ({ ...shape, id: newId('shape'), groupId: cloneGroupId(shape.groupId), zIndex: null, x: shape.x + offset, y: shape.y + offset })),
+    texts: objects.texts.map(text => ({ ...text, id: newId('text'), groupId: cloneGroupId(text.groupId), zIndex: null, x: text.x + offset, y: text.y + offset }))
+  };
+};
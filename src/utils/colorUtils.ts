@@ -0,0 +1,87 @@
+/**
+ * @fileoverview Colour helpers for the toolbar colour picker
+ * @description Colours are stored on objects as hex strings. A translucent colour uses the
+ * 8-digit #RRGGBBAA form, which canvas strokes understand directly, so no extra field needs syncing.
+ */
+
+export interface HsvColor {
+  h: number; // 0-360
+  s: number; // 0-1
+  v: number; // 0-1
+}
+
+const toHexPair = (value: number) => Math.round(Math.max(0, Math.min(255, value))).toString(16).padStart(2, '0').toUpperCase();
+
+/**
+ * Normalise #RGB, #RRGGBB or #RRGGBBAA (with or without #) to uppercase, null when invalid
+ */
+export const normalizeHex = (input: string): string | null => {
+  const value = input.trim().replace(/^#/, '');
+  if (/^[0-9a-fA-F]{3}$/.test(value)) {
+    return `#${value.split('').map(c => c + c).join('')}`.toUpperCase();
+  }
+  if (/^[0-9a-fA-F]{6}([0-9a-fA-F]{2})?$/.test(value)) {
+    return `#${value}`.toUpperCase();
+  }
+  return null;
+};
+
+/**
+ * Split a stored colour into its opaque hex and its alpha (0-1)
+ */
+export const splitAlpha = (color: string): { hex: string; alpha: number } => {
+  const normalized = normalizeHex(color);
+  if (!normalized) return { hex: color, alpha: 1 };
+  if (normalized.length === 9) {
+    return { hex: normalized.slice(0, 7), alpha: parseInt(normalized.slice(7), 16) / 255 };
+  }
+  return { hex: normalized, alpha: 1 };
+};
+
+/**
+ * Combine an opaque hex with an alpha, fully opaque colours keep the 6-digit form
+ */
+export const withAlpha = (hex: string, alpha: number): string => {
+  const { hex: opaque } = splitAlpha(hex);
+  return alpha >= 1 ? opaque : `${opaque}${toHexPair(alpha * 255)}`;
+};
+
+export const hexToHsv = (hex: string): HsvColor => {
+  const { hex: opaque } = splitAlpha(hex);
+  const r = parseInt(opaque.slice(1, 3), 16) / 255;
+  const g = parseInt(opaque.slice(3, 5), 16) / 255;
+  const b = parseInt(opaque.slice(5, 7), 16) / 255;
+  if ([r, g, b].some(Number.isNaN)) return { h: 0, s: 0, v: 0 };
+
+  const max = Math.max(r, g, b);
+  const delta = max - Math.min(r, g, b);
+
+  let h = 0;
+  if (delta > 0) {
+    if (max === r) h = ((g - b) / delta) % 6;
+    else if (max === g) h = (b - r) / delta + 2;
+    else h = (r - g) / delta + 4;
+  }
+
+  return {
+    h: (h * 60 + 360) % 360,
+    s: max === 0 ? 0 : delta / max,
+    v: max
+  };
+};
+
+export const hsvToHex = ({ h, s, v }: HsvColor): string => {
+  const chroma = v * s;
+  const x = chroma * (1 - Math.abs(((h / 60) % 2) - 1));
+  const m = v - chroma;
+
+  const [r, g, b] =
+    h < 60 ? [chroma, x, 0] :
+    h < 120 ? [x, chroma, 0] :
+    h < 180 ? [0, chroma, x] :
+    h < 240 ? [0, x, chroma] :
+    h < 300 ? [x, 0, chroma] :
+    [chroma, 0, x];
+
+  return `#${toHexPair((r + m) * 255)}${toHexPair((g + m) * 255)}${toHexPair((b + m) * 255)}`;
+};
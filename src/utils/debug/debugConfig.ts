@@ -35,6 +35,7 @@ export interface DebugConfig {
   sync: boolean;
   operations: boolean;
   connection: boolean;
+  persistence: boolean;
   
   // Window management
   windows: boolean;
@@ -93,6 +94,7 @@ const DEFAULT_DEBUG_CONFIG: DebugConfig = {
   sync: false,
   operations: false,
   connection: false,
+  persistence: false,
   
   // Window management - disabled by default
   windows: false,
@@ -5,6 +5,7 @@
  */
 
 import { enableDebug, disableDebug, DEBUG_CONFIG } from './debugConfig';
+import { getQuarantinedOperations } from '@/utils/sync/operationValidation';
 
 // Expose debug functions globally for easy runtime control
 declare global {
@@ -12,6 +13,7 @@ declare global {
     enableDebug: typeof enableDebug;
     disableDebug: typeof disableDebug;
     getDebugConfig: () => typeof DEBUG_CONFIG;
+    getQuarantinedOperations: typeof getQuarantinedOperations;
   }
 }
 
@@ -20,11 +22,13 @@ if (process.env.NODE_ENV === 'development') {
   window.enableDebug = enableDebug;
   window.disableDebug = disableDebug;
   window.getDebugConfig = () => ({ ...DEBUG_CONFIG });
+  window.getQuarantinedOperations = getQuarantinedOperations;
   
   console.log('[DebugSystem] Debug functions available globally:');
   console.log('  window.enableDebug(subsystem)   - Enable debugging for a subsystem');
   console.log('  window.disableDebug(subsystem)  - Disable debugging for a subsystem');
   console.log('  window.getDebugConfig()         - Get current debug configuration');
+  console.log('  window.getQuarantinedOperations() - List rejected remote operations');
   console.log('');
   console.log('Available subsystems:', Object.keys(DEBUG_CONFIG).join(', '));
   console.log('');
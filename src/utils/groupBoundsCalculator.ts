@@ -1,4 +1,6 @@
-import { LineObject, ImageObject, SelectedObject } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
+import { getShapeBounds } from './shapeGeometry';
+import { getTextBounds } from './textGeometry';
 
 export interface GroupBounds {
   x: number;
@@ -10,7 +12,9 @@ export interface GroupBounds {
 export const calculateGroupBounds = (
   selectedObjects: SelectedObject[],
   selectedLines: LineObject[],
-  selectedImages: ImageObject[]
+  selectedImages: ImageObject[],
+  selectedShapes: ShapeObject[] = [],
+  selectedTexts: TextObject[] = []
 ): GroupBounds | null => {
   if (selectedObjects.length === 0) {
     return null;
@@ -78,6 +82,24 @@ export const calculateGroupBounds = (
     }
   }
 
+  // Process selected shapes - their bounds already account for rotation
+  for (const shape of selectedShapes) {
+    const bounds = getShapeBounds(shape);
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  }
+
+  // Process selected text boxes - their bounds already account for rotation
+  for (const text of selectedTexts) {
+    const bounds = getTextBounds(text);
+    minX = Math.min(minX, bounds.x);
+    minY = Math.min(minY, bounds.y);
+    maxX = Math.max(maxX, bounds.x + bounds.width);
+    maxY = Math.max(maxY, bounds.y + bounds.height);
+  }
+
   // If no objects were found or bounds are invalid
   if (minX === Infinity || minY === Infinity || maxX === -Infinity || maxY === -Infinity) {
     return null;
@@ -0,0 +1,37 @@
+/**
+ * @fileoverview Geometry helpers for lasso selection
+ * @description A lasso is a freeform polygon stored as flat [x1, y1, x2, y2, ...] points in
+ * whiteboard coordinates. The last point is implicitly joined back to the first.
+ */
+
+// Lasso points closer than this to the previous point are skipped, in whiteboard units
+export const LASSO_MIN_POINT_DISTANCE = 3;
+
+/**
+ * Whether a point lies inside the lasso polygon (even-odd rule)
+ */
+export const isPointInPolygon = (point: { x: number; y: number }, polygon: number[]): boolean => {
+  const pointCount = Math.floor(polygon.length / 2);
+  if (pointCount < 3) return false;
+
+  let inside = false;
+  for (let i = 0, j = pointCount - 1; i < pointCount; j = i++) {
+    const xi = polygon[i * 2];
+    const yi = polygon[i * 2 + 1];
+    const xj = polygon[j * 2];
+    const yj = polygon[j * 2 + 1];
+
+    // Count crossings of a ray running right from the point
+    if ((yi > point.y) !== (yj > point.y) &&
+        point.x < ((xj - xi) * (point.y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+/**
+ * Whether every one of the points lies inside the lasso polygon
+ */
+export const arePointsInPolygon = (points: Array<{ x: number; y: number }>, polygon: number[]): boolean =>
+  points.length > 0 && points.every(point => isPointInPolygon(point, polygon));
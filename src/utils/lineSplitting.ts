@@ -0,0 +1,144 @@
+import { LineObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Cutting parts out of strokes for the partial eraser
+ * @description The eraser is a circle. Every segment it crosses is cut at the circle's edge,
+ * and the parts outside the circle become new lines with the original stroke's style.
+ */
+
+type Point = { x: number; y: number };
+
+// Interpolated pressure at a cut, for lines drawn with a stylus
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * Part of the segment a→b inside the circle, as a [start, end] range of 0..1, or null when it misses
+ */
+const getSegmentCut = (a: Point, b: Point, center: Point, radius: number): [number, number] | null => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const fx = a.x - center.x;
+  const fy = a.y - center.y;
+  const lengthSquared = dx * dx + dy * dy;
+
+  // Zero-length segment, cut entirely when its point is inside
+  if (lengthSquared === 0) {
+    return fx * fx + fy * fy < radius * radius ? [0, 1] : null;
+  }
+
+  const b2 = 2 * (fx * dx + fy * dy);
+  const c = fx * fx + fy * fy - radius * radius;
+  const discriminant = b2 * b2 - 4 * lengthSquared * c;
+  if (discriminant <= 0) return null;
+
+  const root = Math.sqrt(discriminant);
+  const start = Math.max(0, (-b2 - root) / (2 * lengthSquared));
+  const end = Math.min(1, (-b2 + root) / (2 * lengthSquared));
+
+  return start < end ? [start, end] : null;
+};
+
+/**
+ * Cut the part of a line under the eraser circle (in whiteboard coordinates)
+ * @returns The remaining pieces, or null when the eraser doesn't touch the line
+ */
+export const eraseLineSegments = (
+  line: LineObject,
+  center: Point,
+  radius: number,
+  createId: () => string
+): LineObject[] | null => {
+  if (line.tool === 'eraser') return null; // Don't erase eraser strokes
+
+  // Work in the line's own coordinates
+  const localCenter = { x: center.x - (line.x || 0), y: center.y - (line.y || 0) };
+  const pointCount = Math.floor(line.points.length / 2);
+  const pointAt = (index: number): Point => ({ x: line.points[index * 2], y: line.points[index * 2 + 1] });
+  const pressureAt = (index: number) => line.pressures?.[Math.min(index, line.pressures.length - 1)];
+
+  // A single dot is either erased whole or untouched
+  if (pointCount < 2) {
+    if (pointCount === 0) return null;
+    const { x, y } = pointAt(0);
+    return Math.hypot(x - localCenter.x, y - localCenter.y) < radius ? [] : null;
+  }
+
+  const pieces: Array<{ points: number[]; pressures: number[] }> = [];
+  let current: { points: number[]; pressures: number[] } | null = null;
+  let wasCut = false;
+
+  const addPoint = (point: Point, pressure: number | undefined) => {
+    if (!current) current = { points: [], pressures: [] };
+    current.points.push(point.x, point.y);
+    if (pressure !== undefined) current.pressures.push(pressure);
+  };
+
+  const endPiece = () => {
+    if (current && current.points.length >= 4) pieces.push(current);
+    current = null;
+  };
+
+  for (let i = 0; i < pointCount - 1; i++) {
+    const a = pointAt(i);
+    const b = pointAt(i + 1);
+    const pressureA = pressureAt(i);
+    const pressureB = pressureAt(i + 1);
+    const cut = getSegmentCut(a, b, localCenter, radius);
+
+    if (!current) addPoint(a, pressureA);
+
+    if (!cut) {
+      addPoint(b, pressureB);
+      continue;
+    }
+
+    wasCut = true;
+    const [start, end] = cut;
+    const pressureAtT = (t: number) =>
+      pressureA !== undefined && pressureB !== undefined ? lerp(pressureA, pressureB, t) : undefined;
+
+    if (start > 0) {
+      addPoint({ x: lerp(a.x, b.x, start), y: lerp(a.y, b.y, start) }, pressureAtT(start));
+    }
+    endPiece();
+
+    if (end < 1) {
+      addPoint({ x: lerp(a.x, b.x, end), y: lerp(a.y, b.y, end) }, pressureAtT(end));
+      addPoint(b, pressureB);
+    }
+  }
+  endPiece();
+
+  if (!wasCut) return null;
+
+  return pieces.map(piece => {
+    const { pressures: _pressures, ...style } = line;
+    return {
+      ...style,
+      id: createId(),
+      points: piece.points,
+      ...(piece.pressures.length > 0 ? { pressures: piece.pressures } : {})
+    };
+  });
+};
+
+/**
+ * Replace lines with the lines cut from them, keeping the pieces where the first replaced line was
+ * Every client and the history replay use this, so a replace gives the same board everywhere
+ */
+export const replaceLines = (
+  lines: LineObject[],
+  lineIdsToRemove: string[],
+  linesToAdd: LineObject[]
+): LineObject[] => {
+  const removeIds = new Set(lineIdsToRemove);
+  // Pieces already on the board (the sender, or a repeated delivery) are not added twice
+  const newLines = linesToAdd.filter(line => !lines.some(l => l.id === line.id));
+  const insertAt = lines.findIndex(line => removeIds.has(line.id));
+  const remaining = lines.filter(line => !removeIds.has(line.id));
+
+  if (insertAt === -1) return [...remaining, ...newLines];
+
+  // Every line before the first replaced one is kept, so the index carries over
+  return [...remaining.slice(0, insertAt), ...newLines, ...remaining.slice(insertAt)];
+};
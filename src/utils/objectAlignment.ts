@@ -0,0 +1,146 @@
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, SelectionBounds, ObjectUpdates } from '@/types/whiteboard';
+import { calculateObjectBounds } from './operationSerializer';
+import { collectSelectedObjects } from './clipboardObjects';
+
+/**
+ * @fileoverview Align and distribute for multi-selections
+ * @description Selected objects are lined up by their bounds or spaced evenly. A group moves as one
+ * unit so its layout is kept, and units holding a locked image stay where they are.
+ */
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+interface AlignBoard {
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
+}
+
+// A single object or a whole group, with the bounds of all its objects
+interface AlignUnit {
+  objects: SelectedObject[];
+  bounds: SelectionBounds;
+  locked: boolean;
+}
+
+const getAlignUnits = (selectedObjects: SelectedObject[], board: AlignBoard): AlignUnit[] => {
+  const { lines, images, shapes, texts } = collectSelectedObjects(selectedObjects, board);
+  const entries = [
+    ...lines.map(object => ({ object, type: 'line' as const })),
+    ...images.map(object => ({ object, type: 'image' as const })),
+    ...shapes.map(object => ({ object, type: 'shape' as const })),
+    ...texts.map(object => ({ object, type: 'text' as const }))
+  ];
+
+  const units = new Map<string, AlignUnit>();
+  entries.forEach(({ object, type }) => {
+    const key = object.groupId || object.id;
+    const bounds = calculateObjectBounds(object, type);
+    const locked = type === 'image' && !!(object as ImageObject).locked;
+    const unit = units.get(key);
+
+    if (!unit) {
+      units.set(key, { objects: [{ id: object.id, type }], bounds, locked });
+      return;
+    }
+
+    const minX = Math.min(unit.bounds.x, bounds.x);
+    const minY = Math.min(unit.bounds.y, bounds.y);
+    unit.objects.push({ id: object.id, type });
+    unit.bounds = {
+      x: minX,
+      y: minY,
+      width: Math.max(unit.bounds.x + unit.bounds.width, bounds.x + bounds.width) - minX,
+      height: Math.max(unit.bounds.y + unit.bounds.height, bounds.y + bounds.height) - minY
+    };
+    unit.locked = unit.locked || locked;
+  });
+
+  return Array.from(units.values());
+};
+
+/**
+ * Number of separately placed units in the selection, a group counts once
+ */
+export const countAlignUnits = (selectedObjects: SelectedObject[], board: AlignBoard): number =>
+  getAlignUnits(selectedObjects, board).length;
+
+// Position updates that move each unit by its offset
+const toMoveUpdates = (moves: Array<{ unit: AlignUnit; dx: number; dy: number }>, board: AlignBoard): ObjectUpdates => {
+  const movedObjects = moves
+    .filter(({ unit, dx, dy }) => !unit.locked && (dx !== 0 || dy !== 0))
+    .flatMap(({ unit, dx, dy }) => unit.objects.map(obj => ({ obj, dx, dy })));
+  const offsetOf = (id: string) => movedObjects.find(moved => moved.obj.id === id)!;
+  const { lines, images, shapes, texts } = collectSelectedObjects(movedObjects.map(moved => moved.obj), board);
+
+  return {
+    line_updates: lines.map(line => {
+      const { dx, dy } = offsetOf(line.id);
+      return { line_id: line.id, updates: { x: line.x + dx, y: line.y + dy } };
+    }),
+    image_updates: images.map(image => {
+      const { dx, dy } = offsetOf(image.id);
+      return { image_id: image.id, updates: { x: image.x + dx, y: image.y + dy } };
+    }),
+    shape_updates: shapes.map(shape => {
+      const { dx, dy } = offsetOf(shape.id);
+      return { shape_id: shape.id, updates: { x: shape.x + dx, y: shape.y + dy } };
+    }),
+    text_updates: texts.map(text => {
+      const { dx, dy } = offsetOf(text.id);
+      return { text_id: text.id, updates: { x: text.x + dx, y: text.y + dy } };
+    })
+  };
+};
+
+/**
+ * Updates lining up the selected objects along an edge or centre of their combined bounds
+ */
+export const getAlignmentUpdates = (selectedObjects: SelectedObject[], board: AlignBoard, mode: AlignMode): ObjectUpdates => {
+  const units = getAlignUnits(selectedObjects, board);
+  if (units.length < 2) return {};
+
+  const left = Math.min(...units.map(({ bounds }) => bounds.x));
+  const right = Math.max(...units.map(({ bounds }) => bounds.x + bounds.width));
+  const top = Math.min(...units.map(({ bounds }) => bounds.y));
+  const bottom = Math.max(...units.map(({ bounds }) => bounds.y + bounds.height));
+
+  return toMoveUpdates(units.map(unit => {
+    const { x, y, width, height } = unit.bounds;
+    switch (mode) {
+      case 'left': return { unit, dx: left - x, dy: 0 };
+      case 'center': return { unit, dx: (left + right) / 2 - (x + width / 2), dy: 0 };
+      case 'right': return { unit, dx: right - (x + width), dy: 0 };
+      case 'top': return { unit, dx: 0, dy: top - y };
+      case 'middle': return { unit, dx: 0, dy: (top + bottom) / 2 - (y + height / 2) };
+      case 'bottom': return { unit, dx: 0, dy: bottom - (y + height) };
+    }
+  }), board);
+};
+
+/**
+ * Updates spacing the selected objects with equal gaps between the first and the last along the axis
+ */
+export const getDistributionUpdates = (selectedObjects: SelectedObject[], board: AlignBoard, axis: DistributeAxis): ObjectUpdates => {
+  const units = getAlignUnits(selectedObjects, board);
+  if (units.length < 3) return {};
+
+  const start = (unit: AlignUnit) => (axis === 'horizontal' ? unit.bounds.x : unit.bounds.y);
+  const size = (unit: AlignUnit) => (axis === 'horizontal' ? unit.bounds.width : unit.bounds.height);
+  const sorted = [...units].sort((a, b) => (start(a) + size(a) / 2) - (start(b) + size(b) / 2));
+
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = start(last) + size(last) - start(first);
+  const totalSize = sorted.reduce((sum, unit) => sum + size(unit), 0);
+  const gap = (span - totalSize) / (sorted.length - 1);
+
+  let position = start(first);
+  return toMoveUpdates(sorted.map(unit => {
+    const offset = position - start(unit);
+    position += size(unit) + gap;
+    return axis === 'horizontal' ? { unit, dx: offset, dy: 0 } : { unit, dx: 0, dy: offset };
+  }), board);
+};
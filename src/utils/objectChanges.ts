@@ -0,0 +1,346 @@
+import { LineObject, ImageObject, ShapeObject, TextObject, ObjectChangeSet, HistoryChange, HistorySnapshot } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Explicit object changes for per-user undo/redo
+ * @description A history entry records what a single local action changed so it can be
+ * undone or redone on top of the current board, without touching other users' objects.
+ */
+
+export const createEmptyChangeSet = (): ObjectChangeSet => ({
+  lines_to_add: [],
+  images_to_add: [],
+  line_ids_to_remove: [],
+  image_ids_to_remove: [],
+  line_updates: [],
+  image_updates: [],
+  shapes_to_add: [],
+  shape_ids_to_remove: [],
+  shape_updates: [],
+  texts_to_add: [],
+  text_ids_to_remove: [],
+  text_updates: []
+});
+
+// What optional keys mean while unset. JSON drops undefined values, so a change that sets or reverts
+// one of these keys carries this value instead and other clients apply the same revert
+const UNSET_VALUES = new Map<string, unknown>([
+  ['groupId', null],
+  ['zIndex', null],
+  ['rotation', 0],
+  ['locked', false],
+  ['apexOffset', 0.5],
+  ['fillColor', 'transparent']
+]);
+
+const withUnsetValue = (key: string, value: unknown): unknown =>
+  value === undefined && UNSET_VALUES.has(key) ? UNSET_VALUES.get(key) : value;
+
+// Values of the updated keys before the update, used to revert it
+const pickPreviousValues = <T extends object>(before: T, updates: Partial<T>): Partial<T> => {
+  const previous: Record<string, unknown> = {};
+  Object.keys(updates).forEach(key => {
+    previous[key] = withUnsetValue(key, (before as Record<string, unknown>)[key]);
+  });
+  return previous as Partial<T>;
+};
+
+/**
+ * Change for objects that were added, undone by removing them again
+ */
+export const createAddChange = (
+  lines: LineObject[],
+  images: ImageObject[],
+  shapes: ShapeObject[] = [],
+  texts: TextObject[] = []
+): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    lines_to_add: lines,
+    images_to_add: images,
+    shapes_to_add: shapes,
+    texts_to_add: texts
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    line_ids_to_remove: lines.map(line => line.id),
+    image_ids_to_remove: images.map(image => image.id),
+    shape_ids_to_remove: shapes.map(shape => shape.id),
+    text_ids_to_remove: texts.map(text => text.id)
+  }
+});
+
+/**
+ * Change for objects that were removed, undone by restoring them
+ */
+export const createRemoveChange = (
+  lines: LineObject[],
+  images: ImageObject[],
+  shapes: ShapeObject[] = [],
+  texts: TextObject[] = []
+): HistoryChange => {
+  const addChange = createAddChange(lines, images, shapes, texts);
+  return {
+    redo: addChange.undo,
+    undo: addChange.redo
+  };
+};
+
+/**
+ * Change for lines replaced by other lines, such as a stroke split by the partial eraser
+ */
+export const createReplaceChange = (removedLines: LineObject[], addedLines: LineObject[]): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    lines_to_add: addedLines,
+    line_ids_to_remove: removedLines.map(line => line.id)
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    lines_to_add: removedLines,
+    line_ids_to_remove: addedLines.map(line => line.id)
+  }
+});
+
+/**
+ * Change for a line update, undone by restoring the previous values of the updated keys
+ */
+export const createLineUpdateChange = (before: LineObject, updates: Partial<LineObject>): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    line_updates: [{ line_id: before.id, updates }]
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    line_updates: [{ line_id: before.id, updates: pickPreviousValues(before, updates) }]
+  }
+});
+
+/**
+ * Change for an image update, undone by restoring the previous values of the updated keys
+ */
+export const createImageUpdateChange = (before: ImageObject, updates: Partial<ImageObject>): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    image_updates: [{ image_id: before.id, updates }]
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    image_updates: [{ image_id: before.id, updates: pickPreviousValues(before, updates) }]
+  }
+});
+
+/**
+ * Change for a shape update, undone by restoring the previous values of the updated keys
+ */
+export const createShapeUpdateChange = (before: ShapeObject, updates: Partial<ShapeObject>): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    shape_updates: [{ shape_id: before.id, updates }]
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    shape_updates: [{ shape_id: before.id, updates: pickPreviousValues(before, updates) }]
+  }
+});
+
+/**
+ * Change for a text box update, undone by restoring the previous values of the updated keys
+ */
+export const createTextUpdateChange = (before: TextObject, updates: Partial<TextObject>): HistoryChange => ({
+  redo: {
+    ...createEmptyChangeSet(),
+    text_updates: [{ text_id: before.id, updates }]
+  },
+  undo: {
+    ...createEmptyChangeSet(),
+    text_updates: [{ text_id: before.id, updates: pickPreviousValues(before, updates) }]
+  }
+});
+
+/**
+ * One change for several changes made by a single action, such as moving a whole selection
+ */
+export const mergeChanges = (changes: HistoryChange[]): HistoryChange => {
+  const mergeSets = (sets: ObjectChangeSet[]): ObjectChangeSet => sets.reduce((merged, set) => ({
+    lines_to_add: [...merged.lines_to_add, ...set.lines_to_add],
+    images_to_add: [...merged.images_to_add, ...set.images_to_add],
+    line_ids_to_remove: [...merged.line_ids_to_remove, ...set.line_ids_to_remove],
+    image_ids_to_remove: [...merged.image_ids_to_remove, ...set.image_ids_to_remove],
+    line_updates: [...merged.line_updates, ...set.line_updates],
+    image_updates: [...merged.image_updates, ...set.image_updates],
+    shapes_to_add: [...(merged.shapes_to_add || []), ...(set.shapes_to_add || [])],
+    shape_ids_to_remove: [...(merged.shape_ids_to_remove || []), ...(set.shape_ids_to_remove || [])],
+    shape_updates: [...(merged.shape_updates || []), ...(set.shape_updates || [])],
+    texts_to_add: [...(merged.texts_to_add || []), ...(set.texts_to_add || [])],
+    text_ids_to_remove: [...(merged.text_ids_to_remove || []), ...(set.text_ids_to_remove || [])],
+    text_updates: [...(merged.text_updates || []), ...(set.text_updates || [])]
+  }), createEmptyChangeSet());
+
+  return {
+    redo: mergeSets(changes.map(change => change.redo)),
+    undo: mergeSets(changes.map(change => change.undo))
+  };
+};
+
+// Keys whose values differ between two versions of an object, with their new and old values
+const diffObjectKeys = <T extends object>(before: T, after: T): { updates: Partial<T>; previous: Partial<T> } | null => {
+  const updates: Record<string, unknown> = {};
+  const previous: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.forEach(key => {
+    const oldValue = (before as Record<string, unknown>)[key];
+    const newValue = (after as Record<string, unknown>)[key];
+    if (oldValue === newValue) return;
+    updates[key] = withUnsetValue(key, newValue);
+    previous[key] = withUnsetValue(key, oldValue);
+  });
+  return Object.keys(updates).length > 0 ? { updates: updates as Partial<T>, previous: previous as Partial<T> } : null;
+};
+
+// Objects added, removed and updated between two versions of one object list
+const diffObjectList = <T extends { id: string }>(before: T[], after: T[]) => {
+  const beforeById = new Map(before.map(object => [object.id, object]));
+  const afterIds = new Set(after.map(object => object.id));
+
+  const updated: Array<{ id: string; updates: Partial<T>; previous: Partial<T> }> = [];
+  after.forEach(object => {
+    const previousObject = beforeById.get(object.id);
+    if (!previousObject || previousObject === object) return;
+    const diff = diffObjectKeys(previousObject, object);
+    if (diff) updated.push({ id: object.id, ...diff });
+  });
+
+  return {
+    added: after.filter(object => !beforeById.has(object.id)),
+    removed: before.filter(object => !afterIds.has(object.id)),
+    updated
+  };
+};
+
+/**
+ * Change between two versions of the board, such as before and after a stored operation
+ * Used to rebuild undoable history entries for a user's own operations when a board is loaded
+ */
+export const createDiffChange = (
+  before: { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] },
+  after: { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] }
+): HistoryChange => {
+  const lines = diffObjectList(before.lines, after.lines);
+  const images = diffObjectList(before.images, after.images);
+  const shapes = diffObjectList(before.shapes || [], after.shapes || []);
+  const texts = diffObjectList(before.texts || [], after.texts || []);
+
+  return {
+    redo: {
+      lines_to_add: lines.added,
+      images_to_add: images.added,
+      line_ids_to_remove: lines.removed.map(line => line.id),
+      image_ids_to_remove: images.removed.map(image => image.id),
+      line_updates: lines.updated.map(({ id, updates }) => ({ line_id: id, updates })),
+      image_updates: images.updated.map(({ id, updates }) => ({ image_id: id, updates })),
+      shapes_to_add: shapes.added,
+      shape_ids_to_remove: shapes.removed.map(shape => shape.id),
+      shape_updates: shapes.updated.map(({ id, updates }) => ({ shape_id: id, updates })),
+      texts_to_add: texts.added,
+      text_ids_to_remove: texts.removed.map(text => text.id),
+      text_updates: texts.updated.map(({ id, updates }) => ({ text_id: id, updates }))
+    },
+    undo: {
+      lines_to_add: lines.removed,
+      images_to_add: images.removed,
+      line_ids_to_remove: lines.added.map(line => line.id),
+      image_ids_to_remove: images.added.map(image => image.id),
+      line_updates: lines.updated.map(({ id, previous }) => ({ line_id: id, updates: previous })),
+      image_updates: images.updated.map(({ id, previous }) => ({ image_id: id, updates: previous })),
+      shapes_to_add: shapes.removed,
+      shape_ids_to_remove: shapes.added.map(shape => shape.id),
+      shape_updates: shapes.updated.map(({ id, previous }) => ({ shape_id: id, updates: previous })),
+      texts_to_add: texts.removed,
+      text_ids_to_remove: texts.added.map(text => text.id),
+      text_updates: texts.updated.map(({ id, previous }) => ({ text_id: id, updates: previous }))
+    }
+  };
+};
+
+/**
+ * Whether a change set changes nothing
+ */
+export const isEmptyChangeSet = (changes: ObjectChangeSet): boolean =>
+  Object.values(changes).every(value => !Array.isArray(value) || value.length === 0);
+
+/**
+ * Index of the nearest history entry holding an explicit change at or before the given index
+ */
+export const findUndoableIndex = (history: Pick<HistorySnapshot, 'change'>[], fromIndex: number): number => {
+  for (let i = fromIndex; i > 0; i--) {
+    if (history[i]?.change) return i;
+  }
+  return -1;
+};
+
+/**
+ * Index of the nearest history entry holding an explicit change after the given index
+ */
+export const findRedoableIndex = (history: Pick<HistorySnapshot, 'change'>[], fromIndex: number): number => {
+  for (let i = fromIndex + 1; i < history.length; i++) {
+    if (history[i]?.change) return i;
+  }
+  return -1;
+};
+
+/**
+ * Whether an undo/redo payload carries explicit changes (older operations carried none)
+ */
+export const isObjectChangeSet = (data: unknown): data is ObjectChangeSet => {
+  if (!data || typeof data !== 'object') return false;
+  const changes = data as Partial<ObjectChangeSet>;
+  return Array.isArray(changes.lines_to_add) || Array.isArray(changes.line_ids_to_remove) ||
+    Array.isArray(changes.images_to_add) || Array.isArray(changes.image_ids_to_remove) ||
+    Array.isArray(changes.line_updates) || Array.isArray(changes.image_updates) ||
+    Array.isArray(changes.shapes_to_add) || Array.isArray(changes.shape_ids_to_remove) ||
+    Array.isArray(changes.shape_updates) || Array.isArray(changes.texts_to_add) ||
+    Array.isArray(changes.text_ids_to_remove) || Array.isArray(changes.text_updates);
+};
+
+/**
+ * Apply a change set to lines, images, shapes and text boxes
+ * Objects that are added again keep their id, so applying the same change twice is harmless
+ */
+export const applyObjectChanges = (
+  state: { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] },
+  changes: ObjectChangeSet
+): { lines: LineObject[]; images: ImageObject[]; shapes: ShapeObject[]; texts: TextObject[] } => {
+  const currentShapes = state.shapes || [];
+  const currentTexts = state.texts || [];
+  const lineIdsToRemove = new Set(changes.line_ids_to_remove || []);
+  const imageIdsToRemove = new Set(changes.image_ids_to_remove || []);
+  const lineUpdates = new Map((changes.line_updates || []).map(update => [update.line_id, update.updates]));
+  const imageUpdates = new Map((changes.image_updates || []).map(update => [update.image_id, update.updates]));
+  const shapeIdsToRemove = new Set(changes.shape_ids_to_remove || []);
+  const shapeUpdates = new Map((changes.shape_updates || []).map(update => [update.shape_id, update.updates]));
+  const textIdsToRemove = new Set(changes.text_ids_to_remove || []);
+  const textUpdates = new Map((changes.text_updates || []).map(update => [update.text_id, update.updates]));
+
+  const linesToAdd = (changes.lines_to_add || []).filter(line => !state.lines.some(l => l.id === line.id));
+  const imagesToAdd = (changes.images_to_add || []).filter(image => !state.images.some(img => img.id === image.id));
+  const shapesToAdd = (changes.shapes_to_add || []).filter(shape => !currentShapes.some(s => s.id === shape.id));
+  const textsToAdd = (changes.texts_to_add || []).filter(text => !currentTexts.some(t => t.id === text.id));
+
+  const lines = [...state.lines, ...linesToAdd]
+    .filter(line => !lineIdsToRemove.has(line.id))
+    .map(line => lineUpdates.has(line.id) ? { ...line, ...lineUpdates.get(line.id) } : line);
+
+  const images = [...state.images, ...imagesToAdd]
+    .filter(image => !imageIdsToRemove.has(image.id))
+    .map(image => imageUpdates.has(image.id) ? { ...image, ...imageUpdates.get(image.id) } : image);
+
+  const shapes = [...currentShapes, ...shapesToAdd]
+    .filter(shape => !shapeIdsToRemove.has(shape.id))
+    .map(shape => shapeUpdates.has(shape.id) ? { ...shape, ...shapeUpdates.get(shape.id) } : shape);
+
+  const texts = [...currentTexts, ...textsToAdd]
+    .filter(text => !textIdsToRemove.has(text.id))
+    .map(text => textUpdates.has(text.id) ? { ...text, ...textUpdates.get(text.id) } : text);
+
+  return { lines, images, shapes, texts };
+};
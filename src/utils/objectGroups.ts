@@ -0,0 +1,111 @@
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Persistent object groups
+ * @description Objects that share a groupId select, move, transform and delete as one unit.
+ * Groups are not objects of their own: a group exists as long as its members carry its id.
+ */
+
+interface GroupableBoard {
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
+}
+
+// Ids of grouped or ungrouped objects, as sent in group_objects and ungroup_objects operations
+export interface ObjectIdLists {
+  line_ids: string[];
+  image_ids: string[];
+  shape_ids: string[];
+  text_ids: string[];
+}
+
+export const createGroupId = (): string => `group_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export const toObjectIdLists = (objects: SelectedObject[]): ObjectIdLists => {
+  const idsOfType = (type: SelectedObject['type']) => objects.filter(obj => obj.type === type).map(obj => obj.id);
+  return {
+    line_ids: idsOfType('line'),
+    image_ids: idsOfType('image'),
+    shape_ids: idsOfType('shape'),
+    text_ids: idsOfType('text')
+  };
+};
+
+/**
+ * Add the other members of every group the selection touches, selecting any member selects the whole group
+ */
+export const expandToGroups = (selectedObjects: SelectedObject[], board: GroupableBoard): SelectedObject[] => {
+  const selectedIds = new Set(selectedObjects.map(obj => obj.id));
+  const groupIds = new Set<string>();
+  const collectGroups = (objects: Array<{ id: string; groupId?: string | null }>) => {
+    objects.forEach(object => {
+      if (object.groupId && selectedIds.has(object.id)) groupIds.add(object.groupId);
+    });
+  };
+  collectGroups(board.lines);
+  collectGroups(board.images);
+  collectGroups(board.shapes || []);
+  collectGroups(board.texts || []);
+
+  if (groupIds.size === 0) return selectedObjects;
+
+  const expanded = [...selectedObjects];
+  const addMembers = (objects: Array<{ id: string; groupId?: string | null }>, type: SelectedObject['type']) => {
+    objects.forEach(object => {
+      if (object.groupId && groupIds.has(object.groupId) && !selectedIds.has(object.id)) {
+        expanded.push({ id: object.id, type });
+        selectedIds.add(object.id);
+      }
+    });
+  };
+  addMembers(board.lines, 'line');
+  addMembers(board.images, 'image');
+  addMembers(board.shapes || [], 'shape');
+  addMembers(board.texts || [], 'text');
+
+  return expanded;
+};
+
+const findGroupId = (obj: SelectedObject, board: GroupableBoard): string | null | undefined => {
+  const objects: Array<{ id: string; groupId?: string | null }> =
+    obj.type === 'line' ? board.lines :
+    obj.type === 'image' ? board.images :
+    obj.type === 'shape' ? board.shapes || [] :
+    board.texts || [];
+  return objects.find(object => object.id === obj.id)?.groupId;
+};
+
+/**
+ * Distinct group ids among the selected objects
+ */
+export const getSelectedGroupIds = (selectedObjects: SelectedObject[], board: GroupableBoard): string[] => {
+  const groupIds = new Set<string>();
+  selectedObjects.forEach(obj => {
+    const groupId = findGroupId(obj, board);
+    if (groupId) groupIds.add(groupId);
+  });
+  return Array.from(groupIds);
+};
+
+/**
+ * Whether all selected objects belong to the same group, with selections expanded to whole groups
+ */
+export const isSingleGroup = (selectedObjects: SelectedObject[], board: GroupableBoard): boolean => {
+  const groupIds = selectedObjects.map(obj => findGroupId(obj, board));
+  return groupIds.length > 0 && !!groupIds[0] && groupIds.every(groupId => groupId === groupIds[0]);
+};
+
+/**
+ * Set the group of the listed objects, null clears it
+ */
+export const applyGroupId = <T extends { id: string; groupId?: string | null }>(
+  objects: T[],
+  ids: string[],
+  groupId: string | null
+): T[] => {
+  if (ids.length === 0) return objects;
+  const idSet = new Set(ids);
+  return objects.map(object => (idSet.has(object.id) ? { ...object, groupId } : object));
+};
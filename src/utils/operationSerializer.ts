@@ -1,5 +1,11 @@
-import { LineObject, ImageObject } from '@/types/whiteboard';
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject, ObjectChangeSet, ObjectUpdates, BoardBackground } from '@/types/whiteboard';
 import { WhiteboardOperation } from '@/types/sync';
+import { applyObjectChanges, createEmptyChangeSet, isObjectChangeSet } from './objectChanges';
+import { replaceLines } from './lineSplitting';
+import { ObjectIdLists, applyGroupId } from './objectGroups';
+import { ObjectZIndex, applyZIndexes } from './sceneOrder';
+import { getShapeBounds } from './shapeGeometry';
+import { getTextBounds } from './textGeometry';
 
 export const serializeDrawOperation = (line: LineObject): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
   whiteboard_id: '', // Will be set by the calling function
@@ -17,6 +23,15 @@ export const serializeEraseOperation = (erasedLineIds: string[]): Omit<Whiteboar
   }
 });
 
+export const serializeReplaceLinesOperation = (replacedLineIds: string[], newLines: LineObject[]): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'replace_lines',
+  data: {
+    line_ids: replacedLineIds,
+    lines: newLines
+  }
+});
+
 export const serializeAddImageOperation = (image: ImageObject): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
   whiteboard_id: '', // Will be set by the calling function
   operation_type: 'add_image',
@@ -51,36 +66,139 @@ export const serializeUpdateLineOperation = (lineId: string, updates: Partial<Li
   }
 });
 
-export const serializeDeleteObjectsOperation = (lineIds: string[], imageIds: string[]): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+export const serializeAddShapeOperation = (shape: ShapeObject, replacedStrokeId?: string): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'add_shape',
+  data: {
+    shape,
+    ...(replacedStrokeId ? { stroke_id: replacedStrokeId } : {}) // Stroke snapped into this shape, its live preview is dropped
+  }
+});
+
+export const serializeUpdateShapeOperation = (shapeId: string, updates: Partial<ShapeObject>): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'update_shape',
+  data: {
+    shape_id: shapeId,
+    updates
+  }
+});
+
+export const serializeAddTextOperation = (text: TextObject): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'add_text',
+  data: {
+    text
+  }
+});
+
+export const serializeUpdateTextOperation = (textId: string, updates: Partial<TextObject>): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'update_text',
+  data: {
+    text_id: textId,
+    updates
+  }
+});
+
+export const serializeSetBackgroundOperation = (background: BoardBackground): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'set_background',
+  data: {
+    background
+  }
+});
+
+export const serializeGroupObjectsOperation = (groupId: string, ids: ObjectIdLists): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'group_objects',
+  data: {
+    group_id: groupId,
+    ...ids
+  }
+});
+
+export const serializeUngroupObjectsOperation = (ids: ObjectIdLists): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'ungroup_objects',
+  data: {
+    ...ids
+  }
+});
+
+export const serializeReorderObjectsOperation = (zIndexes: ObjectZIndex[]): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'reorder_objects',
+  data: {
+    z_indexes: zIndexes
+  }
+});
+
+export const serializeUpdateObjectsOperation = (objectUpdates: ObjectUpdates): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+  whiteboard_id: '', // Will be set by the calling function
+  operation_type: 'update_objects',
+  data: {
+    line_updates: objectUpdates.line_updates || [],
+    image_updates: objectUpdates.image_updates || [],
+    shape_updates: objectUpdates.shape_updates || [],
+    text_updates: objectUpdates.text_updates || []
+  }
+});
+
+export const serializeDeleteObjectsOperation = (
+  lineIds: string[],
+  imageIds: string[],
+  shapeIds: string[] = [],
+  textIds: string[] = []
+): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
   whiteboard_id: '', // Will be set by the calling function
   operation_type: 'delete_objects',
   data: {
     line_ids: lineIds,
-    image_ids: imageIds
+    image_ids: imageIds,
+    shape_ids: shapeIds,
+    text_ids: textIds
   }
 });
 
-export const serializeUndoOperation = (): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+export const serializeUndoOperation = (changes: ObjectChangeSet): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
   whiteboard_id: '', // Will be set by the calling function
   operation_type: 'undo',
-  data: {}
+  data: changes
 });
 
-export const serializeRedoOperation = (): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
+export const serializeRedoOperation = (changes: ObjectChangeSet): Omit<WhiteboardOperation, 'id' | 'timestamp' | 'sender_id'> => ({
   whiteboard_id: '', // Will be set by the calling function
   operation_type: 'redo',
-  data: {}
+  data: changes
 });
 
-// Helper function to calculate bounds for various object types
-export const calculateObjectBounds = (obj: LineObject | ImageObject, type: 'line' | 'image') => {
-  if (type === 'image') {
+// Helper function to calculate bounds for various object types, rotation included
+export const calculateObjectBounds = (obj: LineObject | ImageObject | ShapeObject | TextObject, type: SelectedObject['type']) => {
+  if (type === 'shape') {
+    return getShapeBounds(obj as ShapeObject);
+  } else if (type === 'text') {
+    return getTextBounds(obj as TextObject);
+  } else if (type === 'image') {
     const image = obj as ImageObject;
+    const width = image.width || 100;
+    const height = image.height || 100;
+    const rotation = image.rotation || 0;
+    if (rotation === 0) {
+      return { x: image.x, y: image.y, width, height };
+    }
+
+    // Images rotate around their centre, the bounds hold all four rotated corners
+    const rad = (rotation * Math.PI) / 180;
+    const halfWidth = (Math.abs(width * Math.cos(rad)) + Math.abs(height * Math.sin(rad))) / 2;
+    const halfHeight = (Math.abs(width * Math.sin(rad)) + Math.abs(height * Math.cos(rad))) / 2;
+    const centerX = image.x + width / 2;
+    const centerY = image.y + height / 2;
     return {
-      x: image.x,
-      y: image.y,
-      width: image.width || 100,
-      height: image.height || 100
+      x: centerX - halfWidth,
+      y: centerY - halfHeight,
+      width: halfWidth * 2,
+      height: halfHeight * 2
     };
   } else {
     const line = obj as LineObject;
@@ -121,12 +239,34 @@ export const calculateObjectBounds = (obj: LineObject | ImageObject, type: 'line
   }
 };
 
+/**
+ * Record an operation as applied
+ * @returns false when the operation was applied before and must be ignored
+ */
+export const markOperationApplied = (operation: WhiteboardOperation, appliedOperationIds: Set<string>): boolean => {
+  if (!operation.id) return true;
+  if (appliedOperationIds.has(operation.id)) return false;
+
+  appliedOperationIds.add(operation.id);
+  return true;
+};
+
+/**
+ * Apply an operation to lines, images, shapes and text boxes
+ * When appliedOperationIds is given, an operation whose ID it already contains leaves the state unchanged
+ */
 export const applyOperation = (
-  state: { lines: LineObject[]; images: ImageObject[] },
-  operation: WhiteboardOperation
-): { lines: LineObject[]; images: ImageObject[] } => {
+  state: { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] },
+  operation: WhiteboardOperation,
+  appliedOperationIds?: Set<string>
+): { lines: LineObject[]; images: ImageObject[]; shapes?: ShapeObject[]; texts?: TextObject[] } => {
   console.log(`[OperationSerializer] Applying operation: ${operation.operation_type}`, operation.data);
   
+  if (appliedOperationIds && !markOperationApplied(operation, appliedOperationIds)) {
+    console.log(`[OperationSerializer] Operation ${operation.id} already applied, skipping`);
+    return state;
+  }
+  
   switch (operation.operation_type) {
     case 'draw': {
       const newLine = operation.data.line;
@@ -157,6 +297,14 @@ export const applyOperation = (
         lines: filteredLines
       };
     }
+    case 'replace_lines': {
+      const { line_ids, lines } = operation.data;
+      console.log(`[OperationSerializer] Replacing ${line_ids.length} lines with ${lines.length} pieces`);
+      return {
+        ...state,
+        lines: replaceLines(state.lines, line_ids, lines)
+      };
+    }
     case 'add_image': {
       const newImage = operation.data.image;
       console.log('[OperationSerializer] Adding new image:', newImage);
@@ -215,13 +363,98 @@ export const applyOperation = (
         lines: updatedLines
       };
     }
+    case 'add_shape': {
+      const newShape: ShapeObject = operation.data.shape;
+      const shapes = state.shapes || [];
+      
+      // Don't add if shape already exists (prevent duplicates)
+      if (shapes.some(shape => shape.id === newShape.id)) {
+        return state;
+      }
+      return {
+        ...state,
+        shapes: [...shapes, newShape]
+      };
+    }
+    case 'update_shape': {
+      const { shape_id, updates } = operation.data;
+      
+      const updatedShapes = (state.shapes || []).map(shape =>
+        shape.id === shape_id ? { ...shape, ...updates } : shape
+      );
+      return {
+        ...state,
+        shapes: updatedShapes
+      };
+    }
+    case 'add_text': {
+      const newText: TextObject = operation.data.text;
+      const texts = state.texts || [];
+      
+      // Don't add if text box already exists (prevent duplicates)
+      if (texts.some(text => text.id === newText.id)) {
+        return state;
+      }
+      return {
+        ...state,
+        texts: [...texts, newText]
+      };
+    }
+    case 'update_text': {
+      const { text_id, updates } = operation.data;
+      
+      const updatedTexts = (state.texts || []).map(text =>
+        text.id === text_id ? { ...text, ...updates } : text
+      );
+      return {
+        ...state,
+        texts: updatedTexts
+      };
+    }
+    case 'group_objects':
+    case 'ungroup_objects': {
+      const { line_ids, image_ids, shape_ids, text_ids } = operation.data;
+      const groupId: string | null = operation.operation_type === 'group_objects' ? operation.data.group_id : null;
+
+      return {
+        ...state,
+        lines: applyGroupId(state.lines, line_ids || [], groupId),
+        images: applyGroupId(state.images, image_ids || [], groupId),
+        ...(state.shapes ? { shapes: applyGroupId(state.shapes, shape_ids || [], groupId) } : {}),
+        ...(state.texts ? { texts: applyGroupId(state.texts, text_ids || [], groupId) } : {})
+      };
+    }
+    case 'reorder_objects': {
+      const zIndexes: ObjectZIndex[] = operation.data.z_indexes || [];
+
+      return {
+        ...state,
+        lines: applyZIndexes(state.lines, zIndexes, 'line'),
+        images: applyZIndexes(state.images, zIndexes, 'image'),
+        ...(state.shapes ? { shapes: applyZIndexes(state.shapes, zIndexes, 'shape') } : {}),
+        ...(state.texts ? { texts: applyZIndexes(state.texts, zIndexes, 'text') } : {})
+      };
+    }
+    case 'update_objects': {
+      const { lines, images, shapes, texts } = applyObjectChanges(state, { ...createEmptyChangeSet(), ...operation.data });
+
+      return {
+        ...state,
+        lines,
+        images,
+        ...(state.shapes ? { shapes } : {}),
+        ...(state.texts ? { texts } : {})
+      };
+    }
     case 'delete_objects': {
-      const { line_ids, image_ids } = operation.data;
-      console.log('[OperationSerializer] Deleting objects - lines:', line_ids, 'images:', image_ids);
+      const { line_ids, image_ids, shape_ids, text_ids } = operation.data;
+      console.log('[OperationSerializer] Deleting objects - lines:', line_ids, 'images:', image_ids, 'shapes:', shape_ids, 'texts:', text_ids);
       
       // Properly handle case where arrays might be undefined or null
       const linesToRemove = line_ids || [];
       const imagesToRemove = image_ids || [];
+      const shapesToRemove: string[] = shape_ids || [];
+      const textsToRemove: string[] = text_ids || [];
       
       const filteredLines = linesToRemove.length > 0 
         ? state.lines.filter(line => !linesToRemove.includes(line.id))
@@ -237,14 +470,22 @@ export const applyOperation = (
       return {
         ...state,
         lines: filteredLines,
-        images: filteredImages
+        images: filteredImages,
+        ...(state.shapes ? { shapes: state.shapes.filter(shape => !shapesToRemove.includes(shape.id)) } : {}),
+        ...(state.texts ? { texts: state.texts.filter(text => !textsToRemove.includes(text.id)) } : {})
       };
     }
     case 'undo':
     case 'redo': {
-      // These operations are handled at the history level, not the state level
-      // Return state unchanged - the history system will handle the actual undo/redo
-      console.log(`[OperationSerializer] ${operation.operation_type} operation - handled by history system`);
+      // Undo/redo carry the explicit changes made by the sender
+      if (isObjectChangeSet(operation.data)) {
+        return {
+          ...state,
+          ...applyObjectChanges(state, operation.data)
+        };
+      }
+      // Older operations without changes are handled at the history level
+      console.log(`[OperationSerializer] ${operation.operation_type} operation without changes - handled by history system`);
       return state;
     }
     default:
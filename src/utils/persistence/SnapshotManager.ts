@@ -0,0 +1,228 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { LineObject, ImageObject, ShapeObject, TextObject, ActivityMetadata, BoardBackground } from '@/types/whiteboard';
+import { createDebugLogger, logError } from '@/utils/debug/debugConfig';
+import { PayloadConverter } from '@/utils/sync/PayloadConverter';
+import { BoardState, rebuildBoardState, reconstructActivityFromOperation } from './boardStateBuilder';
+
+const debugLog = createDebugLogger('persistence');
+
+// Write a snapshot once this many operations have been sent for a board
+export const SNAPSHOT_OPERATION_INTERVAL = 200;
+
+// Upper bound of operations folded into a single snapshot
+const SNAPSHOT_FETCH_LIMIT = 10000;
+
+const SNAPSHOT_DATA_VERSION = 1;
+
+interface SnapshotData {
+  version: number;
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes?: ShapeObject[]; // Absent in snapshots written before shapes existed
+  texts?: TextObject[]; // Absent in snapshots written before text boxes existed
+  background?: BoardBackground; // Absent in snapshots written before board backgrounds existed
+  last_activity: ActivityMetadata | null;
+}
+
+export interface WhiteboardSnapshot extends BoardState {
+  lastOperationAt: string;
+  lastOperationSeq: number | null; // Null for snapshots written before operations were sequenced
+  operationCount: number;
+  lastActivity: ActivityMetadata | null;
+}
+
+/**
+ * RPC arguments selecting the operations recorded after a snapshot,
+ * by sequence number when the snapshot has one
+ */
+export const getOperationsAfterSnapshotArgs = (
+  snapshot: WhiteboardSnapshot | null
+): { p_after_seq?: number; p_since?: string } => {
+  if (!snapshot) return {};
+  if (snapshot.lastOperationSeq !== null) return { p_after_seq: snapshot.lastOperationSeq };
+  return { p_since: snapshot.lastOperationAt };
+};
+
+/**
+ * Singleton manager for whiteboard snapshots
+ * Folds persisted operations into whiteboard_snapshots so boards load from the
+ * newest snapshot plus only the operations recorded after it
+ */
+class SnapshotManager {
+  private static instance: SnapshotManager;
+  private operationCounts: Map<string, number> = new Map();
+  private inFlight: Map<string, Promise<WhiteboardSnapshot | null>> = new Map();
+
+  // Private constructor for singleton pattern
+  private constructor() {}
+
+  public static getInstance(): SnapshotManager {
+    if (!SnapshotManager.instance) {
+      SnapshotManager.instance = new SnapshotManager();
+    }
+    return SnapshotManager.instance;
+  }
+
+  /**
+   * Fetch the newest snapshot for a board, or null if none has been written yet
+   */
+  public async fetchLatestSnapshot(sessionId: string, boardId: string): Promise<WhiteboardSnapshot | null> {
+    const { data, error } = await supabase
+      .rpc('public_get_latest_whiteboard_snapshot', {
+        p_session_id: sessionId,
+        p_board_id: boardId
+      });
+
+    if (error) {
+      throw new Error(`Error fetching whiteboard snapshot: ${error.message}`);
+    }
+
+    const row = data?.[0];
+    if (!row || !row.last_operation_at) {
+      return null;
+    }
+
+    const snapshotData = row.snapshot_data as unknown as Partial<SnapshotData> | null;
+    debugLog('Fetch', `Loaded snapshot for ${boardId} covering ${row.operation_count} operations`);
+
+    return {
+      lines: (snapshotData?.lines || []) as LineObject[],
+      images: (snapshotData?.images || []) as ImageObject[],
+      shapes: (snapshotData?.shapes || []) as ShapeObject[],
+      texts: (snapshotData?.texts || []) as TextObject[],
+      background: (snapshotData?.background || 'none') as BoardBackground,
+      lastActivity: (snapshotData?.last_activity || null) as ActivityMetadata | null,
+      lastOperationAt: row.last_operation_at,
+      lastOperationSeq: row.last_operation_seq ?? null,
+      operationCount: row.operation_count
+    };
+  }
+
+  /**
+   * Count a successfully persisted operation and snapshot the board every SNAPSHOT_OPERATION_INTERVAL operations
+   */
+  public recordOperation(sessionId: string, boardId: string): void {
+    const key = `${sessionId}-${boardId}`;
+    const count = (this.operationCounts.get(key) || 0) + 1;
+
+    if (count >= SNAPSHOT_OPERATION_INTERVAL) {
+      this.operationCounts.set(key, 0);
+      this.createSnapshot(sessionId, boardId);
+    } else {
+      this.operationCounts.set(key, count);
+    }
+  }
+
+  /**
+   * Fold the newest snapshot and the operations after it into a new snapshot
+   * The server compacts the operations the new snapshot covers, and only accepts
+   * snapshots from the session's teacher
+   */
+  public createSnapshot(sessionId: string, boardId: string): Promise<WhiteboardSnapshot | null> {
+    const key = `${sessionId}-${boardId}`;
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      debugLog('Create', `Snapshot already in progress for ${boardId}`);
+      return pending;
+    }
+
+    const promise = this.buildAndSaveSnapshot(sessionId, boardId)
+      .catch((err) => {
+        logError('SnapshotManager', `Error creating snapshot for ${boardId}`, err);
+        return null;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  /**
+   * Snapshot every given board of a session, e.g. right before the session ends
+   */
+  public async snapshotBoards(sessionId: string, boardIds: string[]): Promise<void> {
+    debugLog('Create', `Snapshotting ${boardIds.length} boards for session ${sessionId}`);
+    await Promise.all(boardIds.map(boardId => this.createSnapshot(sessionId, boardId)));
+  }
+
+  private async buildAndSaveSnapshot(sessionId: string, boardId: string): Promise<WhiteboardSnapshot | null> {
+    // Always build from the database, never from local state, so the snapshot
+    // cannot miss operations this client has not received yet
+    const latest = await this.fetchLatestSnapshot(sessionId, boardId);
+
+    const { data: rows, error } = await supabase
+      .rpc('public_get_whiteboard_operations', {
+        p_session_id: sessionId,
+        p_board_id: boardId,
+        p_limit: SNAPSHOT_FETCH_LIMIT,
+        ...getOperationsAfterSnapshotArgs(latest)
+      });
+
+    if (error) {
+      throw new Error(`Error fetching operations for snapshot: ${error.message}`);
+    }
+
+    if (!rows || rows.length === 0) {
+      debugLog('Create', `No new operations for ${boardId}, skipping snapshot`);
+      return latest;
+    }
+
+    // The server compacts by sequence number, so a snapshot must know the last one it covers
+    const lastRow = rows[rows.length - 1];
+    if (typeof lastRow.seq !== 'number') {
+      debugLog('Create', `Operations for ${boardId} have no sequence numbers, skipping snapshot`);
+      return latest;
+    }
+
+    // Malformed rows are left out of the snapshot and compacted away with the rest
+    const operations = PayloadConverter.decodeValidRows(rows);
+    const lastOperation = operations[operations.length - 1];
+
+    const { lines, images, shapes, texts, background } = rebuildBoardState(operations, latest);
+    const lastActivity = (lastOperation && reconstructActivityFromOperation(lastOperation, lines, images, shapes, texts)) || latest?.lastActivity || null;
+
+    const snapshot: WhiteboardSnapshot = {
+      lines,
+      images,
+      shapes,
+      texts,
+      background,
+      lastActivity,
+      lastOperationAt: lastRow.created_at,
+      lastOperationSeq: lastRow.seq,
+      operationCount: (latest?.operationCount || 0) + rows.length
+    };
+
+    const snapshotData: SnapshotData = {
+      version: SNAPSHOT_DATA_VERSION,
+      lines,
+      images,
+      shapes,
+      texts,
+      background,
+      last_activity: lastActivity
+    };
+
+    const { error: saveError } = await supabase
+      .rpc('public_save_whiteboard_snapshot', {
+        p_session_id: sessionId,
+        p_board_id: boardId,
+        p_snapshot_data: snapshotData as unknown as Json,
+        p_last_operation_at: snapshot.lastOperationAt,
+        p_operation_count: snapshot.operationCount,
+        p_last_operation_seq: lastRow.seq
+      });
+
+    if (saveError) {
+      throw new Error(`Error saving snapshot: ${saveError.message}`);
+    }
+
+    debugLog('Create', `Saved snapshot for ${boardId}: ${lines.length} lines, ${images.length} images, ${shapes.length} shapes, ${texts.length} texts, ${snapshot.operationCount} operations`);
+    return snapshot;
+  }
+}
+
+export default SnapshotManager.getInstance();
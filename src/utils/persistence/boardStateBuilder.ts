@@ -0,0 +1,503 @@
+import { LineObject, ImageObject, ShapeObject, TextObject, ActivityMetadata, BoardBackground } from '@/types/whiteboard';
+import { OperationType } from '@/types/sync';
+import { calculateLineBounds } from '@/hooks/shared/drawing/useDrawingBounds';
+import { isObjectChangeSet } from '@/utils/objectChanges';
+import { getShapeBounds } from '@/utils/shapeGeometry';
+import { getTextBounds } from '@/utils/textGeometry';
+
+/**
+ * @fileoverview Rebuilds board state from persisted whiteboard_data rows
+ * @description Shared by board loading and snapshot creation so both always
+ * produce the same lines/images/shapes/texts and background for the same set of operations.
+ */
+
+export interface BoardState {
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes: ShapeObject[];
+  texts: TextObject[];
+  background?: BoardBackground; // Absent in snapshots taken before board backgrounds existed
+}
+
+// Helper function to calculate image bounds
+const calculateImageBounds = (image: ImageObject) => {
+  const width = image.width || 100;
+  const height = image.height || 100;
+
+  return {
+    x: image.x,
+    y: image.y,
+    width,
+    height
+  };
+};
+
+/**
+ * Fold database operations (oldest first) on top of an optional base state
+ */
+export const rebuildBoardState = (operations: any[], base?: BoardState | null): BoardState => {
+  const linesMap = new Map<string, LineObject>();
+  const imagesMap = new Map<string, ImageObject>();
+  const shapesMap = new Map<string, ShapeObject>();
+  const deletedLineIds = new Set<string>();
+  const deletedImageIds = new Set<string>();
+  const deletedShapeIds = new Set<string>();
+  const textsMap = new Map<string, TextObject>();
+  const deletedTextIds = new Set<string>();
+
+  // Start from the snapshot state when one is available
+  base?.lines.forEach(line => linesMap.set(line.id, line));
+  base?.images.forEach(image => imagesMap.set(image.id, image));
+  base?.shapes?.forEach(shape => shapesMap.set(shape.id, shape)); // Absent in snapshots taken before shapes existed
+  base?.texts?.forEach(text => textsMap.set(text.id, text)); // Absent in snapshots taken before text boxes existed
+  let background: BoardBackground = base?.background || 'none';
+
+  // First pass: collect all objects that were added
+  operations.forEach((operation) => {
+    const operationType = operation.action_type as OperationType;
+    const operationData = operation.object_data as any;
+
+    if (operationType === 'draw') {
+      const line = operationData.line as LineObject;
+      if (line && line.id) {
+        linesMap.set(line.id, line);
+      }
+    } else if (operationType === 'add_image') {
+      const image = operationData.image as ImageObject;
+      if (image && image.id) {
+        imagesMap.set(image.id, image);
+      }
+    } else if (operationType === 'replace_lines') {
+      // Pieces of split lines, the lines they replace are removed in the second pass
+      ((operationData.lines || []) as LineObject[]).forEach(line => {
+        if (line && line.id) {
+          linesMap.set(line.id, line);
+        }
+      });
+    } else if (operationType === 'add_shape') {
+      const shape = operationData.shape as ShapeObject;
+      if (shape && shape.id) {
+        shapesMap.set(shape.id, shape);
+      }
+    } else if (operationType === 'add_text') {
+      const text = operationData.text as TextObject;
+      if (text && text.id) {
+        textsMap.set(text.id, text);
+      }
+    } else if (operationType === 'set_background') {
+      // Operations are oldest first, so the latest background wins
+      if (operationData.background) {
+        background = operationData.background as BoardBackground;
+      }
+    }
+  });
+
+  // Second pass: apply all deletion and update operations
+  operations.forEach((operation) => {
+    const operationType = operation.action_type as OperationType;
+    const operationData = operation.object_data as any;
+
+    switch (operationType) {
+      case 'erase': {
+        // Remove lines
+        const lineIds = (operationData.line_ids || operationData.lineIds) as string[];
+        if (lineIds && Array.isArray(lineIds)) {
+          lineIds.forEach(id => {
+            linesMap.delete(id);
+            deletedLineIds.add(id); // Store deleted line IDs
+          });
+        }
+        break;
+      }
+      case 'replace_lines': {
+        // Remove the lines that were split
+        const replacedLineIds = operationData.line_ids as string[];
+        if (replacedLineIds && Array.isArray(replacedLineIds)) {
+          replacedLineIds.forEach(id => {
+            linesMap.delete(id);
+            deletedLineIds.add(id);
+          });
+        }
+        break;
+      }
+      case 'update_line': {
+        // Update line attributes
+        const lineId = operationData.line_id as string;
+        const lineUpdates = operationData.updates as Partial<LineObject>;
+        if (lineId && lineUpdates && linesMap.has(lineId)) {
+          const existingLine = linesMap.get(lineId)!;
+          linesMap.set(lineId, { ...existingLine, ...lineUpdates });
+        }
+        break;
+      }
+      case 'update_image': {
+        // Update image attributes
+        const imageIdToUpdate = operationData.image_id as string;
+        const imageUpdates = operationData.updates as Partial<ImageObject>;
+        if (imageIdToUpdate && imageUpdates) {
+          // For backward compatibility, also check if image is directly in data
+          const imageFromData = operationData.image as ImageObject;
+          if (imageFromData && imageFromData.id) {
+            imagesMap.set(imageFromData.id, imageFromData);
+          } else if (imagesMap.has(imageIdToUpdate)) {
+            const existingImage = imagesMap.get(imageIdToUpdate)!;
+            imagesMap.set(imageIdToUpdate, { ...existingImage, ...imageUpdates });
+          }
+        }
+        break;
+      }
+      case 'update_shape': {
+        // Update shape attributes
+        const shapeId = operationData.shape_id as string;
+        const shapeUpdates = operationData.updates as Partial<ShapeObject>;
+        if (shapeId && shapeUpdates && shapesMap.has(shapeId)) {
+          const existingShape = shapesMap.get(shapeId)!;
+          shapesMap.set(shapeId, { ...existingShape, ...shapeUpdates });
+        }
+        break;
+      }
+      case 'update_text': {
+        // Update text box attributes
+        const textId = operationData.text_id as string;
+        const textUpdates = operationData.updates as Partial<TextObject>;
+        if (textId && textUpdates && textsMap.has(textId)) {
+          const existingText = textsMap.get(textId)!;
+          textsMap.set(textId, { ...existingText, ...textUpdates });
+        }
+        break;
+      }
+      case 'update_objects': {
+        // Updates to several objects at once, objects deleted since are skipped
+        const updateAll = <T>(objectsMap: Map<string, T>, updates: Array<{ id: string; updates: Partial<T> }>) => {
+          updates.forEach(({ id, updates: objectUpdates }) => {
+            const existing = objectsMap.get(id);
+            if (existing && objectUpdates) objectsMap.set(id, { ...existing, ...objectUpdates });
+          });
+        };
+        updateAll(linesMap, ((operationData.line_updates || []) as Array<{ line_id: string; updates: Partial<LineObject> }>).map(u => ({ id: u.line_id, updates: u.updates })));
+        updateAll(imagesMap, ((operationData.image_updates || []) as Array<{ image_id: string; updates: Partial<ImageObject> }>).map(u => ({ id: u.image_id, updates: u.updates })));
+        updateAll(shapesMap, ((operationData.shape_updates || []) as Array<{ shape_id: string; updates: Partial<ShapeObject> }>).map(u => ({ id: u.shape_id, updates: u.updates })));
+        updateAll(textsMap, ((operationData.text_updates || []) as Array<{ text_id: string; updates: Partial<TextObject> }>).map(u => ({ id: u.text_id, updates: u.updates })));
+        break;
+      }
+      case 'group_objects':
+      case 'ungroup_objects': {
+        // Set or clear the group of the listed objects
+        const groupId = operationType === 'group_objects' ? operationData.group_id as string : null;
+        const setGroup = <T extends { groupId?: string | null }>(objectsMap: Map<string, T>, ids: string[] | undefined) => {
+          (ids || []).forEach(id => {
+            const existing = objectsMap.get(id);
+            if (existing) objectsMap.set(id, { ...existing, groupId });
+          });
+        };
+        setGroup(linesMap, operationData.line_ids);
+        setGroup(imagesMap, operationData.image_ids);
+        setGroup(shapesMap, operationData.shape_ids);
+        setGroup(textsMap, operationData.text_ids);
+        break;
+      }
+      case 'reorder_objects': {
+        // New stacking positions, objects deleted since are skipped
+        const objectsMaps = { line: linesMap, image: imagesMap, shape: shapesMap, text: textsMap };
+        ((operationData.z_indexes || []) as Array<{ id: string; type: keyof typeof objectsMaps; z_index: number }>).forEach(({ id, type, z_index }) => {
+          const objectsMap = objectsMaps[type] as Map<string, { zIndex?: number | null }> | undefined;
+          const existing = objectsMap?.get(id);
+          if (objectsMap && existing) objectsMap.set(id, { ...existing, zIndex: z_index });
+        });
+        break;
+      }
+      case 'delete_image': {
+        // Remove image
+        const imageId = operationData.image_id as string;
+        if (imageId) {
+          imagesMap.delete(imageId);
+          deletedImageIds.add(imageId); // Store deleted image IDs
+        }
+        break;
+      }
+      case 'delete_objects': {
+        // Delete multiple objects
+        const deleteLineIds = operationData.line_ids as string[];
+        const deleteImageIds = operationData.image_ids as string[];
+        const deleteShapeIds = operationData.shape_ids as string[] | undefined;
+        const deleteTextIds = operationData.text_ids as string[] | undefined;
+
+        if (deleteLineIds && Array.isArray(deleteLineIds)) {
+          deleteLineIds.forEach(id => {
+            linesMap.delete(id);
+            deletedLineIds.add(id); // Store deleted line IDs
+          });
+        }
+        if (deleteImageIds && Array.isArray(deleteImageIds)) {
+          deleteImageIds.forEach(id => {
+            imagesMap.delete(id);
+            deletedImageIds.add(id); // Store deleted image IDs
+          });
+        }
+        if (deleteShapeIds && Array.isArray(deleteShapeIds)) {
+          deleteShapeIds.forEach(id => {
+            shapesMap.delete(id);
+            deletedShapeIds.add(id);
+          });
+        }
+        if (deleteTextIds && Array.isArray(deleteTextIds)) {
+          deleteTextIds.forEach(id => {
+            textsMap.delete(id);
+            deletedTextIds.add(id);
+          });
+        }
+        break;
+      }
+      case 'undo':
+      case 'redo': {
+        // Older undo/redo operations carried no changes and cannot be folded
+        if (!isObjectChangeSet(operationData)) break;
+
+        (operationData.lines_to_add || []).forEach(line => {
+          linesMap.set(line.id, line);
+          deletedLineIds.delete(line.id); // Restored after an earlier deletion
+        });
+        (operationData.images_to_add || []).forEach(image => {
+          imagesMap.set(image.id, image);
+          deletedImageIds.delete(image.id);
+        });
+        (operationData.line_ids_to_remove || []).forEach(id => {
+          linesMap.delete(id);
+          deletedLineIds.add(id);
+        });
+        (operationData.image_ids_to_remove || []).forEach(id => {
+          imagesMap.delete(id);
+          deletedImageIds.add(id);
+        });
+        (operationData.line_updates || []).forEach(({ line_id, updates }) => {
+          const existingLine = linesMap.get(line_id);
+          if (existingLine) linesMap.set(line_id, { ...existingLine, ...updates });
+        });
+        (operationData.image_updates || []).forEach(({ image_id, updates }) => {
+          const existingImage = imagesMap.get(image_id);
+          if (existingImage) imagesMap.set(image_id, { ...existingImage, ...updates });
+        });
+        (operationData.shapes_to_add || []).forEach(shape => {
+          shapesMap.set(shape.id, shape);
+          deletedShapeIds.delete(shape.id);
+        });
+        (operationData.shape_ids_to_remove || []).forEach(id => {
+          shapesMap.delete(id);
+          deletedShapeIds.add(id);
+        });
+        (operationData.shape_updates || []).forEach(({ shape_id, updates }) => {
+          const existingShape = shapesMap.get(shape_id);
+          if (existingShape) shapesMap.set(shape_id, { ...existingShape, ...updates });
+        });
+        (operationData.texts_to_add || []).forEach(text => {
+          textsMap.set(text.id, text);
+          deletedTextIds.delete(text.id);
+        });
+        (operationData.text_ids_to_remove || []).forEach(id => {
+          textsMap.delete(id);
+          deletedTextIds.add(id);
+        });
+        (operationData.text_updates || []).forEach(({ text_id, updates }) => {
+          const existingText = textsMap.get(text_id);
+          if (existingText) textsMap.set(text_id, { ...existingText, ...updates });
+        });
+        break;
+      }
+    }
+  });
+
+  // Convert maps to arrays, excluding deleted objects
+  return {
+    lines: Array.from(linesMap.values()).filter(line => !deletedLineIds.has(line.id)),
+    images: Array.from(imagesMap.values()).filter(image => !deletedImageIds.has(image.id)),
+    shapes: Array.from(shapesMap.values()).filter(shape => !deletedShapeIds.has(shape.id)),
+    texts: Array.from(textsMap.values()).filter(text => !deletedTextIds.has(text.id)),
+    background
+  };
+};
+
+/**
+ * Reconstruct activity metadata from the last database operation
+ */
+export const reconstructActivityFromOperation = (
+  operation: any,
+  finalLines: LineObject[],
+  finalImages: ImageObject[],
+  finalShapes: ShapeObject[] = [],
+  finalTexts: TextObject[] = []
+): ActivityMetadata | null => {
+  const operationType = operation.action_type as OperationType;
+  const operationData = operation.object_data as any;
+  const timestamp = new Date(operation.created_at).getTime();
+
+  console.log(`[ActivityReconstruction] Processing operation: ${operationType}`, operationData);
+
+  switch (operationType) {
+    case 'draw': {
+      const line = operationData.line as LineObject;
+      if (line && line.id) {
+        // Find the line in the final state to get its current bounds
+        const currentLine = finalLines.find(l => l.id === line.id);
+        if (currentLine) {
+          const bounds = calculateLineBounds(currentLine);
+          console.log(`[ActivityReconstruction] Draw activity bounds:`, bounds);
+          return {
+            type: 'draw',
+            bounds,
+            timestamp
+          };
+        }
+      }
+      break;
+    }
+
+    case 'add_image': {
+      const image = operationData.image as ImageObject;
+      if (image && image.id) {
+        // Find the image in the final state
+        const currentImage = finalImages.find(img => img.id === image.id);
+        if (currentImage) {
+          const bounds = calculateImageBounds(currentImage);
+          console.log(`[ActivityReconstruction] Paste activity bounds:`, bounds);
+          return {
+            type: 'paste',
+            bounds,
+            timestamp
+          };
+        }
+      }
+      break;
+    }
+
+    case 'update_line': {
+      const lineId = operationData.line_id as string;
+      if (lineId) {
+        const currentLine = finalLines.find(l => l.id === lineId);
+        if (currentLine) {
+          const bounds = calculateLineBounds(currentLine);
+          console.log(`[ActivityReconstruction] Move activity bounds (line):`, bounds);
+          return {
+            type: 'move',
+            bounds,
+            timestamp
+          };
+        }
+      }
+      break;
+    }
+
+    case 'update_image': {
+      const imageId = operationData.image_id as string;
+      if (imageId) {
+        const currentImage = finalImages.find(img => img.id === imageId);
+        if (currentImage) {
+          const bounds = calculateImageBounds(currentImage);
+          console.log(`[ActivityReconstruction] Move activity bounds (image):`, bounds);
+          return {
+            type: 'move',
+            bounds,
+            timestamp
+          };
+        }
+      }
+      break;
+    }
+
+    case 'add_shape':
+    case 'update_shape': {
+      const shapeId = operationType === 'add_shape'
+        ? (operationData.shape?.id as string)
+        : (operationData.shape_id as string);
+      const currentShape = shapeId ? finalShapes.find(shape => shape.id === shapeId) : undefined;
+      if (currentShape) {
+        const bounds = getShapeBounds(currentShape);
+        console.log(`[ActivityReconstruction] Shape activity bounds:`, bounds);
+        return {
+          type: operationType === 'add_shape' ? 'draw' : 'move',
+          bounds,
+          timestamp
+        };
+      }
+      break;
+    }
+
+    case 'add_text':
+    case 'update_text': {
+      const textId = operationType === 'add_text'
+        ? (operationData.text?.id as string)
+        : (operationData.text_id as string);
+      const currentText = textId ? finalTexts.find(text => text.id === textId) : undefined;
+      if (currentText) {
+        const bounds = getTextBounds(currentText);
+        console.log(`[ActivityReconstruction] Text activity bounds:`, bounds);
+        return {
+          type: operationType === 'add_text' ? 'draw' : 'move',
+          bounds,
+          timestamp
+        };
+      }
+      break;
+    }
+
+    case 'erase': {
+      // For erase operations, we can use stored bounds if available
+      const lineIds = (operationData.line_ids || operationData.lineIds) as string[];
+      if (lineIds && lineIds.length > 0) {
+        // If bounds were stored in the operation data, use them
+        if (operationData.bounds) {
+          console.log(`[ActivityReconstruction] Erase activity bounds (stored):`, operationData.bounds);
+          return {
+            type: 'erase',
+            bounds: operationData.bounds,
+            timestamp
+          };
+        }
+
+        // Otherwise, create a default bounds (this is a fallback)
+        console.log(`[ActivityReconstruction] Erase activity - using default bounds`);
+        return {
+          type: 'erase',
+          bounds: { x: 0, y: 0, width: 100, height: 100 },
+          timestamp
+        };
+      }
+      break;
+    }
+
+    case 'replace_lines': {
+      // Partial erase, bounds of the erased area are stored with the operation
+      if (operationData.erased_bounds) {
+        console.log(`[ActivityReconstruction] Partial erase activity bounds (stored):`, operationData.erased_bounds);
+        return {
+          type: 'erase',
+          bounds: operationData.erased_bounds,
+          timestamp
+        };
+      }
+      break;
+    }
+
+    case 'delete_objects': {
+      // Similar to erase, use stored bounds if available
+      if (operationData.bounds) {
+        console.log(`[ActivityReconstruction] Delete activity bounds (stored):`, operationData.bounds);
+        return {
+          type: 'erase',
+          bounds: operationData.bounds,
+          timestamp
+        };
+      }
+
+      // Fallback for delete operations
+      console.log(`[ActivityReconstruction] Delete activity - using default bounds`);
+      return {
+        type: 'erase',
+        bounds: { x: 0, y: 0, width: 100, height: 100 },
+        timestamp
+      };
+    }
+  }
+
+  console.log(`[ActivityReconstruction] Could not reconstruct activity for operation: ${operationType}`);
+  return null;
+};
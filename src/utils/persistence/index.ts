@@ -0,0 +1,7 @@
+
+import SnapshotManager from './SnapshotManager';
+
+export { SnapshotManager };
+export { SNAPSHOT_OPERATION_INTERVAL, getOperationsAfterSnapshotArgs } from './SnapshotManager';
+export type { WhiteboardSnapshot } from './SnapshotManager';
+export * from './boardStateBuilder';
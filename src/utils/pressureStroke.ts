@@ -0,0 +1,69 @@
+import Konva from 'konva';
+import { LineObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Variable-width outlines for pressure-sensitive strokes
+ * @description The stroke width is the width at full pressure. The outline is filled as the
+ * union of a circle at every point and a quad along every segment, so joins and caps stay round.
+ */
+
+// Width at zero pressure, relative to the stroke width
+const MIN_PRESSURE_WIDTH_RATIO = 0.2;
+
+/**
+ * Whether the line was drawn with per-point pressure
+ */
+export const hasPressure = (line: Pick<LineObject, 'pressures'>): line is { pressures: number[] } =>
+  !!line.pressures && line.pressures.length > 0;
+
+/**
+ * Stroke width at a point for the given pressure (0 to 1)
+ */
+export const getPressureWidth = (strokeWidth: number, pressure: number): number => {
+  const clamped = Math.min(1, Math.max(0, pressure));
+  return strokeWidth * (MIN_PRESSURE_WIDTH_RATIO + (1 - MIN_PRESSURE_WIDTH_RATIO) * clamped);
+};
+
+/**
+ * Add the outline of a pressure stroke to the current path
+ * Every sub-path winds the same way, so a nonzero fill covers their union without gaps
+ */
+export const tracePressureStroke = (
+  context: Konva.Context,
+  points: number[],
+  pressures: number[],
+  strokeWidth: number
+) => {
+  const pointCount = Math.floor(points.length / 2);
+  // Strokes streamed or edited by older clients may carry fewer pressures than points
+  const radiusAt = (index: number) =>
+    getPressureWidth(strokeWidth, pressures[Math.min(index, pressures.length - 1)]) / 2;
+
+  for (let i = 0; i < pointCount; i++) {
+    const x = points[i * 2];
+    const y = points[i * 2 + 1];
+    const radius = radiusAt(i);
+
+    context.moveTo(x + radius, y);
+    context.arc(x, y, radius, 0, Math.PI * 2, false);
+
+    if (i === 0) continue;
+
+    const prevX = points[i * 2 - 2];
+    const prevY = points[i * 2 - 1];
+    const prevRadius = radiusAt(i - 1);
+    const dx = x - prevX;
+    const dy = y - prevY;
+    const length = Math.hypot(dx, dy);
+    if (length === 0) continue;
+
+    const normalX = -dy / length;
+    const normalY = dx / length;
+
+    context.moveTo(prevX - normalX * prevRadius, prevY - normalY * prevRadius);
+    context.lineTo(x - normalX * radius, y - normalY * radius);
+    context.lineTo(x + normalX * radius, y + normalY * radius);
+    context.lineTo(prevX + normalX * prevRadius, prevY + normalY * prevRadius);
+    context.closePath();
+  }
+};
@@ -0,0 +1,169 @@
+import { LineObject, ImageObject, ShapeObject, TextObject, SelectedObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Stacking order of board objects
+ * @description Lines, images, shapes and text boxes are drawn as one ordered scene, lowest zIndex first.
+ * Objects without a zIndex, on boards from before z-ordering or added since the last reorder, keep the
+ * old layer order (images, shapes, ink, then text) above all ordered objects. A reorder only gives new
+ * zIndex values to the moved objects, fractions between their new neighbours, plus any unordered
+ * objects that end up below them.
+ */
+
+export type SceneItem =
+  | { type: 'line'; object: LineObject }
+  | { type: 'image'; object: ImageObject }
+  | { type: 'shape'; object: ShapeObject }
+  | { type: 'text'; object: TextObject };
+
+export type ReorderDirection = 'forward' | 'backward' | 'front' | 'back';
+
+// New stacking position of one object, as sent in reorder_objects operations
+export interface ObjectZIndex {
+  id: string;
+  type: SelectedObject['type'];
+  z_index: number;
+}
+
+interface SceneBoard {
+  lines: LineObject[];
+  images: ImageObject[];
+  shapes?: ShapeObject[];
+  texts?: TextObject[];
+}
+
+/**
+ * All board objects, bottom to top
+ */
+export const getSceneOrder = (board: SceneBoard): SceneItem[] => {
+  // Listed in the old layer order; the sort is stable, so objects without a zIndex keep it
+  const items: SceneItem[] = [
+    ...board.images.map(object => ({ type: 'image' as const, object })),
+    ...(board.shapes || []).map(object => ({ type: 'shape' as const, object })),
+    ...board.lines.map(object => ({ type: 'line' as const, object })),
+    ...(board.texts || []).map(object => ({ type: 'text' as const, object }))
+  ];
+
+  return items.sort((a, b) => {
+    const aZ = a.object.zIndex ?? Infinity;
+    const bZ = b.object.zIndex ?? Infinity;
+    if (aZ === bZ) return 0;
+    return aZ < bZ ? -1 : 1;
+  });
+};
+
+/**
+ * The scene with the selected objects moved one step or all the way up or down, keeping their relative order
+ */
+export const reorderScene = (scene: SceneItem[], selectedObjects: SelectedObject[], direction: ReorderDirection): SceneItem[] => {
+  const selectedIds = new Set(selectedObjects.map(obj => obj.id));
+  const isSelected = (item: SceneItem) => selectedIds.has(item.object.id);
+
+  if (direction === 'front') {
+    return [...scene.filter(item => !isSelected(item)), ...scene.filter(isSelected)];
+  }
+  if (direction === 'back') {
+    return [...scene.filter(isSelected), ...scene.filter(item => !isSelected(item))];
+  }
+
+  const reordered = [...scene];
+  const swap = (i: number, j: number) => {
+    [reordered[i], reordered[j]] = [reordered[j], reordered[i]];
+  };
+
+  if (direction === 'forward') {
+    // From the top down, so adjacent selected objects move up together past the next object
+    for (let i = reordered.length - 2; i >= 0; i--) {
+      if (isSelected(reordered[i]) && !isSelected(reordered[i + 1])) swap(i, i + 1);
+    }
+  } else {
+    for (let i = 1; i < reordered.length; i++) {
+      if (isSelected(reordered[i]) && !isSelected(reordered[i - 1])) swap(i, i - 1);
+    }
+  }
+  return reordered;
+};
+
+// zIndex for each of `count` objects placed in order between two others, null when no room is left
+const fillZIndexes = (below: number | null, above: number | null, count: number): number[] | null => {
+  const values = Array.from({ length: count }, (_, i) => {
+    if (below !== null && above !== null) return below + ((above - below) * (i + 1)) / (count + 1);
+    if (below !== null) return below + i + 1;
+    if (above !== null) return above - (count - i);
+    return i;
+  });
+
+  const isOrdered = values.every((value, i) =>
+    value > (i === 0 ? (below ?? -Infinity) : values[i - 1]) && value < (above ?? Infinity)
+  );
+  return isOrdered ? values : null;
+};
+
+/**
+ * New zIndex values that put the scene in its reordered order
+ * Only the moved objects, and objects without a zIndex that end up below one of them, are given one
+ */
+export const getZIndexUpdates = (reorderedScene: SceneItem[], movedObjects: SelectedObject[]): ObjectZIndex[] => {
+  const movedIds = new Set(movedObjects.map(obj => obj.id));
+  const lastMovedIndex = reorderedScene.reduce((last, item, index) => (movedIds.has(item.object.id) ? index : last), -1);
+
+  // Objects without a zIndex sort above every ordered one, so those below a moved object need one too
+  const needsZIndex = (item: SceneItem, index: number) =>
+    movedIds.has(item.object.id) || (item.object.zIndex == null && index < lastMovedIndex);
+
+  const zIndexes = new Map<string, number>();
+  let below: number | null = null;
+  let run: SceneItem[] = [];
+
+  for (let index = 0; index <= reorderedScene.length; index++) {
+    const item = reorderedScene[index];
+    if (item && needsZIndex(item, index)) {
+      run.push(item);
+      continue;
+    }
+
+    const above = item?.object.zIndex ?? null;
+    if (run.length > 0) {
+      // Objects that already sit in order between their neighbours keep their zIndex
+      const current = run.map(runItem => runItem.object.zIndex ?? null);
+      const isInPlace = current.every((value, i) =>
+        value !== null && value > (i === 0 ? (below ?? -Infinity) : (current[i - 1] as number)) && value < (above ?? Infinity)
+      );
+      const values = isInPlace ? (current as number[]) : fillZIndexes(below, above, run.length);
+      if (!values) {
+        // Repeated halving left no room between the neighbours, number the whole scene again
+        return reorderedScene
+          .map((sceneItem, sceneIndex) => ({ item: sceneItem, index: sceneIndex }))
+          .filter(({ item: sceneItem, index: sceneIndex }) => sceneItem.object.zIndex !== sceneIndex)
+          .map(({ item: sceneItem, index: sceneIndex }) => ({ id: sceneItem.object.id, type: sceneItem.type, z_index: sceneIndex }));
+      }
+      run.forEach((runItem, i) => zIndexes.set(runItem.object.id, values[i]));
+      run = [];
+    }
+    below = above;
+  }
+
+  return reorderedScene
+    .filter(item => zIndexes.has(item.object.id) && zIndexes.get(item.object.id) !== item.object.zIndex)
+    .map(item => ({ id: item.object.id, type: item.type, z_index: zIndexes.get(item.object.id) as number }));
+};
+
+/**
+ * Set the zIndex of the listed objects
+ */
+export const applyZIndexes = <T extends { id: string; zIndex?: number | null }>(
+  objects: T[],
+  zIndexes: ObjectZIndex[],
+  type: SelectedObject['type']
+): T[] => {
+  const zIndexById = new Map(zIndexes.filter(entry => entry.type === type).map(entry => [entry.id, entry.z_index]));
+  if (zIndexById.size === 0) return objects;
+  return objects.map(object => (zIndexById.has(object.id) ? { ...object, zIndex: zIndexById.get(object.id) } : object));
+};
+
+/**
+ * Objects ordered topmost first, so a click picks what is drawn on top
+ */
+export const sortTopmostFirst = (objects: SelectedObject[], board: SceneBoard): SelectedObject[] => {
+  const positions = new Map(getSceneOrder(board).map((item, index) => [item.object.id, index]));
+  return [...objects].sort((a, b) => (positions.get(b.id) ?? -1) - (positions.get(a.id) ?? -1));
+};
@@ -0,0 +1,164 @@
+import { ShapeObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Geometry helpers for shapes
+ * @description A shape is a box from (x, y) sized width by height and rotated around its centre.
+ * Lines and arrows run along the box from (x, y) to (x + width, y + height).
+ */
+
+// Extra distance around a shape's outline that still counts as a hit
+const SHAPE_HIT_TOLERANCE = 5;
+
+/**
+ * Centre of the shape, the pivot of its rotation
+ */
+export const getShapeCenter = (shape: ShapeObject) => ({
+  x: shape.x + shape.width / 2,
+  y: shape.y + shape.height / 2
+});
+
+/**
+ * Whether the shape is drawn along its diagonal rather than as a closed outline
+ */
+export const isLinearShape = (shape: ShapeObject): boolean =>
+  shape.kind === 'line' || shape.kind === 'arrow';
+
+/**
+ * Rotate a point around the shape's centre by the shape's rotation
+ */
+const rotateAroundCenter = (shape: ShapeObject, point: { x: number; y: number }, direction: 1 | -1 = 1) => {
+  const rotation = shape.rotation || 0;
+  if (rotation === 0) return point;
+
+  const center = getShapeCenter(shape);
+  const rad = (direction * rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+
+  return {
+    x: center.x + dx * cos - dy * sin,
+    y: center.y + dx * sin + dy * cos
+  };
+};
+
+/**
+ * Start and end of a line or arrow in whiteboard coordinates
+ */
+export const getShapeEndpoints = (shape: ShapeObject) => ({
+  start: rotateAroundCenter(shape, { x: shape.x, y: shape.y }),
+  end: rotateAroundCenter(shape, { x: shape.x + shape.width, y: shape.y + shape.height })
+});
+
+/**
+ * Corners of the rotated shape box in whiteboard coordinates
+ */
+export const getShapeCorners = (shape: ShapeObject) => [
+  { x: shape.x, y: shape.y },
+  { x: shape.x + shape.width, y: shape.y },
+  { x: shape.x + shape.width, y: shape.y + shape.height },
+  { x: shape.x, y: shape.y + shape.height }
+].map(corner => rotateAroundCenter(shape, corner));
+
+/**
+ * Axis-aligned bounds of the shape including its stroke
+ */
+export const getShapeBounds = (shape: ShapeObject) => {
+  const points = isLinearShape(shape)
+    ? Object.values(getShapeEndpoints(shape))
+    : getShapeCorners(shape);
+
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  const padding = (shape.strokeWidth || 1) / 2;
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX - padding,
+    y: minY - padding,
+    width: Math.max(...xs) - minX + padding * 2,
+    height: Math.max(...ys) - minY + padding * 2
+  };
+};
+
+const distanceToSegment = (
+  point: { x: number; y: number },
+  start: { x: number; y: number },
+  end: { x: number; y: number }
+): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+};
+
+/**
+ * Corners of a triangle relative to its centre before rotation: apex, bottom right, bottom left
+ */
+const getTriangleCorners = (shape: ShapeObject) => {
+  const halfWidth = Math.abs(shape.width) / 2;
+  const halfHeight = Math.abs(shape.height) / 2;
+  return [
+    { x: Math.abs(shape.width) * ((shape.apexOffset ?? 0.5) - 0.5), y: -halfHeight },
+    { x: halfWidth, y: halfHeight },
+    { x: -halfWidth, y: halfHeight }
+  ];
+};
+
+/**
+ * Whether a point hits the shape: anywhere inside a rectangle, ellipse or triangle, near the segment of a line or arrow
+ */
+export const isPointOnShape = (point: { x: number; y: number }, shape: ShapeObject): boolean => {
+  const tolerance = (shape.strokeWidth || 1) / 2 + SHAPE_HIT_TOLERANCE;
+
+  if (isLinearShape(shape)) {
+    const { start, end } = getShapeEndpoints(shape);
+    return distanceToSegment(point, start, end) <= tolerance;
+  }
+
+  // Undo the rotation so the test runs against the unrotated box
+  const local = rotateAroundCenter(shape, point, -1);
+  const center = getShapeCenter(shape);
+  const radiusX = Math.abs(shape.width) / 2 + tolerance;
+  const radiusY = Math.abs(shape.height) / 2 + tolerance;
+  const dx = local.x - center.x;
+  const dy = local.y - center.y;
+
+  if (shape.kind === 'ellipse') {
+    return (dx * dx) / (radiusX * radiusX) + (dy * dy) / (radiusY * radiusY) <= 1;
+  }
+
+  if (shape.kind === 'triangle') {
+    const offset = { x: dx, y: dy };
+    const corners = getTriangleCorners(shape);
+    // Inside when on the same side of every edge, or close enough to one of them
+    const sides = corners.map((corner, i) => {
+      const next = corners[(i + 1) % 3];
+      return Math.sign((next.x - corner.x) * (offset.y - corner.y) - (next.y - corner.y) * (offset.x - corner.x));
+    });
+    const isInside = sides.every(side => side >= 0) || sides.every(side => side <= 0);
+    return isInside || corners.some((corner, i) => distanceToSegment(offset, corner, corners[(i + 1) % 3]) <= tolerance);
+  }
+
+  return Math.abs(dx) <= radiusX && Math.abs(dy) <= radiusY;
+};
+
+/**
+ * Give rectangles and ellipses a positive size, lines and arrows keep their direction
+ */
+export const normalizeShape = (shape: ShapeObject): ShapeObject => {
+  if (isLinearShape(shape)) return shape;
+
+  return {
+    ...shape,
+    x: Math.min(shape.x, shape.x + shape.width),
+    y: Math.min(shape.y, shape.y + shape.height),
+    width: Math.abs(shape.width),
+    height: Math.abs(shape.height)
+  };
+};
@@ -0,0 +1,309 @@
+import { ShapeObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Recognising clean shapes in freehand strokes
+ * @description An open stroke can become a line, a closed one a rectangle, ellipse, circle or
+ * triangle. Every candidate is fitted to the stroke and the one closest to the drawn points wins,
+ * as long as it stays within the fit tolerance. Errors are relative to the stroke size.
+ */
+
+type Point = { x: number; y: number };
+
+export type RecognizedShape = Pick<ShapeObject, 'kind' | 'x' | 'y' | 'width' | 'height' | 'rotation' | 'apexOffset'>;
+
+// Strokes smaller than this are left alone
+const MIN_RECOGNITION_SIZE = 20;
+
+// Largest gap between the ends of a closed stroke, relative to its size
+const CLOSED_GAP_RATIO = 0.25;
+
+// Largest mean distance between the stroke and the fitted shape, relative to its size
+const LINE_FIT_TOLERANCE = 0.03;
+const SHAPE_FIT_TOLERANCE = 0.05;
+
+// Corner detection: polygon tolerance relative to the size, and smallest turn that counts as a corner
+const CORNER_TOLERANCE_RATIO = 0.1;
+const MIN_CORNER_TURN = (35 * Math.PI) / 180;
+
+// How far past the end of the base the apex of a right triangle may be drawn, relative to the base
+const APEX_OVERHANG = 0.1;
+
+// Ellipses with axes closer than this ratio become circles
+const CIRCLE_AXIS_RATIO = 0.85;
+
+// Angles this close to horizontal or vertical are straightened
+const AXIS_SNAP_ANGLE = 8;
+
+const toPoints = (points: number[]): Point[] =>
+  Array.from({ length: Math.floor(points.length / 2) }, (_, i) => ({ x: points[i * 2], y: points[i * 2 + 1] }));
+
+const rotate = (point: Point, degrees: number): Point => {
+  const rad = (degrees * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+  return { x: point.x * cos - point.y * sin, y: point.x * sin + point.y * cos };
+};
+
+const distanceToSegment = (point: Point, start: Point, end: Point): number => {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const lengthSquared = dx * dx + dy * dy;
+  if (lengthSquared === 0) return Math.hypot(point.x - start.x, point.y - start.y);
+
+  const t = Math.max(0, Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared));
+  return Math.hypot(point.x - (start.x + t * dx), point.y - (start.y + t * dy));
+};
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Straighten an angle (degrees) close to a multiple of 90
+const snapToAxis = (degrees: number): number => {
+  const nearest = Math.round(degrees / 90) * 90;
+  return Math.abs(degrees - nearest) <= AXIS_SNAP_ANGLE ? nearest : degrees;
+};
+
+/**
+ * Box around the points in a frame rotated by the given angle, as an unrotated box plus rotation
+ * like ShapeObject stores it, and the points in box coordinates (origin at the box centre)
+ */
+const fitBox = (points: Point[], rotation: number) => {
+  const local = points.map(point => rotate(point, -rotation));
+  const xs = local.map(point => point.x);
+  const ys = local.map(point => point.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const center = rotate({ x: minX + width / 2, y: minY + height / 2 }, rotation);
+
+  return {
+    box: { x: center.x - width / 2, y: center.y - height / 2, width, height, rotation },
+    toLocal: (point: Point): Point => {
+      const p = rotate(point, -rotation);
+      return { x: p.x - (minX + width / 2), y: p.y - (minY + height / 2) };
+    }
+  };
+};
+
+/**
+ * Corners of a closed stroke, found by simplifying it to a polygon and dropping the
+ * vertices where the outline barely turns
+ */
+const findCorners = (points: Point[], tolerance: number): Point[] => {
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = distanceToSegment(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex !== -1 && maxDistance > tolerance) {
+      keep[maxIndex] = true;
+      ranges.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  // The last point closes the stroke onto the first
+  let corners = points.filter((_, i) => keep[i] && i !== points.length - 1);
+
+  let removed = true;
+  while (removed && corners.length > 3) {
+    removed = false;
+    for (let i = 0; i < corners.length; i++) {
+      const prev = corners[(i - 1 + corners.length) % corners.length];
+      const current = corners[i];
+      const next = corners[(i + 1) % corners.length];
+      const turn = Math.abs(
+        Math.atan2(
+          (current.x - prev.x) * (next.y - current.y) - (current.y - prev.y) * (next.x - current.x),
+          (current.x - prev.x) * (next.x - current.x) + (current.y - prev.y) * (next.y - current.y)
+        )
+      );
+      if (turn < MIN_CORNER_TURN) {
+        corners = corners.filter((_, j) => j !== i);
+        removed = true;
+        break;
+      }
+    }
+  }
+
+  return corners;
+};
+
+const fitLine = (points: Point[], size: number): { shape: RecognizedShape; error: number } => {
+  const start = points[0];
+  const end = points[points.length - 1];
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const angle = (Math.atan2(dy, dx) * 180) / Math.PI;
+  const snapped = snapToAxis(angle);
+  const length = Math.hypot(dx, dy);
+  const isHorizontal = snapped !== angle && Math.abs(snapped) % 180 === 0;
+  const isVertical = snapped !== angle && Math.abs(snapped) % 180 === 90;
+
+  return {
+    shape: {
+      kind: 'line',
+      x: start.x,
+      y: start.y,
+      width: isHorizontal ? Math.sign(dx) * length : isVertical ? 0 : dx,
+      height: isVertical ? Math.sign(dy) * length : isHorizontal ? 0 : dy,
+      rotation: 0
+    },
+    error: mean(points.map(point => distanceToSegment(point, start, end))) / size
+  };
+};
+
+const fitRectangle = (points: Point[], size: number): { shape: RecognizedShape; error: number } => {
+  // Every edge of a rectangle runs at the same angle modulo 90, so average the angles times four
+  let sumX = 0;
+  let sumY = 0;
+  for (let i = 1; i < points.length; i++) {
+    const dx = points[i].x - points[i - 1].x;
+    const dy = points[i].y - points[i - 1].y;
+    const length = Math.hypot(dx, dy);
+    const angle = Math.atan2(dy, dx) * 4;
+    sumX += Math.cos(angle) * length;
+    sumY += Math.sin(angle) * length;
+  }
+  const rotation = snapToAxis((Math.atan2(sumY, sumX) / 4) * 180 / Math.PI);
+  const { box, toLocal } = fitBox(points, rotation);
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+
+  const error = mean(points.map(point => {
+    const local = toLocal(point);
+    const dx = Math.abs(local.x) - halfWidth;
+    const dy = Math.abs(local.y) - halfHeight;
+    return dx > 0 || dy > 0 ? Math.hypot(Math.max(dx, 0), Math.max(dy, 0)) : Math.min(-dx, -dy);
+  })) / size;
+
+  return { shape: { kind: 'rectangle', ...box }, error };
+};
+
+const fitEllipse = (points: Point[], size: number): { shape: RecognizedShape; error: number } => {
+  // Main axis from the covariance of the points
+  const cx = mean(points.map(point => point.x));
+  const cy = mean(points.map(point => point.y));
+  const sxx = mean(points.map(point => (point.x - cx) ** 2));
+  const syy = mean(points.map(point => (point.y - cy) ** 2));
+  const sxy = mean(points.map(point => (point.x - cx) * (point.y - cy)));
+  let rotation = snapToAxis((0.5 * Math.atan2(2 * sxy, sxx - syy) * 180) / Math.PI);
+
+  let { box, toLocal } = fitBox(points, rotation);
+  const ratio = Math.min(box.width, box.height) / Math.max(box.width, box.height);
+
+  if (ratio >= CIRCLE_AXIS_RATIO) {
+    rotation = 0;
+    ({ box, toLocal } = fitBox(points, rotation));
+    const diameter = (box.width + box.height) / 2;
+    box = {
+      ...box,
+      x: box.x + box.width / 2 - diameter / 2,
+      y: box.y + box.height / 2 - diameter / 2,
+      width: diameter,
+      height: diameter
+    };
+  }
+
+  const radiusX = box.width / 2;
+  const radiusY = box.height / 2;
+  const error = mean(points.map(point => {
+    const local = toLocal(point);
+    const distance = Math.hypot(local.x, local.y);
+    const normalized = Math.hypot(local.x / radiusX, local.y / radiusY);
+    return normalized === 0 ? Math.min(radiusX, radiusY) : Math.abs(distance - distance / normalized);
+  })) / size;
+
+  return { shape: { kind: 'ellipse', ...box }, error };
+};
+
+const fitTriangle = (points: Point[], corners: Point[], size: number): { shape: RecognizedShape; error: number } => {
+  // The base is the side closest to horizontal among those the apex sits over, like a hand-drawn
+  // triangle usually stands; the longest side always qualifies
+  const sides = corners.map((corner, i) => ({
+    start: corner,
+    end: corners[(i + 1) % 3],
+    apex: corners[(i + 2) % 3]
+  }));
+  const { start, end, apex } = sides
+    .filter(({ start, end, apex }) => {
+      const dx = end.x - start.x;
+      const dy = end.y - start.y;
+      const t = ((apex.x - start.x) * dx + (apex.y - start.y) * dy) / (dx * dx + dy * dy);
+      return t >= -APEX_OVERHANG && t <= 1 + APEX_OVERHANG;
+    })
+    .reduce((flattest, side) => {
+      const tilt = ({ start, end }: typeof side) => Math.abs(Math.atan2(end.y - start.y, Math.abs(end.x - start.x)));
+      return tilt(side) < tilt(flattest) ? side : flattest;
+    }, sides.reduce((longest, side) =>
+      Math.hypot(side.end.x - side.start.x, side.end.y - side.start.y) >
+      Math.hypot(longest.end.x - longest.start.x, longest.end.y - longest.start.y) ? side : longest
+    ));
+
+  // Turn the box so the base is at the bottom and the apex at the top
+  let rotation = (Math.atan2(end.y - start.y, end.x - start.x) * 180) / Math.PI;
+  const apexSide = (end.x - start.x) * (apex.y - start.y) - (end.y - start.y) * (apex.x - start.x);
+  if (apexSide > 0) rotation += 180;
+  rotation = snapToAxis(((rotation + 540) % 360) - 180);
+
+  const { box, toLocal } = fitBox(corners, rotation);
+  const apexOffset = box.width > 0 ? (toLocal(apex).x + box.width / 2) / box.width : 0.5;
+
+  const top = { x: box.width * (apexOffset - 0.5), y: -box.height / 2 };
+  const bottomLeft = { x: -box.width / 2, y: box.height / 2 };
+  const bottomRight = { x: box.width / 2, y: box.height / 2 };
+  const error = mean(points.map(point => {
+    const local = toLocal(point);
+    return Math.min(
+      distanceToSegment(local, top, bottomRight),
+      distanceToSegment(local, bottomRight, bottomLeft),
+      distanceToSegment(local, bottomLeft, top)
+    );
+  })) / size;
+
+  return { shape: { kind: 'triangle', ...box, apexOffset }, error };
+};
+
+/**
+ * Recognise a clean shape in a freehand stroke
+ * @param points - Flat [x, y, ...] points of the stroke in whiteboard coordinates
+ * @returns The recognised shape, or null when no shape fits the stroke well enough
+ */
+export const recognizeShape = (points: number[]): RecognizedShape | null => {
+  const stroke = toPoints(points);
+  if (stroke.length < 3) return null;
+
+  const xs = stroke.map(point => point.x);
+  const ys = stroke.map(point => point.y);
+  const size = Math.hypot(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys));
+  if (size < MIN_RECOGNITION_SIZE) return null;
+
+  const start = stroke[0];
+  const end = stroke[stroke.length - 1];
+  const isClosed = Math.hypot(end.x - start.x, end.y - start.y) <= size * CLOSED_GAP_RATIO;
+
+  if (!isClosed) {
+    const line = fitLine(stroke, size);
+    return line.error <= LINE_FIT_TOLERANCE ? line.shape : null;
+  }
+
+  const closed = [...stroke, start];
+  const corners = findCorners(closed, size * CORNER_TOLERANCE_RATIO);
+  const candidates = [fitRectangle(closed, size), fitEllipse(closed, size)];
+  if (corners.length === 3) {
+    candidates.push(fitTriangle(closed, corners, size));
+  }
+
+  const best = candidates.reduce((best, candidate) => candidate.error < best.error ? candidate : best);
+  return best.error <= SHAPE_FIT_TOLERANCE ? best.shape : null;
+};
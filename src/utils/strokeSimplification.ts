@@ -0,0 +1,107 @@
+import { LineObject } from '@/types/whiteboard';
+import { hasPressure } from './pressureStroke';
+
+/**
+ * @fileoverview Simplifying finished strokes before they are stored
+ * @description Pointer events sample far more points than a stroke needs. Points within the
+ * tolerance of the simplified path are dropped (Ramer–Douglas–Peucker) and the rest are
+ * rounded to the precision the sync encoding stores, so the local stroke matches what others decode.
+ */
+
+// Coordinates are stored in steps of 1 / POINT_PRECISION whiteboard units
+export const POINT_PRECISION = 10;
+
+// Pressures are stored in steps of 1 / PRESSURE_PRECISION
+export const PRESSURE_PRECISION = 100;
+
+// Largest deviation from the drawn path, in screen pixels
+const SIMPLIFY_TOLERANCE_PX = 0.5;
+
+export const quantizeCoordinate = (value: number) => Math.round(value * POINT_PRECISION) / POINT_PRECISION;
+
+export const quantizePressure = (value: number) => Math.round(value * PRESSURE_PRECISION) / PRESSURE_PRECISION;
+
+// Strokes streamed or edited by older clients may carry fewer pressures than points
+const pressureAt = (pressures: number[], index: number) => pressures[Math.min(index, pressures.length - 1)];
+
+// Squared distance from p to the segment a→b, in any number of dimensions
+const squaredSegmentDistance = (p: number[], a: number[], b: number[]): number => {
+  let lengthSquared = 0;
+  let dot = 0;
+  for (let d = 0; d < p.length; d++) {
+    lengthSquared += (b[d] - a[d]) ** 2;
+    dot += (p[d] - a[d]) * (b[d] - a[d]);
+  }
+
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, dot / lengthSquared));
+  let distanceSquared = 0;
+  for (let d = 0; d < p.length; d++) {
+    distanceSquared += (p[d] - (a[d] + t * (b[d] - a[d]))) ** 2;
+  }
+  return distanceSquared;
+};
+
+/**
+ * Indices of the points kept by Ramer–Douglas–Peucker, in order
+ * Iterative so long strokes can't overflow the call stack
+ */
+const simplifyIndices = (points: number[][], tolerance: number): number[] => {
+  const keep = new Array<boolean>(points.length).fill(false);
+  keep[0] = true;
+  keep[points.length - 1] = true;
+
+  const toleranceSquared = tolerance * tolerance;
+  const ranges: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (ranges.length > 0) {
+    const [start, end] = ranges.pop()!;
+    let maxDistance = 0;
+    let maxIndex = -1;
+
+    for (let i = start + 1; i < end; i++) {
+      const distance = squaredSegmentDistance(points[i], points[start], points[end]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    if (maxIndex !== -1 && maxDistance > toleranceSquared) {
+      keep[maxIndex] = true;
+      ranges.push([start, maxIndex], [maxIndex, end]);
+    }
+  }
+
+  const indices: number[] = [];
+  keep.forEach((kept, index) => {
+    if (kept) indices.push(index);
+  });
+  return indices;
+};
+
+/**
+ * Simplify a finished stroke and quantize its points
+ * @param scale - Zoom level the stroke was drawn at, a stroke drawn zoomed in keeps finer detail
+ */
+export const simplifyLine = (line: LineObject, scale = 1): LineObject => {
+  const pointCount = Math.floor(line.points.length / 2);
+  const pressures = hasPressure(line) ? line.pressures : null;
+  const tolerance = SIMPLIFY_TOLERANCE_PX / (scale > 0 ? scale : 1);
+
+  // Pressure changes the outline by up to half the stroke width, so it counts as a third dimension
+  const vectors = Array.from({ length: pointCount }, (_, i) => {
+    const vector = [line.points[i * 2], line.points[i * 2 + 1]];
+    if (pressures) {
+      vector.push(pressureAt(pressures, i) * line.strokeWidth / 2);
+    }
+    return vector;
+  });
+
+  const indices = pointCount > 2 ? simplifyIndices(vectors, tolerance) : vectors.map((_, i) => i);
+
+  return {
+    ...line,
+    points: indices.flatMap(i => [quantizeCoordinate(line.points[i * 2]), quantizeCoordinate(line.points[i * 2 + 1])]),
+    ...(pressures ? { pressures: indices.map(i => quantizePressure(pressureAt(pressures, i))) } : {})
+  };
+};
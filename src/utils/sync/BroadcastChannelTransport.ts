@@ -0,0 +1,257 @@
+import { WhiteboardOperation, StrokeStreamEvent, LaserPointerEvent, CursorPresence } from '@/types/sync';
+import { SyncTransport, TransportChannel, TransportChannelHandlers, OperationRow, OperationCursor } from './types';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+
+const debugLog = createDebugLogger('connection');
+
+// Operations kept per whiteboard for catch-up and for tabs that join later
+const OPERATION_LOG_LIMIT = 5000;
+
+type BusMessage =
+  | { type: 'operation'; row: OperationRow }
+  | { type: 'stroke'; event: StrokeStreamEvent }
+  | { type: 'laser'; event: LaserPointerEvent }
+  | { type: 'presence'; presence_key: string; cursor: CursorPresence | null }
+  | { type: 'hello' } // A tab joined, peers answer with their history and cursors
+  | { type: 'history'; rows: OperationRow[] };
+
+interface LocalChannel {
+  presenceKey: string;
+  handlers: TransportChannelHandlers;
+  isJoined: boolean;
+}
+
+interface BoardBus {
+  channels: Set<LocalChannel>;
+  operations: OperationRow[];
+  operationIds: Set<string>;
+  presence: Map<string, CursorPresence>;
+  localPresenceKeys: Set<string>; // Cursors tracked by channels of this tab
+  broadcastChannel: BroadcastChannel | null;
+}
+
+const generateId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Sync transport without a backend: operations, strokes and cursors are exchanged
+ * between channels in this page and, through BroadcastChannel, between tabs of the
+ * same browser. Operations live in memory, so a board only outlives its last open tab
+ * through the regular persistence layer.
+ */
+export class BroadcastChannelTransport implements SyncTransport {
+  readonly name = 'broadcast-channel';
+  private buses: Map<string, BoardBus> = new Map();
+  private readonly clientId = generateId();
+  private presenceCounter = 0;
+
+  /**
+   * Join the bus of a whiteboard; the channel is joined on the next tick like a realtime subscription
+   */
+  openChannel(whiteboardId: string, handlers: TransportChannelHandlers): TransportChannel {
+    const bus = this.getBus(whiteboardId);
+    const local: LocalChannel = {
+      presenceKey: `${this.clientId}-${++this.presenceCounter}`,
+      handlers,
+      isJoined: false
+    };
+    bus.channels.add(local);
+
+    setTimeout(() => {
+      if (!bus.channels.has(local)) return;
+      local.isJoined = true;
+      handlers.onStatus('SUBSCRIBED');
+      this.post(bus, { type: 'hello' });
+      if (bus.presence.size > 0) handlers.onPresenceSync();
+    }, 0);
+
+    return {
+      get isJoined() {
+        return local.isJoined;
+      },
+      broadcastStroke: async (event) => {
+        if (!local.isJoined) return;
+        bus.channels.forEach(channel => {
+          if (channel !== local && channel.isJoined) channel.handlers.onStroke(event);
+        });
+        this.post(bus, { type: 'stroke', event });
+      },
+      broadcastLaser: async (event) => {
+        if (!local.isJoined) return;
+        bus.channels.forEach(channel => {
+          if (channel !== local && channel.isJoined) channel.handlers.onLaser(event);
+        });
+        this.post(bus, { type: 'laser', event });
+      },
+      trackPresence: async (cursor) => {
+        if (!local.isJoined) return;
+        this.setPresence(bus, local.presenceKey, cursor);
+        if (cursor) {
+          bus.localPresenceKeys.add(local.presenceKey);
+        } else {
+          bus.localPresenceKeys.delete(local.presenceKey);
+        }
+        this.post(bus, { type: 'presence', presence_key: local.presenceKey, cursor });
+      },
+      getPresence: () => Array.from(bus.presence.values()),
+      close: () => this.closeChannel(whiteboardId, local)
+    };
+  }
+
+  /**
+   * Record an operation and deliver it to every channel of the whiteboard, including the sender's
+   * An operation that was already recorded is ignored like the unique constraint of the backend does
+   */
+  async saveOperation(operation: WhiteboardOperation, _sessionId: string): Promise<void> {
+    const bus = this.getBus(operation.whiteboard_id);
+    if (operation.id && bus.operations.some(row => row.operation_id === operation.id)) return;
+
+    const row: OperationRow = {
+      id: generateId(),
+      created_at: new Date().toISOString(),
+      board_id: operation.whiteboard_id,
+      action_type: operation.operation_type,
+      object_data: operation.data,
+      user_id: operation.sender_id,
+      operation_id: operation.id
+    };
+
+    this.receiveOperations(bus, [row]);
+    this.post(bus, { type: 'operation', row });
+  }
+
+  /**
+   * Fetch the operations recorded after a point in time, oldest first
+   * Rows carry no sequence number since tabs have no shared counter, so only the time cursor applies
+   */
+  async fetchOperations(whiteboardId: string, _sessionId: string, cursor: OperationCursor, limit: number): Promise<OperationRow[]> {
+    const sinceTime = cursor.since ? new Date(cursor.since).getTime() : -Infinity;
+    return this.getBus(whiteboardId).operations
+      .filter(row => new Date(row.created_at).getTime() > sinceTime)
+      .slice(0, limit);
+  }
+
+  private getBus(whiteboardId: string): BoardBus {
+    const existing = this.buses.get(whiteboardId);
+    if (existing) return existing;
+
+    const bus: BoardBus = {
+      channels: new Set(),
+      operations: [],
+      operationIds: new Set(),
+      presence: new Map(),
+      localPresenceKeys: new Set(),
+      broadcastChannel: typeof BroadcastChannel !== 'undefined'
+        ? new BroadcastChannel(`whiteboard-${whiteboardId}`)
+        : null
+    };
+
+    if (bus.broadcastChannel) {
+      bus.broadcastChannel.onmessage = (event: MessageEvent<BusMessage>) => {
+        this.handleMessage(bus, event.data);
+      };
+    }
+
+    this.buses.set(whiteboardId, bus);
+    debugLog('Transport', `Opened local sync bus for ${whiteboardId} (cross-tab: ${!!bus.broadcastChannel})`);
+    return bus;
+  }
+
+  /**
+   * Handle a message posted by another tab
+   */
+  private handleMessage(bus: BoardBus, message: BusMessage): void {
+    switch (message.type) {
+      case 'operation':
+        this.receiveOperations(bus, [message.row]);
+        break;
+      case 'history':
+        this.receiveOperations(bus, message.rows);
+        break;
+      case 'stroke':
+        bus.channels.forEach(channel => {
+          if (channel.isJoined) channel.handlers.onStroke(message.event);
+        });
+        break;
+      case 'laser':
+        bus.channels.forEach(channel => {
+          if (channel.isJoined) channel.handlers.onLaser(message.event);
+        });
+        break;
+      case 'presence':
+        this.setPresence(bus, message.presence_key, message.cursor);
+        break;
+      case 'hello':
+        if (bus.operations.length > 0) {
+          this.post(bus, { type: 'history', rows: bus.operations });
+        }
+        bus.localPresenceKeys.forEach(key => {
+          this.post(bus, { type: 'presence', presence_key: key, cursor: bus.presence.get(key) || null });
+        });
+        break;
+    }
+  }
+
+  /**
+   * Append unknown operations to the log in created_at order and deliver them
+   */
+  private receiveOperations(bus: BoardBus, rows: OperationRow[]): void {
+    const newRows = rows
+      .filter(row => row.id && !bus.operationIds.has(row.id))
+      .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+    if (newRows.length === 0) return;
+
+    newRows.forEach(row => {
+      bus.operationIds.add(row.id as string);
+      bus.operations.push(row);
+    });
+    bus.operations.sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime());
+
+    if (bus.operations.length > OPERATION_LOG_LIMIT) {
+      bus.operations.splice(0, bus.operations.length - OPERATION_LOG_LIMIT)
+        .forEach(row => bus.operationIds.delete(row.id as string));
+    }
+
+    bus.channels.forEach(channel => {
+      if (!channel.isJoined) return;
+      newRows.forEach(row => channel.handlers.onOperation({ new: row }));
+    });
+  }
+
+  private setPresence(bus: BoardBus, presenceKey: string, cursor: CursorPresence | null): void {
+    if (cursor) {
+      bus.presence.set(presenceKey, cursor);
+    } else if (!bus.presence.delete(presenceKey)) {
+      return;
+    }
+
+    bus.channels.forEach(channel => {
+      if (channel.isJoined) channel.handlers.onPresenceSync();
+    });
+  }
+
+  private post(bus: BoardBus, message: BusMessage): void {
+    try {
+      bus.broadcastChannel?.postMessage(message);
+    } catch (err) {
+      debugLog('Transport', 'Failed to post message to other tabs', err);
+    }
+  }
+
+  private closeChannel(whiteboardId: string, local: LocalChannel): void {
+    const bus = this.buses.get(whiteboardId);
+    if (!bus || !bus.channels.has(local)) return;
+
+    if (bus.localPresenceKeys.delete(local.presenceKey)) {
+      this.setPresence(bus, local.presenceKey, null);
+      this.post(bus, { type: 'presence', presence_key: local.presenceKey, cursor: null });
+    }
+
+    bus.channels.delete(local);
+    local.isJoined = false;
+    local.handlers.onStatus('CLOSED');
+
+    // Keep the operation log while this page lives so the board can be reopened
+    debugLog('Transport', `Closed local channel on ${whiteboardId}, ${bus.channels.size} remaining`);
+  }
+}
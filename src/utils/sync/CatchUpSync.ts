@@ -0,0 +1,307 @@
+import { createDebugLogger, logError, logWarning } from '@/utils/debug/debugConfig';
+import { OperationPayload, OperationCursor, SyncTransport } from './types';
+import { RecentIdSet } from './RecentIdSet';
+
+const debugLog = createDebugLogger('connection');
+
+// Operations fetched per catch-up request
+const CATCH_UP_PAGE_SIZE = 1000;
+
+// Number of recently seen operation IDs kept for de-duplication
+const SEEN_OPERATION_LIMIT = 2000;
+
+// How long an operation received ahead of a sequence gap waits for the missing ones before refetching
+const GAP_FILL_DELAY = 500;
+
+// Retry configuration for catch-up fetches that fail
+const BASE_RETRY_DELAY = 1000; // First retry after 1 second
+const MAX_RETRY_DELAY = 30000; // Never wait longer than 30 seconds between attempts
+const MAX_FETCH_ATTEMPTS = 5; // Ask for a full resync after this many failed fetches in a row
+
+type PayloadDispatcher = (payload: OperationPayload) => void;
+
+// Sequence order when both rows have one, created_at order otherwise
+const compareOperationPayloads = (a: OperationPayload, b: OperationPayload): number => {
+  const seqA = a.new?.seq;
+  const seqB = b.new?.seq;
+  if (typeof seqA === 'number' && typeof seqB === 'number') {
+    return seqA - seqB;
+  }
+  return new Date(a.new?.created_at).getTime() - new Date(b.new?.created_at).getTime();
+};
+
+/**
+ * Tracks the operations seen on a whiteboard channel and replays the ones that
+ * were missed while the channel was disconnected
+ *
+ * Live payloads that arrive during a catch-up are buffered, merged with the
+ * fetched operations, de-duplicated by row ID and dispatched in sequence order.
+ * Operations carrying a server sequence number are applied strictly in order:
+ * one that arrives after a gap is held back until the missing operations arrive
+ * or are fetched. A gap is only skipped once a successful fetch shows the server
+ * no longer has the missing operations; failed fetches are retried with backoff,
+ * and the board is asked to resync from persistence when they keep failing.
+ */
+export class CatchUpSync {
+  private lastSeenAt: string | null = null;
+  private lastSeq: number | null = null; // Highest sequence number applied without gaps
+  private seenIds = new RecentIdSet(SEEN_OPERATION_LIMIT);
+  private hasSubscribed = false;
+  private wasDisconnected = false;
+  private isCatchingUp = false;
+  private bufferedPayloads: OperationPayload[] = [];
+  private heldPayloads: Map<number, OperationPayload> = new Map(); // Received ahead of a gap, by sequence
+  private gapTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private failedFetches = 0;
+
+  constructor(
+    private readonly whiteboardId: string,
+    private readonly sessionId: string,
+    private readonly transport: SyncTransport,
+    private readonly dispatch: PayloadDispatcher,
+    private readonly requestResync: () => void
+  ) {}
+
+  /**
+   * Set the last sequence number of the persisted board that was loaded
+   * Operations up to it are already part of the board, the ones after it must follow without gaps
+   */
+  seedSequence(seq: number): void {
+    if (this.lastSeq !== null && seq < this.lastSeq) {
+      // Live operations were applied before the load finished, fetch anything between the two
+      debugLog('CatchUp', `Loaded ${this.whiteboardId} up to #${seq}, live operations already reached #${this.lastSeq}`);
+      this.lastSeq = seq;
+      this.catchUp();
+      return;
+    }
+
+    debugLog('CatchUp', `Loaded ${this.whiteboardId} up to #${seq}`);
+    this.lastSeq = seq;
+    this.heldPayloads.forEach((_, heldSeq) => {
+      if (heldSeq <= seq) this.heldPayloads.delete(heldSeq);
+    });
+    this.releaseHeldPayloads();
+    if (this.heldPayloads.size > 0) {
+      this.scheduleGapFill();
+    }
+  }
+
+  /**
+   * Stop pending gap fills and retries
+   */
+  dispose(): void {
+    if (this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  /**
+   * Handle a live operation payload from the transport
+   */
+  handleLivePayload(payload: OperationPayload): void {
+    if (this.isCatchingUp) {
+      this.bufferedPayloads.push(payload);
+      return;
+    }
+
+    this.receive(payload);
+  }
+
+  /**
+   * Handle a channel subscription status change
+   */
+  handleStatus(status: string): void {
+    if (status !== 'SUBSCRIBED') {
+      if (this.hasSubscribed) {
+        this.wasDisconnected = true;
+      }
+      return;
+    }
+
+    if (!this.hasSubscribed) {
+      // First subscription: history comes from persistence, only track from here on
+      this.hasSubscribed = true;
+      if (!this.lastSeenAt) {
+        this.lastSeenAt = new Date().toISOString();
+      }
+      return;
+    }
+
+    if (this.wasDisconnected) {
+      this.wasDisconnected = false;
+      this.catchUp();
+    }
+  }
+
+  /**
+   * Apply a payload in sequence order, holding it back when operations before it are missing
+   */
+  private receive(payload: OperationPayload): void {
+    const seq = payload?.new?.seq;
+
+    // No sequence to order by, or no baseline yet (the first sequenced operation sets it)
+    if (typeof seq !== 'number' || this.lastSeq === null) {
+      this.dispatchIfUnseen(payload);
+      this.releaseHeldPayloads();
+      return;
+    }
+
+    if (seq <= this.lastSeq) {
+      debugLog('CatchUp', `Skipping already applied operation #${seq}`);
+      return;
+    }
+
+    if (seq > this.lastSeq + 1) {
+      debugLog('CatchUp', `Sequence gap on ${this.whiteboardId}: expected #${this.lastSeq + 1}, received #${seq}`);
+      this.heldPayloads.set(seq, payload);
+      this.scheduleGapFill();
+      return;
+    }
+
+    this.dispatchIfUnseen(payload);
+    this.releaseHeldPayloads();
+  }
+
+  /**
+   * Apply held payloads that no longer follow a gap
+   */
+  private releaseHeldPayloads(): void {
+    while (this.lastSeq !== null && this.heldPayloads.has(this.lastSeq + 1)) {
+      const next = this.heldPayloads.get(this.lastSeq + 1) as OperationPayload;
+      this.heldPayloads.delete(this.lastSeq + 1);
+      this.dispatchIfUnseen(next);
+    }
+
+    if (this.heldPayloads.size === 0 && this.gapTimer) {
+      clearTimeout(this.gapTimer);
+      this.gapTimer = null;
+    }
+  }
+
+  /**
+   * Give realtime a moment to deliver the missing operations, then fetch them
+   */
+  private scheduleGapFill(): void {
+    // A failed fetch is already waiting to be retried
+    if (this.gapTimer || this.retryTimer) return;
+
+    this.gapTimer = setTimeout(() => {
+      this.gapTimer = null;
+      // A reconnect catch-up will fetch them instead
+      if (this.heldPayloads.size > 0 && !this.wasDisconnected) {
+        this.catchUp();
+      }
+    }, GAP_FILL_DELAY);
+  }
+
+  private async catchUp(): Promise<void> {
+    if (this.isCatchingUp || (this.lastSeq === null && !this.lastSeenAt)) return;
+    this.isCatchingUp = true;
+
+    const cursor: OperationCursor = this.lastSeq !== null
+      ? { afterSeq: this.lastSeq }
+      : { since: this.lastSeenAt as string };
+
+    debugLog('CatchUp', `Fetching operations missed on ${this.whiteboardId} after`, cursor);
+
+    const fetched: OperationPayload[] = [];
+    let fetchFailed = false;
+    try {
+      let pageCursor = cursor;
+      // Page through everything recorded while disconnected
+      while (true) {
+        const rows = await this.transport.fetchOperations(
+          this.whiteboardId,
+          this.sessionId,
+          pageCursor,
+          CATCH_UP_PAGE_SIZE
+        );
+
+        fetched.push(...rows.map(row => ({ new: row })));
+
+        if (rows.length < CATCH_UP_PAGE_SIZE) break;
+        const lastRow = rows[rows.length - 1];
+        pageCursor = typeof lastRow.seq === 'number'
+          ? { afterSeq: lastRow.seq }
+          : { since: lastRow.created_at };
+      }
+    } catch (err) {
+      logError('CatchUpSync', `Catch-up failed for ${this.whiteboardId}`, err);
+      fetchFailed = true;
+    }
+
+    // Merge with live and held payloads received meanwhile and apply in order
+    const merged = [...fetched, ...this.bufferedPayloads, ...this.heldPayloads.values()].sort(compareOperationPayloads);
+    this.bufferedPayloads = [];
+    this.heldPayloads.clear();
+    this.isCatchingUp = false;
+
+    debugLog('CatchUp', `Fetched ${fetched.length} operations, applying ${merged.length} after merge for ${this.whiteboardId}`);
+    merged.forEach(payload => this.receive(payload));
+
+    if (fetchFailed) {
+      // Nothing is known about the missing operations, keep holding what follows them
+      this.scheduleRetry();
+      return;
+    }
+    this.failedFetches = 0;
+
+    // The server no longer has the missing operations (e.g. compacted into a snapshot),
+    // continue after the gap and reload the board so their effects are not lost
+    if (this.heldPayloads.size > 0) {
+      const nextSeq = Math.min(...this.heldPayloads.keys());
+      logWarning('CatchUpSync', `Operations #${(this.lastSeq ?? 0) + 1} to #${nextSeq - 1} on ${this.whiteboardId} could not be fetched, resyncing the board`);
+      this.lastSeq = nextSeq - 1;
+      this.releaseHeldPayloads();
+      this.requestResync();
+    }
+  }
+
+  /**
+   * Fetch again after a failed catch-up, with exponential backoff
+   */
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.failedFetches += 1;
+
+    if (this.failedFetches >= MAX_FETCH_ATTEMPTS) {
+      logError('CatchUpSync', `Catch-up for ${this.whiteboardId} failed ${this.failedFetches} times, resyncing the board`);
+      this.failedFetches = 0;
+      this.requestResync();
+    }
+
+    const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, this.failedFetches), MAX_RETRY_DELAY);
+    debugLog('CatchUp', `Retrying catch-up for ${this.whiteboardId} in ${delay}ms`);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.catchUp();
+    }, delay);
+  }
+
+  private dispatchIfUnseen(payload: OperationPayload): void {
+    const row = payload?.new;
+    const id = row?.id;
+
+    // Counted as applied even when it is a duplicate, so the sequence moves past it
+    if (typeof row?.seq === 'number' && (this.lastSeq === null || row.seq > this.lastSeq)) {
+      this.lastSeq = row.seq;
+    }
+
+    if (id && !this.seenIds.add(id)) {
+      debugLog('CatchUp', `Skipping duplicate operation ${id}`);
+      return;
+    }
+
+    if (row?.created_at && (!this.lastSeenAt || new Date(row.created_at).getTime() >= new Date(this.lastSeenAt).getTime())) {
+      this.lastSeenAt = row.created_at;
+    }
+
+    this.dispatch(payload);
+  }
+}
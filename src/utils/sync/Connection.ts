@@ -1,10 +1,10 @@
 
-import { ConnectionInfo, OperationHandler } from './types';
+import { ConnectionInfo, OperationHandler, SyncTransport, TransportChannel } from './types';
 import { PayloadConverter } from './PayloadConverter';
-import { SyncConfig, WhiteboardOperation } from '@/types/sync';
+import { OperationQueue } from './OperationQueue';
+import { SyncConfig, WhiteboardOperation, PendingOperationCounts } from '@/types/sync';
 import { createDebugLogger, logError } from '@/utils/debug/debugConfig';
-import { RealtimeChannel } from '@supabase/supabase-js';
-import { supabase } from '@/integrations/supabase/client';
+import { v4 as uuidv4 } from 'uuid';
 
 const debugLog = createDebugLogger('connection');
 
@@ -12,8 +12,14 @@ export class Connection {
   private info: ConnectionInfo;
   private connectionId: string;
   private readonly originalConfig: SyncConfig; // Store immutable original config
+  private readonly queue: OperationQueue; // Durable outbound queue with retry
   
-  constructor(config: SyncConfig, handler: OperationHandler, channel: RealtimeChannel) {
+  constructor(
+    config: SyncConfig,
+    handler: OperationHandler,
+    channel: TransportChannel,
+    private readonly transport: SyncTransport
+  ) {
     // Store the original config as immutable to prevent overwrites
     this.originalConfig = { ...config };
     
@@ -24,10 +30,16 @@ export class Connection {
       channel, // Use the provided shared channel
       config: this.originalConfig, // Use immutable config
       handlers: new Set([handler]),
-      isConnected: channel.state === 'joined',
+      isConnected: channel.isJoined,
       lastActivity: Date.now()
     };
     
+    this.queue = new OperationQueue(
+      this.connectionId,
+      this.originalConfig.sessionId,
+      (operation) => this.sendOperationWithTransport(operation)
+    );
+    
     debugLog('Connection', `Created connection ${this.connectionId} with senderId: ${config.senderId}`);
   }
   
@@ -37,8 +49,9 @@ export class Connection {
   public handlePayload(payload: any): void {
     debugLog('Payload', 'Received operation', payload);
     
-    // Convert to our internal operation format
-    const operation = PayloadConverter.toOperation(payload);
+    // Convert to our internal operation format, malformed operations are quarantined
+    const operation = PayloadConverter.toValidOperation(payload);
+    if (!operation) return;
     
     debugLog('Payload', 'Converted operation', operation);
     
@@ -61,8 +74,15 @@ export class Connection {
    * Update connection status (called by SyncConnectionManager)
    */
   public updateConnectionStatus(isConnected: boolean): void {
+    const wasConnected = this.info.isConnected;
     this.info.isConnected = isConnected;
     this.info.lastActivity = Date.now();
+    
+    // Drain queued and failed operations in order once the channel is back
+    if (isConnected && !wasConnected) {
+      debugLog('Connection', `Channel reconnected for ${this.connectionId}, resuming outbound queue`);
+      this.queue.resume();
+    }
   }
   
   /**
@@ -91,82 +111,57 @@ export class Connection {
     
     const fullOperation: WhiteboardOperation = {
       ...operation,
+      id: uuidv4(), // Stays the same across retries so the operation is stored once
       whiteboard_id: this.originalConfig.whiteboardId,
       timestamp: Date.now(),
       sender_id: this.originalConfig.senderId // Use original config sender ID
     };
     
-    debugLog('Send', `Sending ${fullOperation.operation_type} to database from ${this.originalConfig.senderId}`);
+    debugLog('Send', `Queueing ${fullOperation.operation_type} for database from ${this.originalConfig.senderId}`);
     
-    // Check authentication status and use appropriate method
-    this.sendOperationWithAuth(fullOperation);
+    // Queue the operation; the queue sends it in order and retries on failure
+    this.queue.enqueue(fullOperation);
     
     return fullOperation;
   }
 
   /**
-   * Send operation with proper authentication detection
+   * Store the operation through the sync transport
+   * Throws when the operation could not be stored so the queue can retry it
    */
-  private async sendOperationWithAuth(fullOperation: WhiteboardOperation): Promise<void> {
-    const sessionUuid = this.originalConfig.sessionId;
-    
+  private async sendOperationWithTransport(fullOperation: WhiteboardOperation): Promise<void> {
     try {
-      // Check if user is authenticated by getting current session
-      const { data: { session }, error: authError } = await supabase.auth.getSession();
-      
-      if (authError) {
-        debugLog('Auth', 'Error checking session, assuming anonymous user', authError);
-      }
-      
-      const isAuthenticated = session?.user?.id;
-      
-      if (isAuthenticated) {
-        // Use direct insert for authenticated users
-        const dbRecord = PayloadConverter.toDatabaseRecord(
-          fullOperation, 
-          this.originalConfig.sessionId
-        );
-        
-        const { error, data } = await supabase
-          .from('whiteboard_data')
-          .insert(dbRecord);
-          
-        if (error) {
-          logError('Connection', 'Error sending operation via direct insert', error);
-        } else {
-          debugLog('Send', 'Successfully sent operation via direct insert', data);
-          this.info.lastActivity = Date.now();
-        }
-      } else {
-        // Use public RPC for anonymous users (bypasses RLS)
-        const { error, data } = await supabase
-          .rpc('public_save_whiteboard_operation', {
-            p_session_id: sessionUuid,
-            p_board_id: fullOperation.whiteboard_id,
-            p_action_type: fullOperation.operation_type,
-            p_object_data: fullOperation.data,
-            p_user_id: fullOperation.sender_id
-          });
-          
-        if (error) {
-          logError('Connection', 'Error sending operation via public RPC', error);
-        } else {
-          debugLog('Send', 'Successfully sent operation via public RPC', data);
-          this.info.lastActivity = Date.now();
-        }
-      }
+      await this.transport.saveOperation(fullOperation, this.originalConfig.sessionId);
+      this.info.lastActivity = Date.now();
     } catch (err) {
-      logError('Connection', 'Error in sendOperationWithAuth', err);
+      logError('Connection', `Error sending operation through ${this.transport.name} transport`, err);
+      throw err;
     }
   }
   
   /**
    * Close this connection (channel cleanup is handled by SyncConnectionManager)
+   * Unsent operations stay in IndexedDB for the next connection with the same ID
    */
   close() {
+    this.queue.dispose();
     debugLog('Connection', `Closed connection ${this.connectionId}`);
   }
   
+  /**
+   * Get the pending and failed outbound operation counts
+   */
+  get pendingOperations(): PendingOperationCounts {
+    return this.queue.getCounts();
+  }
+  
+  /**
+   * Whether operations are still waiting to be sent
+   */
+  get hasPendingOperations(): boolean {
+    return this.queue.size > 0;
+  }
+  
   /**
    * Get the number of handlers for this connection
    */
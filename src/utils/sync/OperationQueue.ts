@@ -0,0 +1,199 @@
+import { WhiteboardOperation, PendingOperationCounts } from '@/types/sync';
+import { createDebugLogger, logError } from '@/utils/debug/debugConfig';
+import { QueuedOperation, loadQueuedOperations, saveQueuedOperation, deleteQueuedOperation } from './operationQueueStore';
+
+const debugLog = createDebugLogger('connection');
+
+// Retry configuration
+const BASE_RETRY_DELAY = 1000; // First retry after 1 second
+const MAX_RETRY_DELAY = 30000; // Never wait longer than 30 seconds between attempts
+const MAX_SEND_ATTEMPTS = 8; // Marked as failed after this many attempts, retried again on reconnect
+
+// Postgres error classes that retrying cannot fix: data exceptions, constraint violations,
+// access and schema errors, and exceptions raised by the RPC functions themselves
+const PERMANENT_ERROR_CODE = /^(22|23|42|P0)/;
+
+export type OperationSender = (operation: WhiteboardOperation) => Promise<void>;
+
+interface QueueEntry {
+  record: QueuedOperation;
+  saved: Promise<void>; // Resolves once the record has a key in IndexedDB
+}
+
+/**
+ * Whether a send error is a rejection of the operation itself rather than a transient failure
+ */
+const isPermanentError = (err: unknown): boolean => {
+  const code = (err as { code?: unknown } | null)?.code;
+  return typeof code === 'string' && PERMANENT_ERROR_CODE.test(code);
+};
+
+/**
+ * Durable outbound queue for a single connection
+ * Operations are persisted in IndexedDB, sent strictly in order and retried with
+ * exponential backoff. An operation that exhausts its attempts is marked as failed and
+ * holds back everything queued after it until the channel reconnects, so later operations
+ * never reach the server before the ones they depend on. Operations the server rejects
+ * outright are dropped and counted instead of being retried.
+ */
+export class OperationQueue {
+  private entries: QueueEntry[] = [];
+  private isDraining = false;
+  private rejectedCount = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly ready: Promise<void>;
+
+  constructor(
+    private readonly queueId: string,
+    private readonly sessionId: string,
+    private readonly sender: OperationSender
+  ) {
+    // Restore operations that were left unsent by a previous page load
+    this.ready = loadQueuedOperations(queueId).then(records => {
+      if (records.length > 0) {
+        debugLog('Queue', `Restored ${records.length} unsent operations for ${queueId}`);
+        const restored = records.map(record => ({
+          record: { ...record, status: 'pending' as const, attempts: 0 },
+          saved: Promise.resolve()
+        }));
+        this.entries = [...restored, ...this.entries];
+      }
+    });
+
+    this.ready.then(() => this.drain());
+  }
+
+  /**
+   * Add an operation to the end of the queue and try to send it
+   */
+  enqueue(operation: WhiteboardOperation): void {
+    const record: QueuedOperation = {
+      queueId: this.queueId,
+      sessionId: this.sessionId,
+      operation,
+      attempts: 0,
+      status: 'pending',
+      enqueuedAt: Date.now()
+    };
+
+    const saved = saveQueuedOperation(record).then(id => {
+      record.id = id;
+    });
+
+    this.entries.push({ record, saved });
+    this.drain();
+  }
+
+  /**
+   * Retry everything, including failed operations, e.g. after the channel reconnects
+   */
+  resume(): void {
+    this.entries.forEach(entry => {
+      if (entry.record.status === 'failed') {
+        entry.record.status = 'pending';
+        entry.record.attempts = 0;
+      }
+    });
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    debugLog('Queue', `Resuming queue ${this.queueId} with ${this.entries.length} operations`);
+    this.drain();
+  }
+
+  /**
+   * Number of queued, failed and rejected operations
+   */
+  getCounts(): PendingOperationCounts {
+    const failed = this.entries.filter(entry => entry.record.status === 'failed').length;
+    return {
+      pending: this.entries.length - failed,
+      failed,
+      rejected: this.rejectedCount
+    };
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Stop retrying; stored operations are picked up by the next queue with the same id
+   */
+  dispose(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private async drain(): Promise<void> {
+    if (this.isDraining || this.retryTimer) return;
+    this.isDraining = true;
+
+    try {
+      await this.ready;
+
+      let entry = this.nextPendingEntry();
+      while (entry) {
+        try {
+          await this.sender(entry.record.operation);
+          this.entries = this.entries.filter(e => e !== entry);
+          this.removeRecord(entry);
+        } catch (err) {
+          entry.record.attempts += 1;
+
+          if (isPermanentError(err)) {
+            logError('OperationQueue', `Server rejected ${entry.record.operation.operation_type}, dropping it`, err);
+            this.rejectedCount += 1;
+            this.entries = this.entries.filter(e => e !== entry);
+            this.removeRecord(entry);
+          } else if (entry.record.attempts >= MAX_SEND_ATTEMPTS) {
+            logError('OperationQueue', `Giving up on ${entry.record.operation.operation_type} after ${entry.record.attempts} attempts, holding the queue until reconnect`, err);
+            entry.record.status = 'failed';
+            this.updateRecord(entry);
+            return;
+          } else {
+            const delay = Math.min(BASE_RETRY_DELAY * Math.pow(2, entry.record.attempts - 1), MAX_RETRY_DELAY);
+            debugLog('Queue', `Send failed (attempt ${entry.record.attempts}), retrying in ${delay}ms`, err);
+            this.updateRecord(entry);
+            this.retryTimer = setTimeout(() => {
+              this.retryTimer = null;
+              this.drain();
+            }, delay);
+            return;
+          }
+        }
+
+        entry = this.nextPendingEntry();
+      }
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  // Only the head of the queue is ever sent, a failed head blocks the rest
+  private nextPendingEntry(): QueueEntry | undefined {
+    const head = this.entries[0];
+    return head?.record.status === 'pending' ? head : undefined;
+  }
+
+  private updateRecord(entry: QueueEntry): void {
+    entry.saved = entry.saved.then(() => {
+      if (entry.record.id !== undefined) {
+        return saveQueuedOperation(entry.record).then(() => undefined);
+      }
+    });
+  }
+
+  private removeRecord(entry: QueueEntry): void {
+    entry.saved.then(() => {
+      if (entry.record.id !== undefined) {
+        return deleteQueuedOperation(entry.record.id);
+      }
+    });
+  }
+}
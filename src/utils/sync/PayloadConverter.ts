@@ -1,5 +1,42 @@
 
 import { WhiteboardOperation } from '@/types/sync';
+import { LineObject } from '@/types/whiteboard';
+import { POINT_PRECISION, PRESSURE_PRECISION } from '@/utils/strokeSimplification';
+import { OperationPayload } from './types';
+import { validateOperation, quarantineOperation } from './operationValidation';
+
+// Line of a stored draw operation, points and pressures packed into strings
+type EncodedLine = Omit<LineObject, 'points' | 'pressures'> & {
+  encoded_points: string;
+  encoded_pressures?: string;
+};
+
+/**
+ * Pack points as base-36 integers in steps of 1 / POINT_PRECISION, each coordinate
+ * stored as the difference to the same coordinate of the previous point
+ */
+const encodePoints = (points: number[]): string =>
+  points
+    .map(value => Math.round(value * POINT_PRECISION))
+    .map((value, index, values) => (index < 2 ? value : value - values[index - 2]).toString(36))
+    .join(',');
+
+const decodePoints = (encoded: string): number[] => {
+  const values = encoded ? encoded.split(',').map(value => parseInt(value, 36)) : [];
+  for (let i = 2; i < values.length; i++) {
+    values[i] += values[i - 2];
+  }
+  return values.map(value => value / POINT_PRECISION);
+};
+
+const encodePressures = (pressures: number[]): string =>
+  pressures.map(pressure => Math.round(pressure * PRESSURE_PRECISION).toString(36)).join(',');
+
+const decodePressures = (encoded: string): number[] =>
+  encoded ? encoded.split(',').map(value => parseInt(value, 36) / PRESSURE_PRECISION) : [];
+
+const isEncodedLine = (line: unknown): line is EncodedLine =>
+  !!line && typeof (line as EncodedLine).encoded_points === 'string';
 
 export class PayloadConverter {
   /**
@@ -9,14 +46,30 @@ export class PayloadConverter {
     const data = payload.new as any;
     
     return {
+      id: data.operation_id || data.id, // Rows stored before operation IDs existed use their row ID
       whiteboard_id: data.board_id,
       operation_type: data.action_type,
       timestamp: new Date(data.created_at).getTime(),
       sender_id: data.user_id,
-      data: data.object_data
+      data: PayloadConverter.decodeData(data.action_type, data.object_data),
+      ...(typeof data.seq === 'number' ? { seq: data.seq } : {})
     };
   }
   
+  /**
+   * Converts a database payload to a WhiteboardOperation after checking its data
+   * Returns null and quarantines the operation when its payload is malformed
+   */
+  static toValidOperation(payload: OperationPayload | null | undefined): WhiteboardOperation | null {
+    if (!payload?.new) {
+      quarantineOperation(payload, 'Payload has no row');
+      return null;
+    }
+    
+    const operation = PayloadConverter.toOperation(payload);
+    return validateOperation(operation) ? operation : null;
+  }
+  
   /**
    * Converts a WhiteboardOperation to a database record
    */
@@ -24,10 +77,64 @@ export class PayloadConverter {
     return {
       action_type: operation.operation_type,
       board_id: operation.whiteboard_id,
-      object_data: operation.data,
+      object_data: PayloadConverter.encodeData(operation.operation_type, operation.data),
+      operation_id: operation.id,
       object_id: `${operation.operation_type}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       session_id: sessionId,
       user_id: operation.sender_id
     };
   }
+
+  /**
+   * Packs the points of a draw operation's line for storage
+   * Other operation data is stored as is
+   */
+  static encodeData(operationType: string, data: WhiteboardOperation['data']): WhiteboardOperation['data'] {
+    const line: LineObject | undefined = data?.line;
+    if (operationType !== 'draw' || !line || !Array.isArray(line.points)) return data;
+
+    const { points, pressures, ...style } = line;
+    const encodedLine: EncodedLine = {
+      ...style,
+      encoded_points: encodePoints(points),
+      ...(pressures && pressures.length > 0 ? { encoded_pressures: encodePressures(pressures) } : {})
+    };
+
+    return { ...data, line: encodedLine };
+  }
+
+  /**
+   * Unpacks the line of a stored draw operation
+   * Rows stored before points were packed are returned unchanged
+   */
+  static decodeData(operationType: string, data: WhiteboardOperation['data']): WhiteboardOperation['data'] {
+    const line: unknown = data?.line;
+    if (operationType !== 'draw' || !isEncodedLine(line)) return data;
+
+    const { encoded_points, encoded_pressures, ...style } = line;
+    const decodedLine: LineObject = {
+      ...style,
+      points: decodePoints(encoded_points),
+      ...(encoded_pressures ? { pressures: decodePressures(encoded_pressures) } : {})
+    };
+
+    return { ...data, line: decodedLine };
+  }
+
+  /**
+   * Unpacks the data of a whiteboard_data row read straight from the database
+   */
+  static decodeRow<T extends { action_type: string; object_data: unknown }>(row: T): T {
+    return { ...row, object_data: PayloadConverter.decodeData(row.action_type, row.object_data) };
+  }
+
+  /**
+   * Unpacks stored whiteboard_data rows, leaving out and quarantining rows whose operation is malformed
+   * Stored rows are checked like live payloads before they are folded into a board
+   */
+  static decodeValidRows<T extends { action_type: string; object_data: unknown }>(rows: T[] | null | undefined): T[] {
+    return (rows || [])
+      .map(PayloadConverter.decodeRow)
+      .filter(row => validateOperation(PayloadConverter.toOperation({ new: row })));
+  }
 }
@@ -0,0 +1,31 @@
+/**
+ * Set of the most recently added IDs, forgetting the oldest once the limit is reached
+ * Used to recognise operations that were already applied without growing forever
+ */
+export class RecentIdSet {
+  private ids: Set<string> = new Set();
+  private order: string[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  has(id: string): boolean {
+    return this.ids.has(id);
+  }
+
+  /**
+   * Remember an ID
+   * @returns false when the ID was already known
+   */
+  add(id: string): boolean {
+    if (this.ids.has(id)) return false;
+
+    this.ids.add(id);
+    this.order.push(id);
+
+    if (this.order.length > this.limit) {
+      const oldest = this.order.shift();
+      if (oldest) this.ids.delete(oldest);
+    }
+    return true;
+  }
+}
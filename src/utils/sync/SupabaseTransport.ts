@@ -0,0 +1,159 @@
+import { WhiteboardOperation, StrokeStreamEvent, LaserPointerEvent, CursorPresence } from '@/types/sync';
+import { SyncTransport, TransportChannel, TransportChannelHandlers, OperationPayload, OperationRow, OperationCursor } from './types';
+import { PayloadConverter } from './PayloadConverter';
+import { createDebugLogger } from '@/utils/debug/debugConfig';
+import { supabase } from '@/integrations/supabase/client';
+import { SnapshotManager } from '@/utils/persistence';
+
+const debugLog = createDebugLogger('connection');
+
+// Broadcast event carrying in-progress stroke points
+const STROKE_BROADCAST_EVENT = 'stroke';
+
+// Broadcast event carrying laser pointer trail points
+const LASER_BROADCAST_EVENT = 'laser';
+
+/**
+ * Sync transport backed by Supabase: operations are stored in whiteboard_data and
+ * delivered through postgres_changes, strokes, laser trails and cursors use channel broadcast and presence
+ */
+export class SupabaseTransport implements SyncTransport {
+  readonly name = 'supabase';
+
+  /**
+   * Subscribe to the realtime channel of a whiteboard
+   */
+  openChannel(whiteboardId: string, handlers: TransportChannelHandlers): TransportChannel {
+    const channel = supabase
+      .channel(`whiteboard-${whiteboardId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'whiteboard_data',
+          filter: `board_id=eq.${whiteboardId}`
+        },
+        (payload) => handlers.onOperation(payload as unknown as OperationPayload)
+      )
+      .on(
+        'broadcast',
+        { event: STROKE_BROADCAST_EVENT },
+        ({ payload }) => handlers.onStroke(payload as StrokeStreamEvent)
+      )
+      .on(
+        'broadcast',
+        { event: LASER_BROADCAST_EVENT },
+        ({ payload }) => handlers.onLaser(payload as LaserPointerEvent)
+      )
+      .on(
+        'presence',
+        { event: 'sync' },
+        () => handlers.onPresenceSync()
+      )
+      .subscribe((status) => handlers.onStatus(status));
+
+    return {
+      get isJoined() {
+        return channel.state === 'joined';
+      },
+      broadcastStroke: async (event) => {
+        await channel.send({
+          type: 'broadcast',
+          event: STROKE_BROADCAST_EVENT,
+          payload: event
+        });
+      },
+      broadcastLaser: async (event) => {
+        await channel.send({
+          type: 'broadcast',
+          event: LASER_BROADCAST_EVENT,
+          payload: event
+        });
+      },
+      trackPresence: async (cursor) => {
+        if (cursor) {
+          await channel.track(cursor);
+        } else {
+          await channel.untrack();
+        }
+      },
+      getPresence: () => Object.values(channel.presenceState<CursorPresence>()).flat(),
+      close: () => {
+        supabase.removeChannel(channel);
+      }
+    };
+  }
+
+  /**
+   * Store an operation, by direct insert when signed in and through the public RPC otherwise
+   * Throws when the operation could not be stored so the queue can retry it
+   */
+  async saveOperation(operation: WhiteboardOperation, sessionId: string): Promise<void> {
+    // Check if user is authenticated by getting current session
+    const { data: { session }, error: authError } = await supabase.auth.getSession();
+
+    if (authError) {
+      debugLog('Auth', 'Error checking session, assuming anonymous user', authError);
+    }
+
+    const isAuthenticated = session?.user?.id;
+
+    if (isAuthenticated) {
+      // Use direct insert for authenticated users
+      const dbRecord = PayloadConverter.toDatabaseRecord(operation, sessionId);
+
+      const { error, data } = await supabase
+        .from('whiteboard_data')
+        .insert(dbRecord);
+
+      if (error) {
+        debugLog('Send', 'Error sending operation via direct insert', error);
+        throw error;
+      }
+      debugLog('Send', 'Successfully sent operation via direct insert', data);
+    } else {
+      // Use public RPC for anonymous users (bypasses RLS)
+      const { error, data } = await supabase
+        .rpc('public_save_whiteboard_operation', {
+          p_session_id: sessionId,
+          p_board_id: operation.whiteboard_id,
+          p_action_type: operation.operation_type,
+          p_object_data: PayloadConverter.encodeData(operation.operation_type, operation.data),
+          p_user_id: operation.sender_id,
+          p_operation_id: operation.id
+        });
+
+      if (error) {
+        debugLog('Send', 'Error sending operation via public RPC', error);
+        throw error;
+      }
+      debugLog('Send', 'Successfully sent operation via public RPC', data);
+    }
+
+    // Snapshots are saved by the session's teacher, students write anonymously
+    if (isAuthenticated) {
+      SnapshotManager.recordOperation(sessionId, operation.whiteboard_id);
+    }
+  }
+
+  /**
+   * Fetch the operations stored after a cursor, in sequence order
+   */
+  async fetchOperations(whiteboardId: string, sessionId: string, cursor: OperationCursor, limit: number): Promise<OperationRow[]> {
+    const { data, error } = await supabase
+      .rpc('public_get_whiteboard_operations', {
+        p_session_id: sessionId,
+        p_board_id: whiteboardId,
+        p_limit: limit,
+        ...(cursor.afterSeq !== undefined ? { p_after_seq: cursor.afterSeq } : {}),
+        ...(cursor.since ? { p_since: cursor.since } : {})
+      });
+
+    if (error) {
+      throw new Error(`Error fetching missed operations: ${error.message}`);
+    }
+
+    return data || [];
+  }
+}
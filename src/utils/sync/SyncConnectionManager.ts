@@ -1,21 +1,44 @@
 
-import { SyncConfig, WhiteboardOperation } from '@/types/sync';
+import { SyncConfig, WhiteboardOperation, PendingOperationCounts, StrokeStreamEvent, LaserPointerEvent, CursorPresence } from '@/types/sync';
 import { Connection } from './Connection';
-import { OperationHandler } from './types';
-import { createDebugLogger, logError } from '@/utils/debug/debugConfig';
-import { RealtimeChannel } from '@supabase/supabase-js';
-import { supabase } from '@/integrations/supabase/client';
+import { CatchUpSync } from './CatchUpSync';
+import { SupabaseTransport } from './SupabaseTransport';
+import { BroadcastChannelTransport } from './BroadcastChannelTransport';
+import { OperationHandler, StrokeHandler, LaserHandler, PresenceHandler, ResyncHandler, SyncTransport, TransportChannel } from './types';
+import { validateStrokeEvent, validateLaserEvent } from './operationValidation';
+import { createDebugLogger, logError, logWarning } from '@/utils/debug/debugConfig';
 
 const debugLog = createDebugLogger('connection');
 
+// Set to 'local' in localStorage to sync between tabs of this browser without a backend
+const SYNC_TRANSPORT_STORAGE_KEY = 'whiteboard-sync-transport';
+
+const createDefaultTransport = (): SyncTransport => {
+  try {
+    if (localStorage.getItem(SYNC_TRANSPORT_STORAGE_KEY) === 'local') {
+      return new BroadcastChannelTransport();
+    }
+  } catch {
+    // Storage unavailable, fall back to the backend
+  }
+  return new SupabaseTransport();
+};
+
 /**
  * Singleton manager for whiteboard sync connections
- * Maintains connections across component remounts and centrally manages Supabase channels
+ * Maintains connections across component remounts and centrally manages transport channels
  */
 class SyncConnectionManager {
   private static instance: SyncConnectionManager;
   private connections: Map<string, Connection> = new Map();
-  private channels: Map<string, RealtimeChannel> = new Map();
+  private transport: SyncTransport = createDefaultTransport();
+  private channels: Map<string, TransportChannel> = new Map();
+  private catchUps: Map<string, CatchUpSync> = new Map(); // Missed-operation tracking per channel
+  private strokeHandlers: Map<string, Set<StrokeHandler>> = new Map(); // Live stroke listeners per whiteboard
+  private laserHandlers: Map<string, Set<LaserHandler>> = new Map(); // Laser pointer listeners per whiteboard
+  private presenceHandlers: Map<string, Set<PresenceHandler>> = new Map(); // Cursor listeners per whiteboard
+  private resyncHandlers: Map<string, Set<ResyncHandler>> = new Map(); // Board reloads per whiteboard
+  private loadedSequences: Map<string, number> = new Map(); // Last sequence of each loaded board, until its channel opens
   
   // Private constructor for singleton pattern
   private constructor() {}
@@ -27,6 +50,28 @@ class SyncConnectionManager {
     return SyncConnectionManager.instance;
   }
   
+  /**
+   * Replace the sync transport, e.g. with a BroadcastChannelTransport for offline use
+   * Only possible while no channel is open, existing connections keep their transport
+   */
+  public setTransport(transport: SyncTransport): boolean {
+    if (this.channels.size > 0) {
+      logWarning('Manager', `Cannot switch to ${transport.name} transport while ${this.channels.size} channels are open`);
+      return false;
+    }
+    
+    debugLog('Manager', `Using ${transport.name} sync transport`);
+    this.transport = transport;
+    return true;
+  }
+  
+  /**
+   * Get the name of the active sync transport
+   */
+  public getTransportName(): string {
+    return this.transport.name;
+  }
+  
   /**
    * Register a handler for a specific whiteboard connection
    * Creates the connection if it doesn't exist, manages shared channel subscriptions
@@ -43,24 +88,36 @@ class SyncConnectionManager {
     let channel = this.channels.get(channelName);
     
     if (!channel) {
-      debugLog('Manager', `Creating and subscribing to new Supabase channel: ${channelName}`);
-      channel = supabase
-        .channel(channelName)
-        .on(
-          'postgres_changes',
-          {
-            event: 'INSERT',
-            schema: 'public',
-            table: 'whiteboard_data',
-            filter: `board_id=eq.${config.whiteboardId}`
-          },
-          (payload) => this.handleChannelPayload(payload, config.whiteboardId)
-        )
-        .subscribe((status) => {
+      debugLog('Manager', `Creating and subscribing to new ${this.transport.name} channel: ${channelName}`);
+      
+      // Remember the last operation seen so a reconnect can fetch what was missed
+      const catchUp = new CatchUpSync(
+        config.whiteboardId,
+        config.sessionId,
+        this.transport,
+        (payload) => this.handleChannelPayload(payload, config.whiteboardId),
+        () => this.requestResync(config.whiteboardId)
+      );
+      this.catchUps.set(channelName, catchUp);
+      
+      const loadedSeq = this.loadedSequences.get(config.whiteboardId);
+      if (loadedSeq !== undefined) {
+        this.loadedSequences.delete(config.whiteboardId);
+        catchUp.seedSequence(loadedSeq);
+      }
+      
+      channel = this.transport.openChannel(config.whiteboardId, {
+        onOperation: (payload) => catchUp.handleLivePayload(payload),
+        onStroke: (event) => this.handleStrokeBroadcast(event, config.whiteboardId),
+        onLaser: (event) => this.handleLaserBroadcast(event, config.whiteboardId),
+        onPresenceSync: () => this.handlePresenceSync(config.whiteboardId),
+        onStatus: (status) => {
           debugLog('Manager', `Channel ${channelName} subscription status: ${status}`);
+          catchUp.handleStatus(status);
           // Update connection status for all connections using this channel
           this.updateConnectionStatus(config.whiteboardId, status === 'SUBSCRIBED');
-        });
+        }
+      });
       
       this.channels.set(channelName, channel);
     }
@@ -70,7 +127,7 @@ class SyncConnectionManager {
     // If connection doesn't exist, create it with the shared channel
     if (!connection) {
       debugLog('Manager', `Creating new connection for ${connectionId}`);
-      connection = new Connection(config, handler, channel);
+      connection = new Connection(config, handler, channel, this.transport);
       this.connections.set(connectionId, connection);
     } else {
       // Connection exists, just add the handler
@@ -83,12 +140,12 @@ class SyncConnectionManager {
     }
     
     return {
-      isConnected: channel.state === 'joined'
+      isConnected: channel.isJoined
     };
   }
   
   /**
-   * Handle incoming payload from Supabase channel and dispatch to relevant connections
+   * Handle incoming payload from a transport channel and dispatch to relevant connections
    */
   private handleChannelPayload(payload: any, whiteboardId: string): void {
     debugLog('Manager', 'Received payload from channel:', payload);
@@ -101,6 +158,36 @@ class SyncConnectionManager {
     });
   }
   
+  /**
+   * Dispatch a live stroke broadcast to the stroke handlers of a whiteboard
+   */
+  private handleStrokeBroadcast(event: StrokeStreamEvent, whiteboardId: string): void {
+    if (!validateStrokeEvent(event)) return;
+    this.strokeHandlers.get(whiteboardId)?.forEach(handler => handler(event));
+  }
+  
+  /**
+   * Dispatch a laser pointer broadcast to the laser handlers of a whiteboard
+   */
+  private handleLaserBroadcast(event: LaserPointerEvent, whiteboardId: string): void {
+    if (!validateLaserEvent(event)) return;
+    this.laserHandlers.get(whiteboardId)?.forEach(handler => handler(event));
+  }
+  
+  /**
+   * Dispatch the current presence state of a whiteboard channel to its cursor handlers
+   */
+  private handlePresenceSync(whiteboardId: string): void {
+    const handlers = this.presenceHandlers.get(whiteboardId);
+    const channel = this.channels.get(`whiteboard-${whiteboardId}`);
+    if (!handlers || !channel) return;
+    
+    const cursors = channel.getPresence()
+      .filter(cursor => typeof cursor.x === 'number' && typeof cursor.y === 'number');
+    
+    handlers.forEach(handler => handler(cursors));
+  }
+  
   /**
    * Update connection status for all connections using a specific whiteboard channel
    */
@@ -160,6 +247,172 @@ class SyncConnectionManager {
     return connection.sendOperation(operation);
   }
   
+  /**
+   * Record the last operation sequence of a board loaded from persistence,
+   * so live operations after it are applied without gaps
+   */
+  public seedOperationSequence(whiteboardId: string, seq: number): void {
+    const catchUp = this.catchUps.get(`whiteboard-${whiteboardId}`);
+    if (catchUp) {
+      catchUp.seedSequence(seq);
+    } else {
+      this.loadedSequences.set(whiteboardId, seq);
+    }
+  }
+  
+  /**
+   * Register a handler that reloads a whiteboard from persistence when live sync cannot recover
+   */
+  public registerResyncHandler(whiteboardId: string, handler: ResyncHandler): void {
+    let handlers = this.resyncHandlers.get(whiteboardId);
+    if (!handlers) {
+      handlers = new Set();
+      this.resyncHandlers.set(whiteboardId, handlers);
+    }
+    handlers.add(handler);
+  }
+  
+  /**
+   * Unregister a resync handler
+   */
+  public unregisterResyncHandler(whiteboardId: string, handler: ResyncHandler): void {
+    const handlers = this.resyncHandlers.get(whiteboardId);
+    if (!handlers) return;
+    
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.resyncHandlers.delete(whiteboardId);
+    }
+  }
+  
+  private requestResync(whiteboardId: string): void {
+    const handlers = this.resyncHandlers.get(whiteboardId);
+    debugLog('Manager', `Resync requested for ${whiteboardId}, ${handlers?.size || 0} handlers`);
+    handlers?.forEach(handler => handler());
+  }
+  
+  /**
+   * Register a handler for live strokes drawn on a whiteboard
+   */
+  public registerStrokeHandler(whiteboardId: string, handler: StrokeHandler): void {
+    let handlers = this.strokeHandlers.get(whiteboardId);
+    if (!handlers) {
+      handlers = new Set();
+      this.strokeHandlers.set(whiteboardId, handlers);
+    }
+    handlers.add(handler);
+  }
+  
+  /**
+   * Unregister a live stroke handler
+   */
+  public unregisterStrokeHandler(whiteboardId: string, handler: StrokeHandler): void {
+    const handlers = this.strokeHandlers.get(whiteboardId);
+    if (!handlers) return;
+    
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.strokeHandlers.delete(whiteboardId);
+    }
+  }
+  
+  /**
+   * Stream in-progress stroke points over the whiteboard channel
+   * Fire-and-forget: the finished stroke is still persisted as a regular draw operation
+   */
+  public broadcastStroke(config: SyncConfig, event: StrokeStreamEvent): void {
+    if (config.isReceiveOnly) return;
+    
+    const channel = this.channels.get(`whiteboard-${config.whiteboardId}`);
+    if (!channel || !channel.isJoined) return;
+    
+    channel.broadcastStroke(event).catch((err) => {
+      debugLog('Manager', `Failed to broadcast stroke ${event.stroke_id}`, err);
+    });
+  }
+  
+  /**
+   * Register a handler for laser pointer trails shown on a whiteboard
+   */
+  public registerLaserHandler(whiteboardId: string, handler: LaserHandler): void {
+    let handlers = this.laserHandlers.get(whiteboardId);
+    if (!handlers) {
+      handlers = new Set();
+      this.laserHandlers.set(whiteboardId, handlers);
+    }
+    handlers.add(handler);
+  }
+  
+  /**
+   * Unregister a laser pointer handler
+   */
+  public unregisterLaserHandler(whiteboardId: string, handler: LaserHandler): void {
+    const handlers = this.laserHandlers.get(whiteboardId);
+    if (!handlers) return;
+    
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.laserHandlers.delete(whiteboardId);
+    }
+  }
+  
+  /**
+   * Send laser pointer trail points over the whiteboard channel
+   * Fire-and-forget: laser trails are never stored or added to history
+   */
+  public broadcastLaser(config: SyncConfig, event: LaserPointerEvent): void {
+    if (config.isReceiveOnly) return;
+    
+    const channel = this.channels.get(`whiteboard-${config.whiteboardId}`);
+    if (!channel || !channel.isJoined) return;
+    
+    channel.broadcastLaser(event).catch((err) => {
+      debugLog('Manager', `Failed to broadcast laser trail ${event.trail_id}`, err);
+    });
+  }
+  
+  /**
+   * Register a handler for the cursors shown on a whiteboard
+   */
+  public registerPresenceHandler(whiteboardId: string, handler: PresenceHandler): void {
+    let handlers = this.presenceHandlers.get(whiteboardId);
+    if (!handlers) {
+      handlers = new Set();
+      this.presenceHandlers.set(whiteboardId, handlers);
+    }
+    handlers.add(handler);
+    
+    // Show cursors that were already present before this handler registered
+    this.handlePresenceSync(whiteboardId);
+  }
+  
+  /**
+   * Unregister a cursor handler
+   */
+  public unregisterPresenceHandler(whiteboardId: string, handler: PresenceHandler): void {
+    const handlers = this.presenceHandlers.get(whiteboardId);
+    if (!handlers) return;
+    
+    handlers.delete(handler);
+    if (handlers.size === 0) {
+      this.presenceHandlers.delete(whiteboardId);
+    }
+  }
+  
+  /**
+   * Publish this client's cursor on a whiteboard, or remove it when null
+   */
+  public trackCursor(config: SyncConfig, cursor: CursorPresence | null): void {
+    if (config.isReceiveOnly) return;
+    
+    const channel = this.channels.get(`whiteboard-${config.whiteboardId}`);
+    if (!channel || !channel.isJoined) return;
+    
+    channel.trackPresence(cursor).catch((err) => {
+      debugLog('Manager', `Failed to update cursor presence for ${config.whiteboardId}`, err);
+    });
+  }
+  
   /**
    * Clean up a connection if it's no longer needed
    */
@@ -168,8 +421,9 @@ class SyncConnectionManager {
     
     if (connection && connection.handlerCount === 0) {
       // Check if there's been any activity in the last 30 seconds
+      // and keep the connection while its outbound queue is still draining
       const inactiveTime = Date.now() - connection.lastActivity;
-      if (inactiveTime > 30000) {
+      if (inactiveTime > 30000 && !connection.hasPendingOperations) {
         debugLog('Manager', `Cleaning up inactive connection for ${connectionId}`);
         connection.close();
         this.connections.delete(connectionId);
@@ -198,8 +452,10 @@ class SyncConnectionManager {
       const channel = this.channels.get(channelName);
       if (channel) {
         debugLog('Manager', `Cleaning up unused channel: ${channelName}`);
-        supabase.removeChannel(channel);
         this.channels.delete(channelName);
+        this.catchUps.get(channelName)?.dispose();
+        this.catchUps.delete(channelName);
+        channel.close();
       }
     }
   }
@@ -207,28 +463,30 @@ class SyncConnectionManager {
   /**
    * Get connection status
    */
-  public getConnectionStatus(config: SyncConfig): { isConnected: boolean } {
+  public getConnectionStatus(config: SyncConfig): { isConnected: boolean; pendingOperations: PendingOperationCounts } {
     // Include read/write state in connection ID to find the correct connection
     const connectionId = `${config.whiteboardId}-${config.sessionId}-${config.senderId}-${config.isReceiveOnly ? 'ro' : 'rw'}`;
     const connection = this.connections.get(connectionId);
     
     return {
-      isConnected: connection?.isConnected || false
+      isConnected: connection?.isConnected || false,
+      pendingOperations: connection?.pendingOperations || { pending: 0, failed: 0, rejected: 0 }
     };
   }
   
   /**
    * Debug method to inspect current connections
    */
-  public getDebugInfo(): { connectionId: string; handlerCount: number; isConnected: boolean; senderId: string }[] {
-    const info: { connectionId: string; handlerCount: number; isConnected: boolean; senderId: string }[] = [];
+  public getDebugInfo(): { connectionId: string; handlerCount: number; isConnected: boolean; senderId: string; pendingOperations: PendingOperationCounts }[] {
+    const info: { connectionId: string; handlerCount: number; isConnected: boolean; senderId: string; pendingOperations: PendingOperationCounts }[] = [];
     
     this.connections.forEach((connection, connectionId) => {
       info.push({
         connectionId,
         handlerCount: connection.handlerCount,
         isConnected: connection.isConnected,
-        senderId: connection.getSenderId()
+        senderId: connection.getSenderId(),
+        pendingOperations: connection.pendingOperations
       });
     });
     
@@ -4,4 +4,8 @@ import SyncConnectionManager from './SyncConnectionManager';
 export { SyncConnectionManager };
 export * from './types';
 export * from './PayloadConverter';
+export * from './operationValidation';
 export * from './Connection';
+export * from './RecentIdSet';
+export * from './SupabaseTransport';
+export * from './BroadcastChannelTransport';
@@ -0,0 +1,119 @@
+import { WhiteboardOperation } from '@/types/sync';
+import { logError } from '@/utils/debug/debugConfig';
+
+/**
+ * @fileoverview IndexedDB persistence for the outbound operation queue
+ * @description Keeps unsent operations across reloads. Falls back to a no-op store
+ * when IndexedDB is unavailable (private browsing, older browsers).
+ */
+
+const DB_NAME = 'whiteboard-sync';
+const DB_VERSION = 1;
+const STORE_NAME = 'outbound_operations';
+const QUEUE_INDEX = 'queueId';
+
+export type QueuedOperationStatus = 'pending' | 'failed';
+
+export interface QueuedOperation {
+  id?: number; // Auto-incremented key, preserves enqueue order
+  queueId: string;
+  sessionId: string;
+  operation: WhiteboardOperation;
+  attempts: number;
+  status: QueuedOperationStatus;
+  enqueuedAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === 'undefined') {
+      resolve(null);
+      return;
+    }
+
+    try {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          const store = db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+          store.createIndex(QUEUE_INDEX, QUEUE_INDEX, { unique: false });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        logError('OperationQueueStore', 'Could not open IndexedDB, queue will not survive reloads', request.error);
+        resolve(null);
+      };
+    } catch (err) {
+      logError('OperationQueueStore', 'IndexedDB unavailable', err);
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+};
+
+const runRequest = <T>(db: IDBDatabase, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Load all stored operations for a queue, oldest first
+ */
+export const loadQueuedOperations = async (queueId: string): Promise<QueuedOperation[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+
+  try {
+    const records = await runRequest<QueuedOperation[]>(db, 'readonly', store =>
+      store.index(QUEUE_INDEX).getAll(queueId)
+    );
+    return records.sort((a, b) => (a.id || 0) - (b.id || 0));
+  } catch (err) {
+    logError('OperationQueueStore', `Error loading queued operations for ${queueId}`, err);
+    return [];
+  }
+};
+
+/**
+ * Insert or update a queued operation, returning its key
+ */
+export const saveQueuedOperation = async (record: QueuedOperation): Promise<number | undefined> => {
+  const db = await openDatabase();
+  if (!db) return undefined;
+
+  try {
+    const { id, ...rest } = record;
+    // Let IndexedDB assign the key on first insert
+    const value = id === undefined ? rest : record;
+    return await runRequest<number>(db, 'readwrite', store => store.put(value));
+  } catch (err) {
+    logError('OperationQueueStore', 'Error saving queued operation', err);
+    return undefined;
+  }
+};
+
+/**
+ * Remove a queued operation once it has been sent
+ */
+export const deleteQueuedOperation = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  if (!db) return;
+
+  try {
+    await runRequest<undefined>(db, 'readwrite', store => store.delete(id));
+  } catch (err) {
+    logError('OperationQueueStore', `Error deleting queued operation ${id}`, err);
+  }
+};
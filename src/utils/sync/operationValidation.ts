@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import { WhiteboardOperation, OperationType, StrokeStreamEvent, LaserPointerEvent } from '@/types/sync';
+import { logWarning } from '@/utils/debug/debugConfig';
+
+// Rejected operations kept for inspection, oldest dropped first
+const QUARANTINE_LIMIT = 100;
+
+const finiteNumber = z.number().finite();
+
+// Unknown keys are allowed so operations from newer clients are not rejected
+export const lineSchema = z.object({
+  id: z.string().min(1),
+  tool: z.enum(['pencil', 'eraser', 'highlighter', 'select2', 'shape', 'text']),
+  points: z.array(finiteNumber),
+  color: z.string(),
+  strokeWidth: finiteNumber.nonnegative(),
+  x: finiteNumber,
+  y: finiteNumber,
+  pressures: z.array(finiteNumber).optional(),
+  groupId: z.string().nullable().optional(),
+  zIndex: finiteNumber.nullable().optional()
+}).passthrough();
+
+export const imageSchema = z.object({
+  id: z.string().min(1),
+  x: finiteNumber,
+  y: finiteNumber,
+  src: z.string().min(1),
+  width: finiteNumber.optional(),
+  height: finiteNumber.optional(),
+  rotation: finiteNumber.optional(),
+  locked: z.boolean().optional(),
+  groupId: z.string().nullable().optional(),
+  zIndex: finiteNumber.nullable().optional()
+}).passthrough();
+
+export const shapeSchema = z.object({
+  id: z.string().min(1),
+  kind: z.enum(['rectangle', 'ellipse', 'triangle', 'line', 'arrow']),
+  x: finiteNumber,
+  y: finiteNumber,
+  width: finiteNumber,
+  height: finiteNumber,
+  rotation: finiteNumber.optional(),
+  color: z.string(),
+  fillColor: z.string().optional(),
+  strokeWidth: finiteNumber.nonnegative(),
+  apexOffset: finiteNumber.min(0).max(1).optional(),
+  groupId: z.string().nullable().optional(),
+  zIndex: finiteNumber.nullable().optional()
+}).passthrough();
+
+export const textSchema = z.object({
+  id: z.string().min(1),
+  x: finiteNumber,
+  y: finiteNumber,
+  text: z.string(),
+  width: finiteNumber.positive(),
+  fontSize: finiteNumber.positive(),
+  color: z.string(),
+  rotation: finiteNumber.optional(),
+  groupId: z.string().nullable().optional(),
+  zIndex: finiteNumber.nullable().optional()
+}).passthrough();
+
+const lineUpdateSchema = z.object({
+  line_id: z.string().min(1),
+  updates: lineSchema.partial()
+});
+
+const imageUpdateSchema = z.object({
+  image_id: z.string().min(1),
+  updates: imageSchema.partial()
+});
+
+const shapeUpdateSchema = z.object({
+  shape_id: z.string().min(1),
+  updates: shapeSchema.partial()
+});
+
+const textUpdateSchema = z.object({
+  text_id: z.string().min(1),
+  updates: textSchema.partial()
+});
+
+const idListSchema = z.array(z.string());
+
+const objectIdListsSchema = z.object({
+  line_ids: idListSchema,
+  image_ids: idListSchema,
+  shape_ids: idListSchema,
+  text_ids: idListSchema
+});
+
+// Undo/redo change set, older clients sent an empty payload
+const changeSetSchema = z.object({
+  lines_to_add: z.array(lineSchema).optional(),
+  images_to_add: z.array(imageSchema).optional(),
+  line_ids_to_remove: idListSchema.optional(),
+  image_ids_to_remove: idListSchema.optional(),
+  line_updates: z.array(lineUpdateSchema).optional(),
+  image_updates: z.array(imageUpdateSchema).optional(),
+  shapes_to_add: z.array(shapeSchema).optional(),
+  shape_ids_to_remove: idListSchema.optional(),
+  shape_updates: z.array(shapeUpdateSchema).optional(),
+  texts_to_add: z.array(textSchema).optional(),
+  text_ids_to_remove: idListSchema.optional(),
+  text_updates: z.array(textUpdateSchema).optional()
+}).nullish();
+
+const operationDataSchemas: Record<OperationType, z.ZodTypeAny> = {
+  draw: z.object({ line: lineSchema }),
+  erase: z.object({ line_ids: idListSchema }),
+  replace_lines: z.object({
+    line_ids: idListSchema,
+    lines: z.array(lineSchema)
+  }),
+  add_image: z.object({ image: imageSchema }),
+  update_image: imageUpdateSchema,
+  delete_image: z.object({ image_id: z.string().min(1) }),
+  select_objects: z.object({
+    selectedObjects: z.array(z.object({
+      id: z.string(),
+      type: z.enum(['line', 'image', 'shape', 'text'])
+    }))
+  }),
+  deselect_objects: z.object({ objectIds: idListSchema }),
+  transform_objects: lineUpdateSchema,
+  update_line: lineUpdateSchema,
+  delete_objects: z.object({
+    line_ids: idListSchema,
+    image_ids: idListSchema,
+    shape_ids: idListSchema.optional(),
+    text_ids: idListSchema.optional()
+  }),
+  add_shape: z.object({ shape: shapeSchema, stroke_id: z.string().optional() }),
+  update_shape: shapeUpdateSchema,
+  add_text: z.object({ text: textSchema }),
+  update_text: textUpdateSchema,
+  set_background: z.object({ background: z.enum(['none', 'grid', 'dot', 'lined', 'graph']) }),
+  group_objects: objectIdListsSchema.extend({ group_id: z.string().min(1) }),
+  ungroup_objects: objectIdListsSchema,
+  update_objects: z.object({
+    line_updates: z.array(lineUpdateSchema).optional(),
+    image_updates: z.array(imageUpdateSchema).optional(),
+    shape_updates: z.array(shapeUpdateSchema).optional(),
+    text_updates: z.array(textUpdateSchema).optional()
+  }),
+  reorder_objects: z.object({
+    z_indexes: z.array(z.object({
+      id: z.string().min(1),
+      type: z.enum(['line', 'image', 'shape', 'text']),
+      z_index: finiteNumber
+    }))
+  }),
+  undo: changeSetSchema,
+  redo: changeSetSchema
+};
+
+export interface QuarantinedOperation {
+  operation: unknown;
+  reason: string;
+  quarantinedAt: number;
+}
+
+const quarantine: QuarantinedOperation[] = [];
+
+const isOperationType = (value: unknown): value is OperationType =>
+  typeof value === 'string' && value in operationDataSchemas;
+
+/**
+ * Check an incoming operation against the schema of its operation type
+ * @returns The reason the operation is invalid, or null when it can be applied
+ */
+export const getOperationValidationError = (operation: unknown): string | null => {
+  if (!operation || typeof operation !== 'object') {
+    return 'Operation is not an object';
+  }
+
+  const { id, operation_type, whiteboard_id, data } = operation as Partial<WhiteboardOperation>;
+
+  if (!isOperationType(operation_type)) {
+    return `Unknown operation type: ${String(operation_type)}`;
+  }
+
+  if (typeof whiteboard_id !== 'string' || !whiteboard_id) {
+    return 'Missing whiteboard ID';
+  }
+
+  if (id !== undefined && (typeof id !== 'string' || !id)) {
+    return 'Invalid operation ID';
+  }
+
+  const result = operationDataSchemas[operation_type].safeParse(data);
+  if (result.success) return null;
+
+  return result.error.issues
+    .map(issue => `${issue.path.join('.') || 'data'}: ${issue.message}`)
+    .join('; ');
+};
+
+/**
+ * Keep a rejected operation out of the board and report it in the debug logs
+ */
+export const quarantineOperation = (operation: unknown, reason: string): void => {
+  quarantine.push({ operation, reason, quarantinedAt: Date.now() });
+  if (quarantine.length > QUARANTINE_LIMIT) {
+    quarantine.shift();
+  }
+
+  const { operation_type, sender_id } = (operation || {}) as Partial<WhiteboardOperation>;
+  logWarning('OperationValidation', `Quarantined ${String(operation_type)} operation from ${String(sender_id)}: ${reason}`, operation);
+};
+
+/**
+ * Validate an incoming operation, quarantining it when it is malformed
+ * @returns Whether the operation can be applied
+ */
+export const validateOperation = (operation: unknown): operation is WhiteboardOperation => {
+  const error = getOperationValidationError(operation);
+  if (!error) return true;
+
+  quarantineOperation(operation, error);
+  return false;
+};
+
+// Coordinate pairs, as streamed by live broadcasts
+const pointListSchema = z.array(finiteNumber).refine(points => points.length % 2 === 0, 'Odd number of coordinates');
+
+const strokeEventSchema = z.object({
+  stroke_id: z.string().min(1),
+  sender_id: z.string(),
+  tool: lineSchema.shape.tool,
+  color: z.string(),
+  strokeWidth: finiteNumber.nonnegative(),
+  from_index: z.number().int().nonnegative().refine(index => index % 2 === 0, 'Index inside a coordinate pair'),
+  points: pointListSchema,
+  pressures: z.array(finiteNumber).optional(),
+  is_final: z.boolean()
+});
+
+const laserEventSchema = z.object({
+  trail_id: z.string().min(1),
+  sender_id: z.string(),
+  points: pointListSchema,
+  is_final: z.boolean()
+});
+
+/**
+ * Check a live stroke broadcast from another client before it is drawn
+ * @returns Whether the event can be used
+ */
+export const validateStrokeEvent = (event: unknown): event is StrokeStreamEvent => {
+  const result = strokeEventSchema.safeParse(event);
+  if (result.success) return true;
+
+  logWarning('OperationValidation', `Ignored malformed stroke event: ${result.error.issues.map(issue => issue.message).join('; ')}`, event);
+  return false;
+};
+
+/**
+ * Check a laser pointer broadcast from another client before it is drawn
+ * @returns Whether the event can be used
+ */
+export const validateLaserEvent = (event: unknown): event is LaserPointerEvent => {
+  const result = laserEventSchema.safeParse(event);
+  if (result.success) return true;
+
+  logWarning('OperationValidation', `Ignored malformed laser event: ${result.error.issues.map(issue => issue.message).join('; ')}`, event);
+  return false;
+};
+
+/**
+ * Operations rejected since the page loaded, for debugging
+ */
+export const getQuarantinedOperations = (): QuarantinedOperation[] => [...quarantine];
@@ -1,11 +1,74 @@
 
-import { WhiteboardOperation, SyncConfig } from '@/types/sync';
-import { RealtimeChannel } from '@supabase/supabase-js';
+import { WhiteboardOperation, SyncConfig, StrokeStreamEvent, LaserPointerEvent, CursorPresence } from '@/types/sync';
 
 export type OperationHandler = (operation: WhiteboardOperation) => void;
 
+export type StrokeHandler = (event: StrokeStreamEvent) => void;
+
+export type LaserHandler = (event: LaserPointerEvent) => void;
+
+export type PresenceHandler = (cursors: CursorPresence[]) => void;
+
+// Reloads a board from persistence when live sync has lost operations it cannot fetch
+export type ResyncHandler = () => void;
+
+// Row shape shared by realtime inserts and public_get_whiteboard_operations
+export interface OperationRow {
+  id?: string;
+  created_at: string;
+  board_id: string;
+  action_type: string;
+  object_data: unknown;
+  user_id: string | null;
+  seq?: number | null; // Per-board sequence stamped on insert, absent on backends without one
+  operation_id?: string | null; // Client-generated operation ID, absent on rows stored before it existed
+}
+
+// Where to resume fetching operations: after a sequence number, or after a point in time
+export interface OperationCursor {
+  afterSeq?: number;
+  since?: string;
+}
+
+export interface OperationPayload {
+  new: OperationRow;
+}
+
+/**
+ * Callbacks a transport invokes for events on a whiteboard channel
+ */
+export interface TransportChannelHandlers {
+  onOperation: (payload: OperationPayload) => void; // Stored operation, including our own
+  onStroke: (event: StrokeStreamEvent) => void; // Live stroke broadcast from another client
+  onLaser: (event: LaserPointerEvent) => void; // Laser pointer trail broadcast from another client
+  onPresenceSync: () => void; // Presence state changed, read it with getPresence()
+  onStatus: (status: string) => void; // 'SUBSCRIBED', 'CLOSED', 'CHANNEL_ERROR' or 'TIMED_OUT'
+}
+
+/**
+ * A subscribed whiteboard channel of a transport
+ */
+export interface TransportChannel {
+  readonly isJoined: boolean;
+  broadcastStroke(event: StrokeStreamEvent): Promise<void>;
+  broadcastLaser(event: LaserPointerEvent): Promise<void>;
+  trackPresence(cursor: CursorPresence | null): Promise<void>;
+  getPresence(): CursorPresence[];
+  close(): void;
+}
+
+/**
+ * Backend used by the sync layer to store, fetch and exchange whiteboard operations
+ */
+export interface SyncTransport {
+  readonly name: string;
+  openChannel(whiteboardId: string, handlers: TransportChannelHandlers): TransportChannel;
+  saveOperation(operation: WhiteboardOperation, sessionId: string): Promise<void>;
+  fetchOperations(whiteboardId: string, sessionId: string, cursor: OperationCursor, limit: number): Promise<OperationRow[]>;
+}
+
 export interface ConnectionInfo {
-  channel: RealtimeChannel;
+  channel: TransportChannel;
   config: SyncConfig;
   handlers: Set<OperationHandler>;
   isConnected: boolean;
@@ -0,0 +1,104 @@
+import Konva from 'konva';
+import { TextObject } from '@/types/whiteboard';
+
+/**
+ * @fileoverview Geometry helpers for text boxes
+ * @description A text box is wrapped to its width, so its height is measured from the text.
+ * Like images and shapes it rotates around its centre.
+ */
+
+// Font shared by the renderer, the in-place editor and measurement
+export const TEXT_FONT_FAMILY = 'Arial, sans-serif';
+export const TEXT_LINE_HEIGHT = 1.2;
+
+// Width of a text box created by a single click
+export const DEFAULT_TEXT_WIDTH = 240;
+
+// Narrowest a text box can be resized to
+export const MIN_TEXT_WIDTH = 20;
+
+// Offscreen node reused for measuring wrapped text
+let measureNode: Konva.Text | null = null;
+
+/**
+ * Height of the wrapped text, at least one line so empty boxes can still be hit
+ */
+export const getTextHeight = (text: Pick<TextObject, 'text' | 'width' | 'fontSize'>): number => {
+  const minHeight = text.fontSize * TEXT_LINE_HEIGHT;
+  if (!text.text) return minHeight;
+
+  if (!measureNode) {
+    measureNode = new Konva.Text({ fontFamily: TEXT_FONT_FAMILY, lineHeight: TEXT_LINE_HEIGHT, wrap: 'word' });
+  }
+  measureNode.setAttrs({ text: text.text, width: text.width, fontSize: text.fontSize });
+
+  return Math.max(minHeight, measureNode.height());
+};
+
+/**
+ * Centre of the text box, the pivot of its rotation
+ */
+export const getTextCenter = (text: TextObject) => ({
+  x: text.x + text.width / 2,
+  y: text.y + getTextHeight(text) / 2
+});
+
+/**
+ * Corners of the rotated text box in whiteboard coordinates
+ */
+export const getTextCorners = (text: TextObject) => {
+  const height = getTextHeight(text);
+  const rotation = text.rotation || 0;
+  const corners = [
+    { x: text.x, y: text.y },
+    { x: text.x + text.width, y: text.y },
+    { x: text.x + text.width, y: text.y + height },
+    { x: text.x, y: text.y + height }
+  ];
+  if (rotation === 0) return corners;
+
+  const center = { x: text.x + text.width / 2, y: text.y + height / 2 };
+  const rad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(rad);
+  const sin = Math.sin(rad);
+
+  return corners.map(corner => ({
+    x: center.x + (corner.x - center.x) * cos - (corner.y - center.y) * sin,
+    y: center.y + (corner.x - center.x) * sin + (corner.y - center.y) * cos
+  }));
+};
+
+/**
+ * Axis-aligned bounds of the text box
+ */
+export const getTextBounds = (text: TextObject) => {
+  const corners = getTextCorners(text);
+  const xs = corners.map(corner => corner.x);
+  const ys = corners.map(corner => corner.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+
+  return {
+    x: minX,
+    y: minY,
+    width: Math.max(...xs) - minX,
+    height: Math.max(...ys) - minY
+  };
+};
+
+/**
+ * Whether a point falls inside the text box
+ */
+export const isPointOnText = (point: { x: number; y: number }, text: TextObject): boolean => {
+  const height = getTextHeight(text);
+  const center = { x: text.x + text.width / 2, y: text.y + height / 2 };
+
+  // Undo the rotation so the test runs against the unrotated box
+  const rad = (-(text.rotation || 0) * Math.PI) / 180;
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  const localX = dx * Math.cos(rad) - dy * Math.sin(rad);
+  const localY = dx * Math.sin(rad) + dy * Math.cos(rad);
+
+  return Math.abs(localX) <= text.width / 2 && Math.abs(localY) <= height / 2;
+};
@@ -0,0 +1,151 @@
+-- Snapshot-based board loading
+-- Boards are loaded from the newest snapshot plus only the operations recorded after it,
+-- and operations covered by a snapshot are compacted away.
+
+-- 1) Track which operations a snapshot covers
+ALTER TABLE public.whiteboard_snapshots
+  ADD COLUMN IF NOT EXISTS last_operation_at timestamptz,
+  ADD COLUMN IF NOT EXISTS operation_count integer NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS idx_whiteboard_snapshots_board_latest
+  ON public.whiteboard_snapshots (session_id, board_id, last_operation_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_whiteboard_data_board_created
+  ON public.whiteboard_data (session_id, board_id, created_at);
+
+-- 2) Fetch operations, optionally only those recorded after a snapshot
+DROP FUNCTION IF EXISTS public.public_get_whiteboard_operations(uuid, text, integer);
+
+CREATE OR REPLACE FUNCTION public.public_get_whiteboard_operations(
+  p_session_id uuid,
+  p_board_id text,
+  p_limit integer DEFAULT 5000,
+  p_since timestamptz DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  created_at timestamp with time zone,
+  board_id text,
+  action_type text,
+  object_data jsonb,
+  user_id text
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    w.id,
+    w.created_at,
+    w.board_id,
+    w.action_type,
+    w.object_data,
+    w.user_id
+  FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND (p_since IS NULL OR w.created_at > p_since)
+  ORDER BY w.created_at ASC
+  LIMIT p_limit;
+$function$;
+
+-- 3) Fetch the newest snapshot for a board
+CREATE OR REPLACE FUNCTION public.public_get_latest_whiteboard_snapshot(
+  p_session_id uuid,
+  p_board_id text
+)
+RETURNS TABLE(
+  id bigint,
+  created_at timestamp with time zone,
+  snapshot_data jsonb,
+  last_operation_at timestamp with time zone,
+  operation_count integer
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    s.id,
+    s.created_at,
+    s.snapshot_data,
+    s.last_operation_at,
+    s.operation_count
+  FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id
+  ORDER BY s.last_operation_at DESC NULLS LAST, s.id DESC
+  LIMIT 1;
+$function$;
+
+-- 4) Save a snapshot and compact the operations and snapshots it supersedes
+CREATE OR REPLACE FUNCTION public.public_save_whiteboard_snapshot(
+  p_session_id uuid,
+  p_board_id text,
+  p_snapshot_data jsonb,
+  p_last_operation_at timestamptz,
+  p_operation_count integer
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_session_status text;
+  v_latest_operation_at timestamptz;
+  v_snapshot_id bigint;
+BEGIN
+  -- Verify session exists and is active
+  SELECT s.status INTO v_session_status
+  FROM public.sessions s
+  WHERE s.id = p_session_id;
+
+  IF v_session_status IS NULL THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session_status != 'active' THEN
+    RAISE EXCEPTION 'Session is not active';
+  END IF;
+
+  -- Ignore snapshots that are older than the one already stored (concurrent writers)
+  SELECT MAX(s.last_operation_at) INTO v_latest_operation_at
+  FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id;
+
+  IF v_latest_operation_at IS NOT NULL AND v_latest_operation_at >= p_last_operation_at THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.whiteboard_snapshots (
+    session_id,
+    board_id,
+    snapshot_data,
+    last_operation_at,
+    operation_count
+  ) VALUES (
+    p_session_id,
+    p_board_id,
+    p_snapshot_data,
+    p_last_operation_at,
+    p_operation_count
+  )
+  RETURNING whiteboard_snapshots.id INTO v_snapshot_id;
+
+  -- Compact operations now folded into the snapshot
+  DELETE FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND w.created_at <= p_last_operation_at;
+
+  -- Keep only the newest snapshot per board
+  DELETE FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id
+    AND s.id != v_snapshot_id;
+
+  RETURN v_snapshot_id;
+END;
+$function$;
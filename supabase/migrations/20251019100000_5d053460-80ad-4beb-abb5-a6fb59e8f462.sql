@@ -0,0 +1,227 @@
+-- Server-assigned operation sequence
+-- Every operation gets a monotonic per-board sequence number on insert, so replay and
+-- live application follow the order the server stored them in rather than client clocks.
+
+-- 1) Per-board sequence counters
+CREATE TABLE IF NOT EXISTS public.whiteboard_board_sequences (
+  session_id uuid NOT NULL,
+  board_id text NOT NULL,
+  last_seq bigint NOT NULL DEFAULT 0,
+  PRIMARY KEY (session_id, board_id)
+);
+
+ALTER TABLE public.whiteboard_board_sequences ENABLE ROW LEVEL SECURITY;
+
+-- 2) Sequence column, backfilled in created_at order for existing operations
+ALTER TABLE public.whiteboard_data
+  ADD COLUMN IF NOT EXISTS seq bigint;
+
+UPDATE public.whiteboard_data w
+SET seq = ordered.rn
+FROM (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY session_id, board_id ORDER BY created_at, id) AS rn
+  FROM public.whiteboard_data
+) ordered
+WHERE w.id = ordered.id
+  AND w.seq IS NULL;
+
+INSERT INTO public.whiteboard_board_sequences (session_id, board_id, last_seq)
+SELECT session_id, board_id, MAX(seq)
+FROM public.whiteboard_data
+GROUP BY session_id, board_id
+ON CONFLICT (session_id, board_id) DO UPDATE
+  SET last_seq = GREATEST(whiteboard_board_sequences.last_seq, EXCLUDED.last_seq);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whiteboard_data_board_seq
+  ON public.whiteboard_data (session_id, board_id, seq);
+
+-- 3) Stamp the next sequence number on insert
+-- The counter row stays locked until the inserting transaction ends, so numbers are
+-- committed in order and a rolled back insert does not leave a gap
+CREATE OR REPLACE FUNCTION public.assign_whiteboard_operation_seq()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  INSERT INTO public.whiteboard_board_sequences AS s (session_id, board_id, last_seq)
+  VALUES (NEW.session_id, NEW.board_id, 1)
+  ON CONFLICT (session_id, board_id) DO UPDATE
+    SET last_seq = s.last_seq + 1
+  RETURNING s.last_seq INTO NEW.seq;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trg_assign_whiteboard_operation_seq ON public.whiteboard_data;
+
+CREATE TRIGGER trg_assign_whiteboard_operation_seq
+  BEFORE INSERT ON public.whiteboard_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_whiteboard_operation_seq();
+
+-- 4) Fetch operations in sequence order, optionally after a sequence number
+DROP FUNCTION IF EXISTS public.public_get_whiteboard_operations(uuid, text, integer, timestamptz);
+
+CREATE OR REPLACE FUNCTION public.public_get_whiteboard_operations(
+  p_session_id uuid,
+  p_board_id text,
+  p_limit integer DEFAULT 5000,
+  p_since timestamptz DEFAULT NULL,
+  p_after_seq bigint DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  created_at timestamp with time zone,
+  board_id text,
+  action_type text,
+  object_data jsonb,
+  user_id text,
+  seq bigint
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    w.id,
+    w.created_at,
+    w.board_id,
+    w.action_type,
+    w.object_data,
+    w.user_id,
+    w.seq
+  FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND (p_since IS NULL OR w.created_at > p_since)
+    AND (p_after_seq IS NULL OR w.seq > p_after_seq)
+  ORDER BY w.seq ASC, w.created_at ASC
+  LIMIT p_limit;
+$function$;
+
+-- 5) Snapshots record the last sequence number they cover
+ALTER TABLE public.whiteboard_snapshots
+  ADD COLUMN IF NOT EXISTS last_operation_seq bigint;
+
+DROP FUNCTION IF EXISTS public.public_get_latest_whiteboard_snapshot(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.public_get_latest_whiteboard_snapshot(
+  p_session_id uuid,
+  p_board_id text
+)
+RETURNS TABLE(
+  id bigint,
+  created_at timestamp with time zone,
+  snapshot_data jsonb,
+  last_operation_at timestamp with time zone,
+  operation_count integer,
+  last_operation_seq bigint
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    s.id,
+    s.created_at,
+    s.snapshot_data,
+    s.last_operation_at,
+    s.operation_count,
+    s.last_operation_seq
+  FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id
+  ORDER BY s.last_operation_seq DESC NULLS LAST, s.last_operation_at DESC NULLS LAST, s.id DESC
+  LIMIT 1;
+$function$;
+
+DROP FUNCTION IF EXISTS public.public_save_whiteboard_snapshot(uuid, text, jsonb, timestamptz, integer);
+
+CREATE OR REPLACE FUNCTION public.public_save_whiteboard_snapshot(
+  p_session_id uuid,
+  p_board_id text,
+  p_snapshot_data jsonb,
+  p_last_operation_at timestamptz,
+  p_operation_count integer,
+  p_last_operation_seq bigint DEFAULT NULL
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_session_status text;
+  v_latest_operation_at timestamptz;
+  v_latest_operation_seq bigint;
+  v_snapshot_id bigint;
+BEGIN
+  -- Verify session exists and is active
+  SELECT s.status INTO v_session_status
+  FROM public.sessions s
+  WHERE s.id = p_session_id;
+
+  IF v_session_status IS NULL THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session_status != 'active' THEN
+    RAISE EXCEPTION 'Session is not active';
+  END IF;
+
+  -- Ignore snapshots that are older than the one already stored (concurrent writers)
+  SELECT MAX(s.last_operation_at), MAX(s.last_operation_seq)
+  INTO v_latest_operation_at, v_latest_operation_seq
+  FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id;
+
+  IF p_last_operation_seq IS NOT NULL THEN
+    IF v_latest_operation_seq IS NOT NULL AND v_latest_operation_seq >= p_last_operation_seq THEN
+      RETURN NULL;
+    END IF;
+  ELSIF v_latest_operation_at IS NOT NULL AND v_latest_operation_at >= p_last_operation_at THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.whiteboard_snapshots (
+    session_id,
+    board_id,
+    snapshot_data,
+    last_operation_at,
+    operation_count,
+    last_operation_seq
+  ) VALUES (
+    p_session_id,
+    p_board_id,
+    p_snapshot_data,
+    p_last_operation_at,
+    p_operation_count,
+    p_last_operation_seq
+  )
+  RETURNING whiteboard_snapshots.id INTO v_snapshot_id;
+
+  -- Compact operations now folded into the snapshot, by sequence when known since
+  -- created_at order can differ from commit order
+  DELETE FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND (
+      (p_last_operation_seq IS NOT NULL AND w.seq <= p_last_operation_seq)
+      OR (p_last_operation_seq IS NULL AND w.created_at <= p_last_operation_at)
+    );
+
+  -- Keep only the newest snapshot per board
+  DELETE FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id
+    AND s.id != v_snapshot_id;
+
+  RETURN v_snapshot_id;
+END;
+$function$;
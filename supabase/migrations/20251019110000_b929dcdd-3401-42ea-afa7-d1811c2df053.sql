@@ -0,0 +1,139 @@
+-- Client-generated operation IDs
+-- Every operation carries a unique ID chosen by the sending client, so a retried or
+-- re-delivered operation is stored and applied only once.
+
+-- 1) Operation ID column, unique when set (older rows have none)
+ALTER TABLE public.whiteboard_data
+  ADD COLUMN IF NOT EXISTS operation_id text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_whiteboard_data_operation_id
+  ON public.whiteboard_data (operation_id)
+  WHERE operation_id IS NOT NULL;
+
+-- 2) Skip inserts of an operation that is already stored, before it takes a sequence number
+CREATE OR REPLACE FUNCTION public.assign_whiteboard_operation_seq()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.operation_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.whiteboard_data w WHERE w.operation_id = NEW.operation_id
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.whiteboard_board_sequences AS s (session_id, board_id, last_seq)
+  VALUES (NEW.session_id, NEW.board_id, 1)
+  ON CONFLICT (session_id, board_id) DO UPDATE
+    SET last_seq = s.last_seq + 1
+  RETURNING s.last_seq INTO NEW.seq;
+
+  RETURN NEW;
+END;
+$function$;
+
+-- 3) Save operations with their ID
+DROP FUNCTION IF EXISTS public.public_save_whiteboard_operation(uuid, text, text, jsonb, text);
+
+CREATE OR REPLACE FUNCTION public.public_save_whiteboard_operation(
+  p_session_id uuid,
+  p_board_id text,
+  p_action_type text,
+  p_object_data jsonb,
+  p_user_id text DEFAULT NULL::text,
+  p_operation_id text DEFAULT NULL::text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_session_status text;
+  v_object_id text;
+BEGIN
+  -- Verify session exists and is active
+  SELECT s.status INTO v_session_status
+  FROM public.sessions s
+  WHERE s.id = p_session_id;
+
+  IF v_session_status IS NULL THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session_status != 'active' THEN
+    RAISE EXCEPTION 'Session is not active';
+  END IF;
+
+  -- Generate object ID
+  v_object_id := p_action_type || '_' || extract(epoch from now())::bigint || '_' || floor(random() * 1000000)::text;
+
+  -- Insert whiteboard operation, a duplicate operation ID is skipped by the insert trigger
+  INSERT INTO public.whiteboard_data (
+    session_id,
+    board_id,
+    action_type,
+    object_data,
+    object_id,
+    user_id,
+    operation_id
+  ) VALUES (
+    p_session_id,
+    p_board_id,
+    p_action_type,
+    p_object_data,
+    v_object_id,
+    COALESCE(p_user_id, 'anonymous_student'),
+    p_operation_id
+  );
+
+  -- Update session activity
+  UPDATE public.sessions 
+  SET last_activity_at = NOW() 
+  WHERE id = p_session_id;
+END;
+$function$;
+
+-- 4) Return operation IDs with fetched operations
+DROP FUNCTION IF EXISTS public.public_get_whiteboard_operations(uuid, text, integer, timestamptz, bigint);
+
+CREATE OR REPLACE FUNCTION public.public_get_whiteboard_operations(
+  p_session_id uuid,
+  p_board_id text,
+  p_limit integer DEFAULT 5000,
+  p_since timestamptz DEFAULT NULL,
+  p_after_seq bigint DEFAULT NULL
+)
+RETURNS TABLE(
+  id uuid,
+  created_at timestamp with time zone,
+  board_id text,
+  action_type text,
+  object_data jsonb,
+  user_id text,
+  seq bigint,
+  operation_id text
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+  SELECT
+    w.id,
+    w.created_at,
+    w.board_id,
+    w.action_type,
+    w.object_data,
+    w.user_id,
+    w.seq,
+    w.operation_id
+  FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND (p_since IS NULL OR w.created_at > p_since)
+    AND (p_after_seq IS NULL OR w.seq > p_after_seq)
+  ORDER BY w.seq ASC, w.created_at ASC
+  LIMIT p_limit;
+$function$;
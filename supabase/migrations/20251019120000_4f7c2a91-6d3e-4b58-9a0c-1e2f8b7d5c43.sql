@@ -0,0 +1,34 @@
+-- Saved colour palettes
+-- Teachers keep named sets of colours on their profile and pick from them in any board's toolbar.
+
+CREATE TABLE IF NOT EXISTS public.saved_palettes (
+  id bigint GENERATED BY DEFAULT AS IDENTITY PRIMARY KEY,
+  teacher_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  palette_name text NOT NULL,
+  colors text[] NOT NULL DEFAULT '{}',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_palettes_teacher
+  ON public.saved_palettes (teacher_id, created_at);
+
+ALTER TABLE public.saved_palettes ENABLE ROW LEVEL SECURITY;
+
+-- Each teacher only sees and changes their own palettes
+CREATE POLICY "Teachers can view their own palettes"
+ON public.saved_palettes
+FOR SELECT
+TO authenticated
+USING (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can create their own palettes"
+ON public.saved_palettes
+FOR INSERT
+TO authenticated
+WITH CHECK (teacher_id = auth.uid());
+
+CREATE POLICY "Teachers can delete their own palettes"
+ON public.saved_palettes
+FOR DELETE
+TO authenticated
+USING (teacher_id = auth.uid());
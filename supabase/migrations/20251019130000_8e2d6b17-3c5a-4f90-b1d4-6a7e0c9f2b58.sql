@@ -0,0 +1,109 @@
+-- Teacher-only snapshot writes, compacted by sequence number
+-- Saving a snapshot deletes the operations it covers, so only the session's teacher may save one,
+-- and the covered operations are chosen by the sequence number the snapshot was built up to.
+-- created_at order can differ from commit order, so a created_at cut-off could delete late rows.
+
+DROP FUNCTION IF EXISTS public.public_save_whiteboard_snapshot(uuid, text, jsonb, timestamptz, integer, bigint);
+
+CREATE OR REPLACE FUNCTION public.public_save_whiteboard_snapshot(
+  p_session_id uuid,
+  p_board_id text,
+  p_snapshot_data jsonb,
+  p_last_operation_at timestamptz,
+  p_operation_count integer,
+  p_last_operation_seq bigint
+)
+RETURNS bigint
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_session_status text;
+  v_teacher_id uuid;
+  v_board_last_seq bigint;
+  v_latest_operation_seq bigint;
+  v_snapshot_id bigint;
+BEGIN
+  -- Verify session exists, is active and belongs to the caller
+  SELECT s.status, s.teacher_id INTO v_session_status, v_teacher_id
+  FROM public.sessions s
+  WHERE s.id = p_session_id;
+
+  IF v_session_status IS NULL THEN
+    RAISE EXCEPTION 'Session not found';
+  END IF;
+
+  IF v_session_status != 'active' THEN
+    RAISE EXCEPTION 'Session is not active';
+  END IF;
+
+  IF auth.uid() IS NULL OR v_teacher_id != auth.uid() THEN
+    RAISE EXCEPTION 'Only the session teacher can save snapshots';
+  END IF;
+
+  IF p_last_operation_seq IS NULL THEN
+    RAISE EXCEPTION 'Snapshot must record the last operation sequence it covers';
+  END IF;
+
+  IF jsonb_typeof(p_snapshot_data) != 'object'
+    OR jsonb_typeof(p_snapshot_data -> 'lines') != 'array'
+    OR jsonb_typeof(p_snapshot_data -> 'images') != 'array' THEN
+    RAISE EXCEPTION 'Invalid snapshot data';
+  END IF;
+
+  -- A snapshot cannot cover operations the board has not stored yet
+  SELECT b.last_seq INTO v_board_last_seq
+  FROM public.whiteboard_board_sequences b
+  WHERE b.session_id = p_session_id
+    AND b.board_id = p_board_id;
+
+  IF v_board_last_seq IS NULL OR p_last_operation_seq > v_board_last_seq THEN
+    RAISE EXCEPTION 'Snapshot covers operations that are not stored';
+  END IF;
+
+  -- Ignore snapshots that are older than the one already stored (concurrent writers)
+  SELECT MAX(s.last_operation_seq) INTO v_latest_operation_seq
+  FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id;
+
+  IF v_latest_operation_seq IS NOT NULL AND v_latest_operation_seq >= p_last_operation_seq THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.whiteboard_snapshots (
+    session_id,
+    board_id,
+    snapshot_data,
+    last_operation_at,
+    operation_count,
+    last_operation_seq
+  ) VALUES (
+    p_session_id,
+    p_board_id,
+    p_snapshot_data,
+    p_last_operation_at,
+    p_operation_count,
+    p_last_operation_seq
+  )
+  RETURNING whiteboard_snapshots.id INTO v_snapshot_id;
+
+  -- Compact operations now folded into the snapshot
+  DELETE FROM public.whiteboard_data w
+  WHERE w.session_id = p_session_id
+    AND w.board_id = p_board_id
+    AND w.seq <= p_last_operation_seq;
+
+  -- Keep only the newest snapshot per board
+  DELETE FROM public.whiteboard_snapshots s
+  WHERE s.session_id = p_session_id
+    AND s.board_id = p_board_id
+    AND s.id != v_snapshot_id;
+
+  RETURN v_snapshot_id;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.public_save_whiteboard_snapshot(uuid, text, jsonb, timestamptz, integer, bigint) FROM public, anon;
+GRANT EXECUTE ON FUNCTION public.public_save_whiteboard_snapshot(uuid, text, jsonb, timestamptz, integer, bigint) TO authenticated;
@@ -0,0 +1,48 @@
+-- Applied operation IDs kept apart from stored operations
+-- Snapshots delete the operations they compact, so the duplicate check cannot look them up in
+-- whiteboard_data: a retried operation whose original was compacted would be stored and applied again.
+
+-- 1) Every operation ID the board has stored, never compacted
+CREATE TABLE IF NOT EXISTS public.whiteboard_applied_operations (
+  operation_id text PRIMARY KEY,
+  session_id uuid NOT NULL,
+  board_id text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.whiteboard_applied_operations ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.whiteboard_applied_operations (operation_id, session_id, board_id, created_at)
+SELECT w.operation_id, w.session_id, w.board_id, COALESCE(w.created_at, now())
+FROM public.whiteboard_data w
+WHERE w.operation_id IS NOT NULL
+ON CONFLICT (operation_id) DO NOTHING;
+
+-- 2) Record the ID before the operation takes a sequence number, skip it if it was recorded already
+-- A concurrent insert of the same ID waits on the primary key, so only one of them is stored
+CREATE OR REPLACE FUNCTION public.assign_whiteboard_operation_seq()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.operation_id IS NOT NULL THEN
+    INSERT INTO public.whiteboard_applied_operations (operation_id, session_id, board_id)
+    VALUES (NEW.operation_id, NEW.session_id, NEW.board_id)
+    ON CONFLICT (operation_id) DO NOTHING;
+
+    IF NOT FOUND THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+
+  INSERT INTO public.whiteboard_board_sequences AS s (session_id, board_id, last_seq)
+  VALUES (NEW.session_id, NEW.board_id, 1)
+  ON CONFLICT (session_id, board_id) DO UPDATE
+    SET last_seq = s.last_seq + 1
+  RETURNING s.last_seq INTO NEW.seq;
+
+  RETURN NEW;
+END;
+$function$;
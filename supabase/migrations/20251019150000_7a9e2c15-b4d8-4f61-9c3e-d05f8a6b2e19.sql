@@ -0,0 +1,33 @@
+-- Teacher-only board background
+-- The background applies to every viewer of a board, so only the session's teacher may store a
+-- set_background operation. Hiding the control from students is not enough, any client can insert one.
+
+CREATE OR REPLACE FUNCTION public.authorize_whiteboard_operation()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_teacher_id uuid;
+BEGIN
+  IF NEW.action_type = 'set_background' THEN
+    SELECT s.teacher_id INTO v_teacher_id
+    FROM public.sessions s
+    WHERE s.id = NEW.session_id;
+
+    IF auth.uid() IS NULL OR v_teacher_id IS NULL OR v_teacher_id != auth.uid() THEN
+      RAISE EXCEPTION 'Only the session teacher can change the background';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS trg_authorize_whiteboard_operation ON public.whiteboard_data;
+
+CREATE TRIGGER trg_authorize_whiteboard_operation
+  BEFORE INSERT ON public.whiteboard_data
+  FOR EACH ROW
+  EXECUTE FUNCTION public.authorize_whiteboard_operation();